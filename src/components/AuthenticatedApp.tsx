@@ -4,6 +4,10 @@ import { useUser, SignedIn, SignedOut, RedirectToSignIn } from '@clerk/clerk-rea
 import { Header } from './layout/Header'
 import { QuickBooksConnection } from './quickbooks/QuickBooksConnection'
 import { ReportGenerationV2 } from './reports/ReportGenerationV2'
+import { AccountMappingEditor } from './quickbooks/AccountMappingEditor'
+import { CompanyProfileEditor } from './quickbooks/CompanyProfileEditor'
+import { ConsolidatedReport } from './reports/ConsolidatedReport'
+import { ScenarioPlanner } from './reports/ScenarioPlanner'
 import { useQBOServices } from '../lib/supabase-clerk'
 import { useQuickBooks } from '../hooks/useQuickBooks'
 import { useToast } from '../hooks/use-toast'
@@ -96,6 +100,18 @@ function Dashboard() {
               onReportGenerated={handleReportGenerated}
             />
           )}
+
+          {/* Chart-of-accounts overrides used when normalizing statements */}
+          {isQBConnected && <AccountMappingEditor />}
+
+          {/* Industry and size the CPA confirmed for benchmarks */}
+          {isQBConnected && <CompanyProfileEditor />}
+
+          {/* Driver-based projections saved for the monthly report */}
+          {isQBConnected && <ScenarioPlanner />}
+
+          {/* Group reporting across several connected companies */}
+          {isQBConnected && <ConsolidatedReport />}
         </div>
       </main>
     </div>
@@ -0,0 +1,280 @@
+import { useState, useEffect, useMemo } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card'
+import { Button } from '../ui/button'
+import { Badge } from '../ui/badge'
+import { Input } from '../ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select'
+import { ReloadIcon, MixerHorizontalIcon, ResetIcon } from '@radix-ui/react-icons'
+import { useToast } from '../../hooks/useToast'
+import { useQuickBooks } from '../../hooks/useQuickBooks'
+import { useQBOApiClient } from '../../services/quickbooks.service'
+import { ChartOfAccountsService } from '../../services/chartOfAccounts.service'
+import { useQBOServices } from '../../lib/supabase-clerk'
+import { STATEMENT_LINE_LABELS, statementLinesFor } from '../../lib/accountClassification'
+import { AccountMapping, ChartOfAccounts, ChartOfAccountsEntry, StatementLine } from '../../types/financial.types'
+import { logger } from '../../lib/logger'
+
+const componentLogger = logger.child('AccountMappingEditor')
+
+/** Select value for "no override"; Radix Select does not allow empty values */
+const DEFAULT_VALUE = 'default'
+
+export function AccountMappingEditor() {
+  const { toast } = useToast()
+  const { realmId } = useQuickBooks()
+  const qboClient = useQBOApiClient()
+  const { services, userId, saveAccountMapping, deleteAccountMapping } = useQBOServices()
+
+  const [chart, setChart] = useState<ChartOfAccounts | null>(null)
+  const [mappings, setMappings] = useState<AccountMapping[]>([])
+  const [isSyncing, setIsSyncing] = useState(false)
+  const [savingAccountId, setSavingAccountId] = useState<string | null>(null)
+  const [showInactive, setShowInactive] = useState(false)
+  const [search, setSearch] = useState('')
+
+  // Load saved mappings for the connected company
+  useEffect(() => {
+    if (!services || !userId || !realmId) return
+    services.accountMappings.getMappings(realmId)
+      .then(setMappings)
+      .catch(error => componentLogger.error('Failed to load account mappings', error))
+  }, [services, userId, realmId])
+
+  const mappingsById = useMemo(
+    () => new Map(mappings.map(mapping => [mapping.accountId, mapping])),
+    [mappings]
+  )
+
+  const resolvedLines = useMemo(
+    () => chart ? ChartOfAccountsService.resolveStatementLines(chart.accounts, mappings) : new Map<string, StatementLine | undefined>(),
+    [chart, mappings]
+  )
+
+  const visibleAccounts = useMemo(() => {
+    const term = search.trim().toLowerCase()
+    return (chart?.accounts || []).filter(account =>
+      (showInactive || account.active || mappingsById.has(account.id)) &&
+      (!term ||
+        account.fullyQualifiedName.toLowerCase().includes(term) ||
+        account.accountType.toLowerCase().includes(term))
+    )
+  }, [chart, showInactive, search, mappingsById])
+
+  const handleSync = async () => {
+    if (!qboClient || !realmId) {
+      toast({
+        title: 'No Connection',
+        description: 'QuickBooks connection required',
+        variant: 'destructive',
+      })
+      return
+    }
+
+    setIsSyncing(true)
+    try {
+      const synced = await ChartOfAccountsService.syncChartOfAccounts(qboClient, realmId)
+      setChart(synced)
+      componentLogger.info('Chart of accounts synced', { accounts: synced.accounts.length })
+    } catch (error) {
+      componentLogger.error('Chart of accounts sync failed', error)
+      toast({
+        title: 'Sync Failed',
+        description: error instanceof Error ? error.message : 'Failed to fetch the chart of accounts',
+        variant: 'destructive',
+      })
+    } finally {
+      setIsSyncing(false)
+    }
+  }
+
+  const handleLineChange = async (account: ChartOfAccountsEntry, value: string) => {
+    if (!realmId) return
+
+    setSavingAccountId(account.id)
+    try {
+      if (value === DEFAULT_VALUE) {
+        await deleteAccountMapping(realmId, account.id)
+        setMappings(current => current.filter(mapping => mapping.accountId !== account.id))
+      } else {
+        const mapping: AccountMapping = {
+          accountId: account.id,
+          statementLine: value as StatementLine,
+          note: mappingsById.get(account.id)?.note
+        }
+        await saveAccountMapping(realmId, mapping)
+        setMappings(current => [...current.filter(m => m.accountId !== account.id), mapping])
+      }
+    } catch (error) {
+      componentLogger.error('Failed to save account mapping', error)
+      toast({
+        title: 'Save Failed',
+        description: error instanceof Error ? error.message : 'Failed to save the account mapping',
+        variant: 'destructive',
+      })
+    } finally {
+      setSavingAccountId(null)
+    }
+  }
+
+  const handleNoteSave = async (account: ChartOfAccountsEntry, note: string) => {
+    const mapping = mappingsById.get(account.id)
+    if (!realmId || !mapping || (mapping.note || '') === note.trim()) return
+
+    const updated = { ...mapping, note: note.trim() || undefined }
+    try {
+      await saveAccountMapping(realmId, updated)
+      setMappings(current => current.map(m => m.accountId === account.id ? updated : m))
+    } catch (error) {
+      componentLogger.error('Failed to save mapping note', error)
+      toast({
+        title: 'Save Failed',
+        description: 'Failed to save the mapping note',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  const renderRow = (account: ChartOfAccountsEntry) => {
+    const mapping = mappingsById.get(account.id)
+    const resolved = resolvedLines.get(account.id)
+    const isInherited = !mapping && resolved !== account.defaultLine
+    const defaultLabel = account.defaultLine ? STATEMENT_LINE_LABELS[account.defaultLine] : 'Unclassified'
+
+    return (
+      <tr key={account.id} className={`border-b ${account.active ? '' : 'text-gray-400'}`}>
+        <td className="py-2 pr-4">
+          <div style={{ paddingLeft: `${account.depth * 1.25}rem` }}>
+            {account.name}
+            {!account.active && <Badge variant="outline" className="ml-2">Inactive</Badge>}
+          </div>
+        </td>
+        <td className="py-2 pr-4 text-sm text-gray-600">
+          {account.accountType}
+          {account.accountSubType && <span className="block text-xs">{account.accountSubType}</span>}
+        </td>
+        <td className="py-2 pr-4 w-64">
+          <Select
+            value={mapping?.statementLine || DEFAULT_VALUE}
+            onValueChange={value => handleLineChange(account, value)}
+            disabled={savingAccountId === account.id}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={DEFAULT_VALUE}>Default ({defaultLabel})</SelectItem>
+              {statementLinesFor({
+                AccountType: account.accountType,
+                AccountSubType: account.accountSubType,
+                Classification: account.classification
+              }).map(line => (
+                <SelectItem key={line} value={line}>
+                  {STATEMENT_LINE_LABELS[line]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {isInherited && resolved && (
+            <p className="text-xs text-gray-500 mt-1">
+              Follows parent: {STATEMENT_LINE_LABELS[resolved]}
+            </p>
+          )}
+        </td>
+        <td className="py-2">
+          {mapping && (
+            <div className="flex items-center gap-2">
+              <Input
+                key={`${account.id}-${mapping.note || ''}`}
+                defaultValue={mapping.note || ''}
+                placeholder="Reason for override"
+                onBlur={event => handleNoteSave(account, event.target.value)}
+              />
+              <Button
+                variant="ghost"
+                size="sm"
+                title="Reset to default"
+                onClick={() => handleLineChange(account, DEFAULT_VALUE)}
+                disabled={savingAccountId === account.id}
+              >
+                <ResetIcon />
+              </Button>
+            </div>
+          )}
+        </td>
+      </tr>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center">
+              <MixerHorizontalIcon className="mr-2" />
+              Chart of Accounts Mapping
+            </CardTitle>
+            <CardDescription>
+              Override how QuickBooks accounts roll up into the normalized financial statements
+            </CardDescription>
+          </div>
+          {mappings.length > 0 && (
+            <Badge variant="secondary">{mappings.length} override{mappings.length === 1 ? '' : 's'}</Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-4">
+            <Button onClick={handleSync} disabled={isSyncing || !qboClient} variant={chart ? 'outline' : 'default'}>
+              <ReloadIcon className={`mr-2 h-4 w-4 ${isSyncing ? 'animate-spin' : ''}`} />
+              {isSyncing ? 'Syncing...' : chart ? 'Resync Accounts' : 'Sync Chart of Accounts'}
+            </Button>
+            {chart && (
+              <>
+                <Input
+                  className="max-w-xs"
+                  placeholder="Search accounts"
+                  value={search}
+                  onChange={event => setSearch(event.target.value)}
+                />
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={showInactive}
+                    onChange={event => setShowInactive(event.target.checked)}
+                  />
+                  Show inactive accounts
+                </label>
+                <span className="text-xs text-gray-500">
+                  Synced {new Date(chart.syncedAt).toLocaleString()}
+                </span>
+              </>
+            )}
+          </div>
+
+          {chart && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-gray-600">
+                    <th className="py-2 pr-4 font-medium">Account</th>
+                    <th className="py-2 pr-4 font-medium">QuickBooks Type</th>
+                    <th className="py-2 pr-4 font-medium">Statement Line</th>
+                    <th className="py-2 font-medium">Note</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleAccounts.map(renderRow)}
+                </tbody>
+              </table>
+              {visibleAccounts.length === 0 && (
+                <p className="text-sm text-center text-gray-500 py-4">No accounts match</p>
+              )}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
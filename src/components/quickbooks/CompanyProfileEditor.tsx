@@ -0,0 +1,193 @@
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card'
+import { Button } from '../ui/button'
+import { Badge } from '../ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select'
+import { CheckIcon, IdCardIcon, ReloadIcon } from '@radix-ui/react-icons'
+import { useToast } from '../../hooks/useToast'
+import { useQuickBooks } from '../../hooks/useQuickBooks'
+import { useQBOApiClient } from '../../services/quickbooks.service'
+import { CompanyInferenceService, CompanyProfileInference } from '../../services/companyInference.service'
+import { useQBOServices } from '../../lib/supabase-clerk'
+import { COMPANY_SIZE_LABELS, INDUSTRY_LABELS, isCompanySize, isIndustry } from '../../lib/companyProfile'
+import { CompanyProfile, CompanySize, Industry } from '../../types/financial.types'
+import { logger } from '../../lib/logger'
+
+const componentLogger = logger.child('CompanyProfileEditor')
+
+export function CompanyProfileEditor() {
+  const { toast } = useToast()
+  const { realmId } = useQuickBooks()
+  const qboClient = useQBOApiClient()
+  const { services, userId, saveCompanyProfile } = useQBOServices()
+
+  const [profile, setProfile] = useState<CompanyProfile | null>(null)
+  const [inference, setInference] = useState<CompanyProfileInference | null>(null)
+  const [industry, setIndustry] = useState<Industry | undefined>()
+  const [size, setSize] = useState<CompanySize | undefined>()
+  const [isInferring, setIsInferring] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+
+  // Load the confirmed profile for the connected company
+  useEffect(() => {
+    if (!services || !userId || !realmId) return
+    services.companyProfiles.getProfile(realmId)
+      .then(saved => {
+        setProfile(saved)
+        setIndustry(saved?.industry)
+        setSize(saved?.size)
+      })
+      .catch(error => componentLogger.error('Failed to load company profile', error))
+  }, [services, userId, realmId])
+
+  const handleInfer = async () => {
+    if (!qboClient || !realmId) {
+      toast({
+        title: 'No Connection',
+        description: 'QuickBooks connection required',
+        variant: 'destructive',
+      })
+      return
+    }
+
+    setIsInferring(true)
+    try {
+      const inferred = await CompanyInferenceService.inferProfile(qboClient, realmId)
+      setInference(inferred)
+      // Suggestions never replace what the CPA already confirmed
+      if (!profile?.industry && inferred.industry) setIndustry(inferred.industry.industry)
+      if (!profile?.size && inferred.size) setSize(inferred.size.size)
+      componentLogger.info('Company profile inferred', {
+        industry: inferred.industry?.industry,
+        size: inferred.size?.size
+      })
+    } catch (error) {
+      componentLogger.error('Company profile inference failed', error)
+      toast({
+        title: 'Inference Failed',
+        description: error instanceof Error ? error.message : 'Failed to read the company from QuickBooks',
+        variant: 'destructive',
+      })
+    } finally {
+      setIsInferring(false)
+    }
+  }
+
+  const handleSave = async () => {
+    if (!realmId || !inference) return
+
+    setIsSaving(true)
+    try {
+      const saved = await saveCompanyProfile(realmId, inference.companyName, { industry, size })
+      if (!saved) throw new Error('Access denied for this QuickBooks company')
+      setProfile({ industry, size, confirmedBy: userId || undefined, confirmedAt: new Date().toISOString() })
+      toast({
+        title: 'Profile Confirmed',
+        description: 'Reports will use this industry and size',
+      })
+    } catch (error) {
+      componentLogger.error('Failed to save company profile', error)
+      toast({
+        title: 'Save Failed',
+        description: error instanceof Error ? error.message : 'Failed to save the company profile',
+        variant: 'destructive',
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const isConfirmed = Boolean(profile?.confirmedAt)
+  const isDirty = industry !== profile?.industry || size !== profile?.size
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center">
+              <IdCardIcon className="mr-2" />
+              Company Profile
+            </CardTitle>
+            <CardDescription>
+              Industry and size used for benchmarks and report commentary
+            </CardDescription>
+          </div>
+          {isConfirmed
+            ? <Badge variant="secondary">Confirmed</Badge>
+            : <Badge variant="outline">Not confirmed</Badge>}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          <Button onClick={handleInfer} disabled={isInferring || !qboClient} variant={inference ? 'outline' : 'default'}>
+            <ReloadIcon className={`mr-2 h-4 w-4 ${isInferring ? 'animate-spin' : ''}`} />
+            {isInferring ? 'Reading QuickBooks...' : inference ? 'Infer Again' : 'Infer from QuickBooks'}
+          </Button>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Industry</label>
+              <Select value={industry} onValueChange={value => isIndustry(value) && setIndustry(value)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select an industry" />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(INDUSTRY_LABELS) as Industry[]).map(key => (
+                    <SelectItem key={key} value={key}>{INDUSTRY_LABELS[key]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {inference && (
+                <p className="text-xs text-gray-500">
+                  {inference.industry
+                    ? `Inferred ${INDUSTRY_LABELS[inference.industry.industry]} (${inference.industry.confidence} confidence): ${inference.industry.evidence.join('; ')}`
+                    : 'QuickBooks has no industry setting and the accounts do not point to one'}
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Size</label>
+              <Select value={size} onValueChange={value => isCompanySize(value) && setSize(value)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a size band" />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(COMPANY_SIZE_LABELS) as CompanySize[]).map(key => (
+                    <SelectItem key={key} value={key}>{COMPANY_SIZE_LABELS[key]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {inference && (
+                <p className="text-xs text-gray-500">
+                  {inference.size
+                    ? `Inferred ${COMPANY_SIZE_LABELS[inference.size.size]}: ${inference.size.evidence.join('; ')}`
+                    : 'No P&L history to infer a size from'}
+                </p>
+              )}
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4">
+            <Button
+              onClick={handleSave}
+              disabled={isSaving || !inference || !industry || !size || (isConfirmed && !isDirty)}
+            >
+              <CheckIcon className="mr-2 h-4 w-4" />
+              {isSaving ? 'Saving...' : isConfirmed ? 'Save Override' : 'Confirm Profile'}
+            </Button>
+            <span className="text-xs text-gray-500">
+              {isConfirmed && profile?.confirmedAt
+                ? `Confirmed ${new Date(profile.confirmedAt).toLocaleString()}`
+                : 'Reports infer the industry and size until the profile is confirmed'}
+            </span>
+            {!inference && (
+              <span className="text-xs text-gray-500">Infer from QuickBooks before saving</span>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
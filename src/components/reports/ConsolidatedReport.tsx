@@ -0,0 +1,499 @@
+import { useState, useEffect, useMemo } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card'
+import { Button } from '../ui/button'
+import { Badge } from '../ui/badge'
+import { Input } from '../ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select'
+import { Cross2Icon, LayersIcon, PlusIcon, ReloadIcon, RocketIcon, TrashIcon } from '@radix-ui/react-icons'
+import { useToast } from '../../hooks/useToast'
+import { useQBOApiClient } from '../../services/quickbooks.service'
+import { ChartOfAccountsService } from '../../services/chartOfAccounts.service'
+import { ReportOrchestratorService } from '../../services/reportOrchestrator.service'
+import { QBOToken, useQBOServices } from '../../lib/supabase-clerk'
+import { STATEMENT_LINE_LABELS } from '../../lib/accountClassification'
+import {
+  AccountMapping,
+  ChartOfAccountsEntry,
+  ConsolidationGroup,
+  EliminationEntry,
+  ReportSection,
+  StatementLine
+} from '../../types/financial.types'
+import { logger } from '../../lib/logger'
+
+const componentLogger = logger.child('ConsolidatedReport')
+
+/** Select value for an unsaved group; Radix Select does not allow empty values */
+const NEW_GROUP = 'new'
+
+const STATEMENT_LINES = Object.keys(STATEMENT_LINE_LABELS) as StatementLine[]
+
+const emptyGroup = (): ConsolidationGroup => ({
+  name: '',
+  realmIds: [],
+  intercompanyAccounts: [],
+  eliminationEntries: []
+})
+
+interface RealmAccounts {
+  accounts: ChartOfAccountsEntry[]
+  lines: Map<string, StatementLine | undefined>
+  mappings: AccountMapping[]
+}
+
+/**
+ * Groups of connected companies reported as one: pick the companies, mark
+ * their intercompany accounts, add elimination entries and generate the
+ * consolidated report with each company's column next to the total.
+ */
+export function ConsolidatedReport() {
+  const { toast } = useToast()
+  const qboClient = useQBOApiClient()
+  const { services, userId, getAccountMappings, saveConsolidationGroup, deleteConsolidationGroup } = useQBOServices()
+
+  const [companies, setCompanies] = useState<Array<{ realmId: string; name: string }>>([])
+  const [groups, setGroups] = useState<ConsolidationGroup[]>([])
+  const [group, setGroup] = useState<ConsolidationGroup>(emptyGroup)
+  const [accountsByRealm, setAccountsByRealm] = useState<Record<string, RealmAccounts>>({})
+  const [loadingRealmId, setLoadingRealmId] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [isGenerating, setIsGenerating] = useState(false)
+  const [periodStart, setPeriodStart] = useState('')
+  const [periodEnd, setPeriodEnd] = useState('')
+  const [consolidationSection, setConsolidationSection] = useState<ReportSection | null>(null)
+
+  // Every connected company and the user's saved groups
+  useEffect(() => {
+    if (!services || !userId) return
+    services.tokens.getToken(userId)
+      .then(tokens => {
+        const list = (Array.isArray(tokens) ? tokens : tokens ? [tokens] : []) as QBOToken[]
+        setCompanies(list.map(token => ({ realmId: token.realm_id, name: token.company_name || token.realm_id })))
+      })
+      .catch(error => componentLogger.error('Failed to load connected companies', error))
+    services.consolidationGroups.getGroups()
+      .then(setGroups)
+      .catch(error => componentLogger.error('Failed to load consolidation groups', error))
+  }, [services, userId])
+
+  const companyName = (realmId: string) => companies.find(company => company.realmId === realmId)?.name || realmId
+
+  const intercompanyIds = useMemo(
+    () => new Set(group.intercompanyAccounts.map(account => `${account.realmId}:${account.accountId}`)),
+    [group.intercompanyAccounts]
+  )
+
+  const handleGroupSelect = (value: string) => {
+    setGroup(value === NEW_GROUP ? emptyGroup() : groups.find(g => g.id === value) || emptyGroup())
+    setConsolidationSection(null)
+  }
+
+  const toggleCompany = (realmId: string, checked: boolean) => {
+    setGroup(current => ({
+      ...current,
+      realmIds: checked ? [...current.realmIds, realmId] : current.realmIds.filter(id => id !== realmId),
+      // A company's intercompany accounts leave the group with it
+      intercompanyAccounts: checked
+        ? current.intercompanyAccounts
+        : current.intercompanyAccounts.filter(account => account.realmId !== realmId)
+    }))
+  }
+
+  const handleLoadAccounts = async (realmId: string) => {
+    if (!qboClient) return
+
+    setLoadingRealmId(realmId)
+    try {
+      const [chart, mappings] = await Promise.all([
+        ChartOfAccountsService.syncChartOfAccounts(qboClient, realmId),
+        getAccountMappings(realmId).catch(() => [] as AccountMapping[])
+      ])
+      setAccountsByRealm(current => ({
+        ...current,
+        [realmId]: {
+          accounts: chart.accounts.filter(account => account.active),
+          lines: ChartOfAccountsService.resolveStatementLines(chart.accounts, mappings),
+          mappings
+        }
+      }))
+    } catch (error) {
+      componentLogger.error('Chart of accounts sync failed', error)
+      toast({
+        title: 'Sync Failed',
+        description: error instanceof Error ? error.message : 'Failed to fetch the chart of accounts',
+        variant: 'destructive',
+      })
+    } finally {
+      setLoadingRealmId(null)
+    }
+  }
+
+  const toggleIntercompany = (realmId: string, account: ChartOfAccountsEntry, statementLine: StatementLine, checked: boolean) => {
+    setGroup(current => ({
+      ...current,
+      intercompanyAccounts: checked
+        ? [...current.intercompanyAccounts, {
+          realmId,
+          accountId: account.id,
+          accountName: account.fullyQualifiedName,
+          statementLine
+        }]
+        : current.intercompanyAccounts.filter(ic => !(ic.realmId === realmId && ic.accountId === account.id))
+    }))
+  }
+
+  const updateEntry = (id: string, update: (entry: EliminationEntry) => EliminationEntry) => {
+    setGroup(current => ({
+      ...current,
+      eliminationEntries: current.eliminationEntries.map(entry => entry.id === id ? update(entry) : entry)
+    }))
+  }
+
+  const addEntry = () => {
+    setGroup(current => ({
+      ...current,
+      eliminationEntries: [...current.eliminationEntries, {
+        id: crypto.randomUUID(),
+        description: '',
+        lines: [{ statementLine: 'otherNonCurrentAssets', amount: 0 }, { statementLine: 'commonStock', amount: 0 }]
+      }]
+    }))
+  }
+
+  const removeEntry = (id: string) => {
+    setGroup(current => ({
+      ...current,
+      eliminationEntries: current.eliminationEntries.filter(entry => entry.id !== id)
+    }))
+  }
+
+  const handleSave = async () => {
+    if (!group.name.trim() || group.realmIds.length < 2) {
+      toast({
+        title: 'Incomplete Group',
+        description: 'Name the group and select at least two companies',
+        variant: 'destructive',
+      })
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const id = await saveConsolidationGroup({ ...group, name: group.name.trim() })
+      if (!id) throw new Error('You must be connected to every company in the group')
+      const saved = { ...group, id, name: group.name.trim() }
+      setGroup(saved)
+      setGroups(current => [...current.filter(g => g.id !== id), saved].sort((a, b) => a.name.localeCompare(b.name)))
+      toast({ title: 'Group Saved', description: saved.name, variant: 'success' })
+    } catch (error) {
+      componentLogger.error('Failed to save consolidation group', error)
+      toast({
+        title: 'Save Failed',
+        description: error instanceof Error ? error.message : 'Failed to save the group',
+        variant: 'destructive',
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!group.id) return
+    try {
+      await deleteConsolidationGroup(group.id)
+      setGroups(current => current.filter(g => g.id !== group.id))
+      setGroup(emptyGroup())
+    } catch (error) {
+      componentLogger.error('Failed to delete consolidation group', error)
+      toast({
+        title: 'Delete Failed',
+        description: 'Failed to delete the group',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  const handleGenerate = async () => {
+    if (!qboClient || group.realmIds.length < 2 || !periodStart || !periodEnd) {
+      toast({
+        title: 'Missing Details',
+        description: 'Select at least two companies and the report period',
+        variant: 'destructive',
+      })
+      return
+    }
+
+    setIsGenerating(true)
+    setConsolidationSection(null)
+    try {
+      // Each company's statements use its own saved account mappings
+      const mappings = await Promise.all(group.realmIds.map(realmId =>
+        accountsByRealm[realmId]?.mappings || getAccountMappings(realmId).catch(() => [] as AccountMapping[])
+      ))
+      const result = await ReportOrchestratorService.generateConsolidatedReport(
+        qboClient,
+        group,
+        { start: periodStart, end: periodEnd },
+        {
+          includePreviousPeriod: true,
+          accountMappingsByRealm: Object.fromEntries(group.realmIds.map((realmId, i) => [realmId, mappings[i]]))
+        }
+      )
+      setConsolidationSection(result.reportSections.find(section => section.id === 'consolidation') || null)
+    } catch (error) {
+      componentLogger.error('Consolidated report generation failed', error)
+      toast({
+        title: 'Generation Failed',
+        description: error instanceof Error ? error.message : 'Failed to generate the consolidated report',
+        variant: 'destructive',
+      })
+    } finally {
+      setIsGenerating(false)
+    }
+  }
+
+  const renderIntercompanyAccounts = (realmId: string) => {
+    const realmAccounts = accountsByRealm[realmId]
+    if (!realmAccounts) {
+      return (
+        <Button size="sm" variant="outline" onClick={() => handleLoadAccounts(realmId)} disabled={loadingRealmId === realmId || !qboClient}>
+          <ReloadIcon className={`mr-2 h-3 w-3 ${loadingRealmId === realmId ? 'animate-spin' : ''}`} />
+          Load accounts
+        </Button>
+      )
+    }
+
+    return (
+      <div className="max-h-48 overflow-y-auto border rounded-md p-2 space-y-1">
+        {realmAccounts.accounts.map(account => {
+          const line = realmAccounts.lines.get(account.id)
+          return (
+            <label key={account.id} className={`flex items-center gap-2 ${line ? '' : 'text-gray-400'}`}>
+              <input
+                type="checkbox"
+                checked={intercompanyIds.has(`${realmId}:${account.id}`)}
+                disabled={!line}
+                onChange={event => line && toggleIntercompany(realmId, account, line, event.target.checked)}
+              />
+              <span style={{ paddingLeft: `${account.depth}rem` }}>{account.name}</span>
+              <span className="ml-auto text-gray-500">{line ? STATEMENT_LINE_LABELS[line] : 'Unclassified'}</span>
+            </label>
+          )
+        })}
+      </div>
+    )
+  }
+
+  const renderEntry = (entry: EliminationEntry) => (
+    <div key={entry.id} className="border rounded-md p-3 space-y-2">
+      <div className="flex items-center gap-2">
+        <Input
+          placeholder="Description, e.g. Investment in subsidiary"
+          value={entry.description}
+          onChange={event => updateEntry(entry.id, current => ({ ...current, description: event.target.value }))}
+        />
+        <Button variant="ghost" size="sm" title="Remove entry" onClick={() => removeEntry(entry.id)}>
+          <TrashIcon />
+        </Button>
+      </div>
+      {entry.lines.map((line, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <Select
+            value={line.statementLine}
+            onValueChange={value => updateEntry(entry.id, current => ({
+              ...current,
+              lines: current.lines.map((l, i) => i === index ? { ...l, statementLine: value as StatementLine } : l)
+            }))}
+          >
+            <SelectTrigger className="w-64">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {STATEMENT_LINES.map(statementLine => (
+                <SelectItem key={statementLine} value={statementLine}>
+                  {STATEMENT_LINE_LABELS[statementLine]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            className="w-40"
+            value={line.amount}
+            onChange={event => updateEntry(entry.id, current => ({
+              ...current,
+              lines: current.lines.map((l, i) => i === index ? { ...l, amount: Number(event.target.value) } : l)
+            }))}
+          />
+          <Button
+            variant="ghost"
+            size="sm"
+            title="Remove line"
+            onClick={() => updateEntry(entry.id, current => ({ ...current, lines: current.lines.filter((_, i) => i !== index) }))}
+          >
+            <Cross2Icon />
+          </Button>
+        </div>
+      ))}
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => updateEntry(entry.id, current => ({
+          ...current,
+          lines: [...current.lines, { statementLine: 'otherCurrentLiabilities', amount: 0 }]
+        }))}
+      >
+        <PlusIcon className="mr-1" /> Add line
+      </Button>
+    </div>
+  )
+
+  const renderSchedule = () => {
+    const table = consolidationSection?.content.table
+    if (!consolidationSection || !table) return null
+
+    return (
+      <div className="space-y-2">
+        <h4 className="text-sm font-semibold text-gray-700">{consolidationSection.title}</h4>
+        {consolidationSection.content.summary && (
+          <p className="text-xs text-gray-600">{consolidationSection.content.summary}</p>
+        )}
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="border-b text-gray-600">
+                {table.headers.map((header, index) => (
+                  <th key={index} className={`py-1 pr-2 font-medium ${index === 0 ? 'text-left' : 'text-right'}`}>
+                    {header}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {table.rows.map((row, rowIndex) => (
+                <tr key={rowIndex} className="border-b">
+                  {row.map((cell, index) => (
+                    <td
+                      key={index}
+                      className={`py-1 pr-2 whitespace-nowrap ${index === 0 ? 'text-left' : 'text-right'} ${index === row.length - 1 ? 'font-semibold' : ''}`}
+                    >
+                      {cell}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {consolidationSection.content.insights?.map((insight, index) => (
+          <p key={index} className="text-xs text-amber-700">{insight}</p>
+        ))}
+      </div>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center">
+              <LayersIcon className="mr-2" />
+              Consolidated Report
+            </CardTitle>
+            <CardDescription>
+              Report several connected companies as one group, with intercompany balances eliminated
+            </CardDescription>
+          </div>
+          {group.realmIds.length > 0 && (
+            <Badge variant="secondary">{group.realmIds.length} compan{group.realmIds.length === 1 ? 'y' : 'ies'}</Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-6">
+          <div className="flex flex-wrap items-center gap-4">
+            <Select value={group.id || NEW_GROUP} onValueChange={handleGroupSelect}>
+              <SelectTrigger className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NEW_GROUP}>New group</SelectItem>
+                {groups.map(g => (
+                  <SelectItem key={g.id} value={g.id!}>{g.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              className="max-w-xs"
+              placeholder="Group name"
+              value={group.name}
+              onChange={event => setGroup(current => ({ ...current, name: event.target.value }))}
+            />
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? 'Saving...' : 'Save Group'}
+            </Button>
+            {group.id && (
+              <Button variant="ghost" onClick={handleDelete} title="Delete group">
+                <TrashIcon />
+              </Button>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            <h4 className="text-sm font-semibold text-gray-700">Companies and intercompany accounts</h4>
+            {companies.length < 2 && (
+              <p className="text-sm text-gray-500">Connect at least two QuickBooks companies to consolidate them</p>
+            )}
+            {companies.map(company => (
+              <div key={company.realmId} className="space-y-2 text-sm">
+                <label className="flex items-center gap-2 font-medium">
+                  <input
+                    type="checkbox"
+                    checked={group.realmIds.includes(company.realmId)}
+                    onChange={event => toggleCompany(company.realmId, event.target.checked)}
+                  />
+                  {company.name}
+                </label>
+                {group.realmIds.includes(company.realmId) && (
+                  <div className="pl-6 text-xs">{renderIntercompanyAccounts(company.realmId)}</div>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h4 className="text-sm font-semibold text-gray-700">Elimination entries</h4>
+              <Button variant="outline" size="sm" onClick={addEntry}>
+                <PlusIcon className="mr-1" /> Add entry
+              </Button>
+            </div>
+            <p className="text-xs text-gray-500">
+              Amounts are removed from each line in its normal balance for the report period
+            </p>
+            {group.eliminationEntries.map(renderEntry)}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4">
+            <Input type="date" className="w-44" value={periodStart} onChange={event => setPeriodStart(event.target.value)} />
+            <span className="text-sm text-gray-500">to</span>
+            <Input type="date" className="w-44" value={periodEnd} onChange={event => setPeriodEnd(event.target.value)} />
+            <Button onClick={handleGenerate} disabled={isGenerating || group.realmIds.length < 2}>
+              <RocketIcon className={`mr-2 h-4 w-4 ${isGenerating ? 'animate-pulse' : ''}`} />
+              {isGenerating ? 'Generating...' : 'Generate Consolidated Report'}
+            </Button>
+          </div>
+
+          {group.intercompanyAccounts.length > 0 && (
+            <p className="text-xs text-gray-500">
+              Eliminating: {group.intercompanyAccounts.map(account => `${companyName(account.realmId)} ${account.accountName}`).join(', ')}
+            </p>
+          )}
+
+          {renderSchedule()}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -19,10 +19,23 @@ import {
 } from '@radix-ui/react-icons'
 import { useToast } from '../../hooks/useToast'
 import { useQuickBooks } from '../../hooks/useQuickBooks'
+import { useQBOApiClient } from '../../services/quickbooks.service'
+import { useQBOServices } from '../../lib/supabase-clerk'
+import { DEFAULT_FISCAL_CALENDAR, FiscalCalendar, fiscalCalendarFromCompanyInfo } from '../../lib/fiscalPeriods'
+import { AccountMapping, AccountingMethod, CashForecast, CompanyProfile, Scenario, SegmentDimension, StatementSource, TransactionDrillDownTarget } from '../../types/financial.types'
+import { SEGMENT_DIMENSION_LABELS, buildSegmentComparisonTable } from '../../lib/segmentAnalysis'
+import { QBOReportError } from '../../lib/qboSchemas'
 import reportGenerationService, { MonthlyReportData, ReportGenerationResult } from '../../services/report-generation.service'
 import { logger } from '../../lib/logger'
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '../ui/dialog'
 import ReactMarkdown from 'react-markdown'
+import { ReportSectionDetails } from './ReportSectionDetails'
+import { TransactionDrillDownDialog } from './TransactionDrillDownDialog'
+import { currencyFormatOf, describeForeignExchange, formatMoney } from '../../lib/currency'
+import { BENCHMARK_STATUS_LABELS, benchmarkCitation, describeBenchmarks, formatBenchmarkValue } from '../../lib/industryBenchmarks'
+import { describeScenario } from '../../lib/scenarioModel'
+import { describeCashForecast } from '../../lib/cashForecast'
+import { CashForecastService } from '../../services/cashForecast.service'
 
 const componentLogger = logger.child('ReportGenerationV2')
 
@@ -38,6 +51,8 @@ export function ReportGenerationV2({ companyId, onReportGenerated }: ReportGener
     currentToken,
     realmId 
   } = useQuickBooks()
+  const qboClient = useQBOApiClient()
+  const { getAccountMappings, getCompanyProfile, getScenarios } = useQBOServices()
   
   // State management
   const [selectedMonth, setSelectedMonth] = useState('')
@@ -51,6 +66,13 @@ export function ReportGenerationV2({ companyId, onReportGenerated }: ReportGener
   const [pdfBlob, setPdfBlob] = useState<Blob | null>(null)
   const [showPdfViewer, setShowPdfViewer] = useState(false)
   const [generationProgress, setGenerationProgress] = useState(0)
+  const [fiscalCalendar, setFiscalCalendar] = useState<FiscalCalendar>(DEFAULT_FISCAL_CALENDAR)
+  const [accountingMethod, setAccountingMethod] = useState<AccountingMethod>('Accrual')
+  const [includeBasisReconciliation, setIncludeBasisReconciliation] = useState(false)
+  const [statementSource, setStatementSource] = useState<StatementSource>('reports')
+  const [includeScenarios, setIncludeScenarios] = useState(false)
+  const [reportMode, setReportMode] = useState<'company' | SegmentDimension>('company')
+  const [drillDownTarget, setDrillDownTarget] = useState<TransactionDrillDownTarget | null>(null)
 
   // Initialize with current month/year
   useEffect(() => {
@@ -59,6 +81,50 @@ export function ReportGenerationV2({ companyId, onReportGenerated }: ReportGener
     setSelectedYear(now.getFullYear().toString())
   }, [])
 
+  // Load the company's fiscal year start so periods follow its fiscal calendar
+  useEffect(() => {
+    if (!qboClient || !realmId) return
+    qboClient.getCompanyInfo(realmId)
+      .then(response => {
+        if (response.success && response.data) {
+          setFiscalCalendar(fiscalCalendarFromCompanyInfo(response.data))
+        }
+      })
+      .catch(error => componentLogger.warn('Could not load fiscal year settings, using calendar year', error))
+  }, [qboClient, realmId])
+
+  // Account mapping overrides are loaded per request so edits apply immediately
+  const loadAccountMappings = (mappingRealmId: string): Promise<AccountMapping[]> =>
+    getAccountMappings(mappingRealmId).catch(error => {
+      componentLogger.warn('Could not load account mappings, using QuickBooks account types', error)
+      return []
+    })
+
+  const loadCompanyProfile = (profileRealmId: string): Promise<CompanyProfile | undefined> =>
+    getCompanyProfile(profileRealmId)
+      .then(profile => profile || undefined)
+      .catch(error => {
+        componentLogger.warn('Could not load the company profile, inferring the industry', error)
+        return undefined
+      })
+
+  const loadScenarios = (scenarioRealmId: string): Promise<Scenario[] | undefined> =>
+    includeScenarios
+      ? getScenarios(scenarioRealmId).catch(error => {
+        componentLogger.warn('Could not load saved scenarios, generating the report without them', error)
+        return undefined
+      })
+      : Promise.resolve(undefined)
+
+  // The forecast starts today whichever month is reported
+  const loadCashForecast = (forecastRealmId: string): Promise<CashForecast | undefined> =>
+    qboClient
+      ? CashForecastService.buildForecast(qboClient, forecastRealmId).catch(error => {
+        componentLogger.warn('Could not build the cash forecast, generating the report without it', error)
+        return undefined
+      })
+      : Promise.resolve(undefined)
+
   // Generate month options
   const months = Array.from({ length: 12 }, (_, i) => ({
     value: (i + 1).toString(),
@@ -99,7 +165,16 @@ export function ReportGenerationV2({ companyId, onReportGenerated }: ReportGener
         month: parseInt(selectedMonth),
         year: parseInt(selectedYear),
         realmId: currentToken.realm_id,
-        token: currentToken.access_token
+        token: currentToken.access_token,
+        fiscalCalendar,
+        accountingMethod,
+        includeBasisReconciliation,
+        statementSource,
+        accountMappings: await loadAccountMappings(currentToken.realm_id),
+        segmentBy: reportMode === 'company' ? undefined : reportMode,
+        companyProfile: await loadCompanyProfile(currentToken.realm_id),
+        scenarios: await loadScenarios(currentToken.realm_id),
+        cashForecast: await loadCashForecast(currentToken.realm_id)
       })
       
       if (data) {
@@ -115,8 +190,10 @@ export function ReportGenerationV2({ companyId, onReportGenerated }: ReportGener
     } catch (error) {
       componentLogger.error('Failed to fetch preview data', error)
       toast({
-        title: 'Fetch Failed',
-        description: 'Failed to retrieve financial data from QuickBooks',
+        title: error instanceof QBOReportError ? 'Invalid QuickBooks Data' : 'Fetch Failed',
+        description: error instanceof QBOReportError
+          ? error.message
+          : 'Failed to retrieve financial data from QuickBooks',
         variant: 'destructive',
       })
     } finally {
@@ -157,7 +234,16 @@ export function ReportGenerationV2({ companyId, onReportGenerated }: ReportGener
         month: parseInt(selectedMonth),
         year: parseInt(selectedYear),
         realmId: currentToken.realm_id,
-        token: currentToken.access_token
+        token: currentToken.access_token,
+        fiscalCalendar,
+        accountingMethod,
+        includeBasisReconciliation,
+        statementSource,
+        accountMappings: await loadAccountMappings(currentToken.realm_id),
+        segmentBy: reportMode === 'company' ? undefined : reportMode,
+        companyProfile: await loadCompanyProfile(currentToken.realm_id),
+        scenarios: await loadScenarios(currentToken.realm_id),
+        cashForecast: await loadCashForecast(currentToken.realm_id)
       })
       
       clearInterval(progressInterval)
@@ -249,6 +335,8 @@ export function ReportGenerationV2({ companyId, onReportGenerated }: ReportGener
 
   const renderDataPreview = () => {
     if (!previewData) return null
+    const currencyFormat = currencyFormatOf(previewData.metadata)
+    const segmentTable = previewData.segments && buildSegmentComparisonTable(previewData.segments, currencyFormat)
 
     return (
       <div className="mt-4 p-4 bg-gray-50 rounded-lg">
@@ -307,16 +395,215 @@ export function ReportGenerationV2({ companyId, onReportGenerated }: ReportGener
                   {previewData.ap ? 'Available' : 'Missing'}
                 </Badge>
               </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">Sales by Customer:</span>
+                <Badge variant={previewData.customerSales ? "default" : "secondary"}>
+                  {previewData.customerSales ? 'Available' : 'Missing'}
+                </Badge>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">Sales by Product/Service:</span>
+                <Badge variant={previewData.itemSales ? "default" : "secondary"}>
+                  {previewData.itemSales ? 'Available' : 'Missing'}
+                </Badge>
+              </div>
             </div>
+            {previewData.customerConcentration && (
+              <div className="mt-3 pt-3 border-t border-gray-200">
+                <div className="flex items-center justify-between">
+                  <span className="text-gray-600">Customer Concentration:</span>
+                  <Badge variant={previewData.customerConcentration.risk === 'high' ? 'destructive' : 'outline'}>
+                    {previewData.customerConcentration.risk} risk
+                  </Badge>
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  Largest customer {previewData.customerConcentration.topShares.top1}% |
+                  Top 5 {previewData.customerConcentration.topShares.top5}% |
+                  HHI {previewData.customerConcentration.herfindahlIndex}
+                </p>
+                <div className="mt-2 space-y-1">
+                  {previewData.customerConcentration.topCustomers.slice(0, 5).map(customer => (
+                    <div key={customer.customerId || customer.customerName} className="flex items-center gap-2">
+                      <span className="w-32 truncate text-gray-600" title={customer.customerName}>
+                        {customer.customerName}
+                      </span>
+                      <div className="flex-1 bg-gray-200 rounded-full h-2">
+                        <div className="bg-blue-500 h-2 rounded-full" style={{ width: `${customer.share}%` }} />
+                      </div>
+                      <span className="w-12 text-right text-gray-600">{customer.share}%</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+            {previewData.productMix && previewData.productMix.lines.length > 0 && (
+              <div className="mt-3 pt-3 border-t border-gray-200">
+                <span className="text-gray-600">Top Products/Services:</span>
+                <div className="mt-2 space-y-1">
+                  {previewData.productMix.lines.slice(0, 5).map(line => (
+                    <div key={line.itemId || line.name} className="flex items-center gap-2">
+                      <span className="flex-1 truncate text-gray-600" title={line.name}>
+                        {line.name}
+                      </span>
+                      <span className="w-12 text-right text-gray-600">{line.share}%</span>
+                      <span className="w-20 text-right text-gray-500">
+                        {line.grossMarginPercent === null ? 'margin n/a' : `${line.grossMarginPercent}% GM`}
+                      </span>
+                      <span className="w-16 text-right text-gray-500">
+                        {line.growth === null ? '' : `${line.growth > 0 ? '+' : ''}${line.growth}%`}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+            {previewData.segments && segmentTable && (
+              <div className="mt-3 pt-3 border-t border-gray-200">
+                <span className="text-gray-600">Segment Comparison by {SEGMENT_DIMENSION_LABELS[previewData.segments.dimension]}:</span>
+                <div className="mt-2 overflow-x-auto">
+                  <table className="w-full">
+                    <thead>
+                      <tr className="border-b text-gray-600">
+                        {segmentTable.headers.map((header, index) => (
+                          <th key={header} className={`py-1 pr-2 font-medium ${index === 0 ? 'text-left' : 'text-right'}`}>
+                            {header}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {segmentTable.rows.map((row, rowIndex, rows) => (
+                        <tr key={rowIndex} className={rowIndex === rows.length - 1 ? 'font-semibold' : 'border-b'}>
+                          {row.map((cell, index) => (
+                            <td key={index} className={`py-1 pr-2 whitespace-nowrap ${index === 0 ? 'text-left' : 'text-right'}`}>
+                              {cell}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+            {previewData.foreignExchange && (
+              <div className="mt-3 pt-3 border-t border-gray-200">
+                <span className="text-gray-600">Foreign Exchange ({previewData.foreignExchange.homeCurrency}):</span>
+                <p className="text-xs text-gray-500 mt-1">
+                  {describeForeignExchange(previewData.foreignExchange, currencyFormat)}
+                </p>
+                <div className="mt-2 space-y-1">
+                  {previewData.foreignExchange.balances.slice(0, 5).map(balance => (
+                    <div key={balance.accountId} className="flex items-center gap-2">
+                      <span className="flex-1 truncate text-gray-600" title={balance.accountName}>
+                        {balance.accountName}
+                      </span>
+                      <span className="w-24 text-right text-gray-600">
+                        {balance.foreignBalance === null
+                          ? 'n/a'
+                          : formatMoney(balance.foreignBalance, { ...currencyFormat, currency: balance.currency })}
+                      </span>
+                      <span className="w-24 text-right text-gray-500">
+                        {balance.unrealizedGainLoss === null ? 'n/a' : formatMoney(balance.unrealizedGainLoss, currencyFormat)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+            {previewData.benchmarks && (
+              <div className="mt-3 pt-3 border-t border-gray-200">
+                <span className="text-gray-600">Industry Benchmarks:</span>
+                <p className="text-xs text-gray-500 mt-1">
+                  {describeBenchmarks(previewData.benchmarks)}
+                </p>
+                <div className="mt-2 space-y-1">
+                  {previewData.benchmarks.comparisons.map(comparison => (
+                    <div key={comparison.metric} className="flex items-center gap-2">
+                      <span className="flex-1 truncate text-gray-600">{comparison.name}</span>
+                      <span className="w-24 text-right text-gray-600">
+                        {formatBenchmarkValue(comparison.value, comparison.unit)}
+                      </span>
+                      <span className="w-24 text-right text-gray-500" title="Industry median">
+                        {formatBenchmarkValue(comparison.quartiles.median, comparison.unit)}
+                      </span>
+                      <span className="w-28 text-right text-gray-500">
+                        {comparison.status ? BENCHMARK_STATUS_LABELS[comparison.status] : 'Not calculated'}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-400 mt-1">{benchmarkCitation(previewData.benchmarks)}</p>
+              </div>
+            )}
+            {previewData.cashForecast && (
+              <div className="mt-3 pt-3 border-t border-gray-200">
+                <span className="text-gray-600">13-Week Cash Forecast:</span>
+                <p className="text-xs text-gray-500 mt-1">
+                  {describeCashForecast(previewData.cashForecast, currencyFormat)}
+                </p>
+                <div className="mt-2 space-y-1">
+                  {previewData.cashForecast.weeks.map(week => (
+                    <div key={week.week} className="flex items-center gap-2">
+                      <span className="flex-1 text-gray-600">Week {week.week} ({week.start})</span>
+                      <span className="w-24 text-right text-gray-500" title="Net cash flow">
+                        {formatMoney(week.netCashFlow, currencyFormat)}
+                      </span>
+                      <span className={`w-24 text-right ${week.closingCash < 0 ? 'text-red-600' : 'text-gray-600'}`}>
+                        {formatMoney(week.closingCash, currencyFormat)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+            {previewData.scenarios?.length ? (
+              <div className="mt-3 pt-3 border-t border-gray-200">
+                <span className="text-gray-600">Scenarios:</span>
+                <ul className="mt-1 space-y-1">
+                  {previewData.scenarios.map(scenario => (
+                    <li key={scenario.scenarioId || scenario.name} className="text-xs text-gray-500">
+                      {describeScenario(scenario, currencyFormatOf(previewData.metadata))}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ) : null}
             {previewData.metadata && (
               <div className="mt-3 pt-3 border-t border-gray-200">
                 <p className="text-xs text-gray-500">
                   Period: {previewData.metadata.month}/{previewData.metadata.year} | 
-                  Quarter: Q{previewData.metadata.quarter} |
+                  Fiscal Quarter: Q{previewData.metadata.quarter} FY{previewData.metadata.fiscalYear} |
+                  Basis: {previewData.metadata.accountingMethod}{previewData.metadata.statementSource === 'trialBalance' && ', statements from trial balance'} |
+                  Currency: {previewData.metadata.currency} |
                   Retrieved: {new Date(previewData.metadata.generatedAt).toLocaleTimeString()}
                 </p>
               </div>
             )}
+            {previewData.validation && previewData.validation.issues.length > 0 && (
+              <Alert className={previewData.validation.blocking ? 'border-red-500 bg-red-50 mt-3' : 'border-yellow-500 bg-yellow-50 mt-3'}>
+                <ExclamationTriangleIcon className="h-4 w-4" />
+                <AlertDescription>
+                  <p className="font-medium mb-1">
+                    {previewData.validation.blocking
+                      ? 'These statements failed integrity checks. Fix them in QuickBooks before generating a report.'
+                      : `Data quality: ${previewData.validation.dataQuality}. The report will note these warnings.`}
+                  </p>
+                  <ul className="list-disc pl-4 space-y-1">
+                    {previewData.validation.issues.map((issue, index) => (
+                      <li key={index} className={issue.severity === 'error' ? 'text-red-700' : 'text-yellow-800'}>
+                        {issue.message}
+                      </li>
+                    ))}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+            {previewData.statementDetail && (
+              <div className="mt-3">
+                <ReportSectionDetails section={previewData.statementDetail} onDrillDown={setDrillDownTarget} />
+              </div>
+            )}
           </div>
         ) : (
           <div className="max-h-60 overflow-auto">
@@ -382,6 +669,57 @@ export function ReportGenerationV2({ companyId, onReportGenerated }: ReportGener
                   </SelectContent>
                 </Select>
               </div>
+              <div>
+                <label className="text-sm font-medium mb-2 block">Accounting Basis</label>
+                <Select value={accountingMethod} onValueChange={value => setAccountingMethod(value as AccountingMethod)}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select basis" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="Accrual">Accrual</SelectItem>
+                    <SelectItem value="Cash">Cash</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <label className="text-sm font-medium mb-2 block">Report Mode</label>
+                <Select value={reportMode} onValueChange={value => setReportMode(value as 'company' | SegmentDimension)}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select mode" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="company">Whole company</SelectItem>
+                    <SelectItem value="Classes">By Class</SelectItem>
+                    <SelectItem value="Departments">By Location</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex flex-col justify-end gap-2 pb-2">
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={includeBasisReconciliation}
+                    onChange={event => setIncludeBasisReconciliation(event.target.checked)}
+                  />
+                  Include cash vs accrual reconciliation
+                </label>
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={statementSource === 'trialBalance'}
+                    onChange={event => setStatementSource(event.target.checked ? 'trialBalance' : 'reports')}
+                  />
+                  Build statements from the trial balance
+                </label>
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={includeScenarios}
+                    onChange={event => setIncludeScenarios(event.target.checked)}
+                  />
+                  Include saved scenarios
+                </label>
+              </div>
             </div>
 
             {/* Action Buttons */}
@@ -413,7 +751,7 @@ export function ReportGenerationV2({ companyId, onReportGenerated }: ReportGener
               {previewData && (
                 <Button 
                   onClick={handleGenerateReport}
-                  disabled={isGenerating}
+                  disabled={isGenerating || previewData.validation?.blocking}
                   className="w-full"
                   variant="outline"
                 >
@@ -535,6 +873,14 @@ export function ReportGenerationV2({ companyId, onReportGenerated }: ReportGener
           </div>
         </DialogContent>
       </Dialog>
+
+      {/* Transactions behind a statement line */}
+      <TransactionDrillDownDialog
+        target={drillDownTarget}
+        accountingMethod={previewData?.metadata?.accountingMethod}
+        currencyFormat={currencyFormatOf(previewData?.metadata)}
+        onClose={() => setDrillDownTarget(null)}
+      />
     </>
   )
 }
\ No newline at end of file
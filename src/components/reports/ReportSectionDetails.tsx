@@ -0,0 +1,64 @@
+import { useState } from 'react'
+import { ChevronDownIcon, ChevronRightIcon, MagnifyingGlassIcon } from '@radix-ui/react-icons'
+import { ReportSection, TransactionDrillDownTarget } from '../../types/financial.types'
+
+interface ReportSectionDetailsProps {
+  section: ReportSection
+  /** Called with the account whose transactions were asked for */
+  onDrillDown: (target: TransactionDrillDownTarget) => void
+}
+
+/**
+ * A report section's label/value details. Values backed by an account can
+ * be clicked to list the transactions that make them up.
+ */
+export function ReportSectionDetails({ section, onDrillDown }: ReportSectionDetailsProps) {
+  const [expanded, setExpanded] = useState(section.expanded)
+
+  const renderValue = (value: string | number, drillDown?: TransactionDrillDownTarget) =>
+    drillDown ? (
+      <button
+        type="button"
+        className="inline-flex items-center gap-1 text-blue-700 hover:underline"
+        title={`View ${drillDown.accountName} transactions`}
+        onClick={() => onDrillDown(drillDown)}
+      >
+        {value}
+        <MagnifyingGlassIcon className="h-3 w-3" />
+      </button>
+    ) : (
+      <span>{value}</span>
+    )
+
+  return (
+    <div className="border rounded-lg bg-white">
+      <button
+        type="button"
+        className="flex w-full items-center justify-between px-3 py-2 text-sm font-semibold text-gray-700"
+        onClick={() => setExpanded(!expanded)}
+      >
+        {section.title}
+        {expanded ? <ChevronDownIcon /> : <ChevronRightIcon />}
+      </button>
+      {expanded && (
+        <div className="px-3 pb-3 space-y-2 text-xs">
+          {section.content.summary && <p className="text-gray-600">{section.content.summary}</p>}
+          {section.content.details?.map((detail, index) => (
+            <div key={index}>
+              <div className="flex justify-between font-medium">
+                <span>{detail.label}</span>
+                {renderValue(detail.value, detail.drillDown)}
+              </div>
+              {detail.subItems?.map((item, itemIndex) => (
+                <div key={itemIndex} className="flex justify-between pl-4 text-gray-600">
+                  <span>{item.label}</span>
+                  {renderValue(item.value, item.drillDown)}
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,444 @@
+import { useState, useEffect, useMemo } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card'
+import { Button } from '../ui/button'
+import { Badge } from '../ui/badge'
+import { Input } from '../ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select'
+import { BarChartIcon, Cross2Icon, PlusIcon, ReloadIcon, TrashIcon } from '@radix-ui/react-icons'
+import { useToast } from '../../hooks/useToast'
+import { useQuickBooks } from '../../hooks/useQuickBooks'
+import { useQBOApiClient } from '../../services/quickbooks.service'
+import { ScenarioPlanningBaseline, ScenarioPlanningService } from '../../services/scenarioPlanning.service'
+import { useQBOServices } from '../../lib/supabase-clerk'
+import { projectScenario, scenarioCashTable, scenarioComparisonTable } from '../../lib/scenarioModel'
+import { AccountMapping, Scenario, ScenarioDrivers, TableContent } from '../../types/financial.types'
+import { logger } from '../../lib/logger'
+
+const componentLogger = logger.child('ScenarioPlanner')
+
+/** Select value for an unsaved scenario; Radix Select does not allow empty values */
+const NEW_SCENARIO = 'new'
+
+/** Single-value drivers and their input labels */
+const DRIVER_FIELDS: Array<{ key: Exclude<keyof ScenarioDrivers, 'operatingExpenses' | 'debtDraws'>; label: string }> = [
+  { key: 'revenueGrowthRate', label: 'Revenue growth (% per year)' },
+  { key: 'cogsPercent', label: 'COGS (% of revenue)' },
+  { key: 'dso', label: 'DSO (days)' },
+  { key: 'dpo', label: 'DPO (days)' },
+  { key: 'monthlyCapex', label: 'Capex per month' },
+  { key: 'capexUsefulLifeMonths', label: 'Capex useful life (months)' },
+  { key: 'interestRate', label: 'Interest rate (% per year)' },
+  { key: 'taxRate', label: 'Tax rate (%)' }
+]
+
+/**
+ * Driver-based scenarios for the connected company: start from the current
+ * run rates, adjust the drivers, save the scenario and compare the projected
+ * P&L, cash and balances of several scenarios side by side. Saved scenarios
+ * can be included in the monthly report.
+ */
+export function ScenarioPlanner() {
+  const { toast } = useToast()
+  const { realmId } = useQuickBooks()
+  const qboClient = useQBOApiClient()
+  const { services, userId, getAccountMappings, saveScenario, deleteScenario } = useQBOServices()
+
+  const [planning, setPlanning] = useState<ScenarioPlanningBaseline | null>(null)
+  const [scenarios, setScenarios] = useState<Scenario[]>([])
+  const [scenario, setScenario] = useState<Scenario | null>(null)
+  const [compareIds, setCompareIds] = useState<string[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+
+  // Saved scenarios for the connected company
+  useEffect(() => {
+    if (!services || !userId || !realmId) return
+    services.scenarios.getScenarios(realmId)
+      .then(saved => {
+        setScenarios(saved)
+        setCompareIds(saved.map(s => s.id!))
+      })
+      .catch(error => componentLogger.error('Failed to load scenarios', error))
+  }, [services, userId, realmId])
+
+  const newScenario = (from: ScenarioPlanningBaseline): Scenario => ({
+    name: '',
+    horizonMonths: 12,
+    drivers: from.baseline.drivers
+  })
+
+  const handleLoadBaseline = async () => {
+    if (!qboClient || !realmId) {
+      toast({
+        title: 'No Connection',
+        description: 'QuickBooks connection required',
+        variant: 'destructive',
+      })
+      return
+    }
+
+    setIsLoading(true)
+    try {
+      const mappings = await getAccountMappings(realmId).catch(() => [] as AccountMapping[])
+      const loaded = await ScenarioPlanningService.loadBaseline(qboClient, realmId, mappings)
+      setPlanning(loaded)
+      setScenario(current => current || newScenario(loaded))
+    } catch (error) {
+      componentLogger.error('Failed to load the scenario baseline', error)
+      toast({
+        title: 'Load Failed',
+        description: error instanceof Error ? error.message : 'Failed to read the statements from QuickBooks',
+        variant: 'destructive',
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleScenarioSelect = (value: string) => {
+    if (value === NEW_SCENARIO) {
+      setScenario(planning ? newScenario(planning) : null)
+    } else {
+      setScenario(scenarios.find(s => s.id === value) || null)
+    }
+  }
+
+  const updateDrivers = (update: (drivers: ScenarioDrivers) => ScenarioDrivers) => {
+    setScenario(current => current && { ...current, drivers: update(current.drivers) })
+  }
+
+  const handleSave = async () => {
+    if (!realmId || !scenario) return
+    if (!scenario.name.trim()) {
+      toast({
+        title: 'Incomplete Scenario',
+        description: 'Name the scenario before saving it',
+        variant: 'destructive',
+      })
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const id = await saveScenario(realmId, { ...scenario, name: scenario.name.trim() })
+      if (!id) throw new Error('Access denied for this QuickBooks company')
+      const saved = { ...scenario, id, name: scenario.name.trim() }
+      setScenario(saved)
+      setScenarios(current => [...current.filter(s => s.id !== id), saved].sort((a, b) => a.name.localeCompare(b.name)))
+      setCompareIds(current => current.includes(id) ? current : [...current, id])
+      toast({ title: 'Scenario Saved', description: saved.name, variant: 'success' })
+    } catch (error) {
+      componentLogger.error('Failed to save scenario', error)
+      toast({
+        title: 'Save Failed',
+        description: error instanceof Error ? error.message : 'Failed to save the scenario',
+        variant: 'destructive',
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!scenario?.id) return
+    try {
+      await deleteScenario(scenario.id)
+      setScenarios(current => current.filter(s => s.id !== scenario.id))
+      setCompareIds(current => current.filter(id => id !== scenario.id))
+      setScenario(planning ? newScenario(planning) : null)
+    } catch (error) {
+      componentLogger.error('Failed to delete scenario', error)
+      toast({
+        title: 'Delete Failed',
+        description: 'Failed to delete the scenario',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  // Saved scenarios picked for comparison, with unsaved edits to the open one
+  const projections = useMemo(() => {
+    if (!planning) return []
+    const compared = scenarios
+      .filter(s => compareIds.includes(s.id!))
+      .map(s => s.id === scenario?.id ? scenario! : s)
+    const draft = scenario && !scenario.id ? [{ ...scenario, name: scenario.name.trim() || 'Unsaved scenario' }] : []
+    return [...compared, ...draft].map(s => projectScenario(planning.baseline, s))
+  }, [planning, scenarios, compareIds, scenario])
+
+  const renderTable = (table: TableContent) => (
+    <div className="overflow-x-auto">
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="border-b text-gray-600">
+            {table.headers.map((header, index) => (
+              <th key={index} className={`py-1 pr-2 font-medium ${index === 0 ? 'text-left' : 'text-right'}`}>
+                {header}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {table.rows.map((row, rowIndex) => (
+            <tr key={rowIndex} className="border-b">
+              {row.map((cell, index) => (
+                <td key={index} className={`py-1 pr-2 whitespace-nowrap ${index === 0 ? 'text-left' : 'text-right'}`}>
+                  {cell}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+
+  const renderDrivers = (current: Scenario) => (
+    <div className="space-y-4">
+      <div className="grid gap-3 md:grid-cols-4">
+        {DRIVER_FIELDS.map(field => (
+          <label key={field.key} className="space-y-1 text-xs text-gray-600">
+            <span>{field.label}</span>
+            <Input
+              type="number"
+              value={current.drivers[field.key]}
+              onChange={event => updateDrivers(drivers => ({ ...drivers, [field.key]: Number(event.target.value) }))}
+            />
+          </label>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <h4 className="text-sm font-semibold text-gray-700">Operating expenses per month</h4>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => updateDrivers(drivers => ({
+              ...drivers,
+              operatingExpenses: [...drivers.operatingExpenses, { category: '', monthlyAmount: 0, annualGrowthRate: 0 }]
+            }))}
+          >
+            <PlusIcon className="mr-1" /> Add line
+          </Button>
+        </div>
+        <p className="text-xs text-gray-500">Excluding depreciation and interest, which follow capex and debt</p>
+        {current.drivers.operatingExpenses.map((line, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <Input
+              placeholder="Expense line"
+              value={line.category}
+              onChange={event => updateDrivers(drivers => ({
+                ...drivers,
+                operatingExpenses: drivers.operatingExpenses.map((l, i) => i === index ? { ...l, category: event.target.value } : l)
+              }))}
+            />
+            <Input
+              type="number"
+              className="w-36"
+              title="Amount per month"
+              value={line.monthlyAmount}
+              onChange={event => updateDrivers(drivers => ({
+                ...drivers,
+                operatingExpenses: drivers.operatingExpenses.map((l, i) => i === index ? { ...l, monthlyAmount: Number(event.target.value) } : l)
+              }))}
+            />
+            <Input
+              type="number"
+              className="w-28"
+              title="Growth (% per year)"
+              value={line.annualGrowthRate}
+              onChange={event => updateDrivers(drivers => ({
+                ...drivers,
+                operatingExpenses: drivers.operatingExpenses.map((l, i) => i === index ? { ...l, annualGrowthRate: Number(event.target.value) } : l)
+              }))}
+            />
+            <Button
+              variant="ghost"
+              size="sm"
+              title="Remove line"
+              onClick={() => updateDrivers(drivers => ({
+                ...drivers,
+                operatingExpenses: drivers.operatingExpenses.filter((_, i) => i !== index)
+              }))}
+            >
+              <Cross2Icon />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <h4 className="text-sm font-semibold text-gray-700">Debt draws and repayments</h4>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => updateDrivers(drivers => ({
+              ...drivers,
+              debtDraws: [...drivers.debtDraws, { month: 1, amount: 0 }]
+            }))}
+          >
+            <PlusIcon className="mr-1" /> Add draw
+          </Button>
+        </div>
+        <p className="text-xs text-gray-500">Negative amounts repay debt; months count from the first projected month</p>
+        {current.drivers.debtDraws.map((draw, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <span className="text-xs text-gray-600">Month</span>
+            <Input
+              type="number"
+              className="w-20"
+              min={1}
+              max={current.horizonMonths}
+              value={draw.month}
+              onChange={event => updateDrivers(drivers => ({
+                ...drivers,
+                debtDraws: drivers.debtDraws.map((d, i) => i === index ? { ...d, month: Number(event.target.value) } : d)
+              }))}
+            />
+            <Input
+              type="number"
+              className="w-40"
+              value={draw.amount}
+              onChange={event => updateDrivers(drivers => ({
+                ...drivers,
+                debtDraws: drivers.debtDraws.map((d, i) => i === index ? { ...d, amount: Number(event.target.value) } : d)
+              }))}
+            />
+            <Button
+              variant="ghost"
+              size="sm"
+              title="Remove draw"
+              onClick={() => updateDrivers(drivers => ({
+                ...drivers,
+                debtDraws: drivers.debtDraws.filter((_, i) => i !== index)
+              }))}
+            >
+              <Cross2Icon />
+            </Button>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center">
+              <BarChartIcon className="mr-2" />
+              Scenario Planning
+            </CardTitle>
+            <CardDescription>
+              Project the P&L, balance sheet and cash from your own driver assumptions
+            </CardDescription>
+          </div>
+          {scenarios.length > 0 && (
+            <Badge variant="secondary">{scenarios.length} saved</Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-6">
+          <div className="flex flex-wrap items-center gap-4">
+            <Button onClick={handleLoadBaseline} disabled={isLoading || !qboClient} variant={planning ? 'outline' : 'default'}>
+              <ReloadIcon className={`mr-2 h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+              {isLoading ? 'Reading QuickBooks...' : planning ? 'Reload Run Rates' : 'Load Current Run Rates'}
+            </Button>
+            {planning && (
+              <span className="text-xs text-gray-500">
+                Projections start after {planning.baseline.asOfDate}, from the last three months' run rates
+              </span>
+            )}
+          </div>
+
+          {planning && (
+            <div className="flex flex-wrap items-center gap-4">
+              <Select value={scenario?.id || NEW_SCENARIO} onValueChange={handleScenarioSelect}>
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NEW_SCENARIO}>New scenario</SelectItem>
+                  {scenarios.map(s => (
+                    <SelectItem key={s.id} value={s.id!}>{s.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                className="max-w-xs"
+                placeholder="Scenario name"
+                value={scenario?.name || ''}
+                onChange={event => setScenario(current => current && { ...current, name: event.target.value })}
+              />
+              <Select
+                value={String(scenario?.horizonMonths || 12)}
+                onValueChange={value => setScenario(current => current && { ...current, horizonMonths: value === '24' ? 24 : 12 })}
+              >
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="12">12 months</SelectItem>
+                  <SelectItem value="24">24 months</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button onClick={handleSave} disabled={isSaving || !scenario}>
+                {isSaving ? 'Saving...' : 'Save Scenario'}
+              </Button>
+              {scenario?.id && (
+                <Button variant="ghost" onClick={handleDelete} title="Delete scenario">
+                  <TrashIcon />
+                </Button>
+              )}
+            </div>
+          )}
+
+          {planning && scenario && renderDrivers(scenario)}
+
+          {planning && scenarios.length > 0 && (
+            <div className="space-y-2">
+              <h4 className="text-sm font-semibold text-gray-700">Compare</h4>
+              <div className="flex flex-wrap gap-4 text-sm">
+                {scenarios.map(s => (
+                  <label key={s.id} className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={compareIds.includes(s.id!)}
+                      onChange={event => setCompareIds(current => event.target.checked
+                        ? [...current, s.id!]
+                        : current.filter(id => id !== s.id))}
+                    />
+                    {s.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {projections.length > 0 && planning && (
+            <div className="space-y-4">
+              {renderTable(scenarioComparisonTable(projections, planning.currencyFormat))}
+              <h4 className="text-sm font-semibold text-gray-700">Month-end cash</h4>
+              {renderTable(scenarioCashTable(projections, planning.currencyFormat))}
+              {projections.some(projection => projection.minimumCash.amount < 0) && (
+                <p className="text-xs text-amber-700">
+                  Cash goes negative in {projections.filter(projection => projection.minimumCash.amount < 0).map(projection => projection.name).join(', ')}
+                </p>
+              )}
+            </div>
+          )}
+
+          {!planning && (
+            <p className="text-sm text-gray-500">
+              Load the current run rates to edit scenarios; saved scenarios can be included in the monthly report
+            </p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
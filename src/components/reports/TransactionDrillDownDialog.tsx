@@ -0,0 +1,182 @@
+import { useState, useEffect } from 'react'
+import { Button } from '../ui/button'
+import { Spinner } from '../ui/spinner'
+import { Alert, AlertDescription } from '../ui/alert'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '../ui/dialog'
+import { ChevronLeftIcon, ChevronRightIcon, DownloadIcon, ExclamationTriangleIcon } from '@radix-ui/react-icons'
+import { useToast } from '../../hooks/useToast'
+import { useQuickBooks } from '../../hooks/useQuickBooks'
+import { useQBOApiClient } from '../../services/quickbooks.service'
+import { TransactionDrillDownService } from '../../services/transactionDrillDown.service'
+import { AccountingMethod, CurrencyFormat, TransactionDrillDown, TransactionDrillDownTarget } from '../../types/financial.types'
+import { formatMoney } from '../../lib/currency'
+import { logger } from '../../lib/logger'
+
+const componentLogger = logger.child('TransactionDrillDown')
+
+interface TransactionDrillDownDialogProps {
+  /** The account to list; the dialog is closed while this is null */
+  target: TransactionDrillDownTarget | null
+  accountingMethod?: AccountingMethod
+  /** The company's currency and locale for amounts */
+  currencyFormat?: CurrencyFormat
+  onClose: () => void
+}
+
+export function TransactionDrillDownDialog({ target, accountingMethod, currencyFormat, onClose }: TransactionDrillDownDialogProps) {
+  const { toast } = useToast()
+  const { realmId } = useQuickBooks()
+  const qboClient = useQBOApiClient()
+
+  const [drillDown, setDrillDown] = useState<TransactionDrillDown | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [page, setPage] = useState(1)
+
+  useEffect(() => {
+    if (!target || !qboClient || !realmId) return
+
+    let cancelled = false
+    setDrillDown(null)
+    setError(null)
+    setPage(1)
+    setIsLoading(true)
+    TransactionDrillDownService.fetchTransactions(qboClient, realmId, target, accountingMethod)
+      .then(result => {
+        if (!cancelled) setDrillDown(result)
+      })
+      .catch(fetchError => {
+        componentLogger.error('Failed to load transactions', fetchError)
+        if (!cancelled) {
+          setError(fetchError instanceof Error ? fetchError.message : 'Failed to load transactions')
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    // A newer target replaces this request's results
+    return () => {
+      cancelled = true
+    }
+  }, [target, qboClient, realmId, accountingMethod])
+
+  const handleExport = () => {
+    if (!drillDown) return
+
+    const csv = TransactionDrillDownService.toCsv(drillDown)
+    const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }))
+    const element = document.createElement('a')
+    element.href = url
+    element.setAttribute('download', `transactions-${drillDown.target.accountName.replace(/[^\w-]+/g, '-')}-${drillDown.target.start}-${drillDown.target.end}.csv`)
+    document.body.appendChild(element)
+    element.click()
+    document.body.removeChild(element)
+    URL.revokeObjectURL(url)
+
+    toast({
+      title: 'Export Started',
+      description: `${drillDown.transactions.length} transactions exported`,
+    })
+  }
+
+  const current = drillDown && TransactionDrillDownService.paginate(drillDown.transactions, page)
+
+  return (
+    <Dialog open={!!target} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-5xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>{target?.accountName} Transactions</DialogTitle>
+          <DialogDescription>
+            {target?.start} to {target?.end}
+            {accountingMethod && ` | ${accountingMethod} basis`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading && (
+          <div className="flex items-center justify-center py-12">
+            <Spinner size="lg" />
+          </div>
+        )}
+
+        {error && (
+          <Alert className="border-red-500 bg-red-50">
+            <ExclamationTriangleIcon className="h-4 w-4" />
+            <AlertDescription className="text-red-800">{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {drillDown && current && (
+          <>
+            <div className="flex-1 overflow-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-gray-600">
+                    <th className="py-2 pr-4 font-medium">Date</th>
+                    <th className="py-2 pr-4 font-medium">Type</th>
+                    <th className="py-2 pr-4 font-medium">Name</th>
+                    <th className="py-2 pr-4 font-medium">Memo</th>
+                    <th className="py-2 font-medium text-right">Amount</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {current.transactions.map((txn, index) => (
+                    <tr key={`${txn.transactionId || index}-${index}`} className="border-b">
+                      <td className="py-2 pr-4 whitespace-nowrap">{txn.date}</td>
+                      <td className="py-2 pr-4">
+                        {txn.type}
+                        {txn.docNumber && <span className="text-gray-500"> #{txn.docNumber}</span>}
+                      </td>
+                      <td className="py-2 pr-4">{txn.name}</td>
+                      <td className="py-2 pr-4 text-gray-600">{txn.memo}</td>
+                      <td className="py-2 text-right whitespace-nowrap">{formatMoney(txn.amount, currencyFormat)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot>
+                  <tr className="font-semibold">
+                    <td className="py-2 pr-4" colSpan={4}>
+                      Total ({drillDown.transactions.length} transactions)
+                    </td>
+                    <td className="py-2 text-right whitespace-nowrap">{formatMoney(drillDown.total, currencyFormat)}</td>
+                  </tr>
+                </tfoot>
+              </table>
+              {drillDown.transactions.length === 0 && (
+                <p className="text-sm text-center text-gray-500 py-4">No transactions in this period</p>
+              )}
+            </div>
+
+            <div className="flex items-center justify-between pt-2">
+              <div className="flex items-center gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setPage(current.page - 1)}
+                  disabled={current.page <= 1}
+                >
+                  <ChevronLeftIcon />
+                </Button>
+                <span className="text-sm text-gray-600">
+                  Page {current.page} of {current.pageCount}
+                </span>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setPage(current.page + 1)}
+                  disabled={current.page >= current.pageCount}
+                >
+                  <ChevronRightIcon />
+                </Button>
+              </div>
+              <Button size="sm" onClick={handleExport} disabled={drillDown.transactions.length === 0}>
+                <DownloadIcon className="mr-2" />
+                Export CSV
+              </Button>
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,212 @@
+/**
+ * Chart-of-accounts classification
+ *
+ * Maps QBO AccountType / AccountSubType values onto the normalized statement
+ * lines used by BalanceSheetStatement and ProfitLossStatement. When the
+ * account list is not available the QBO balance sheet section group is used
+ * as a fallback. Saved account mappings take precedence over all of these.
+ */
+
+import {
+  AccountMapping,
+  BalanceSheetLine,
+  ProfitLossLine,
+  QBOAccount,
+  StatementLine
+} from '../types/financial.types';
+
+/**
+ * Display names for every normalized line, in statement order
+ */
+export const BALANCE_SHEET_LINE_LABELS: Record<BalanceSheetLine, string> = {
+  cash: 'Cash',
+  accountsReceivable: 'Accounts receivable',
+  inventory: 'Inventory',
+  otherCurrentAssets: 'Other current assets',
+  propertyPlantEquipment: 'Property, plant & equipment',
+  intangibleAssets: 'Intangible assets',
+  otherNonCurrentAssets: 'Other non-current assets',
+  accountsPayable: 'Accounts payable',
+  shortTermDebt: 'Short-term debt',
+  otherCurrentLiabilities: 'Other current liabilities',
+  longTermDebt: 'Long-term debt',
+  otherNonCurrentLiabilities: 'Other non-current liabilities',
+  commonStock: 'Common stock & paid-in capital',
+  retainedEarnings: 'Retained earnings',
+  otherEquity: 'Other equity'
+};
+
+export const PROFIT_LOSS_LINE_LABELS: Record<ProfitLossLine, string> = {
+  revenue: 'Revenue',
+  costOfGoodsSold: 'Cost of goods sold',
+  operatingExpenses: 'Operating expenses',
+  otherIncome: 'Other income',
+  otherExpenses: 'Other expenses',
+  taxExpense: 'Income tax expense'
+};
+
+export const STATEMENT_LINE_LABELS: Record<StatementLine, string> = {
+  ...BALANCE_SHEET_LINE_LABELS,
+  ...PROFIT_LOSS_LINE_LABELS
+};
+
+const PROFIT_LOSS_ACCOUNT_LINES: Record<string, ProfitLossLine> = {
+  'Income': 'revenue',
+  'Cost of Goods Sold': 'costOfGoodsSold',
+  'Expense': 'operatingExpenses',
+  'Other Income': 'otherIncome',
+  'Other Expense': 'otherExpenses'
+};
+
+const INTANGIBLE_SUBTYPES = new Set([
+  'IntangibleAssets',
+  'AccumulatedAmortization',
+  'Goodwill',
+  'Licenses',
+  'OrganizationalCosts',
+  'AccumulatedAmortizationOfOtherAssets'
+]);
+
+const SHORT_TERM_DEBT_SUBTYPES = new Set([
+  'LineOfCredit',
+  'LoanPayable'
+]);
+
+const OWNER_CAPITAL_SUBTYPES = new Set([
+  'CommonStock',
+  'PreferredStock',
+  'PaidInCapitalOrSurplus'
+]);
+
+/**
+ * QBO balance sheet section groups and the line their rows fall into
+ */
+const SECTION_GROUP_LINES: Record<string, BalanceSheetLine> = {
+  BankAccounts: 'cash',
+  AR: 'accountsReceivable',
+  OtherCurrentAssets: 'otherCurrentAssets',
+  FixedAssets: 'propertyPlantEquipment',
+  OtherAssets: 'otherNonCurrentAssets',
+  AP: 'accountsPayable',
+  CreditCards: 'shortTermDebt',
+  OtherCurrentLiabilities: 'otherCurrentLiabilities',
+  LongTermLiabilities: 'longTermDebt',
+  Equity: 'otherEquity'
+};
+
+const RETAINED_EARNINGS_PATTERN = /^(retained earnings|net income)$/i;
+
+/**
+ * Last-resort patterns for rows whose account is unknown, e.g. cash flow
+ * report lines when the account list could not be fetched
+ */
+const ACCOUNT_NAME_PATTERNS: Array<[RegExp, BalanceSheetLine]> = [
+  [/accounts receivable|\bA\/R\b/i, 'accountsReceivable'],
+  [/inventory/i, 'inventory'],
+  [/accounts payable|\bA\/P\b/i, 'accountsPayable'],
+  [/depreciation|amortization|fixed asset|equipment|vehicle|furniture|building|leasehold/i, 'propertyPlantEquipment'],
+  [/goodwill|intangible/i, 'intangibleAssets'],
+  [/line of credit|credit card/i, 'shortTermDebt'],
+  [/loan|notes? payable|mortgage|debt/i, 'longTermDebt'],
+  [/retained earnings/i, 'retainedEarnings'],
+  [/common stock|preferred stock|paid.in capital|capital stock/i, 'commonStock'],
+  [/equity|distribution|dividend|draw|contribution/i, 'otherEquity']
+];
+
+/**
+ * Classify a QBO account into a balance sheet line.
+ * Returns undefined for income statement accounts.
+ */
+export const classifyBalanceSheetAccount = (
+  account: Pick<QBOAccount, 'AccountType' | 'AccountSubType'>
+): BalanceSheetLine | undefined => {
+  const subType = account.AccountSubType || '';
+
+  switch (account.AccountType) {
+    case 'Bank':
+      return 'cash';
+    case 'Accounts Receivable':
+      return 'accountsReceivable';
+    case 'Other Current Asset':
+      return subType === 'Inventory' ? 'inventory' : 'otherCurrentAssets';
+    case 'Fixed Asset':
+      return INTANGIBLE_SUBTYPES.has(subType) ? 'intangibleAssets' : 'propertyPlantEquipment';
+    case 'Other Asset':
+      return INTANGIBLE_SUBTYPES.has(subType) ? 'intangibleAssets' : 'otherNonCurrentAssets';
+    case 'Accounts Payable':
+      return 'accountsPayable';
+    case 'Credit Card':
+      return 'shortTermDebt';
+    case 'Other Current Liability':
+      return SHORT_TERM_DEBT_SUBTYPES.has(subType) ? 'shortTermDebt' : 'otherCurrentLiabilities';
+    case 'Long Term Liability':
+      return subType === 'OtherLongTermLiabilities' ? 'otherNonCurrentLiabilities' : 'longTermDebt';
+    case 'Equity':
+      if (subType === 'RetainedEarnings') return 'retainedEarnings';
+      return OWNER_CAPITAL_SUBTYPES.has(subType) ? 'commonStock' : 'otherEquity';
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Fallback classification from the balance sheet section a row sits in
+ */
+export const classifyBySectionGroup = (
+  group: string | undefined,
+  label: string
+): BalanceSheetLine | undefined => {
+  if (!group) return undefined;
+  const line = SECTION_GROUP_LINES[group];
+  if (line === 'otherEquity' && RETAINED_EARNINGS_PATTERN.test(label.trim())) {
+    return 'retainedEarnings';
+  }
+  return line;
+};
+
+/**
+ * Classify a row by its account name alone
+ */
+export const classifyByAccountName = (label: string): BalanceSheetLine | undefined =>
+  ACCOUNT_NAME_PATTERNS.find(([pattern]) => pattern.test(label))?.[1];
+
+/**
+ * Classify a QBO account into an income statement line.
+ * Returns undefined for balance sheet accounts.
+ */
+export const classifyProfitLossAccount = (
+  account: Pick<QBOAccount, 'AccountType'>
+): ProfitLossLine | undefined => PROFIT_LOSS_ACCOUNT_LINES[account.AccountType];
+
+/**
+ * Line an account rolls up into when it has no saved mapping
+ */
+export const defaultStatementLine = (
+  account: Pick<QBOAccount, 'AccountType' | 'AccountSubType'>
+): StatementLine | undefined =>
+  classifyBalanceSheetAccount(account) || classifyProfitLossAccount(account);
+
+export const isBalanceSheetLine = (line: StatementLine): line is BalanceSheetLine =>
+  line in BALANCE_SHEET_LINE_LABELS;
+
+export const isProfitLossLine = (line: StatementLine): line is ProfitLossLine =>
+  line in PROFIT_LOSS_LINE_LABELS;
+
+/**
+ * Lines an account may be mapped onto: mappings can move an account within
+ * its statement but not across statements
+ */
+export const statementLinesFor = (
+  account: Pick<QBOAccount, 'AccountType' | 'AccountSubType' | 'Classification'>
+): StatementLine[] => {
+  const isIncomeStatement = account.Classification
+    ? account.Classification === 'Revenue' || account.Classification === 'Expense'
+    : Boolean(classifyProfitLossAccount(account));
+  return Object.keys(isIncomeStatement ? PROFIT_LOSS_LINE_LABELS : BALANCE_SHEET_LINE_LABELS) as StatementLine[];
+};
+
+/**
+ * Saved mappings keyed by account id, for lookups while normalizing reports
+ */
+export const indexAccountMappings = (mappings: AccountMapping[] = []): Map<string, StatementLine> =>
+  new Map(mappings.map(mapping => [mapping.accountId, mapping.statementLine]));
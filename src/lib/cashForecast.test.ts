@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { buildCashForecast, CashForecastInputs } from './cashForecast';
+import { QBOAccount, QBOOpenTransaction } from '../types/financial.types';
+
+const bank = (Id: string, CurrentBalance: number, currency?: string): QBOAccount => ({
+  Id,
+  Name: currency ? `${currency} Account` : 'Checking',
+  AccountType: 'Bank',
+  CurrentBalance,
+  ...(currency ? { CurrencyRef: { value: currency } } : {})
+});
+
+const invoice = (Id: string, DueDate: string, Balance: number, customerId?: string): QBOOpenTransaction => ({
+  Id,
+  TxnDate: '2026-06-01',
+  DueDate,
+  TotalAmt: Balance,
+  Balance,
+  ...(customerId ? { CustomerRef: { value: customerId } } : {})
+});
+
+// Monday, October 5, 2026: week 1 runs October 5-11
+const inputs = (overrides: Partial<CashForecastInputs> = {}): CashForecastInputs => ({
+  asOfDate: '2026-10-05',
+  homeCurrency: 'USD',
+  bankAccounts: [bank('1', 10000)],
+  openInvoices: [],
+  openBills: [],
+  recurring: { payroll: 0, rent: 0, months: 0 },
+  ...overrides
+});
+
+describe('buildCashForecast', () => {
+  it('buckets invoices and bills into the week they fall due, overdue ones into the first', () => {
+    const forecast = buildCashForecast(inputs({
+      openInvoices: [
+        invoice('1', '2026-10-11', 1000),
+        invoice('2', '2026-10-12', 2000),
+        invoice('3', '2026-08-01', 500),
+        invoice('4', '2027-02-01', 300)
+      ],
+      openBills: [invoice('5', '2026-10-18', 800)]
+    }));
+
+    expect(forecast.weeks).toHaveLength(13);
+    expect(forecast.weeks[0]).toMatchObject({ start: '2026-10-05', end: '2026-10-11', collections: 1500, closingCash: 11500 });
+    expect(forecast.weeks[1]).toMatchObject({ collections: 2000, billPayments: 800, netCashFlow: 1200, closingCash: 12700 });
+    expect(forecast.weeks[12]).toMatchObject({ start: '2026-12-28', end: '2027-01-03' });
+    expect(forecast.beyondHorizon).toEqual({ receivables: 300, payables: 0 });
+    expect(forecast.openReceivables).toBe(3800);
+  });
+
+  it('leaves invoices more than 90 days past due out as doubtful', () => {
+    const forecast = buildCashForecast(inputs({
+      openInvoices: [invoice('1', '2026-07-07', 400), invoice('2', '2026-07-06', 700)]
+    }));
+
+    expect(forecast.weeks[0].collections).toBe(400);
+    expect(forecast.doubtfulReceivables).toBe(700);
+  });
+
+  it('pays rent in the weeks holding the first of a month and payroll every week', () => {
+    const forecast = buildCashForecast(inputs({ recurring: { payroll: 13000, rent: 4000, months: 3 } }));
+
+    expect(forecast.weeks.filter(week => week.rent).map(week => [week.week, week.start])).toEqual([
+      [4, '2026-10-26'],
+      [9, '2026-11-30'],
+      [13, '2026-12-28']
+    ]);
+    // 13,000 a month over 52 / 12 weeks
+    expect(forecast.weeks.every(week => week.payroll === 3000)).toBe(true);
+    expect(forecast.lowestCash).toEqual({ amount: -41000, week: 13, weekStart: '2026-12-28' });
+  });
+
+  it("collects each invoice after its customer's historical payment lag", () => {
+    const forecast = buildCashForecast(inputs({
+      openInvoices: [invoice('1', '2026-10-06', 1000, 'slow'), invoice('2', '2026-10-06', 2000)],
+      paidInvoices: [invoice('9', '2026-09-01', 0, 'slow'), invoice('10', '2026-09-01', 0, 'prompt')],
+      payments: [
+        { Id: 'p1', TxnDate: '2026-09-15', TotalAmt: 1000, Line: [{ Amount: 1000, LinkedTxn: [{ TxnId: '9', TxnType: 'Invoice' }] }] },
+        { Id: 'p2', TxnDate: '2026-09-01', TotalAmt: 1000, Line: [{ Amount: 1000, LinkedTxn: [{ TxnId: '10', TxnType: 'Invoice' }] }] }
+      ]
+    }));
+
+    expect(forecast.collectionLag).toEqual({ days: 7, sampleSize: 2 });
+    // The slow customer pays 14 days late; customers without history at the overall 7
+    expect(forecast.weeks.map(week => week.collections).slice(0, 4)).toEqual([0, 2000, 1000, 0]);
+  });
+
+  it('translates foreign bank balances at the latest home currency rate on or before the start', () => {
+    const forecast = buildCashForecast(inputs({
+      bankAccounts: [bank('1', 10000), bank('2', 1000, 'EUR'), bank('3', 500, 'GBP')],
+      exchangeRates: [
+        { SourceCurrencyCode: 'EUR', Rate: 1.2, AsOfDate: '2026-10-09' },
+        { SourceCurrencyCode: 'EUR', Rate: 1.05, AsOfDate: '2026-09-30' },
+        { SourceCurrencyCode: 'EUR', TargetCurrencyCode: 'CAD', Rate: 1.5, AsOfDate: '2026-10-04' },
+        { SourceCurrencyCode: 'EUR', Rate: 1.1, AsOfDate: '2026-10-02' }
+      ]
+    }));
+
+    expect(forecast.openingCash).toBe(11100);
+    expect(forecast.notes).toContain('GBP Account (GBP) is left out of opening cash: no GBP exchange rate');
+  });
+});
@@ -0,0 +1,299 @@
+/**
+ * 13-week cash forecast
+ *
+ * Rolls the bank balance forward week by week: open invoices are collected
+ * on their due date plus the customer's historical payment lag, open bills
+ * are paid on their due date, and payroll and rent recur at their recent
+ * monthly averages. Payroll and rent are usually paid directly rather than
+ * through bills, so they are added on top of the open bills.
+ */
+
+import {
+  CashForecast,
+  CashForecastWeek,
+  CurrencyFormat,
+  QBOAccount,
+  QBOExchangeRate,
+  QBOOpenTransaction,
+  QBOPayment,
+  QBOProfitLossData,
+  TableContent
+} from '../types/financial.types';
+import { buildReportTree, getPeriodColumns, QBOReportNode } from './qboReportTree';
+import { payrollMatcher } from './companyProfile';
+import { formatMoney, latestExchangeRates } from './currency';
+import { DAY_MS, round } from './utils';
+
+export const FORECAST_WEEKS = 13;
+
+/** Invoices this far past due are treated as doubtful rather than collected */
+const DOUBTFUL_DAYS_PAST_DUE = 90;
+const WEEKS_PER_MONTH = 52 / 12;
+
+const RENT_SUBTYPES = new Set(['RentOrLeaseOfBuildings']);
+const RENT_PATTERN = /\brent\b|\blease\b/i;
+
+export interface CashForecastInputs {
+  /** First day of the forecast (YYYY-MM-DD) */
+  asOfDate: string;
+  homeCurrency: string;
+  /** Bank accounts with their current balances */
+  bankAccounts: QBOAccount[];
+  /** Rates for bank accounts in other currencies */
+  exchangeRates?: QBOExchangeRate[];
+  openInvoices: QBOOpenTransaction[];
+  openBills: QBOOpenTransaction[];
+  /** Recent customer payments and the invoices they paid, for the collection lag */
+  payments?: QBOPayment[];
+  paidInvoices?: QBOOpenTransaction[];
+  /** Average monthly payroll and rent, from recurringOutflows */
+  recurring: CashForecast['recurring'];
+}
+
+const addDays = (date: string, days: number): string =>
+  new Date(Date.parse(date) + days * DAY_MS).toISOString().slice(0, 10);
+
+const daysBetween = (from: string, to: string): number =>
+  Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+
+/**
+ * Open amount in the home currency, at the transaction's own rate
+ */
+const homeBalance = (txn: QBOOpenTransaction, homeCurrency: string): number =>
+  !txn.CurrencyRef || txn.CurrencyRef.value === homeCurrency ? txn.Balance : txn.Balance * (txn.ExchangeRate || 1);
+
+/**
+ * Average monthly payroll and rent over the last `months` months of a P&L
+ * requested with summarize_column_by=Month
+ */
+export const recurringOutflows = (
+  monthlyProfitLoss: QBOProfitLossData,
+  accounts: QBOAccount[] = [],
+  months = 3
+): CashForecast['recurring'] => {
+  const columns = monthlyProfitLoss.Columns?.Column;
+  const indexes = getPeriodColumns(columns).slice(-months).map(column => column.index);
+  if (!indexes.length) return { payroll: 0, rent: 0, months: 0 };
+
+  const isPayroll = payrollMatcher(accounts);
+  const rentIds = new Set(accounts
+    .filter(account => account.AccountSubType && RENT_SUBTYPES.has(account.AccountSubType))
+    .map(account => account.Id));
+  const isRent = (node: QBOReportNode) =>
+    Boolean(node.accountId && rentIds.has(node.accountId)) || RENT_PATTERN.test(node.label);
+  const total = (node: QBOReportNode) => indexes.reduce((sum, i) => sum + (node.values[i] || 0), 0);
+
+  let payroll = 0;
+  let rent = 0;
+  const visit = (nodes: QBOReportNode[]) => nodes.forEach(node => {
+    if (node.group === 'Income' || node.group === 'OtherIncome') return;
+    // A parent account's amount already includes its sub-accounts
+    if (isPayroll(node)) payroll += total(node);
+    else if (isRent(node)) rent += total(node);
+    else visit(node.children);
+  });
+  visit(buildReportTree(monthlyProfitLoss.Rows?.Row, columns));
+
+  return {
+    payroll: round(Math.max(0, payroll) / indexes.length),
+    rent: round(Math.max(0, rent) / indexes.length),
+    months: indexes.length
+  };
+};
+
+/**
+ * Amount-weighted days between invoice due dates and the payments applied to
+ * them, overall and per customer
+ */
+const collectionLags = (
+  payments: QBOPayment[],
+  invoices: QBOOpenTransaction[]
+): { overall: CashForecast['collectionLag']; byCustomer: Map<string, number> } => {
+  const invoicesById = new Map(invoices.map(invoice => [invoice.Id, invoice]));
+  const totals = new Map<string, { weighted: number; amount: number }>();
+  let weighted = 0;
+  let amount = 0;
+  let sampleSize = 0;
+
+  for (const payment of payments) {
+    for (const line of payment.Line || []) {
+      for (const linked of line.LinkedTxn || []) {
+        const invoice = linked.TxnType === 'Invoice' ? invoicesById.get(linked.TxnId) : undefined;
+        if (!invoice?.DueDate || line.Amount <= 0) continue;
+        const lag = daysBetween(invoice.DueDate, payment.TxnDate);
+        weighted += lag * line.Amount;
+        amount += line.Amount;
+        sampleSize += 1;
+        const customerId = invoice.CustomerRef?.value;
+        if (customerId) {
+          const customer = totals.get(customerId) || { weighted: 0, amount: 0 };
+          totals.set(customerId, { weighted: customer.weighted + lag * line.Amount, amount: customer.amount + line.Amount });
+        }
+      }
+    }
+  }
+
+  return {
+    overall: { days: amount ? round(weighted / amount, 1) : 0, sampleSize },
+    byCustomer: new Map([...totals].map(([id, total]) => [id, total.weighted / total.amount]))
+  };
+};
+
+/**
+ * The 13-week forecast. Overdue invoices and bills fall in the first week;
+ * invoices more than 90 days past due are left out as doubtful.
+ */
+export const buildCashForecast = (inputs: CashForecastInputs): CashForecast => {
+  const { asOfDate, homeCurrency } = inputs;
+  const notes: string[] = [];
+
+  // Bank balances, translated where the account is in another currency at
+  // the latest rate on or before the forecast start
+  const rates = latestExchangeRates(inputs.exchangeRates || [], homeCurrency, asOfDate);
+  let openingCash = 0;
+  for (const account of inputs.bankAccounts.filter(account => account.Active !== false)) {
+    const currency = account.CurrencyRef?.value || homeCurrency;
+    const rate = currency === homeCurrency ? 1 : rates.get(currency)?.Rate;
+    if (rate === undefined) {
+      notes.push(`${account.Name} (${currency}) is left out of opening cash: no ${currency} exchange rate`);
+      continue;
+    }
+    openingCash += (account.CurrentBalance || 0) * rate;
+  }
+
+  const weekOf = (date: string) => Math.max(0, Math.floor(daysBetween(asOfDate, date) / 7));
+  const collections = new Array<number>(FORECAST_WEEKS).fill(0);
+  const billPayments = new Array<number>(FORECAST_WEEKS).fill(0);
+  const beyondHorizon = { receivables: 0, payables: 0 };
+  let doubtfulReceivables = 0;
+
+  const lags = collectionLags(inputs.payments || [], [...(inputs.paidInvoices || []), ...inputs.openInvoices]);
+  for (const invoice of inputs.openInvoices) {
+    const balance = homeBalance(invoice, homeCurrency);
+    const due = invoice.DueDate || invoice.TxnDate;
+    if (daysBetween(due, asOfDate) > DOUBTFUL_DAYS_PAST_DUE) {
+      doubtfulReceivables += balance;
+      continue;
+    }
+    const lag = (invoice.CustomerRef && lags.byCustomer.get(invoice.CustomerRef.value)) ?? lags.overall.days;
+    const week = weekOf(addDays(due, Math.round(lag)));
+    if (week < FORECAST_WEEKS) collections[week] += balance;
+    else beyondHorizon.receivables += balance;
+  }
+
+  for (const bill of inputs.openBills) {
+    const balance = homeBalance(bill, homeCurrency);
+    const week = weekOf(bill.DueDate || bill.TxnDate);
+    if (week < FORECAST_WEEKS) billPayments[week] += balance;
+    else beyondHorizon.payables += balance;
+  }
+
+  const weeklyPayroll = inputs.recurring.payroll / WEEKS_PER_MONTH;
+  let cash = openingCash;
+  const weeks: CashForecastWeek[] = collections.map((collected, index) => {
+    const start = addDays(asOfDate, index * 7);
+    const end = addDays(start, 6);
+    // Rent is paid on the first of each month
+    const rentDue = Array.from({ length: 7 }, (_, day) => addDays(start, day)).some(date => date.endsWith('-01'));
+    const rent = rentDue ? inputs.recurring.rent : 0;
+    const netCashFlow = collected - billPayments[index] - weeklyPayroll - rent;
+    const openingBalance = cash;
+    cash += netCashFlow;
+    return {
+      week: index + 1,
+      start,
+      end,
+      openingCash: round(openingBalance),
+      collections: round(collected),
+      billPayments: round(billPayments[index]),
+      payroll: round(weeklyPayroll),
+      rent: round(rent),
+      netCashFlow: round(netCashFlow),
+      closingCash: round(cash)
+    };
+  });
+
+  const lowest = weeks.reduce((low, week) => (week.closingCash < low.closingCash ? week : low), weeks[0]);
+  if (!inputs.recurring.months) notes.push('No P&L history, so payroll and rent are not forecast');
+  if (!lags.overall.sampleSize) notes.push('No recent invoice payments, so invoices are expected on their due dates');
+
+  return {
+    asOfDate,
+    currency: homeCurrency,
+    openingCash: round(openingCash),
+    weeks,
+    lowestCash: { amount: lowest.closingCash, week: lowest.week, weekStart: lowest.start },
+    collectionLag: lags.overall,
+    recurring: inputs.recurring,
+    openReceivables: round(inputs.openInvoices.reduce((sum, invoice) => sum + homeBalance(invoice, homeCurrency), 0)),
+    openPayables: round(inputs.openBills.reduce((sum, bill) => sum + homeBalance(bill, homeCurrency), 0)),
+    beyondHorizon: { receivables: round(beyondHorizon.receivables), payables: round(beyondHorizon.payables) },
+    doubtfulReceivables: round(doubtfulReceivables),
+    notes
+  };
+};
+
+/**
+ * One-line summary for prompts and report text
+ */
+export const describeCashForecast = (forecast: CashForecast, format: CurrencyFormat): string => {
+  const money = (amount: number) => formatMoney(amount, format, { maximumFractionDigits: 0 });
+  const shortfall = forecast.weeks.find(week => week.closingCash < 0);
+  const closing = forecast.weeks[forecast.weeks.length - 1]?.closingCash ?? forecast.openingCash;
+  const lag = forecast.collectionLag.days;
+  return `Bank balance ${money(forecast.openingCash)} on ${forecast.asOfDate}, ${money(closing)} after ${forecast.weeks.length} weeks; `
+    + `lowest ${money(forecast.lowestCash.amount)} in week ${forecast.lowestCash.week} (from ${forecast.lowestCash.weekStart})`
+    + (shortfall ? `; cash runs out in week ${shortfall.week}` : '')
+    + `; customers pay ${Math.abs(lag)} day${Math.abs(lag) === 1 ? '' : 's'} ${lag < 0 ? 'before' : 'after'} the due date on average`;
+};
+
+/**
+ * The weekly forecast as a table
+ */
+export const cashForecastTable = (forecast: CashForecast, format: CurrencyFormat): TableContent => {
+  const money = (amount: number) => formatMoney(amount, format, { maximumFractionDigits: 0 });
+  // Outflows are shown negative, without a sign on empty weeks
+  const outflow = (amount: number) => money(amount ? -amount : 0);
+  return {
+    type: 'table',
+    headers: ['Week', 'Starting', 'Opening Cash', 'Collections', 'Bills', 'Payroll', 'Rent', 'Net Cash Flow', 'Closing Cash'],
+    rows: forecast.weeks.map(week => [
+      week.week,
+      week.start,
+      money(week.openingCash),
+      money(week.collections),
+      outflow(week.billPayments),
+      outflow(week.payroll),
+      outflow(week.rent),
+      money(week.netCashFlow),
+      money(week.closingCash)
+    ]),
+    styling: { headerBackground: '#f3f4f6', alternateRows: true }
+  };
+};
+
+/**
+ * The forecast as a markdown section, for reports rendered from markdown
+ */
+export const cashForecastMarkdown = (forecast: CashForecast, format: CurrencyFormat): string => {
+  const money = (amount: number) => formatMoney(amount, format, { maximumFractionDigits: 0 });
+  const line = (cells: Array<string | number>) =>
+    `| ${cells.map(cell => String(cell).replace(/\|/g, '\\|')).join(' | ')} |`;
+  const table = cashForecastTable(forecast, format);
+  return [
+    '## 13-Week Cash Forecast',
+    '',
+    `${describeCashForecast(forecast, format)}.`,
+    '',
+    line(table.headers),
+    line(table.headers.map((_, index) => (index < 2 ? '---' : '---:'))),
+    ...table.rows.map(line),
+    '',
+    `*From open invoices of ${money(forecast.openReceivables)} and open bills of ${money(forecast.openPayables)}, `
+      + `with payroll of ${money(forecast.recurring.payroll)} and rent of ${money(forecast.recurring.rent)} a month `
+      + `averaged over the last ${forecast.recurring.months} months.`
+      + (forecast.doubtfulReceivables ? ` ${money(forecast.doubtfulReceivables)} of invoices more than 90 days past due is not expected.` : '')
+      + (forecast.notes.length ? ` ${forecast.notes.join('. ')}.` : '')
+      + '*'
+  ].join('\n');
+};
@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { describeInference, inferCompanySize, inferIndustry, trailingTotals } from './companyProfile';
+import { QBOAccount, QBOProfitLossData, QBOReportRow } from '../types/financial.types';
+
+const companyInfo = (values: Record<string, string>) => ({
+  NameValue: Object.entries(values).map(([Name, Value]) => ({ Name, Value }))
+});
+
+const account = (Id: string, Name: string, AccountSubType?: string): QBOAccount =>
+  ({ Id, Name, AccountType: 'Income', ...(AccountSubType ? { AccountSubType } : {}) });
+
+const MONTHS = ['Jul 2026', 'Aug 2026', 'Sep 2026'];
+
+const monthly = (label: string, amounts: number[], id?: string): QBOReportRow => ({
+  type: 'Data',
+  ColData: [
+    { value: label, ...(id ? { id } : {}) },
+    ...[...amounts, amounts.reduce((sum, amount) => sum + amount, 0)].map(amount => ({ value: amount.toFixed(2) }))
+  ]
+});
+
+const monthlySection = (group: string, label: string, rows: QBOReportRow[]): QBOReportRow => ({
+  type: 'Section',
+  group,
+  Header: { ColData: [{ value: label }] },
+  Rows: { Row: rows },
+  Summary: { ColData: [{ value: `Total ${label}` }] }
+});
+
+/** Three months of a P&L by month */
+const profitLossByMonth = (rows: QBOReportRow[]): QBOProfitLossData => ({
+  Header: { ReportName: 'ProfitAndLoss', StartPeriod: '2026-07-01', EndPeriod: '2026-09-30' },
+  Columns: {
+    Column: [
+      { ColTitle: '', ColType: 'Account' },
+      ...MONTHS.map(ColTitle => ({ ColTitle, ColType: 'Money' })),
+      { ColTitle: 'Total', ColType: 'Money' }
+    ]
+  },
+  Rows: { Row: rows }
+});
+
+describe('inferIndustry', () => {
+  it('prefers the NAICS industry code, then the industry type', () => {
+    expect(inferIndustry(companyInfo({ IndustryCode: '722511', IndustryType: 'Software' }))).toMatchObject({
+      industry: 'restaurant',
+      source: 'qboIndustryCode',
+      confidence: 'high'
+    });
+    expect(inferIndustry(companyInfo({ IndustryCode: '9999', IndustryType: 'General Contractor' }))).toMatchObject({
+      industry: 'construction',
+      source: 'qboIndustryType',
+      confidence: 'medium'
+    });
+  });
+
+  it('falls back to the characteristic accounts in the chart of accounts', () => {
+    const accounts = [
+      account('1', 'Consulting Income'),
+      account('2', 'Retainer Fees'),
+      account('3', 'Billable Expense Income'),
+      account('4', 'Service Revenue', 'ServiceFeeIncome'),
+      account('5', 'Subscription Revenue'),
+      { ...account('6', 'Catering Sales'), Active: false }
+    ];
+
+    expect(inferIndustry(undefined, accounts)).toEqual({
+      industry: 'professional-services',
+      source: 'chartOfAccounts',
+      confidence: 'medium',
+      evidence: [
+        'Chart of accounts: Consulting Income, Retainer Fees, Billable Expense Income, Service Revenue',
+        'Next closest: Technology & Software (1 account)'
+      ]
+    });
+  });
+
+  it('names no industry from too few or evenly split accounts', () => {
+    expect(inferIndustry(undefined, [account('1', 'Consulting Income')])).toBeUndefined();
+    expect(inferIndustry(undefined, [
+      account('1', 'Consulting Income'),
+      account('2', 'Retainer Fees'),
+      account('3', 'Subscription Revenue'),
+      account('4', 'Hosting Revenue')
+    ])).toBeUndefined();
+  });
+});
+
+describe('trailingTotals', () => {
+  it('sums revenue and payroll accounts over the months', () => {
+    const totals = trailingTotals(profitLossByMonth([
+      monthlySection('Income', 'Income', [monthly('Sales', [60000, 70000, 70000], '1')]),
+      monthlySection('Expenses', 'Expenses', [
+        monthly('Officer Salaries', [20000, 20000, 20000]),
+        monthly('Direct Labor', [10000, 10000, 10000], '20'),
+        monthly('Rent', [5000, 5000, 5000])
+      ])
+    ]), [{ Id: '20', Name: 'Direct Labor', AccountType: 'Cost of Goods Sold', AccountSubType: 'CostOfLabor' }]);
+
+    expect(totals).toEqual({ months: 3, revenue: 200000, payroll: 90000 });
+  });
+});
+
+describe('inferCompanySize', () => {
+  it('takes the larger of the annualized revenue and payroll bands', () => {
+    const inference = inferCompanySize({ months: 3, revenue: 200000, payroll: 90000 });
+
+    expect(inference).toEqual({
+      size: 'small',
+      annualRevenue: 800000,
+      annualPayroll: 360000,
+      months: 3,
+      evidence: [
+        'Revenue $800,000 (annualized from 3 months): micro band',
+        'Payroll $360,000 (annualized from 3 months): small band'
+      ]
+    });
+    expect(describeInference(inference!)).toBe(
+      'inferred from Revenue $800,000 (annualized from 3 months): micro band; ' +
+      'Payroll $360,000 (annualized from 3 months): small band (not confirmed by the CPA)'
+    );
+  });
+
+  it('sizes by revenue alone without payroll accounts', () => {
+    expect(inferCompanySize({ months: 12, revenue: 60_000_000, payroll: null })).toMatchObject({
+      size: 'large',
+      annualPayroll: null,
+      evidence: ['Revenue $60,000,000 (trailing 12 months): large band', 'No payroll accounts found']
+    });
+  });
+
+  it('has no size without P&L history', () => {
+    expect(inferCompanySize({ months: 0, revenue: 0, payroll: null })).toBeUndefined();
+  });
+});
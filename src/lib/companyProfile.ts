@@ -0,0 +1,309 @@
+/**
+ * Company industry and size
+ *
+ * Infers the industry from the company's QBO industry settings, falling back
+ * to the shape of its chart of accounts, and the size band from trailing
+ * revenue and payroll. The CPA confirms or overrides both in the company
+ * profile; the inferred values are only used until then.
+ */
+
+import {
+  CompanySize,
+  CompanySizeInference,
+  CurrencyFormat,
+  Industry,
+  IndustryInference,
+  QBOAccount,
+  QBOProfitLossData
+} from '../types/financial.types';
+import { buildReportTree, findSection, getPeriodColumns, QBOReportNode } from './qboReportTree';
+import { DEFAULT_CURRENCY_FORMAT, formatMoney } from './currency';
+
+export const INDUSTRY_LABELS: Record<Industry, string> = {
+  'agriculture': 'Agriculture',
+  'construction': 'Construction',
+  'manufacturing': 'Manufacturing',
+  'wholesale': 'Wholesale & Distribution',
+  'retail': 'Retail',
+  'transportation': 'Transportation & Logistics',
+  'technology': 'Technology & Software',
+  'financial-services': 'Financial Services',
+  'real-estate': 'Real Estate',
+  'professional-services': 'Professional Services',
+  'education': 'Education',
+  'healthcare': 'Healthcare',
+  'hospitality': 'Hospitality & Leisure',
+  'restaurant': 'Restaurants & Food Service',
+  'nonprofit': 'Nonprofit',
+  'other-services': 'Other Services'
+};
+
+export const COMPANY_SIZE_LABELS: Record<CompanySize, string> = {
+  micro: 'Micro',
+  small: 'Small',
+  medium: 'Medium',
+  large: 'Large'
+};
+
+export const isIndustry = (value: unknown): value is Industry =>
+  typeof value === 'string' && value in INDUSTRY_LABELS;
+
+export const isCompanySize = (value: unknown): value is CompanySize =>
+  typeof value === 'string' && value in COMPANY_SIZE_LABELS;
+
+/** NAICS code prefixes, most specific first */
+const NAICS_INDUSTRIES: Array<[string, Industry]> = [
+  ['5415', 'technology'],
+  ['5112', 'technology'],
+  ['518', 'technology'],
+  ['722', 'restaurant'],
+  ['721', 'hospitality'],
+  ['813', 'nonprofit'],
+  ['11', 'agriculture'],
+  ['23', 'construction'],
+  ['31', 'manufacturing'],
+  ['32', 'manufacturing'],
+  ['33', 'manufacturing'],
+  ['42', 'wholesale'],
+  ['44', 'retail'],
+  ['45', 'retail'],
+  ['48', 'transportation'],
+  ['49', 'transportation'],
+  ['51', 'technology'],
+  ['52', 'financial-services'],
+  ['53', 'real-estate'],
+  ['54', 'professional-services'],
+  ['55', 'professional-services'],
+  ['56', 'professional-services'],
+  ['61', 'education'],
+  ['62', 'healthcare'],
+  ['71', 'hospitality'],
+  ['81', 'other-services']
+];
+
+/** Keywords in QBO's industry type text, checked in order */
+const INDUSTRY_KEYWORDS: Array<[RegExp, Industry]> = [
+  [/restaurant|caterer|\bbar\b|food service|cafe|bakery/i, 'restaurant'],
+  [/hotel|lodging|hospitality|travel|entertainment|recreation|fitness/i, 'hospitality'],
+  [/non-?profit|charit|church|religious/i, 'nonprofit'],
+  [/construction|contractor|trades|builder|landscap/i, 'construction'],
+  [/manufactur|fabricat/i, 'manufacturing'],
+  [/wholesale|distribut/i, 'wholesale'],
+  [/retail|shop|store|e-?commerce/i, 'retail'],
+  [/transport|trucking|delivery|logistic/i, 'transportation'],
+  [/software|information technology|computer|saas|internet/i, 'technology'],
+  [/real estate|property|rental/i, 'real-estate'],
+  [/medical|dental|health|clinic|therap|veterinar/i, 'healthcare'],
+  [/education|school|tutor/i, 'education'],
+  [/agricultur|farm|ranch/i, 'agriculture'],
+  [/financial|insurance|lending|investment/i, 'financial-services'],
+  [/accounting|bookkeeping|legal|law|consult|architect|engineer|design|marketing|agency|professional/i, 'professional-services'],
+  [/salon|barber|repair|cleaning|personal care/i, 'other-services']
+];
+
+/** Account names and sub-types characteristic of an industry */
+const CHART_SIGNALS: Array<{ industry: Industry; names?: RegExp; subTypes?: string[] }> = [
+  { industry: 'restaurant', names: /food (cost|purchases|sales)|beverage|liquor|\btips\b|kitchen|catering/i },
+  { industry: 'construction', names: /job (materials|supplies|expenses)|subcontract|retainage|contract income|construction/i },
+  { industry: 'manufacturing', names: /raw materials|work in (process|progress)|finished goods|factory|manufactur|production/i },
+  { industry: 'retail', names: /shopify|amazon|etsy|point of sale|merchant (fees|account)|sales returns/i, subTypes: ['SalesOfProductIncome'] },
+  { industry: 'wholesale', names: /wholesale|distribution|freight in/i },
+  { industry: 'technology', names: /subscription|saas|hosting|software (revenue|sales|development)|cloud|licen[cs]e (revenue|income)/i },
+  { industry: 'real-estate', names: /rental income|rents received|tenant|security deposits held|property management/i },
+  { industry: 'nonprofit', names: /donation|contribution income|grant (income|revenue)|restricted net assets|program service/i, subTypes: ['NonProfitIncome'] },
+  { industry: 'healthcare', names: /patient|medical (supplies|revenue|billing)|insurance reimbursement/i },
+  { industry: 'professional-services', names: /consulting|professional fees|billable|retainer|fees earned/i, subTypes: ['ServiceFeeIncome'] },
+  { industry: 'transportation', names: /freight income|trucking|fleet|hauling|delivery (income|revenue)/i },
+  { industry: 'education', names: /tuition|course fees|student/i },
+  { industry: 'agriculture', names: /crop|livestock|seed|fertiliz/i },
+  { industry: 'hospitality', names: /room revenue|lodging|occupancy/i },
+  { industry: 'financial-services', names: /commissions? (income|revenue)|loans receivable|premiums? (income|earned)/i }
+];
+
+/** Matching accounts needed before the chart of accounts names an industry */
+const MIN_CHART_SIGNALS = 2;
+
+const nameValue = (nameValues: Array<{ Name?: string; Value?: string }> | undefined, name: string) =>
+  nameValues?.find(item => item.Name === name)?.Value?.trim() || undefined;
+
+/**
+ * QBO CompanyInfo's industry code, a NAICS code when set
+ */
+export const industryCodeOf = (companyInfo?: { NameValue?: Array<{ Name?: string; Value?: string }> }): string | undefined =>
+  nameValue(companyInfo?.NameValue, 'IndustryCode');
+
+/**
+ * Industry from the chart of accounts: the industry with the most
+ * characteristic accounts, when clearly ahead of the next
+ */
+const industryFromAccounts = (accounts: QBOAccount[]): IndustryInference | undefined => {
+  const active = accounts.filter(account => account.Active !== false);
+  const scored = CHART_SIGNALS
+    .map(signal => ({
+      industry: signal.industry,
+      matches: active.filter(account =>
+        signal.names?.test(account.FullyQualifiedName || account.Name) ||
+        (account.AccountSubType && signal.subTypes?.includes(account.AccountSubType))
+      )
+    }))
+    .filter(({ matches }) => matches.length > 0)
+    .sort((a, b) => b.matches.length - a.matches.length);
+
+  const [best, next] = scored;
+  if (!best || best.matches.length < MIN_CHART_SIGNALS || best.matches.length === next?.matches.length) {
+    return undefined;
+  }
+  const lead = best.matches.length - (next?.matches.length || 0);
+  return {
+    industry: best.industry,
+    source: 'chartOfAccounts',
+    confidence: lead >= 3 ? 'medium' : 'low',
+    evidence: [
+      `Chart of accounts: ${best.matches.slice(0, 5).map(account => account.Name).join(', ')}` +
+        (best.matches.length > 5 ? ` and ${best.matches.length - 5} more` : ''),
+      ...(next ? [`Next closest: ${INDUSTRY_LABELS[next.industry]} (${next.matches.length} account${next.matches.length === 1 ? '' : 's'})`] : [])
+    ]
+  };
+};
+
+/**
+ * Industry from QBO CompanyInfo's industry code (NAICS) or industry type,
+ * else from the chart of accounts. Undefined when nothing points to one.
+ */
+export const inferIndustry = (
+  companyInfo?: { NameValue?: Array<{ Name?: string; Value?: string }> },
+  accounts: QBOAccount[] = []
+): IndustryInference | undefined => {
+  const code = industryCodeOf(companyInfo);
+  const naics = code && NAICS_INDUSTRIES.find(([prefix]) => code.startsWith(prefix));
+  if (code && naics) {
+    return {
+      industry: naics[1],
+      source: 'qboIndustryCode',
+      confidence: 'high',
+      evidence: [`QuickBooks industry code ${code}`]
+    };
+  }
+
+  const type = nameValue(companyInfo?.NameValue, 'IndustryType') || nameValue(companyInfo?.NameValue, 'QBOIndustryType');
+  const keyword = type && INDUSTRY_KEYWORDS.find(([pattern]) => pattern.test(type));
+  if (type && keyword) {
+    return {
+      industry: keyword[1],
+      source: 'qboIndustryType',
+      confidence: 'medium',
+      evidence: [`QuickBooks industry type "${type}"`]
+    };
+  }
+
+  return industryFromAccounts(accounts);
+};
+
+/**
+ * Upper bounds of each band, in the company's home currency. A company is
+ * placed in the larger of its revenue and payroll bands, since either alone
+ * understates some businesses (a distributor's payroll, a law firm's sales).
+ */
+const REVENUE_BANDS: Array<[number, CompanySize]> = [
+  [1_000_000, 'micro'],
+  [10_000_000, 'small'],
+  [50_000_000, 'medium']
+];
+const PAYROLL_BANDS: Array<[number, CompanySize]> = [
+  [250_000, 'micro'],
+  [2_500_000, 'small'],
+  [12_500_000, 'medium']
+];
+const SIZE_ORDER: CompanySize[] = ['micro', 'small', 'medium', 'large'];
+
+/** QBO sub-types of wage and salary accounts */
+const PAYROLL_SUBTYPES = new Set(['PayrollExpenses', 'CostOfLabor', 'CostOfLaborCos']);
+const PAYROLL_PATTERN = /payroll|wages?\b|salar(y|ies)|officers?'? compensation/i;
+
+const bandOf = (amount: number, bands: Array<[number, CompanySize]>): CompanySize =>
+  bands.find(([limit]) => amount < limit)?.[1] || 'large';
+
+export interface TrailingTotals {
+  /** Months of history in the report, at most 12 */
+  months: number;
+  revenue: number;
+  /** Null when no payroll accounts were found */
+  payroll: number | null;
+}
+
+/**
+ * Matches the P&L accounts and sections holding wages and salaries, by QBO
+ * sub-type or by name
+ */
+export const payrollMatcher = (accounts: QBOAccount[] = []): ((node: QBOReportNode) => boolean) => {
+  const payrollIds = new Set(accounts
+    .filter(account => account.AccountSubType && PAYROLL_SUBTYPES.has(account.AccountSubType))
+    .map(account => account.Id));
+  return node => Boolean(node.accountId && payrollIds.has(node.accountId)) || PAYROLL_PATTERN.test(node.label);
+};
+
+/**
+ * Revenue and payroll over the last 12 months of a P&L requested with
+ * summarize_column_by=Month
+ */
+export const trailingTotals = (monthlyProfitLoss: QBOProfitLossData, accounts: QBOAccount[] = []): TrailingTotals => {
+  const columns = monthlyProfitLoss.Columns?.Column;
+  const tree = buildReportTree(monthlyProfitLoss.Rows?.Row, columns);
+  const indexes = getPeriodColumns(columns).slice(-12).map(column => column.index);
+  const total = (node: QBOReportNode) => indexes.reduce((sum, i) => sum + (node.values[i] || 0), 0);
+
+  const isPayroll = payrollMatcher(accounts);
+  let payroll: number | null = null;
+  const visit = (nodes: QBOReportNode[]) => nodes.forEach(node => {
+    if (node.group !== 'Income' && isPayroll(node)) {
+      // A parent account's amount already includes its sub-accounts
+      payroll = (payroll || 0) + total(node);
+      return;
+    }
+    visit(node.children);
+  });
+  visit(tree);
+
+  const income = findSection(tree, 'Income', ['Income']);
+  return { months: indexes.length, revenue: income ? total(income) : 0, payroll };
+};
+
+/**
+ * Size band from trailing revenue and payroll, annualized when there are
+ * fewer than 12 months. Undefined with no P&L history.
+ */
+export const inferCompanySize = (
+  totals: TrailingTotals,
+  format: CurrencyFormat = DEFAULT_CURRENCY_FORMAT
+): CompanySizeInference | undefined => {
+  if (totals.months === 0) return undefined;
+  const annualize = (amount: number) => Math.round(amount * 12 / totals.months);
+  const annualRevenue = annualize(totals.revenue);
+  const annualPayroll = totals.payroll === null ? null : annualize(totals.payroll);
+
+  const revenueBand = bandOf(annualRevenue, REVENUE_BANDS);
+  const payrollBand = annualPayroll === null ? 'micro' : bandOf(annualPayroll, PAYROLL_BANDS);
+  const size = SIZE_ORDER[Math.max(SIZE_ORDER.indexOf(revenueBand), SIZE_ORDER.indexOf(payrollBand))];
+  const basis = totals.months < 12 ? `annualized from ${totals.months} months` : 'trailing 12 months';
+
+  return {
+    size,
+    annualRevenue,
+    annualPayroll,
+    months: totals.months,
+    evidence: [
+      `Revenue ${formatMoney(annualRevenue, format, { maximumFractionDigits: 0 })} (${basis}): ${COMPANY_SIZE_LABELS[revenueBand].toLowerCase()} band`,
+      annualPayroll === null
+        ? 'No payroll accounts found'
+        : `Payroll ${formatMoney(annualPayroll, format, { maximumFractionDigits: 0 })} (${basis}): ${COMPANY_SIZE_LABELS[payrollBand].toLowerCase()} band`
+    ]
+  };
+};
+
+/**
+ * How an inferred industry or size was arrived at, for the prompt
+ */
+export const describeInference = (inference: IndustryInference | CompanySizeInference): string =>
+  'confidence' in inference
+    ? `inferred from ${inference.evidence[0]} (${inference.confidence} confidence; not confirmed by the CPA)`
+    : `inferred from ${inference.evidence.join('; ')} (not confirmed by the CPA)`;
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeForeignExchange, ForeignExchangeInputs } from './currency';
+import { QBOReportNode } from './qboReportTree';
+
+const node = (label: string, amount: number, accountId?: string, group?: string): QBOReportNode => ({
+  type: 'data',
+  label,
+  accountId,
+  group,
+  values: [amount],
+  amount,
+  depth: 0,
+  children: []
+});
+
+const inputs = (balancesAsOf: string): ForeignExchangeInputs => ({
+  homeCurrency: 'USD',
+  asOfDate: '2026-09-30',
+  balancesAsOf,
+  accounts: [
+    {
+      Id: '10',
+      Name: 'EUR Checking',
+      AccountType: 'Bank',
+      Classification: 'Asset',
+      CurrentBalance: 1000,
+      CurrencyRef: { value: 'EUR' }
+    },
+    {
+      Id: '20',
+      Name: 'EUR Supplier',
+      AccountType: 'Accounts Payable',
+      Classification: 'Liability',
+      CurrentBalance: 500,
+      CurrencyRef: { value: 'EUR' }
+    }
+  ],
+  rates: [
+    { SourceCurrencyCode: 'EUR', TargetCurrencyCode: 'USD', Rate: 1.1, AsOfDate: '2026-09-30' },
+    { SourceCurrencyCode: 'EUR', TargetCurrencyCode: 'USD', Rate: 1.3, AsOfDate: '2026-10-15' }
+  ],
+  balanceSheet: [node('EUR Checking', 1050, '10'), node('EUR Supplier', 540, '20')],
+  profitLoss: []
+});
+
+describe('analyzeForeignExchange', () => {
+  it('translates period-end balances at the period-end rate', () => {
+    const fx = analyzeForeignExchange(inputs('2026-09-30'))!;
+    expect(fx.balances.map(balance => [balance.foreignBalance, balance.translatedValue, balance.unrealizedGainLoss]))
+      .toEqual([[1000, 1100, 50], [500, 550, -10]]);
+    expect(fx.unrealizedGainLoss).toBe(40);
+    expect(fx.unrealizedNote).toBeUndefined();
+  });
+
+  it('leaves the unrealized gain out when the balances are from after the period end', () => {
+    const fx = analyzeForeignExchange(inputs('2026-10-19'))!;
+    expect(fx.balances.every(balance => balance.foreignBalance === null && balance.unrealizedGainLoss === null)).toBe(true);
+    expect(fx.balances.map(balance => balance.bookValue)).toEqual([1050, 540]);
+    expect(fx.unrealizedGainLoss).toBeNull();
+    expect(fx.unrealizedNote).toBe('QuickBooks gives foreign-currency balances only as of 2026-10-19, not at the 2026-09-30 period end');
+  });
+
+  it('leaves the unrealized gain out when the period ends after the balances date', () => {
+    const fx = analyzeForeignExchange(inputs('2026-09-15'))!;
+    expect(fx.unrealizedGainLoss).toBeNull();
+    expect(fx.unrealizedNote).toMatch(/only as of 2026-09-15/);
+  });
+
+  it('still reports the realized gain booked in the period', () => {
+    const fx = analyzeForeignExchange({
+      ...inputs('2026-10-19'),
+      accounts: [
+        ...inputs('2026-10-19').accounts,
+        { Id: '30', Name: 'Exchange Gain or Loss', AccountType: 'Other Income', AccountSubType: 'ExchangeGainOrLoss' }
+      ],
+      profitLoss: [{ ...node('Other Income', 25, undefined, 'OtherIncome'), type: 'section', children: [node('Exchange Gain or Loss', 25, '30')] }]
+    })!;
+    expect(fx.realizedGainLoss).toBe(25);
+    expect(fx.unrealizedGainLoss).toBeNull();
+  });
+});
@@ -0,0 +1,232 @@
+/**
+ * Currency formatting and foreign exchange
+ *
+ * QBO reports every statement in the company's home currency, but accounts,
+ * customers and vendors can be kept in other currencies. These helpers format
+ * amounts in the company's currency and locale, and translate foreign
+ * balances at QBO's exchange rates to separate realized from unrealized
+ * exchange gains.
+ */
+
+import {
+  CurrencyFormat,
+  ForeignCurrencyBalance,
+  ForeignExchangeSummary,
+  QBOAccount,
+  QBOExchangeRate
+} from '../types/financial.types';
+import { QBOReportNode, accountAmounts } from './qboReportTree';
+import { round } from './utils';
+
+export const DEFAULT_CURRENCY_FORMAT: CurrencyFormat = { currency: 'USD', locale: 'en-US' };
+
+/** QBO's sub-type for the account it books exchange differences on settlement to */
+const EXCHANGE_GAIN_LOSS_SUBTYPE = 'ExchangeGainOrLoss';
+
+/** P&L sections whose amounts are income, so a positive amount is a gain */
+const INCOME_GROUPS = new Set(['Income', 'OtherIncome']);
+
+/**
+ * Locale for the company's country (QBO CompanyInfo.Country, e.g. "CA") in
+ * its first supported language. Falls back to en-US for unknown countries.
+ */
+export const localeFromCompanyInfo = (companyInfo?: { Country?: string; SupportedLanguages?: string }): string => {
+  const country = companyInfo?.Country?.trim().toUpperCase();
+  if (!country || !/^[A-Z]{2}$/.test(country)) return DEFAULT_CURRENCY_FORMAT.locale;
+  const language = companyInfo?.SupportedLanguages?.split(',')[0]?.trim().toLowerCase() || 'en';
+  const locale = `${language}-${country}`;
+  return Intl.NumberFormat.supportedLocalesOf(locale).length ? locale : DEFAULT_CURRENCY_FORMAT.locale;
+};
+
+/**
+ * Formatting for a transformed report's metadata
+ */
+export const currencyFormatOf = (metadata?: { currency?: string; locale?: string }): CurrencyFormat => ({
+  currency: metadata?.currency || DEFAULT_CURRENCY_FORMAT.currency,
+  locale: metadata?.locale || DEFAULT_CURRENCY_FORMAT.locale
+});
+
+/**
+ * Format an amount in the given currency and locale. A malformed currency
+ * code is shown before the number instead of failing.
+ */
+export const formatMoney = (
+  amount: number,
+  format: CurrencyFormat = DEFAULT_CURRENCY_FORMAT,
+  options: { maximumFractionDigits?: number } = {}
+): string => {
+  if (!/^[A-Z]{3}$/i.test(format.currency)) {
+    return `${format.currency} ${new Intl.NumberFormat(format.locale, options).format(amount)}`;
+  }
+  return new Intl.NumberFormat(format.locale, { style: 'currency', currency: format.currency, ...options }).format(amount);
+};
+
+export interface ForeignExchangeInputs {
+  homeCurrency: string;
+  /** Period end; balances are translated at the rates on this date */
+  asOfDate: string;
+  /**
+   * Date the accounts' CurrentBalance reflects. QBO only gives foreign
+   * balances as of today, so they are shown and translated only when the
+   * period ends on this date; on any other date they would be compared with
+   * book values and rates of a different day.
+   */
+  balancesAsOf: string;
+  accounts: QBOAccount[];
+  rates: QBOExchangeRate[];
+  /** The period-end balance sheet, for each account's home-currency book value */
+  balanceSheet: QBOReportNode[];
+  /** The period's P&L, for the exchange gain or loss booked by QBO */
+  profitLoss: QBOReportNode[];
+}
+
+/**
+ * Exchange gain (negative for a loss) QBO booked in the period on settled
+ * foreign transactions, from its exchange gain or loss accounts
+ */
+const realizedGainLoss = (profitLoss: QBOReportNode[], exchangeAccountIds: Set<string>): number => {
+  let total = 0;
+  const visit = (nodes: QBOReportNode[], incomeSide: boolean) => nodes.forEach(node => {
+    if (node.accountId && exchangeAccountIds.has(node.accountId)) {
+      // A parent account's amount already includes its sub-accounts
+      total += incomeSide ? node.amount : -node.amount;
+      return;
+    }
+    visit(node.children, node.group ? INCOME_GROUPS.has(node.group) : incomeSide);
+  });
+  visit(profitLoss, false);
+  return round(total);
+};
+
+/**
+ * The latest rate into the home currency on or before a date, by source
+ * currency
+ */
+export const latestExchangeRates = (
+  rates: QBOExchangeRate[],
+  homeCurrency: string,
+  asOfDate: string
+): Map<string, QBOExchangeRate> => {
+  const ratesByCurrency = new Map<string, QBOExchangeRate>();
+  rates
+    .filter(rate => rate.AsOfDate <= asOfDate && (!rate.TargetCurrencyCode || rate.TargetCurrencyCode === homeCurrency))
+    .forEach(rate => {
+      const existing = ratesByCurrency.get(rate.SourceCurrencyCode);
+      if (!existing || existing.AsOfDate < rate.AsOfDate) ratesByCurrency.set(rate.SourceCurrencyCode, rate);
+    });
+  return ratesByCurrency;
+};
+
+/**
+ * Foreign balances translated at the period-end rates with their unrealized
+ * gains, and the realized gain for the period. Undefined for companies with
+ * no foreign-currency accounts and no exchange gains.
+ */
+export const analyzeForeignExchange = (inputs: ForeignExchangeInputs): ForeignExchangeSummary | undefined => {
+  const { homeCurrency, asOfDate, balancesAsOf } = inputs;
+  const exchangeAccountIds = new Set(inputs.accounts
+    .filter(account => account.AccountSubType === EXCHANGE_GAIN_LOSS_SUBTYPE)
+    .map(account => account.Id));
+  const realized = realizedGainLoss(inputs.profitLoss, exchangeAccountIds);
+
+  const ratesByCurrency = latestExchangeRates(inputs.rates, homeCurrency, asOfDate);
+
+  const comparable = balancesAsOf === asOfDate;
+  const bookValues = accountAmounts(inputs.balanceSheet);
+  const balances: ForeignCurrencyBalance[] = inputs.accounts
+    .filter(account =>
+      account.CurrencyRef?.value &&
+      account.CurrencyRef.value !== homeCurrency &&
+      (account.Classification === 'Asset' || account.Classification === 'Liability') &&
+      (account.CurrentBalance || bookValues.get(account.Id))
+    )
+    .map(account => {
+      const currency = account.CurrencyRef!.value;
+      const rate = ratesByCurrency.get(currency)?.Rate ?? null;
+      const foreignBalance = comparable ? account.CurrentBalance || 0 : null;
+      const bookValue = round(bookValues.get(account.Id) || 0);
+      const translatedValue = foreignBalance !== null && rate !== null ? round(foreignBalance * rate) : null;
+      // A liability that grows in home currency is a loss
+      const sign = account.Classification === 'Liability' ? -1 : 1;
+      return {
+        accountId: account.Id,
+        accountName: account.FullyQualifiedName || account.Name,
+        currency,
+        classification: account.Classification as ForeignCurrencyBalance['classification'],
+        foreignBalance,
+        bookValue,
+        rate,
+        translatedValue,
+        unrealizedGainLoss: translatedValue === null ? null : round(sign * (translatedValue - bookValue))
+      };
+    })
+    .sort((a, b) => a.currency.localeCompare(b.currency) || Math.abs(b.bookValue) - Math.abs(a.bookValue));
+
+  if (balances.length === 0 && realized === 0) return undefined;
+
+  const untranslated = balances.filter(balance => balance.unrealizedGainLoss === null);
+  const missingRates = [...new Set(balances.filter(balance => balance.rate === null).map(balance => balance.currency))];
+
+  return {
+    homeCurrency,
+    asOfDate,
+    rates: [...ratesByCurrency.values()]
+      .filter(rate => balances.some(balance => balance.currency === rate.SourceCurrencyCode))
+      .map(rate => ({ currency: rate.SourceCurrencyCode, rate: rate.Rate, asOfDate: rate.AsOfDate })),
+    balances,
+    realizedGainLoss: realized,
+    unrealizedGainLoss: untranslated.length === 0
+      ? round(balances.reduce((sum, balance) => sum + balance.unrealizedGainLoss!, 0))
+      : null,
+    ...(!comparable && balances.length
+      ? { unrealizedNote: `QuickBooks gives foreign-currency balances only as of ${balancesAsOf}, not at the ${asOfDate} period end` }
+      : missingRates.length
+        ? { unrealizedNote: `No ${homeCurrency} exchange rate in QuickBooks for ${missingRates.join(', ')} on ${asOfDate}` }
+        : {})
+  };
+};
+
+/**
+ * One-line summary for prompts and report text
+ */
+export const describeForeignExchange = (fx: ForeignExchangeSummary, format: CurrencyFormat): string => {
+  const currencies = [...new Set(fx.balances.map(balance => balance.currency))];
+  return [
+    `Realized exchange ${fx.realizedGainLoss < 0 ? 'loss' : 'gain'} ${formatMoney(Math.abs(fx.realizedGainLoss), format)}`,
+    fx.unrealizedGainLoss === null
+      ? `unrealized exchange gain not computed${fx.unrealizedNote ? ` (${fx.unrealizedNote})` : ''}`
+      : `unrealized exchange ${fx.unrealizedGainLoss < 0 ? 'loss' : 'gain'} ${formatMoney(Math.abs(fx.unrealizedGainLoss), format)} on ${currencies.join(', ')} balances at ${fx.asOfDate} rates`
+  ].join('; ');
+};
+
+/**
+ * Foreign balances and exchange gains as a markdown section, for reports
+ * rendered from markdown
+ */
+export const foreignExchangeMarkdown = (fx: ForeignExchangeSummary, format: CurrencyFormat): string => {
+  const money = (amount: number | null) => amount === null ? 'n/a' : formatMoney(amount, format);
+  const line = (cells: string[]) => `| ${cells.map(cell => cell.replace(/\|/g, '\\|')).join(' | ')} |`;
+  return [
+    `## Foreign Exchange (${fx.homeCurrency})`,
+    '',
+    `${describeForeignExchange(fx, format)}.`,
+    ...(fx.balances.length
+      ? [
+        '',
+        line(['Account', 'Currency', 'Foreign Balance', 'Rate', 'Book Value', 'Translated Value', 'Unrealized Gain (Loss)']),
+        line(['---', '---', '---:', '---:', '---:', '---:', '---:']),
+        ...fx.balances.map(balance => line([
+          balance.accountName,
+          balance.currency,
+          balance.foreignBalance === null
+            ? 'n/a'
+            : formatMoney(balance.foreignBalance, { currency: balance.currency, locale: format.locale }),
+          balance.rate === null ? 'n/a' : String(balance.rate),
+          money(balance.bookValue),
+          money(balance.translatedValue),
+          money(balance.unrealizedGainLoss)
+        ]))
+      ]
+      : [])
+  ].join('\n');
+};
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeCustomerConcentration, describeCustomerConcentration } from './customerConcentration';
+import { CustomerRevenue } from '../types/financial.types';
+
+const customer = (customerName: string, amount: number): CustomerRevenue => ({ customerName, amount });
+
+/** Equal sales to each of count customers */
+const evenlySplit = (count: number, amount = 1000) =>
+  Array.from({ length: count }, (_, i) => customer(`Customer ${i + 1}`, amount));
+
+describe('analyzeCustomerConcentration', () => {
+  // 10,000 of attributed sales: 30%, 20%, 10% and ten customers at 4%
+  const customers = [
+    customer('Small 1', 400),
+    customer('Acme', 3000),
+    customer('Not Specified', 500),
+    customer('Globex', 2000),
+    customer('Refunded', -200),
+    customer('Initech', 1000),
+    ...Array.from({ length: 9 }, (_, i) => customer(`Small ${i + 2}`, 400))
+  ];
+
+  it('ranks the top customers by their share of attributed revenue', () => {
+    const concentration = analyzeCustomerConcentration(customers, 3);
+
+    expect(concentration.topCustomers).toEqual([
+      { customerName: 'Acme', amount: 3000, share: 30 },
+      { customerName: 'Globex', amount: 2000, share: 20 },
+      { customerName: 'Initech', amount: 1000, share: 10 }
+    ]);
+    expect(concentration.topShares).toEqual({ top1: 30, top5: 68, top10: 88 });
+  });
+
+  it('leaves unattributed sales and customers without positive sales out of the shares', () => {
+    const concentration = analyzeCustomerConcentration(customers);
+
+    expect(concentration).toMatchObject({ totalRevenue: 10000, unattributedRevenue: 500, customerCount: 13 });
+    expect(concentration.topCustomers).toHaveLength(10);
+  });
+
+  it('sums the squared percentage shares into the HHI', () => {
+    // 30² + 20² + 10² + 10 × 4²
+    expect(analyzeCustomerConcentration(customers).herfindahlIndex).toBe(1560);
+    expect(analyzeCustomerConcentration([customer('Acme', 5000)]).herfindahlIndex).toBe(10000);
+    expect(analyzeCustomerConcentration(evenlySplit(4)).herfindahlIndex).toBe(2500);
+  });
+
+  it('rates the risk by every threshold the shares or HHI reach', () => {
+    expect(analyzeCustomerConcentration(customers)).toMatchObject({
+      risk: 'high',
+      riskReasons: ['largest customer is 30% of revenue (at least 25%)', 'top 5 customers are 68% of revenue (at least 60%)']
+    });
+    // Ten customers at 10%: HHI 1,000, top 5 at 50%
+    expect(analyzeCustomerConcentration(evenlySplit(10))).toMatchObject({
+      risk: 'medium',
+      riskReasons: ['largest customer is 10% of revenue (at least 10%)', 'top 5 customers are 50% of revenue (at least 40%)']
+    });
+    expect(analyzeCustomerConcentration(evenlySplit(20))).toMatchObject({
+      risk: 'low',
+      riskReasons: ['HHI 500 and top customer shares are below the medium-risk thresholds']
+    });
+  });
+
+  it('has no concentration without customer sales', () => {
+    const concentration = analyzeCustomerConcentration([customer('Not Specified', 800)]);
+
+    expect(concentration).toMatchObject({
+      totalRevenue: 0,
+      customerCount: 0,
+      topShares: { top1: 0, top5: 0, top10: 0 },
+      herfindahlIndex: 0,
+      risk: 'low',
+      riskReasons: ['No customer sales in the period']
+    });
+    expect(describeCustomerConcentration(concentration)).toBe(
+      'low concentration risk across 0 customers: largest customer 0%, top 5 0%, top 10 0% of revenue; HHI 0'
+    );
+  });
+});
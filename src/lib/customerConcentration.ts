@@ -0,0 +1,86 @@
+/**
+ * Customer concentration analysis
+ *
+ * Computes how dependent revenue is on a few customers from customer-level
+ * sales, so the report states the concentration risk as a fact rather than
+ * leaving the LLM to guess it from the P&L.
+ */
+
+import { ConcentrationRisk, CustomerConcentration, CustomerRevenue } from '../types/financial.types';
+import { round } from './utils';
+
+/** Customers listed individually in the analysis */
+export const DEFAULT_TOP_CUSTOMERS = 10;
+
+/** QBO's row for sales without a customer */
+const UNATTRIBUTED_PATTERN = /^not specified$/i;
+
+/**
+ * Risk tier thresholds. HHI tiers follow the US merger guidelines
+ * (below 1,500 unconcentrated, above 2,500 highly concentrated); the share
+ * tiers are common lender covenants for single-customer dependence.
+ */
+const RISK_THRESHOLDS: Record<Exclude<ConcentrationRisk, 'low'>, { hhi: number; top1: number; top5: number }> = {
+  high: { hhi: 2500, top1: 25, top5: 60 },
+  medium: { hhi: 1500, top1: 10, top5: 40 }
+};
+
+/**
+ * Top-N shares, Herfindahl-Hirschman index and risk tier of customer revenue.
+ * Customers with zero or negative net sales (e.g. credit memos exceeding
+ * invoices) carry no share and are left out.
+ */
+export const analyzeCustomerConcentration = (
+  customers: CustomerRevenue[],
+  topN: number = DEFAULT_TOP_CUSTOMERS
+): CustomerConcentration => {
+  const unattributedRevenue = customers
+    .filter(customer => UNATTRIBUTED_PATTERN.test(customer.customerName.trim()))
+    .reduce((sum, customer) => sum + customer.amount, 0);
+  const ranked = customers
+    .filter(customer => customer.amount > 0 && !UNATTRIBUTED_PATTERN.test(customer.customerName.trim()))
+    .sort((a, b) => b.amount - a.amount);
+  const totalRevenue = ranked.reduce((sum, customer) => sum + customer.amount, 0);
+
+  const shares = ranked.map(customer => totalRevenue ? (customer.amount / totalRevenue) * 100 : 0);
+  const topShare = (count: number) => round(shares.slice(0, count).reduce((sum, share) => sum + share, 0));
+  const topShares = { top1: topShare(1), top5: topShare(5), top10: topShare(10) };
+  const herfindahlIndex = Math.round(shares.reduce((sum, share) => sum + share * share, 0));
+
+  const reasonsFor = (tier: Exclude<ConcentrationRisk, 'low'>): string[] => {
+    const limits = RISK_THRESHOLDS[tier];
+    return [
+      herfindahlIndex >= limits.hhi ? `HHI ${herfindahlIndex} is at least ${limits.hhi}` : '',
+      topShares.top1 >= limits.top1 ? `largest customer is ${topShares.top1}% of revenue (at least ${limits.top1}%)` : '',
+      topShares.top5 >= limits.top5 ? `top 5 customers are ${topShares.top5}% of revenue (at least ${limits.top5}%)` : ''
+    ].filter(Boolean);
+  };
+  const highReasons = reasonsFor('high');
+  const mediumReasons = reasonsFor('medium');
+  const risk: ConcentrationRisk = highReasons.length ? 'high' : mediumReasons.length ? 'medium' : 'low';
+
+  return {
+    totalRevenue: round(totalRevenue),
+    unattributedRevenue: round(unattributedRevenue),
+    customerCount: ranked.length,
+    topCustomers: ranked.slice(0, topN).map((customer, i) => ({ ...customer, share: round(shares[i]) })),
+    topShares,
+    herfindahlIndex,
+    risk,
+    riskReasons: risk === 'high'
+      ? highReasons
+      : risk === 'medium'
+        ? mediumReasons
+        : [ranked.length
+          ? `HHI ${herfindahlIndex} and top customer shares are below the medium-risk thresholds`
+          : 'No customer sales in the period']
+  };
+};
+
+/**
+ * One-line summary for prompts and report text
+ */
+export const describeCustomerConcentration = (concentration: CustomerConcentration): string =>
+  `${concentration.risk} concentration risk across ${concentration.customerCount} customers: ` +
+  `largest customer ${concentration.topShares.top1}%, top 5 ${concentration.topShares.top5}%, ` +
+  `top 10 ${concentration.topShares.top10}% of revenue; HHI ${concentration.herfindahlIndex}`;
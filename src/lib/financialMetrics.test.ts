@@ -0,0 +1,335 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateFinancialMetrics,
+  daysInPeriod,
+  interestExpense,
+  MetricInputs,
+  nonCashChargeLines
+} from './financialMetrics';
+import {
+  BalanceSheetStatement,
+  CalculatedMetrics,
+  CashFlowStatement,
+  KPIFigure,
+  ProfitLossStatement
+} from '../types/financial.types';
+
+const profitLoss = (overrides: Partial<ProfitLossStatement> = {}): ProfitLossStatement => ({
+  revenue: { total: 100000, breakdown: [{ category: 'Sales', amount: 100000, percentage: 100 }] },
+  costOfGoodsSold: {
+    total: 40000,
+    breakdown: [
+      { category: 'Materials', amount: 38000 },
+      { category: 'Depreciation - Equipment', amount: 2000 }
+    ]
+  },
+  grossProfit: 60000,
+  operatingExpenses: {
+    total: 30000,
+    breakdown: [
+      { category: 'Salaries', amount: 20000, percentage: 20 },
+      { category: 'Advertising', amount: 5000, percentage: 5 },
+      { category: 'Interest Expense', amount: 1000, percentage: 1 },
+      { category: 'Rent', amount: 4000, percentage: 4 }
+    ]
+  },
+  operatingIncome: 30000,
+  otherIncomeExpenses: {
+    total: -1500,
+    breakdown: [
+      { category: 'Interest Income', amount: 500 },
+      { category: 'Loan Interest', amount: -2000 }
+    ]
+  },
+  incomeBeforeTax: 28500,
+  taxExpense: 7500,
+  netIncome: 21000,
+  ...overrides
+});
+
+const balanceSheet = (current: Partial<BalanceSheetStatement['assets']['current']> = {}, currentLiabilities = 40000): BalanceSheetStatement => {
+  const assets = { cash: 50000, accountsReceivable: 20000, inventory: 10000, otherCurrentAssets: 0, ...current };
+  const currentTotal = assets.cash + assets.accountsReceivable + assets.inventory + assets.otherCurrentAssets;
+  return {
+    assets: {
+      current: { total: currentTotal, ...assets },
+      nonCurrent: { total: 120000, propertyPlantEquipment: 120000, intangibleAssets: 0, otherNonCurrentAssets: 0 },
+      totalAssets: currentTotal + 120000
+    },
+    liabilities: {
+      current: {
+        total: currentLiabilities,
+        accountsPayable: currentLiabilities ? 15000 : 0,
+        shortTermDebt: currentLiabilities ? currentLiabilities - 15000 : 0,
+        otherCurrentLiabilities: 0
+      },
+      nonCurrent: { total: 60000, longTermDebt: 60000, otherNonCurrentLiabilities: 0 },
+      totalLiabilities: currentLiabilities + 60000
+    },
+    equity: {
+      total: currentTotal + 120000 - currentLiabilities - 60000,
+      commonStock: 10000,
+      retainedEarnings: currentTotal + 120000 - currentLiabilities - 70000,
+      otherEquity: 0
+    }
+  };
+};
+
+const cashFlow = (): CashFlowStatement => ({
+  operatingActivities: {
+    netIncome: 21000,
+    adjustments: [{ item: 'Depreciation', amount: 2000 }],
+    workingCapitalChanges: { accountsReceivable: 0, inventory: 0, accountsPayable: 2000, other: 0 },
+    netCashFromOperations: 25000
+  },
+  investingActivities: {
+    capitalExpenditures: -10000,
+    acquisitions: 0,
+    assetSales: 0,
+    otherInvesting: 0,
+    netCashFromInvesting: -10000
+  },
+  financingActivities: {
+    debtProceeds: 0,
+    debtRepayments: -5000,
+    equityIssuance: 0,
+    dividendsPaid: 0,
+    otherFinancing: 0,
+    netCashFromFinancing: -5000
+  },
+  netChangeInCash: 10000,
+  beginningCash: 40000,
+  endingCash: 50000
+});
+
+const metrics = (overrides: Partial<MetricInputs> = {}): CalculatedMetrics =>
+  calculateFinancialMetrics({
+    profitLoss: profitLoss(),
+    balanceSheet: balanceSheet(),
+    cashFlow: cashFlow(),
+    periodDays: 30,
+    ...overrides
+  });
+
+const kpi = (result: CalculatedMetrics, key: string): KPIFigure => {
+  const figure = result.kpis.find(candidate => candidate.key === key);
+  if (!figure) throw new Error(`Missing KPI ${key}`);
+  return figure;
+};
+
+describe('daysInPeriod', () => {
+  it('counts both ends of the period', () => {
+    expect(daysInPeriod('2026-01-01', '2026-01-31')).toBe(31);
+    expect(daysInPeriod('2026-01-01', '2026-12-31')).toBe(365);
+  });
+
+  it('falls back to an average month for invalid or reversed dates', () => {
+    expect(daysInPeriod('not a date', '2026-01-31')).toBeCloseTo(365 / 12);
+    expect(daysInPeriod('2026-02-01', '2026-01-01')).toBeCloseTo(365 / 12);
+  });
+});
+
+describe('P&L line helpers', () => {
+  it('finds depreciation and amortization in cost of sales and operating expenses', () => {
+    expect(nonCashChargeLines(profitLoss()).map(line => line.category)).toEqual(['Depreciation - Equipment']);
+  });
+
+  it('adds operating interest to other interest expense and ignores interest income', () => {
+    expect(interestExpense(profitLoss())).toBe(3000);
+  });
+});
+
+describe('calculateFinancialMetrics', () => {
+  it('returns the twelve report KPIs with formulas and inputs', () => {
+    const result = metrics();
+    expect(result.kpis.map(figure => figure.key)).toEqual([
+      'cashOnHand',
+      'cashRunway',
+      'operatingCashFlow',
+      'grossProfitMargin',
+      'netProfitMargin',
+      'ebitda',
+      'revenueGrowthRate',
+      'customerAcquisitionCost',
+      'accountsReceivableDays',
+      'inventoryTurnover',
+      'currentRatio',
+      'debtToEquity'
+    ]);
+    for (const figure of result.kpis) {
+      expect(figure.formula).not.toBe('');
+      expect(Object.keys(figure.inputs).length).toBeGreaterThan(0);
+    }
+  });
+
+  it('calculates cash KPIs', () => {
+    const result = metrics();
+    expect(kpi(result, 'cashOnHand').value).toBe(50000);
+    // 68,000 of cash expenses over 30 days is about 68,945 a month
+    expect(kpi(result, 'cashRunway').value).toBe(0.7);
+    expect(kpi(result, 'cashRunway').inputs).toMatchObject({ depreciationAndAmortization: 2000 });
+    expect(kpi(result, 'operatingCashFlow').value).toBe(25000);
+  });
+
+  it('calculates profitability KPIs', () => {
+    const result = metrics();
+    expect(kpi(result, 'grossProfitMargin').value).toBe(60);
+    expect(kpi(result, 'netProfitMargin').value).toBe(21);
+    expect(kpi(result, 'ebitda').value).toBe(33500);
+    expect(kpi(result, 'ebitda').inputs).toEqual({
+      netIncome: 21000,
+      taxExpense: 7500,
+      interestExpense: 3000,
+      depreciationAndAmortization: 2000
+    });
+    expect(result.profitabilityRatios).toEqual({
+      grossProfitMargin: 60,
+      operatingMargin: 30,
+      netProfitMargin: 21,
+      returnOnAssets: 10.5,
+      returnOnEquity: 21,
+      ebitda: 33500,
+      ebitdaMargin: 33.5
+    });
+  });
+
+  it('calculates growth KPIs against the prior period', () => {
+    const result = metrics({
+      previousProfitLoss: profitLoss({ revenue: { total: 80000, breakdown: [] }, netIncome: 15000 }),
+      newCustomers: 10
+    });
+    expect(kpi(result, 'revenueGrowthRate').value).toBe(25);
+    expect(result.growthMetrics.profitGrowthRate).toBe(40);
+    expect(kpi(result, 'customerAcquisitionCost').value).toBe(500);
+    expect(kpi(result, 'customerAcquisitionCost').inputs).toEqual({ marketingSpend: 5000, newCustomers: 10 });
+  });
+
+  it('measures growth from a negative prior period by its magnitude', () => {
+    const result = metrics({ previousProfitLoss: profitLoss({ netIncome: -10000 }) });
+    expect(result.growthMetrics.profitGrowthRate).toBe(310);
+  });
+
+  it('calculates efficiency KPIs from ending balances', () => {
+    const result = metrics();
+    expect(kpi(result, 'accountsReceivableDays').value).toBe(6);
+    expect(kpi(result, 'accountsReceivableDays').formula).toMatch(/^Ending/);
+    expect(kpi(result, 'inventoryTurnover').value).toBe(48.67);
+    // 6 receivable days + 7.5 inventory days - 11.25 payable days
+    expect(result.efficiencyRatios.cashConversionCycle).toBe(2.25);
+  });
+
+  it('averages opening and closing balances when the opening balance sheet is known', () => {
+    const result = metrics({ previousBalanceSheet: balanceSheet({ accountsReceivable: 10000, inventory: 6000 }) });
+    expect(kpi(result, 'accountsReceivableDays').value).toBe(4.5);
+    expect(kpi(result, 'accountsReceivableDays').formula).toMatch(/^Average/);
+    expect(kpi(result, 'inventoryTurnover').value).toBe(60.83);
+    expect(result.growthMetrics.assetGrowthRate).toBe(7.53);
+  });
+
+  it('calculates liquidity, leverage and coverage ratios', () => {
+    const result = metrics();
+    expect(kpi(result, 'currentRatio').value).toBe(2);
+    expect(kpi(result, 'debtToEquity').value).toBe(1);
+    expect(result.liquidityRatios).toEqual({
+      currentRatio: 2,
+      quickRatio: 1.75,
+      cashRatio: 1.25,
+      workingCapital: 40000
+    });
+    expect(result.leverageRatios).toEqual({
+      debtToEquity: 1,
+      debtToAssets: 0.5,
+      interestCoverage: 10,
+      debtServiceCoverage: 4.19
+    });
+  });
+
+  describe('missing data and zero denominators', () => {
+    it('returns null margins and receivable days when there is no revenue', () => {
+      const result = metrics({
+        profitLoss: profitLoss({ revenue: { total: 0, breakdown: [] }, grossProfit: -40000, netIncome: -70000 })
+      });
+      expect(kpi(result, 'grossProfitMargin').value).toBeNull();
+      expect(kpi(result, 'netProfitMargin').value).toBeNull();
+      expect(kpi(result, 'accountsReceivableDays').value).toBeNull();
+      expect(result.profitabilityRatios.operatingMargin).toBeNull();
+      expect(result.profitabilityRatios.ebitdaMargin).toBeNull();
+      expect(result.efficiencyRatios.assetTurnover).toBe(0);
+      expect(result.efficiencyRatios.cashConversionCycle).toBeNull();
+    });
+
+    it('returns null growth when the prior period had no revenue', () => {
+      const result = metrics({ previousProfitLoss: profitLoss({ revenue: { total: 0, breakdown: [] } }) });
+      expect(kpi(result, 'revenueGrowthRate').value).toBeNull();
+    });
+
+    it('returns null liquidity ratios when there are no current liabilities', () => {
+      const result = metrics({ balanceSheet: balanceSheet({}, 0) });
+      expect(kpi(result, 'currentRatio').value).toBeNull();
+      expect(result.liquidityRatios.quickRatio).toBeNull();
+      expect(result.liquidityRatios.cashRatio).toBeNull();
+      expect(result.liquidityRatios.workingCapital).toBe(80000);
+    });
+
+    it('leaves inventory and payable days out of the cycle when there is no COGS', () => {
+      const result = metrics({
+        profitLoss: profitLoss({ costOfGoodsSold: { total: 0, breakdown: [] }, grossProfit: 100000 })
+      });
+      expect(kpi(result, 'inventoryTurnover').value).toBe(0);
+      expect(result.efficiencyRatios.payablesTurnover).toBe(0);
+      expect(result.efficiencyRatios.cashConversionCycle).toBe(6);
+    });
+
+    it('returns null inventory turnover when there is neither COGS nor inventory', () => {
+      const result = metrics({
+        profitLoss: profitLoss({ costOfGoodsSold: { total: 0, breakdown: [] }, grossProfit: 100000 }),
+        balanceSheet: balanceSheet({ inventory: 0 })
+      });
+      expect(kpi(result, 'inventoryTurnover').value).toBeNull();
+    });
+
+    it('calculates the P&L and balance sheet KPIs without a cash flow statement', () => {
+      const result = metrics({ cashFlow: undefined });
+      expect(kpi(result, 'operatingCashFlow')).toMatchObject({ value: null, inputs: {}, note: 'Cash flow statement not available' });
+      expect(result.leverageRatios.debtServiceCoverage).toBeNull();
+      expect(result.kpis.filter(figure => figure.value === null).map(figure => figure.key)).toEqual([
+        'operatingCashFlow',
+        'revenueGrowthRate',
+        'customerAcquisitionCost'
+      ]);
+    });
+
+    it('returns null runway with a note when there are no cash expenses', () => {
+      const result = metrics({
+        profitLoss: profitLoss({
+          costOfGoodsSold: { total: 0, breakdown: [] },
+          operatingExpenses: { total: 0, breakdown: [] }
+        })
+      });
+      expect(kpi(result, 'cashRunway').value).toBeNull();
+      expect(kpi(result, 'cashRunway').note).toBe('No cash expenses in the period');
+    });
+
+    it('returns null growth and CAC with notes when their inputs are missing', () => {
+      const result = metrics();
+      expect(kpi(result, 'revenueGrowthRate').value).toBeNull();
+      expect(kpi(result, 'revenueGrowthRate').note).toBe('Prior period P&L not available');
+      expect(kpi(result, 'customerAcquisitionCost').value).toBeNull();
+      expect(kpi(result, 'customerAcquisitionCost').note).toBe('No new customer count for the period');
+      expect(result.growthMetrics.assetGrowthRate).toBeNull();
+    });
+
+    it('returns null leverage ratios when equity or interest is zero', () => {
+      const result = metrics({
+        profitLoss: profitLoss({
+          operatingExpenses: { total: 29000, breakdown: [{ category: 'Salaries', amount: 29000, percentage: 29 }] },
+          otherIncomeExpenses: { total: 0, breakdown: [] }
+        }),
+        balanceSheet: { ...balanceSheet(), equity: { total: 0, commonStock: 0, retainedEarnings: 0, otherEquity: 0 } }
+      });
+      expect(kpi(result, 'debtToEquity').value).toBeNull();
+      expect(result.profitabilityRatios.returnOnEquity).toBeNull();
+      expect(result.leverageRatios.interestCoverage).toBeNull();
+    });
+  });
+});
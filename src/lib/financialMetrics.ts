@@ -0,0 +1,302 @@
+/**
+ * Deterministic KPI calculations
+ *
+ * Every figure in FinancialDataForLLM.calculatedMetrics is computed here from
+ * the normalized statements, so the same data always yields the same numbers.
+ * The twelve report KPIs also carry their formula and inputs so the LLM can
+ * explain them instead of recalculating them.
+ */
+
+import {
+  AccountLine,
+  BalanceSheetStatement,
+  CashFlowStatement,
+  CalculatedMetrics,
+  KPIFigure,
+  ProfitLossStatement
+} from '../types/financial.types';
+import { leafAccountLines } from './qboReportTree';
+import { DAY_MS, percent, round } from './utils';
+
+export interface MetricInputs {
+  profitLoss: ProfitLossStatement;
+  balanceSheet: BalanceSheetStatement;
+  /** Omitted when neither the QBO report nor an opening balance sheet is available */
+  cashFlow?: CashFlowStatement;
+  previousProfitLoss?: ProfitLossStatement;
+  /** Balance sheet at the start of the period, used for averages */
+  previousBalanceSheet?: BalanceSheetStatement;
+  /** Inclusive number of days in the report period */
+  periodDays: number;
+  /** Customers created during the period, needed for CAC */
+  newCustomers?: number;
+}
+
+const DAYS_PER_YEAR = 365;
+const DAYS_PER_MONTH = DAYS_PER_YEAR / 12;
+
+const DEPRECIATION_PATTERN = /depreciation|amortization/i;
+const INTEREST_EXPENSE_PATTERN = /interest/i;
+const INTEREST_INCOME_PATTERN = /interest (income|earned)/i;
+const MARKETING_PATTERN = /advertising|marketing|promotion/i;
+
+/**
+ * Division that returns null instead of Infinity/NaN for a zero denominator
+ */
+const divide = (numerator: number, denominator: number, places = 2): number | null =>
+  denominator === 0 || !Number.isFinite(numerator / denominator)
+    ? null
+    : round(numerator / denominator, places);
+
+const growth = (current: number, previous?: number): number | null =>
+  previous === undefined ? null : percent(current - previous, Math.abs(previous));
+
+const sumLines = (lines: AccountLine[]): number =>
+  lines.reduce((sum, line) => sum + line.amount, 0);
+
+/**
+ * Inclusive day count between two YYYY-MM-DD dates
+ */
+export const daysInPeriod = (start: string, end: string): number => {
+  const days = Math.round((Date.parse(end) - Date.parse(start)) / DAY_MS) + 1;
+  return Number.isFinite(days) && days > 0 ? days : DAYS_PER_MONTH;
+};
+
+/**
+ * Depreciation and amortization lines booked in cost of sales or operating
+ * expenses
+ */
+export const nonCashChargeLines = (pl: ProfitLossStatement): AccountLine[] =>
+  leafAccountLines([...pl.costOfGoodsSold.breakdown, ...pl.operatingExpenses.breakdown])
+    .filter(line => DEPRECIATION_PATTERN.test(line.category) && line.amount !== 0);
+
+/**
+ * Interest expense lines booked in operating expenses and in other income
+ * and expense
+ */
+export const interestExpenseLines = (pl: ProfitLossStatement): { operating: AccountLine[]; other: AccountLine[] } => {
+  const isInterestExpense = (line: AccountLine) =>
+    INTEREST_EXPENSE_PATTERN.test(line.category) && !INTEREST_INCOME_PATTERN.test(line.category);
+  return {
+    operating: leafAccountLines(pl.operatingExpenses.breakdown).filter(isInterestExpense),
+    other: leafAccountLines(pl.otherIncomeExpenses.breakdown).filter(isInterestExpense)
+  };
+};
+
+/**
+ * Interest expense from operating and other expense lines. Other income and
+ * expense lines are signed as income, so expenses there are negative.
+ */
+export const interestExpense = (pl: ProfitLossStatement): number => {
+  const { operating, other } = interestExpenseLines(pl);
+  return sumLines(operating) - sumLines(other);
+};
+
+/**
+ * Average of opening and closing balances when the opening balance sheet is
+ * known, otherwise the closing balance
+ */
+const averageBalance = (
+  select: (bs: BalanceSheetStatement) => number,
+  closing: BalanceSheetStatement,
+  opening?: BalanceSheetStatement
+): number => opening ? (select(opening) + select(closing)) / 2 : select(closing);
+
+/**
+ * Calculate every ratio in calculatedMetrics plus the twelve report KPIs
+ */
+export const calculateFinancialMetrics = (inputs: MetricInputs): CalculatedMetrics => {
+  const { profitLoss: pl, balanceSheet: bs, cashFlow: cf, previousProfitLoss, previousBalanceSheet } = inputs;
+  const periodDays = inputs.periodDays;
+  const periodMonths = round(periodDays / DAYS_PER_MONTH, 4);
+  const annualize = DAYS_PER_YEAR / periodDays;
+  const balanceBasis = previousBalanceSheet ? 'Average' : 'Ending';
+
+  const revenue = pl.revenue.total;
+  const cogs = pl.costOfGoodsSold.total;
+  const operatingExpenses = pl.operatingExpenses.total;
+  const cash = bs.assets.current.cash;
+  const currentAssets = bs.assets.current.total;
+  const currentLiabilities = bs.liabilities.current.total;
+  const totalLiabilities = bs.liabilities.totalLiabilities;
+  const totalEquity = bs.equity.total;
+  const depreciationAndAmortization = sumLines(nonCashChargeLines(pl));
+  const interest = interestExpense(pl);
+  const ebitda = pl.netIncome + pl.taxExpense + interest + depreciationAndAmortization;
+
+  const averageReceivables = averageBalance(b => b.assets.current.accountsReceivable, bs, previousBalanceSheet);
+  const averageInventory = averageBalance(b => b.assets.current.inventory, bs, previousBalanceSheet);
+  const averagePayables = averageBalance(b => b.liabilities.current.accountsPayable, bs, previousBalanceSheet);
+  const monthlyCashExpenses = (cogs + operatingExpenses - depreciationAndAmortization) / periodMonths;
+  const marketingSpend = sumLines(
+    leafAccountLines(pl.operatingExpenses.breakdown).filter(line => MARKETING_PATTERN.test(line.category))
+  );
+
+  const receivableDays = divide(averageReceivables * periodDays, revenue);
+  const inventoryDays = divide(averageInventory * periodDays, cogs);
+  const payableDays = divide(averagePayables * periodDays, cogs);
+  const debtRepayments = cf && Math.abs(cf.financingActivities.debtRepayments);
+
+  const kpis: KPIFigure[] = [
+    {
+      key: 'cashOnHand',
+      name: 'Cash on Hand',
+      category: 'cash',
+      value: round(cash),
+      unit: 'currency',
+      formula: 'Cash and bank balances at period end',
+      inputs: { cash }
+    },
+    {
+      key: 'cashRunway',
+      name: 'Cash Runway',
+      category: 'cash',
+      value: monthlyCashExpenses > 0 ? divide(cash, monthlyCashExpenses, 1) : null,
+      unit: 'months',
+      formula: 'Cash / ((Cost of Goods Sold + Operating Expenses - Depreciation & Amortization) / months in period)',
+      inputs: { cash, costOfGoodsSold: cogs, operatingExpenses, depreciationAndAmortization, periodMonths },
+      ...(monthlyCashExpenses > 0 ? {} : { note: 'No cash expenses in the period' })
+    },
+    {
+      key: 'operatingCashFlow',
+      name: 'Operating Cash Flow',
+      category: 'cash',
+      value: cf ? round(cf.operatingActivities.netCashFromOperations) : null,
+      unit: 'currency',
+      formula: 'Net cash from operating activities (cash flow statement)',
+      inputs: cf ? { netCashFromOperations: cf.operatingActivities.netCashFromOperations } : {},
+      ...(cf ? {} : { note: 'Cash flow statement not available' })
+    },
+    {
+      key: 'grossProfitMargin',
+      name: 'Gross Profit Margin',
+      category: 'profitability',
+      value: percent(pl.grossProfit, revenue),
+      unit: 'percent',
+      formula: 'Gross Profit / Revenue x 100',
+      inputs: { grossProfit: pl.grossProfit, revenue }
+    },
+    {
+      key: 'netProfitMargin',
+      name: 'Net Profit Margin',
+      category: 'profitability',
+      value: percent(pl.netIncome, revenue),
+      unit: 'percent',
+      formula: 'Net Income / Revenue x 100',
+      inputs: { netIncome: pl.netIncome, revenue }
+    },
+    {
+      key: 'ebitda',
+      name: 'EBITDA',
+      category: 'profitability',
+      value: round(ebitda),
+      unit: 'currency',
+      formula: 'Net Income + Income Tax + Interest Expense + Depreciation & Amortization',
+      inputs: {
+        netIncome: pl.netIncome,
+        taxExpense: pl.taxExpense,
+        interestExpense: interest,
+        depreciationAndAmortization
+      }
+    },
+    {
+      key: 'revenueGrowthRate',
+      name: 'Revenue Growth Rate',
+      category: 'growth',
+      value: growth(revenue, previousProfitLoss?.revenue.total),
+      unit: 'percent',
+      formula: '(Revenue - Prior Period Revenue) / |Prior Period Revenue| x 100',
+      inputs: previousProfitLoss
+        ? { revenue, previousRevenue: previousProfitLoss.revenue.total }
+        : { revenue },
+      ...(previousProfitLoss ? {} : { note: 'Prior period P&L not available' })
+    },
+    {
+      key: 'customerAcquisitionCost',
+      name: 'Customer Acquisition Cost',
+      category: 'growth',
+      value: inputs.newCustomers ? divide(marketingSpend, inputs.newCustomers) : null,
+      unit: 'currency',
+      formula: 'Advertising & Marketing Expense / New Customers in period',
+      inputs: inputs.newCustomers !== undefined
+        ? { marketingSpend, newCustomers: inputs.newCustomers }
+        : { marketingSpend },
+      ...(inputs.newCustomers ? {} : { note: 'No new customer count for the period' })
+    },
+    {
+      key: 'accountsReceivableDays',
+      name: 'Accounts Receivable Days',
+      category: 'efficiency',
+      value: receivableDays,
+      unit: 'days',
+      formula: `${balanceBasis} Accounts Receivable / Revenue x days in period`,
+      inputs: { accountsReceivable: averageReceivables, revenue, periodDays }
+    },
+    {
+      key: 'inventoryTurnover',
+      name: 'Inventory Turnover',
+      category: 'efficiency',
+      value: divide(cogs * annualize, averageInventory),
+      unit: 'times',
+      formula: `Annualized Cost of Goods Sold / ${balanceBasis} Inventory`,
+      inputs: { costOfGoodsSold: cogs, inventory: averageInventory, periodDays }
+    },
+    {
+      key: 'currentRatio',
+      name: 'Current Ratio',
+      category: 'risk',
+      value: divide(currentAssets, currentLiabilities),
+      unit: 'ratio',
+      formula: 'Current Assets / Current Liabilities',
+      inputs: { currentAssets, currentLiabilities }
+    },
+    {
+      key: 'debtToEquity',
+      name: 'Debt-to-Equity Ratio',
+      category: 'risk',
+      value: divide(totalLiabilities, totalEquity),
+      unit: 'ratio',
+      formula: 'Total Liabilities / Total Equity',
+      inputs: { totalLiabilities, totalEquity }
+    }
+  ];
+
+  return {
+    liquidityRatios: {
+      currentRatio: divide(currentAssets, currentLiabilities),
+      quickRatio: divide(cash + bs.assets.current.accountsReceivable, currentLiabilities),
+      cashRatio: divide(cash, currentLiabilities),
+      workingCapital: round(currentAssets - currentLiabilities)
+    },
+    profitabilityRatios: {
+      grossProfitMargin: percent(pl.grossProfit, revenue),
+      operatingMargin: percent(pl.operatingIncome, revenue),
+      netProfitMargin: percent(pl.netIncome, revenue),
+      returnOnAssets: percent(pl.netIncome, bs.assets.totalAssets),
+      returnOnEquity: percent(pl.netIncome, totalEquity),
+      ebitda: round(ebitda),
+      ebitdaMargin: percent(ebitda, revenue)
+    },
+    efficiencyRatios: {
+      assetTurnover: divide(revenue * annualize, bs.assets.totalAssets),
+      inventoryTurnover: divide(cogs * annualize, averageInventory),
+      receivablesTurnover: divide(revenue * annualize, averageReceivables),
+      payablesTurnover: divide(cogs * annualize, averagePayables),
+      cashConversionCycle: receivableDays === null
+        ? null
+        : round(receivableDays + (inventoryDays ?? 0) - (payableDays ?? 0))
+    },
+    leverageRatios: {
+      debtToEquity: divide(totalLiabilities, totalEquity),
+      debtToAssets: divide(totalLiabilities, bs.assets.totalAssets),
+      interestCoverage: divide(pl.operatingIncome, interest),
+      debtServiceCoverage: debtRepayments === undefined ? null : divide(ebitda, interest + debtRepayments)
+    },
+    growthMetrics: {
+      revenueGrowthRate: growth(revenue, previousProfitLoss?.revenue.total),
+      profitGrowthRate: growth(pl.netIncome, previousProfitLoss?.netIncome),
+      assetGrowthRate: growth(bs.assets.totalAssets, previousBalanceSheet?.assets.totalAssets)
+    },
+    kpis
+  };
+};
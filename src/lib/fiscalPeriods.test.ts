@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { FiscalCalendar, getFiscalPeriod, getFiscalYearPeriods, getReportPeriods } from './fiscalPeriods';
+
+// Fiscal years end on the last Saturday of December
+const RETAIL: FiscalCalendar = { type: '52-53-week', yearEndMonth: 12, weekEndDay: 6, yearEndRule: 'last' };
+
+const weeksOf = ({ start, end }: { start: string; end: string }) =>
+  (Date.parse(end) - Date.parse(start)) / (7 * 86400000) + 1 / 7;
+
+describe('getFiscalYearPeriods', () => {
+  it('splits a 52-week year into 4-4-5 periods', () => {
+    const periods = getFiscalYearPeriods(RETAIL, 2023);
+
+    expect(periods[0]).toEqual({ start: '2023-01-01', end: '2023-01-28', fiscalYear: 2023, period: 1, quarter: 1 });
+    expect(periods.map(weeksOf)).toEqual([4, 4, 5, 4, 4, 5, 4, 4, 5, 4, 4, 5]);
+    expect(periods[11]).toMatchObject({ start: '2023-11-26', end: '2023-12-30', quarter: 4 });
+  });
+
+  it("adds FY2022's 53rd week to its final period", () => {
+    const periods = getFiscalYearPeriods(RETAIL, 2022);
+
+    expect(periods[0].start).toBe('2021-12-26');
+    expect(periods.map(weeksOf)).toEqual([4, 4, 5, 4, 4, 5, 4, 4, 5, 4, 4, 6]);
+    expect(periods[11]).toMatchObject({ start: '2022-11-20', end: '2022-12-31' });
+    // Each period starts the day after the previous one ends
+    periods.slice(1).forEach((period, i) => {
+      expect(Date.parse(period.start) - Date.parse(periods[i].end)).toBe(86400000);
+    });
+  });
+
+  it('follows the week pattern of each quarter', () => {
+    const periods = getFiscalYearPeriods({ ...RETAIL, pattern: '4-5-4' }, 2023);
+
+    expect(periods.slice(0, 3).map(weeksOf)).toEqual([4, 5, 4]);
+    expect(periods[2]).toMatchObject({ start: '2023-03-05', end: '2023-04-01' });
+  });
+
+  it('ends the year on the weekday nearest the month end', () => {
+    // June 30, 2022 was a Thursday: the nearest Sunday is July 3
+    const periods = getFiscalYearPeriods({ type: '52-53-week', yearEndMonth: 6, weekEndDay: 0, yearEndRule: 'nearest' }, 2022);
+
+    expect(periods[0].start).toBe('2021-06-28');
+    expect(periods[11].end).toBe('2022-07-03');
+    expect(weeksOf(periods[11])).toBe(6);
+  });
+});
+
+describe('getFiscalPeriod', () => {
+  it('places the days after December 31 in the 53-week year they belong to', () => {
+    expect(getFiscalPeriod(RETAIL, '2021-12-27')).toMatchObject({ fiscalYear: 2022, period: 1 });
+    expect(getFiscalPeriod(RETAIL, '2022-12-31')).toMatchObject({ fiscalYear: 2022, period: 12 });
+    expect(getFiscalPeriod(RETAIL, '2023-01-01')).toMatchObject({ fiscalYear: 2023, period: 1 });
+  });
+});
+
+describe('getReportPeriods', () => {
+  it('reports the period ending in the month and compares it with fiscal periods', () => {
+    const periods = getReportPeriods(RETAIL, 2023, 12);
+
+    expect(periods.mtd).toEqual({ start: '2023-11-26', end: '2023-12-30' });
+    expect(periods.qtd).toEqual({ start: '2023-10-01', end: '2023-12-30' });
+    expect(periods.ytd).toEqual({ start: '2023-01-01', end: '2023-12-30' });
+    expect(periods.priorMonth).toEqual({ start: '2023-10-29', end: '2023-11-25' });
+    // The prior year's final period includes its 53rd week
+    expect(periods.priorYearSamePeriod).toEqual({ start: '2022-11-20', end: '2022-12-31' });
+  });
+
+  it('reports the period ending in a month whose end falls in the next period', () => {
+    // November 30 falls in P12, so November reports P11
+    expect(getReportPeriods(RETAIL, 2022, 11).period).toMatchObject({ start: '2022-10-23', end: '2022-11-19', period: 11 });
+  });
+
+  it('names month-based fiscal years after the year they end in', () => {
+    const periods = getReportPeriods({ type: 'monthly', startMonth: 7 }, 2026, 9);
+
+    expect(periods.period).toMatchObject({ fiscalYear: 2027, period: 3, quarter: 1 });
+    expect(periods.ytd).toEqual({ start: '2026-07-01', end: '2026-09-30' });
+    expect(periods.priorYearSamePeriod).toEqual({ start: '2025-09-01', end: '2025-09-30' });
+  });
+});
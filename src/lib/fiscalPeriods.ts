@@ -0,0 +1,260 @@
+/**
+ * Fiscal period calculator
+ *
+ * Report date ranges for any fiscal calendar: month-based years starting in
+ * any month (QBO's FiscalYearStartMonth) and 52/53-week years split into
+ * 4-4-5 style periods. Dates are YYYY-MM-DD strings computed in UTC so they
+ * never shift with the local timezone.
+ */
+
+import { ComparisonPeriod } from '../types/financial.types';
+import { DAY_MS } from './utils';
+
+export type WeekPattern = '4-4-5' | '4-5-4' | '5-4-4';
+
+export type FiscalCalendar =
+  | {
+      type: 'monthly';
+      /** Month the fiscal year starts in, 1 = January */
+      startMonth: number;
+    }
+  | {
+      type: '52-53-week';
+      /** Month (1-12) the fiscal year ends in */
+      yearEndMonth: number;
+      /** Weekday the fiscal year ends on, 0 = Sunday */
+      weekEndDay: number;
+      /** Last such weekday of the month, or the one nearest the month end */
+      yearEndRule: 'last' | 'nearest';
+      /** Weeks per period in each quarter; a 53rd week goes to the final period */
+      pattern?: WeekPattern;
+    };
+
+export interface DateRange {
+  start: string;
+  end: string;
+}
+
+export interface FiscalPeriod extends DateRange {
+  /** Named after the calendar year the fiscal year ends in */
+  fiscalYear: number;
+  /** 1-12 */
+  period: number;
+  /** 1-4 */
+  quarter: number;
+}
+
+export interface ReportPeriods {
+  period: FiscalPeriod;
+  mtd: DateRange;
+  qtd: DateRange;
+  ytd: DateRange;
+  trailing12: DateRange;
+  priorMonth: DateRange;
+  priorYearSamePeriod: DateRange;
+}
+
+export const DEFAULT_FISCAL_CALENDAR: FiscalCalendar = { type: 'monthly', startMonth: 1 };
+
+const PERIODS_PER_YEAR = 12;
+
+/** Fiscal periods between a period and the one it is compared with */
+const COMPARISON_PERIODS: Record<ComparisonPeriod, number> = {
+  MoM: 1,
+  QoQ: 3,
+  YoY: 12
+};
+
+const MONTH_NAMES = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december'
+];
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+/** Days since 1970-01-01 */
+const toDay = (date: string): number => {
+  const [year, month, day] = date.split('-').map(Number);
+  return Date.UTC(year, month - 1, day) / DAY_MS;
+};
+
+const fromDay = (day: number): string => {
+  const date = new Date(day * DAY_MS);
+  return `${pad(date.getUTCFullYear(), 4)}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+};
+
+/** Builds a date, normalizing month and day overflow (e.g. month 13) */
+const dateOf = (year: number, month: number, day: number): string =>
+  fromDay(Date.UTC(year, month - 1, day) / DAY_MS);
+
+const lastDayOfMonth = (year: number, month: number): string => dateOf(year, month + 1, 0);
+
+/** 0 = Sunday; 1970-01-01 was a Thursday */
+const weekday = (day: number): number => (((day + 4) % 7) + 7) % 7;
+
+/**
+ * Last day of a 52/53-week fiscal year
+ */
+const weekYearEnd = (calendar: Extract<FiscalCalendar, { type: '52-53-week' }>, fiscalYear: number): number => {
+  const monthEnd = toDay(lastDayOfMonth(fiscalYear, calendar.yearEndMonth));
+  const lastWeekday = monthEnd - ((weekday(monthEnd) - calendar.weekEndDay + 7) % 7);
+  return calendar.yearEndRule === 'nearest' && monthEnd - lastWeekday > 3
+    ? lastWeekday + 7
+    : lastWeekday;
+};
+
+/**
+ * The twelve periods of a fiscal year
+ */
+export const getFiscalYearPeriods = (calendar: FiscalCalendar, fiscalYear: number): FiscalPeriod[] => {
+  const toPeriod = (start: string, end: string, index: number): FiscalPeriod => ({
+    start,
+    end,
+    fiscalYear,
+    period: index + 1,
+    quarter: Math.floor(index / 3) + 1
+  });
+
+  if (calendar.type === 'monthly') {
+    const startYear = calendar.startMonth === 1 ? fiscalYear : fiscalYear - 1;
+    return Array.from({ length: PERIODS_PER_YEAR }, (_, i) => {
+      const month = calendar.startMonth + i;
+      return toPeriod(dateOf(startYear, month, 1), lastDayOfMonth(startYear, month), i);
+    });
+  }
+
+  const yearStart = weekYearEnd(calendar, fiscalYear - 1) + 1;
+  const totalWeeks = (weekYearEnd(calendar, fiscalYear) - yearStart + 1) / 7;
+  const quarterWeeks = (calendar.pattern || '4-4-5').split('-').map(Number);
+  const weeks = [0, 1, 2, 3].flatMap(() => quarterWeeks);
+  weeks[weeks.length - 1] += totalWeeks - 52;
+
+  let start = yearStart;
+  return weeks.map((periodWeeks, i) => {
+    const end = start + periodWeeks * 7 - 1;
+    const period = toPeriod(fromDay(start), fromDay(end), i);
+    start = end + 1;
+    return period;
+  });
+};
+
+/**
+ * The fiscal period containing a date
+ */
+export const getFiscalPeriod = (calendar: FiscalCalendar, date: string): FiscalPeriod => {
+  const year = Number(date.slice(0, 4));
+  for (const fiscalYear of [year, year + 1, year - 1]) {
+    const found = getFiscalYearPeriods(calendar, fiscalYear)
+      .find(period => period.start <= date && date <= period.end);
+    if (found) return found;
+  }
+  throw new Error(`No fiscal period contains ${date}`);
+};
+
+/**
+ * The period a number of fiscal periods before (negative) or after a period
+ */
+export const shiftFiscalPeriod = (calendar: FiscalCalendar, period: FiscalPeriod, offset: number): FiscalPeriod => {
+  const index = period.fiscalYear * PERIODS_PER_YEAR + (period.period - 1) + offset;
+  return getFiscalYearPeriods(calendar, Math.floor(index / PERIODS_PER_YEAR))[index % PERIODS_PER_YEAR];
+};
+
+/**
+ * The fiscal period reported for a calendar month: the period that ends in
+ * that month, or the one containing the month end if none does
+ */
+export const getPeriodForMonth = (calendar: FiscalCalendar, year: number, month: number): FiscalPeriod => {
+  const monthStart = dateOf(year, month, 1);
+  const monthEnd = lastDayOfMonth(year, month);
+  const containing = getFiscalPeriod(calendar, monthEnd);
+  if (containing.end <= monthEnd) return containing;
+  const previous = shiftFiscalPeriod(calendar, containing, -1);
+  return previous.end >= monthStart ? previous : containing;
+};
+
+const rangeOf = ({ start, end }: DateRange): DateRange => ({ start, end });
+
+/**
+ * All ranges a monthly report needs for the selected calendar month
+ */
+export const getReportPeriods = (calendar: FiscalCalendar, year: number, month: number): ReportPeriods => {
+  const period = getPeriodForMonth(calendar, year, month);
+  const yearPeriods = getFiscalYearPeriods(calendar, period.fiscalYear);
+
+  return {
+    period,
+    mtd: rangeOf(period),
+    qtd: { start: yearPeriods[(period.quarter - 1) * 3].start, end: period.end },
+    ytd: { start: yearPeriods[0].start, end: period.end },
+    trailing12: { start: shiftFiscalPeriod(calendar, period, -11).start, end: period.end },
+    priorMonth: rangeOf(shiftFiscalPeriod(calendar, period, -1)),
+    priorYearSamePeriod: rangeOf(shiftFiscalPeriod(calendar, period, -PERIODS_PER_YEAR))
+  };
+};
+
+/**
+ * Range a report period is compared with. Ranges on fiscal period boundaries
+ * shift by whole fiscal periods; other ranges shift by calendar months,
+ * keeping month-end alignment (e.g. Feb 1-29 → Jan 1-31).
+ */
+export const getComparisonRange = (
+  calendar: FiscalCalendar,
+  range: DateRange,
+  comparison: ComparisonPeriod
+): DateRange => {
+  const offset = COMPARISON_PERIODS[comparison];
+  const first = getFiscalPeriod(calendar, range.start);
+  const last = getFiscalPeriod(calendar, range.end);
+  if (first.start === range.start && last.end === range.end) {
+    return {
+      start: shiftFiscalPeriod(calendar, first, -offset).start,
+      end: shiftFiscalPeriod(calendar, last, -offset).end
+    };
+  }
+
+  const shift = (date: string, toMonthEnd: boolean) => {
+    const [year, month, day] = date.split('-').map(Number);
+    const monthEnd = lastDayOfMonth(year, month - offset);
+    return toMonthEnd ? monthEnd : dateOf(year, month - offset, Math.min(day, Number(monthEnd.slice(8))));
+  };
+  return {
+    start: shift(range.start, false),
+    end: shift(range.end, range.end === lastDayOfMonth(Number(range.end.slice(0, 4)), Number(range.end.slice(5, 7))))
+  };
+};
+
+/**
+ * Trailing whole calendar months ending with the month of `end`, for reports
+ * summarized by month (QBO month columns always follow the calendar)
+ */
+export const getTrailingMonths = (end: string, months: number): DateRange => {
+  const [year, month] = end.split('-').map(Number);
+  return { start: dateOf(year, month - months + 1, 1), end };
+};
+
+/**
+ * Fiscal year to date: the start of the fiscal year containing `end`, to `end`
+ */
+export const getFiscalYearToDate = (calendar: FiscalCalendar, end: string): DateRange => {
+  const [firstPeriod] = getFiscalYearPeriods(calendar, getFiscalPeriod(calendar, end).fiscalYear);
+  return { start: firstPeriod.start, end };
+};
+
+/**
+ * The day before `date`
+ */
+export const getPreviousDay = (date: string): string => fromDay(toDay(date) - 1);
+
+/**
+ * Month-based calendar from QBO CompanyInfo.FiscalYearStartMonth ("January")
+ */
+export const fiscalCalendarFromCompanyInfo = (companyInfo?: { FiscalYearStartMonth?: string }): FiscalCalendar => {
+  const index = MONTH_NAMES.indexOf((companyInfo?.FiscalYearStartMonth || '').trim().toLowerCase());
+  return index >= 0 ? { type: 'monthly', startMonth: index + 1 } : DEFAULT_FISCAL_CALENDAR;
+};
+
+/**
+ * Short label such as "FY2025 P3 (Q1)"
+ */
+export const formatFiscalPeriod = (period: FiscalPeriod): string =>
+  `FY${period.fiscalYear} P${period.period} (Q${period.quarter})`;
@@ -0,0 +1,267 @@
+/**
+ * Bundled industry benchmark dataset
+ *
+ * Lower quartile, median and upper quartile of the benchmarked KPIs for
+ * private U.S. companies, by NAICS sector and annual revenue band. Ships
+ * with the app so reports compare against fixed, citable figures; bump the
+ * version whenever the figures change.
+ */
+
+import { BenchmarkMetric, BenchmarkQuartiles, IndustryBenchmarkDataset } from '../types/financial.types';
+
+/** Metric order of the band() rows below */
+const METRIC_ORDER: BenchmarkMetric[] = [
+  'grossProfitMargin',
+  'operatingMargin',
+  'netProfitMargin',
+  'daysSalesOutstanding',
+  'daysPayablesOutstanding',
+  'inventoryTurnover',
+  'debtToEquity'
+];
+
+type QuartileRow = [number, number, number] | null;
+
+/**
+ * One band's quartiles as [lower, median, upper] in METRIC_ORDER; null for
+ * metrics that do not apply to the industry
+ */
+const band = (...rows: QuartileRow[]): Partial<Record<BenchmarkMetric, BenchmarkQuartiles>> =>
+  Object.fromEntries(METRIC_ORDER.flatMap((metric, i) => {
+    const row = rows[i];
+    return row ? [[metric, { lowerQuartile: row[0], median: row[1], upperQuartile: row[2] }]] : [];
+  }));
+
+export const INDUSTRY_BENCHMARK_DATASET: IndustryBenchmarkDataset = {
+  version: '2024.1',
+  source: 'CPA Financial Analysis Platform Industry Benchmarks',
+  year: 2024,
+  currency: 'USD',
+  notes: 'Approximate quartiles compiled from published ranges for private U.S. companies. '
+    + 'Use them for directional comparison; they are not a substitute for a licensed benchmark study.',
+  revenueBands: {
+    'under-1m': { label: 'Under $1M revenue', min: 0, max: 1_000_000 },
+    '1m-10m': { label: '$1M to $10M revenue', min: 1_000_000, max: 10_000_000 },
+    '10m-50m': { label: '$10M to $50M revenue', min: 10_000_000, max: 50_000_000 },
+    'over-50m': { label: 'Over $50M revenue', min: 50_000_000, max: null }
+  },
+  // Longer NAICS prefixes come before the sectors that contain them
+  industries: [
+    {
+      naicsCodes: ['11'],
+      industry: 'agriculture',
+      title: 'Agriculture, Forestry, Fishing and Hunting',
+      bands: {
+        all: band([15, 25, 38], [1, 5, 11], [0, 4, 10], [12, 25, 40], [15, 27, 45], [2.5, 5, 10], [0.6, 1.4, 3]),
+        'under-1m': band([14, 27, 43.9], [-1.2, 4, 11.8], [-2.2, 3, 10.8], [10.2, 21.2, 34], [13.5, 24.3, 40.5], [2.2, 4.5, 9], [0.45, 1.75, 4.35]),
+        '1m-10m': band([15.5, 25.5, 38.5], [1, 5, 11], [0, 4, 10], [12, 25, 40], [15, 27, 45], [2.5, 5, 10], [0.63, 1.47, 3.15]),
+        '10m-50m': band([15, 24, 35.7], [1.9, 5.5, 10.9], [0.7, 4.3, 9.7], [13, 27, 43.2], [16.5, 29.7, 49.5], [2.8, 5.5, 11], [0.65, 1.33, 2.7]),
+        'over-50m': band([15, 23, 33.4], [2.8, 6, 10.8], [1.5, 4.7, 9.5], [13.4, 28, 44.8], [18, 32.4, 54], [3, 6, 12], [0.65, 1.26, 2.48])
+      }
+    },
+    {
+      naicsCodes: ['23'],
+      industry: 'construction',
+      title: 'Construction',
+      bands: {
+        all: band([14, 21, 30], [1.5, 4.5, 8.5], [1, 4, 8], [35, 50, 68], [22, 35, 52], [12, 30, 70], [0.8, 1.6, 3.2]),
+        'under-1m': band([13.9, 23, 34.7], [-0.4, 3.5, 8.7], [-0.9, 3, 8.2], [29.8, 42.5, 57.8], [19.8, 31.5, 46.8], [10.8, 27, 63], [0.7, 2, 4.6]),
+        '1m-10m': band([14.5, 21.5, 30.5], [1.5, 4.5, 8.5], [1, 4, 8], [35, 50, 68], [22, 35, 52], [12, 30, 70], [0.84, 1.68, 3.36]),
+        '10m-50m': band([13.7, 20, 28.1], [2.3, 5, 8.6], [1.6, 4.3, 7.9], [37.8, 54, 73.4], [24.2, 38.5, 57.2], [13.2, 33, 77], [0.84, 1.52, 2.89]),
+        'over-50m': band([13.4, 19, 26.2], [3.1, 5.5, 8.7], [2.3, 4.7, 7.9], [39.2, 56, 76.2], [26.4, 42, 62.4], [14.4, 36, 84], [0.83, 1.44, 2.66])
+      }
+    },
+    {
+      naicsCodes: ['31', '32', '33'],
+      industry: 'manufacturing',
+      title: 'Manufacturing',
+      bands: {
+        all: band([20, 29, 39], [2, 6, 11], [1, 4.5, 9], [34, 45, 57], [22, 34, 50], [3.5, 6, 10], [0.7, 1.4, 2.8]),
+        'under-1m': band([19.3, 31, 44], [-0.2, 5, 11.5], [-1, 3.5, 9.4], [28.9, 38.2, 48.5], [19.8, 30.6, 45], [3.2, 5.4, 9], [0.61, 1.75, 4.03]),
+        '1m-10m': band([20.5, 29.5, 39.5], [2, 6, 11], [1, 4.5, 9], [34, 45, 57], [22, 34, 50], [3.5, 6, 10], [0.73, 1.47, 2.94]),
+        '10m-50m': band([19.9, 28, 37], [2.9, 6.5, 11], [1.6, 4.8, 8.8], [36.7, 48.6, 61.6], [24.2, 37.4, 55], [3.9, 6.6, 11], [0.73, 1.33, 2.53]),
+        'over-50m': band([19.8, 27, 35], [3.8, 7, 11], [2.4, 5.2, 8.8], [38.1, 50.4, 63.8], [26.4, 40.8, 60], [4.2, 7.2, 12], [0.72, 1.26, 2.33])
+      }
+    },
+    {
+      naicsCodes: ['42'],
+      industry: 'wholesale',
+      title: 'Wholesale Trade',
+      bands: {
+        all: band([15, 22, 30], [1.5, 4, 7], [1, 3, 6], [30, 40, 52], [18, 28, 42], [4.5, 7.5, 12], [0.9, 1.8, 3.5]),
+        'under-1m': band([14.9, 24, 34.4], [-0.2, 3, 6.9], [-0.6, 2, 5.9], [25.5, 34, 44.2], [16.2, 25.2, 37.8], [4, 6.8, 10.8], [0.79, 2.25, 5.01]),
+        '1m-10m': band([15.5, 22.5, 30.5], [1.5, 4, 7], [1, 3, 6], [30, 40, 52], [18, 28, 42], [4.5, 7.5, 12], [0.95, 1.89, 3.67]),
+        '10m-50m': band([14.7, 21, 28.2], [2.2, 4.5, 7.2], [1.5, 3.3, 6], [32.4, 43.2, 56.2], [19.8, 30.8, 46.2], [4.9, 8.2, 13.2], [0.94, 1.71, 3.16]),
+        'over-50m': band([14.4, 20, 26.4], [3, 5, 7.4], [2.1, 3.7, 6.1], [33.6, 44.8, 58.2], [21.6, 33.6, 50.4], [5.4, 9, 14.4], [0.93, 1.62, 2.92])
+      }
+    },
+    {
+      naicsCodes: ['44', '45'],
+      industry: 'retail',
+      title: 'Retail Trade',
+      bands: {
+        all: band([25, 35, 45], [1, 4, 8], [0.5, 3, 6.5], [2, 6, 18], [14, 26, 42], [3, 5.5, 10], [0.8, 1.9, 4]),
+        'under-1m': band([24, 37, 50], [-0.9, 3, 8.2], [-1.2, 2, 6.5], [1.7, 5.1, 15.3], [12.6, 23.4, 37.8], [2.7, 5, 9], [0.59, 2.38, 5.79]),
+        '1m-10m': band([25.5, 35.5, 45.5], [1, 4, 8], [0.5, 3, 6.5], [2, 6, 18], [14, 26, 42], [3, 5.5, 10], [0.84, 1.99, 4.2]),
+        '10m-50m': band([25, 34, 43], [1.8, 4.5, 8.1], [1, 3.3, 6.4], [2.2, 6.5, 19.4], [15.4, 28.6, 46.2], [3.3, 6.1, 11], [0.86, 1.8, 3.6]),
+        'over-50m': band([25, 33, 41], [2.6, 5, 8.2], [1.7, 3.7, 6.5], [2.2, 6.7, 20.2], [16.8, 31.2, 50.4], [3.6, 6.6, 12], [0.87, 1.71, 3.32])
+      }
+    },
+    {
+      naicsCodes: ['48', '49'],
+      industry: 'transportation',
+      title: 'Transportation and Warehousing',
+      bands: {
+        all: band([18, 28, 40], [1.5, 5, 9], [1, 4, 8], [28, 38, 50], [10, 20, 34], null, [1, 2, 4]),
+        'under-1m': band([17, 30, 45.6], [-0.5, 4, 9.2], [-0.9, 3, 8.2], [23.8, 32.3, 42.5], [9, 18, 30.6], null, [0.88, 2.5, 5.75]),
+        '1m-10m': band([18.5, 28.5, 40.5], [1.5, 5, 9], [1, 4, 8], [28, 38, 50], [10, 20, 34], null, [1.05, 2.1, 4.2]),
+        '10m-50m': band([18, 27, 37.8], [2.4, 5.5, 9.1], [1.6, 4.3, 7.9], [30.2, 41, 54], [11, 22, 37.4], null, [1.04, 1.9, 3.61]),
+        'over-50m': band([18, 26, 35.6], [3.2, 6, 9.2], [2.3, 4.7, 7.9], [31.4, 42.6, 56], [12, 24, 40.8], null, [1.04, 1.8, 3.33])
+      }
+    },
+    {
+      naicsCodes: ['5415'],
+      industry: 'technology',
+      title: 'Computer Systems Design and Related Services',
+      bands: {
+        all: band([35, 50, 68], [2, 8, 16], [1, 6, 13], [38, 52, 70], [10, 20, 36], null, [0.5, 1.2, 2.6]),
+        'under-1m': band([32.5, 52, 75.4], [-0.8, 7, 17.4], [-1.5, 5, 14.1], [32.3, 44.2, 59.5], [9, 18, 32.4], null, [0.36, 1.5, 3.78]),
+        '1m-10m': band([35.5, 50.5, 68.5], [2, 8, 16], [1, 6, 13], [38, 52, 70], [10, 20, 36], null, [0.53, 1.26, 2.73]),
+        '10m-50m': band([35.5, 49, 65.2], [3.1, 8.5, 15.7], [1.8, 6.3, 12.6], [41, 56.2, 75.6], [11, 22, 39.6], null, [0.54, 1.14, 2.34]),
+        'over-50m': band([36, 48, 62.4], [4.2, 9, 15.4], [2.7, 6.7, 12.3], [42.6, 58.2, 78.4], [12, 24, 43.2], null, [0.54, 1.08, 2.15])
+      }
+    },
+    {
+      naicsCodes: ['51'],
+      industry: 'technology',
+      title: 'Information',
+      bands: {
+        all: band([40, 58, 75], [1, 8, 18], [0, 6, 15], [35, 48, 65], [12, 24, 40], null, [0.5, 1.3, 3]),
+        'under-1m': band([36.6, 60, 82.1], [-2.1, 7, 20], [-2.8, 5, 16.7], [29.8, 40.8, 55.2], [10.8, 21.6, 36], null, [0.32, 1.62, 4.39]),
+        '1m-10m': band([40.5, 58.5, 75.5], [1, 8, 18], [0, 6, 15], [35, 48, 65], [12, 24, 40], null, [0.53, 1.37, 3.15]),
+        '10m-50m': band([40.8, 57, 72.3], [2.2, 8.5, 17.5], [0.9, 6.3, 14.4], [37.8, 51.8, 70.2], [13.2, 26.4, 44], null, [0.55, 1.23, 2.69]),
+        'over-50m': band([41.6, 56, 69.6], [3.4, 9, 17], [1.9, 6.7, 13.9], [39.2, 53.8, 72.8], [14.4, 28.8, 48], null, [0.56, 1.17, 2.47])
+      }
+    },
+    {
+      naicsCodes: ['52'],
+      industry: 'financial-services',
+      title: 'Finance and Insurance',
+      bands: {
+        all: band([50, 75, 92], [5, 14, 28], [3, 11, 23], [10, 25, 45], [8, 18, 35], null, [0.6, 1.8, 4.5]),
+        'under-1m': band([44.5, 77, 99.1], [1.3, 13, 31.2], [-0.4, 10, 25.6], [8.5, 21.2, 38.2], [7.2, 16.2, 31.5], null, [0.3, 2.25, 6.64]),
+        '1m-10m': band([50.5, 75.5, 92.5], [5, 14, 28], [3, 11, 23], [10, 25, 45], [8, 18, 35], null, [0.63, 1.89, 4.73]),
+        '10m-50m': band([51.5, 74, 89.3], [6.4, 14.5, 27.1], [4.1, 11.3, 22.1], [10.8, 27, 48.6], [8.8, 19.8, 38.5], null, [0.68, 1.71, 4.02]),
+        'over-50m': band([53, 73, 86.6], [7.8, 15, 26.2], [5.3, 11.7, 21.3], [11.2, 28, 50.4], [9.6, 21.6, 42], null, [0.7, 1.62, 3.69])
+      }
+    },
+    {
+      naicsCodes: ['53'],
+      industry: 'real-estate',
+      title: 'Real Estate and Rental and Leasing',
+      bands: {
+        all: band([35, 55, 75], [5, 15, 30], [2, 10, 24], [5, 15, 32], [10, 22, 40], null, [1, 2.4, 5.5]),
+        'under-1m': band([31, 57, 83], [1, 14, 33.5], [-1.4, 9, 27.2], [4.2, 12.8, 27.2], [9, 19.8, 36], null, [0.73, 3, 8.04]),
+        '1m-10m': band([35.5, 55.5, 75.5], [5, 15, 30], [2, 10, 24], [5, 15, 32], [10, 22, 40], null, [1.05, 2.52, 5.78]),
+        '10m-50m': band([36, 54, 72], [6.5, 15.5, 29], [3.1, 10.3, 22.9], [5.4, 16.2, 34.6], [11, 24.2, 44], null, [1.08, 2.28, 4.93]),
+        'over-50m': band([37, 53, 69], [8, 16, 28], [4.3, 10.7, 21.9], [5.6, 16.8, 35.8], [12, 26.4, 48], null, [1.09, 2.16, 4.53])
+      }
+    },
+    {
+      naicsCodes: ['54', '55', '56'],
+      industry: 'professional-services',
+      title: 'Professional, Scientific, and Technical Services',
+      bands: {
+        all: band([40, 55, 72], [3, 9, 17], [2, 7, 14], [35, 50, 68], [8, 17, 30], null, [0.4, 1.1, 2.5]),
+        'under-1m': band([37.5, 57, 79.1], [0.2, 8, 18.4], [-0.5, 6, 15.1], [29.8, 42.5, 57.8], [7.2, 15.3, 27], null, [0.24, 1.38, 3.65]),
+        '1m-10m': band([40.5, 55.5, 72.5], [3, 9, 17], [2, 7, 14], [35, 50, 68], [8, 17, 30], null, [0.42, 1.16, 2.62]),
+        '10m-50m': band([40.5, 54, 69.3], [4.1, 9.5, 16.7], [2.8, 7.3, 13.6], [37.8, 54, 73.4], [8.8, 18.7, 33], null, [0.45, 1.04, 2.24]),
+        'over-50m': band([41, 53, 66.6], [5.2, 10, 16.4], [3.7, 7.7, 13.3], [39.2, 56, 76.2], [9.6, 20.4, 36], null, [0.45, 0.99, 2.06])
+      }
+    },
+    {
+      naicsCodes: ['61'],
+      industry: 'education',
+      title: 'Educational Services',
+      bands: {
+        all: band([35, 50, 65], [1, 6, 13], [0.5, 5, 11], [8, 20, 38], [8, 18, 32], null, [0.5, 1.4, 3.2]),
+        'under-1m': band([32.5, 52, 71.5], [-1.5, 5, 14.1], [-1.9, 4, 11.8], [6.8, 17, 32.3], [7.2, 16.2, 28.8], null, [0.29, 1.75, 4.68]),
+        '1m-10m': band([35.5, 50.5, 65.5], [1, 6, 13], [0.5, 5, 11], [8, 20, 38], [8, 18, 32], null, [0.53, 1.47, 3.36]),
+        '10m-50m': band([35.5, 49, 62.5], [2, 6.5, 12.8], [1.2, 5.3, 10.7], [8.6, 21.6, 41], [8.8, 19.8, 35.2], null, [0.56, 1.33, 2.87]),
+        'over-50m': band([36, 48, 60], [3, 7, 12.6], [2.1, 5.7, 10.5], [9, 22.4, 42.6], [9.6, 21.6, 38.4], null, [0.57, 1.26, 2.64])
+      }
+    },
+    {
+      naicsCodes: ['62'],
+      industry: 'healthcare',
+      title: 'Health Care and Social Assistance',
+      bands: {
+        all: band([40, 58, 74], [2, 8, 15], [1, 6, 13], [25, 38, 52], [8, 16, 28], [12, 25, 50], [0.5, 1.3, 3]),
+        'under-1m': band([36.6, 60, 80.8], [-0.8, 7, 16.1], [-1.5, 5, 14.1], [21.2, 32.3, 44.2], [7.2, 14.4, 25.2], [10.8, 22.5, 45], [0.32, 1.62, 4.39]),
+        '1m-10m': band([40.5, 58.5, 74.5], [2, 8, 15], [1, 6, 13], [25, 38, 52], [8, 16, 28], [12, 25, 50], [0.53, 1.37, 3.15]),
+        '10m-50m': band([40.8, 57, 71.4], [3.1, 8.5, 14.8], [1.8, 6.3, 12.6], [27, 41, 56.2], [8.8, 17.6, 30.8], [13.2, 27.5, 55], [0.55, 1.23, 2.69]),
+        'over-50m': band([41.6, 56, 68.8], [4.2, 9, 14.6], [2.7, 6.7, 12.3], [28, 42.6, 58.2], [9.6, 19.2, 33.6], [14.4, 30, 60], [0.56, 1.17, 2.47])
+      }
+    },
+    {
+      naicsCodes: ['721'],
+      industry: 'hospitality',
+      title: 'Accommodation',
+      bands: {
+        all: band([45, 62, 76], [2, 8, 16], [0, 5, 12], [4, 10, 20], [12, 24, 40], [20, 40, 80], [1.2, 2.6, 5.5]),
+        'under-1m': band([41.9, 64, 82.2], [-0.8, 7, 17.4], [-2.5, 4, 13.1], [3.4, 8.5, 17], [10.8, 21.6, 36], [18, 36, 72], [0.97, 3.25, 7.96]),
+        '1m-10m': band([45.5, 62.5, 76.5], [2, 8, 16], [0, 5, 12], [4, 10, 20], [12, 24, 40], [20, 40, 80], [1.26, 2.73, 5.78]),
+        '10m-50m': band([45.7, 61, 73.6], [3.1, 8.5, 15.7], [0.8, 5.3, 11.6], [4.3, 10.8, 21.6], [13.2, 26.4, 44], [22, 44, 88], [1.27, 2.47, 4.95]),
+        'over-50m': band([46.4, 60, 71.2], [4.2, 9, 15.4], [1.7, 5.7, 11.3], [4.5, 11.2, 22.4], [14.4, 28.8, 48], [24, 48, 96], [1.27, 2.34, 4.56])
+      }
+    },
+    {
+      naicsCodes: ['71'],
+      industry: 'hospitality',
+      title: 'Arts, Entertainment, and Recreation',
+      bands: {
+        all: band([35, 52, 70], [0, 5, 12], [-1, 4, 10], [3, 10, 25], [10, 20, 36], [8, 18, 40], [0.7, 1.7, 3.8]),
+        'under-1m': band([31.9, 54, 77.4], [-2.5, 4, 13.1], [-3.5, 3, 10.8], [2.5, 8.5, 21.2], [9, 18, 32.4], [7.2, 16.2, 36], [0.5, 2.12, 5.54]),
+        '1m-10m': band([35.5, 52.5, 70.5], [0, 5, 12], [-1, 4, 10], [3, 10, 25], [10, 20, 36], [8, 18, 40], [0.73, 1.78, 3.99]),
+        '10m-50m': band([35.7, 51, 67.2], [1, 5.5, 11.8], [-0.2, 4.3, 9.7], [3.2, 10.8, 27], [11, 22, 39.6], [8.8, 19.8, 44], [0.76, 1.61, 3.41]),
+        'over-50m': band([36.4, 50, 64.4], [2, 6, 11.6], [0.7, 4.7, 9.5], [3.4, 11.2, 28], [12, 24, 43.2], [9.6, 21.6, 48], [0.77, 1.53, 3.14])
+      }
+    },
+    {
+      naicsCodes: ['722'],
+      industry: 'restaurant',
+      title: 'Food Services and Drinking Places',
+      bands: {
+        all: band([58, 65, 72], [1, 5, 10], [0, 4, 8], [1, 3, 8], [8, 14, 24], [25, 40, 60], [1, 2.3, 5]),
+        'under-1m': band([57.9, 67, 76.1], [-1.2, 4, 10.5], [-2.2, 3, 8.2], [0.8, 2.5, 6.8], [7.2, 12.6, 21.6], [22.5, 36, 54], [0.76, 2.88, 7.26]),
+        '1m-10m': band([58.5, 65.5, 72.5], [1, 5, 10], [0, 4, 8], [1, 3, 8], [8, 14, 24], [25, 40, 60], [1.05, 2.42, 5.25]),
+        '10m-50m': band([57.7, 64, 70.3], [1.9, 5.5, 10], [0.7, 4.3, 7.9], [1.1, 3.2, 8.6], [8.8, 15.4, 26.4], [27.5, 44, 66], [1.07, 2.18, 4.49]),
+        'over-50m': band([57.4, 63, 68.6], [2.8, 6, 10], [1.5, 4.7, 7.9], [1.1, 3.4, 9], [9.6, 16.8, 28.8], [30, 48, 72], [1.08, 2.07, 4.14])
+      }
+    },
+    {
+      naicsCodes: ['813'],
+      industry: 'nonprofit',
+      title: 'Religious, Grantmaking, Civic, Professional, and Similar Organizations',
+      bands: {
+        all: band([60, 80, 95], [-3, 2, 8], [-3, 2, 8], [10, 28, 55], [10, 20, 35], null, [0.1, 0.3, 0.8]),
+        'under-1m': band([56, 82, 100], [-5.5, 1, 8.8], [-5.5, 1, 8.8], [8.5, 23.8, 46.8], [9, 18, 31.5], null, [0.05, 0.38, 1.19]),
+        '1m-10m': band([60.5, 80.5, 95.5], [-3, 2, 8], [-3, 2, 8], [10, 28, 55], [10, 20, 35], null, [0.11, 0.32, 0.84]),
+        '10m-50m': band([61, 79, 92.5], [-2, 2.5, 7.9], [-2.2, 2.3, 7.7], [10.8, 30.2, 59.4], [11, 22, 38.5], null, [0.11, 0.28, 0.71]),
+        'over-50m': band([62, 78, 90], [-1, 3, 7.8], [-1.3, 2.7, 7.5], [11.2, 31.4, 61.6], [12, 24, 42], null, [0.12, 0.27, 0.65])
+      }
+    },
+    {
+      naicsCodes: ['81'],
+      industry: 'other-services',
+      title: 'Other Services (except Public Administration)',
+      bands: {
+        all: band([35, 50, 65], [2, 7, 13], [1, 6, 11], [8, 20, 35], [10, 20, 32], [6, 12, 25], [0.6, 1.5, 3.2]),
+        'under-1m': band([32.5, 52, 71.5], [-0.5, 6, 13.8], [-1.5, 5, 11.5], [6.8, 17, 29.8], [9, 18, 28.8], [5.4, 10.8, 22.5], [0.41, 1.88, 4.64]),
+        '1m-10m': band([35.5, 50.5, 65.5], [2, 7, 13], [1, 6, 11], [8, 20, 35], [10, 20, 32], [6, 12, 25], [0.63, 1.58, 3.36]),
+        '10m-50m': band([35.5, 49, 62.5], [3, 7.5, 12.9], [1.8, 6.3, 10.8], [8.6, 21.6, 37.8], [11, 22, 35.2], [6.6, 13.2, 27.5], [0.66, 1.42, 2.88]),
+        'over-50m': band([36, 48, 60], [4, 8, 12.8], [2.7, 6.7, 10.7], [9, 22.4, 39.2], [12, 24, 38.4], [7.2, 14.4, 30], [0.66, 1.35, 2.65])
+      }
+    }
+  ]
+};
@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+import { compareToBenchmarks, findBenchmarkSet, revenueBandOf } from './industryBenchmarks';
+import { BenchmarkQuartiles, CalculatedMetrics, IndustryBenchmarkDataset } from '../types/financial.types';
+
+const quartiles = (lowerQuartile: number, median: number, upperQuartile: number): BenchmarkQuartiles =>
+  ({ lowerQuartile, median, upperQuartile });
+
+const DATASET: IndustryBenchmarkDataset = {
+  version: 'test',
+  source: 'Test Benchmarks',
+  year: 2024,
+  currency: 'USD',
+  revenueBands: {
+    'under-1m': { label: 'Under $1M', min: 0, max: 1_000_000 },
+    '1m-10m': { label: '$1M-$10M', min: 1_000_000, max: 10_000_000 },
+    '10m-50m': { label: '$10M-$50M', min: 10_000_000, max: 50_000_000 },
+    'over-50m': { label: 'Over $50M', min: 50_000_000, max: null }
+  },
+  industries: [
+    {
+      naicsCodes: ['54'],
+      industry: 'professional-services',
+      title: 'Professional, Scientific, and Technical Services',
+      bands: {
+        all: {
+          grossProfitMargin: quartiles(30, 40, 50),
+          daysSalesOutstanding: quartiles(30, 45, 60),
+          debtToEquity: quartiles(0.5, 1, 2)
+        },
+        '1m-10m': { grossProfitMargin: quartiles(35, 45, 55) }
+      }
+    },
+    {
+      naicsCodes: ['5415'],
+      industry: 'technology',
+      title: 'Computer Systems Design',
+      bands: { all: { grossProfitMargin: quartiles(50, 60, 70) } }
+    }
+  ]
+};
+
+/** Metrics with only the benchmarked ratios set */
+const metrics = (
+  { grossProfitMargin = null, receivablesTurnover = null, debtToEquity = null }:
+  { grossProfitMargin?: number | null; receivablesTurnover?: number | null; debtToEquity?: number | null }
+): CalculatedMetrics => ({
+  liquidityRatios: { currentRatio: null, quickRatio: null, cashRatio: null, workingCapital: 0 },
+  profitabilityRatios: {
+    grossProfitMargin,
+    operatingMargin: null,
+    netProfitMargin: null,
+    returnOnAssets: null,
+    returnOnEquity: null,
+    ebitda: 0,
+    ebitdaMargin: null
+  },
+  efficiencyRatios: {
+    assetTurnover: null,
+    inventoryTurnover: null,
+    receivablesTurnover,
+    payablesTurnover: null,
+    cashConversionCycle: null
+  },
+  leverageRatios: { debtToEquity, debtToAssets: null, interestCoverage: null, debtServiceCoverage: null },
+  growthMetrics: { revenueGrowthRate: null, profitGrowthRate: null, assetGrowthRate: null },
+  kpis: []
+});
+
+const PROFILE = { industry: 'professional-services', annualRevenue: 500_000, currency: 'USD' };
+
+const statusOf = (values: Parameters<typeof metrics>[0], metric: string, profile = PROFILE) =>
+  compareToBenchmarks(metrics(values), profile, DATASET)?.comparisons.find(comparison => comparison.metric === metric)?.status;
+
+describe('compareToBenchmarks', () => {
+  it('places a higher-is-better KPI by quartile, a quartile itself counting as reaching it', () => {
+    expect(statusOf({ grossProfitMargin: 50 }, 'grossProfitMargin')).toBe('above');
+    expect(statusOf({ grossProfitMargin: 49.9 }, 'grossProfitMargin')).toBe('meets');
+    expect(statusOf({ grossProfitMargin: 30 }, 'grossProfitMargin')).toBe('meets');
+    expect(statusOf({ grossProfitMargin: 29.9 }, 'grossProfitMargin')).toBe('below');
+  });
+
+  it('places a lower-is-better KPI in the top quartile at or under the lower quartile', () => {
+    // DSO from receivables turnover: 365 / 14.6 = 25, 365 / 10 = 36.5, 365 / 5 = 73 days
+    expect(statusOf({ receivablesTurnover: 14.6 }, 'daysSalesOutstanding')).toBe('above');
+    expect(statusOf({ receivablesTurnover: 10 }, 'daysSalesOutstanding')).toBe('meets');
+    expect(statusOf({ receivablesTurnover: 5 }, 'daysSalesOutstanding')).toBe('below');
+  });
+
+  it('puts negative equity in the bottom quartile', () => {
+    expect(statusOf({ debtToEquity: 0.4 }, 'debtToEquity')).toBe('above');
+    expect(statusOf({ debtToEquity: -0.5 }, 'debtToEquity')).toBe('below');
+  });
+
+  it('has no status for a KPI that could not be calculated and skips KPIs without quartiles', () => {
+    const summary = compareToBenchmarks(metrics({ grossProfitMargin: 45 }), PROFILE, DATASET);
+
+    expect(summary?.comparisons.map(comparison => [comparison.metric, comparison.value, comparison.status])).toEqual([
+      ['grossProfitMargin', 45, 'meets'],
+      ['daysSalesOutstanding', null, null],
+      ['debtToEquity', null, null]
+    ]);
+  });
+
+  it("uses the revenue band's quartiles where it has them, else all sizes", () => {
+    const summary = compareToBenchmarks(metrics({ grossProfitMargin: 52, debtToEquity: 1 }), { ...PROFILE, annualRevenue: 2_000_000 }, DATASET);
+
+    expect(summary).toMatchObject({ band: '1m-10m', basis: 'Professional Services industry; $1M-$10M band from annualized revenue of $2,000,000' });
+    expect(summary?.comparisons.map(comparison => [comparison.metric, comparison.band, comparison.status])).toEqual([
+      ['grossProfitMargin', '1m-10m', 'meets'],
+      ['daysSalesOutstanding', 'all', null],
+      ['debtToEquity', 'all', 'meets']
+    ]);
+  });
+
+  it('compares against all sizes when revenue is in another currency', () => {
+    const summary = compareToBenchmarks(metrics({ grossProfitMargin: 52 }), { ...PROFILE, annualRevenue: 2_000_000, currency: 'CAD' }, DATASET);
+
+    expect(summary?.band).toBe('all');
+    expect(summary?.comparisons[0]).toMatchObject({ band: 'all', status: 'above' });
+    expect(summary?.basis).toMatch(/all revenue sizes, since revenue is in CAD and the bands are in USD$/);
+  });
+
+  it('has no comparison for an industry outside the dataset', () => {
+    expect(compareToBenchmarks(metrics({}), { ...PROFILE, industry: 'restaurant' }, DATASET)).toBeUndefined();
+  });
+});
+
+describe('findBenchmarkSet', () => {
+  it('matches the longest NAICS prefix, unless it points to another industry', () => {
+    expect(findBenchmarkSet({ naicsCode: '541511' }, DATASET)).toMatchObject({ set: { industry: 'technology' }, matchedCode: '541511' });
+    expect(findBenchmarkSet({ industry: 'professional-services', naicsCode: '541511' }, DATASET)).toEqual({ set: DATASET.industries[0] });
+  });
+});
+
+describe('revenueBandOf', () => {
+  it('includes each band minimum', () => {
+    expect(revenueBandOf(999_999, DATASET)).toBe('under-1m');
+    expect(revenueBandOf(1_000_000, DATASET)).toBe('1m-10m');
+    expect(revenueBandOf(75_000_000, DATASET)).toBe('over-50m');
+  });
+});
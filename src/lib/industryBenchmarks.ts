@@ -0,0 +1,240 @@
+/**
+ * Industry benchmarks
+ *
+ * Compares the locally calculated KPIs with the bundled benchmark dataset for
+ * the company's NAICS code and revenue band, so the benchmarks in a report
+ * are cited figures rather than LLM estimates.
+ */
+
+import {
+  BenchmarkBand,
+  BenchmarkComparison,
+  BenchmarkMetric,
+  BenchmarkRevenueBand,
+  BenchmarkSummary,
+  CalculatedMetrics,
+  IndustryBenchmarkDataset,
+  IndustryBenchmarkSet
+} from '../types/financial.types';
+import { INDUSTRY_BENCHMARK_DATASET } from './industryBenchmarkData';
+import { INDUSTRY_LABELS, isIndustry } from './companyProfile';
+import { formatMoney } from './currency';
+import { round } from './utils';
+
+const DAYS_PER_YEAR = 365;
+
+const daysFromTurnover = (turnover: number | null): number | null =>
+  turnover ? round(DAYS_PER_YEAR / turnover, 1) : null;
+
+export const BENCHMARK_METRICS: Record<BenchmarkMetric, {
+  name: string;
+  unit: BenchmarkComparison['unit'];
+  better: 'higher' | 'lower';
+  /** Negative values are worse than any positive one (negative equity) */
+  negativeIsWorst?: boolean;
+  value: (metrics: CalculatedMetrics) => number | null;
+}> = {
+  grossProfitMargin: {
+    name: 'Gross Profit Margin',
+    unit: 'percent',
+    better: 'higher',
+    value: metrics => metrics.profitabilityRatios.grossProfitMargin
+  },
+  operatingMargin: {
+    name: 'Operating Margin',
+    unit: 'percent',
+    better: 'higher',
+    value: metrics => metrics.profitabilityRatios.operatingMargin
+  },
+  netProfitMargin: {
+    name: 'Net Profit Margin',
+    unit: 'percent',
+    better: 'higher',
+    value: metrics => metrics.profitabilityRatios.netProfitMargin
+  },
+  daysSalesOutstanding: {
+    name: 'Days Sales Outstanding',
+    unit: 'days',
+    better: 'lower',
+    value: metrics => metrics.kpis.find(kpi => kpi.key === 'accountsReceivableDays')?.value
+      ?? daysFromTurnover(metrics.efficiencyRatios.receivablesTurnover)
+  },
+  daysPayablesOutstanding: {
+    name: 'Days Payables Outstanding',
+    unit: 'days',
+    better: 'higher',
+    value: metrics => daysFromTurnover(metrics.efficiencyRatios.payablesTurnover)
+  },
+  inventoryTurnover: {
+    name: 'Inventory Turnover',
+    unit: 'times',
+    better: 'higher',
+    value: metrics => metrics.efficiencyRatios.inventoryTurnover
+  },
+  debtToEquity: {
+    name: 'Debt-to-Equity Ratio',
+    unit: 'ratio',
+    better: 'lower',
+    negativeIsWorst: true,
+    value: metrics => metrics.leverageRatios.debtToEquity
+  }
+};
+
+export const BENCHMARK_STATUS_LABELS: Record<NonNullable<BenchmarkComparison['status']>, string> = {
+  above: 'Top quartile',
+  meets: 'Middle half',
+  below: 'Bottom quartile'
+};
+
+/**
+ * A benchmarked value with its unit, e.g. "42.5%", "38 days", "6.1x"
+ */
+export const formatBenchmarkValue = (value: number | null, unit: BenchmarkComparison['unit']): string => {
+  if (value === null) return 'n/a';
+  switch (unit) {
+    case 'percent': return `${value}%`;
+    case 'days': return `${value} day${value === 1 ? '' : 's'}`;
+    case 'times': return `${value}x`;
+    default: return String(value);
+  }
+};
+
+export const revenueBandOf = (
+  annualRevenue: number,
+  dataset: IndustryBenchmarkDataset = INDUSTRY_BENCHMARK_DATASET
+): BenchmarkRevenueBand =>
+  (Object.keys(dataset.revenueBands) as BenchmarkRevenueBand[]).find(key => {
+    const { min, max } = dataset.revenueBands[key];
+    return annualRevenue >= min && (max === null || annualRevenue < max);
+  }) || 'under-1m';
+
+/**
+ * The benchmark set for the company's NAICS code (longest matching prefix),
+ * else the first set for its industry. A code that points to a different
+ * industry than the one confirmed or inferred is ignored.
+ */
+export const findBenchmarkSet = (
+  profile: { industry?: string; naicsCode?: string },
+  dataset: IndustryBenchmarkDataset = INDUSTRY_BENCHMARK_DATASET
+): { set: IndustryBenchmarkSet; matchedCode?: string } | undefined => {
+  const { industry, naicsCode } = profile;
+  const byCode = naicsCode
+    ? dataset.industries
+      .flatMap(set => set.naicsCodes.filter(code => naicsCode.startsWith(code)).map(code => ({ set, code })))
+      .sort((a, b) => b.code.length - a.code.length)[0]
+    : undefined;
+  if (byCode && (!industry || byCode.set.industry === industry)) {
+    return { set: byCode.set, matchedCode: naicsCode };
+  }
+  const byIndustry = industry ? dataset.industries.find(set => set.industry === industry) : undefined;
+  return byIndustry && { set: byIndustry };
+};
+
+const statusOf = (
+  value: number,
+  quartiles: BenchmarkComparison['quartiles'],
+  metric: (typeof BENCHMARK_METRICS)[BenchmarkMetric]
+): NonNullable<BenchmarkComparison['status']> => {
+  if (metric.negativeIsWorst && value < 0) return 'below';
+  const [favorable, unfavorable] = metric.better === 'higher'
+    ? [value >= quartiles.upperQuartile, value < quartiles.lowerQuartile]
+    : [value <= quartiles.lowerQuartile, value > quartiles.upperQuartile];
+  return favorable ? 'above' : unfavorable ? 'below' : 'meets';
+};
+
+/**
+ * The benchmarked KPIs against the industry's quartiles for the company's
+ * revenue band, falling back to all sizes where the band has no figure or
+ * the company reports in another currency than the dataset. Undefined when
+ * neither the industry nor the NAICS code is in the dataset.
+ */
+export const compareToBenchmarks = (
+  metrics: CalculatedMetrics,
+  profile: { industry?: string; naicsCode?: string; annualRevenue: number; currency: string },
+  dataset: IndustryBenchmarkDataset = INDUSTRY_BENCHMARK_DATASET
+): BenchmarkSummary | undefined => {
+  const match = findBenchmarkSet(profile, dataset);
+  if (!match) return undefined;
+  const { set, matchedCode } = match;
+
+  const sameCurrency = profile.currency === dataset.currency;
+  const revenueBand: BenchmarkBand = sameCurrency ? revenueBandOf(profile.annualRevenue, dataset) : 'all';
+  const comparisons = (Object.keys(BENCHMARK_METRICS) as BenchmarkMetric[]).flatMap(key => {
+    const metric = BENCHMARK_METRICS[key];
+    const band: BenchmarkBand = set.bands[revenueBand]?.[key] ? revenueBand : 'all';
+    const quartiles = set.bands[band]?.[key];
+    if (!quartiles) return [];
+    const value = metric.value(metrics);
+    return [{
+      metric: key,
+      name: metric.name,
+      unit: metric.unit,
+      value,
+      quartiles,
+      band,
+      status: value === null ? null : statusOf(value, quartiles, metric)
+    }];
+  });
+
+  const industryLabel = profile.industry && isIndustry(profile.industry) ? INDUSTRY_LABELS[profile.industry] : profile.industry;
+  const bandLabel = revenueBand === 'all' ? 'All revenue sizes' : dataset.revenueBands[revenueBand].label;
+  const revenue = formatMoney(profile.annualRevenue, { currency: profile.currency, locale: 'en-US' }, { maximumFractionDigits: 0 });
+  return {
+    source: dataset.source,
+    year: dataset.year,
+    version: dataset.version,
+    naicsCode: matchedCode || set.naicsCodes.join(', '),
+    industryTitle: set.title,
+    band: revenueBand,
+    bandLabel,
+    basis: [
+      matchedCode ? `NAICS code ${matchedCode} from QuickBooks` : `${industryLabel} industry`,
+      sameCurrency
+        ? `${bandLabel} band from annualized revenue of ${revenue}`
+        : `all revenue sizes, since revenue is in ${profile.currency} and the bands are in ${dataset.currency}`
+    ].join('; '),
+    comparisons
+  };
+};
+
+/**
+ * Source line for reports, e.g. "Source: ... (2024 data, dataset version 2024.1)"
+ */
+export const benchmarkCitation = (summary: BenchmarkSummary): string =>
+  `Source: ${summary.source} (${summary.year} data, dataset version ${summary.version})`;
+
+/**
+ * One-line summary for prompts and report text
+ */
+export const describeBenchmarks = (summary: BenchmarkSummary): string => {
+  const counts = (status: BenchmarkComparison['status']) =>
+    summary.comparisons.filter(comparison => comparison.status === status).length;
+  return `${summary.industryTitle} (NAICS ${summary.naicsCode}), ${summary.bandLabel}: `
+    + `${counts('above')} KPIs in the top quartile, ${counts('meets')} in the middle half and ${counts('below')} in the bottom quartile`;
+};
+
+/**
+ * The comparison as a markdown section with its citation, for reports
+ * rendered from markdown
+ */
+export const benchmarkMarkdown = (summary: BenchmarkSummary): string => {
+  const line = (cells: string[]) => `| ${cells.map(cell => cell.replace(/\|/g, '\\|')).join(' | ')} |`;
+  return [
+    `## Industry Benchmarks: ${summary.industryTitle}`,
+    '',
+    `${describeBenchmarks(summary)}.`,
+    '',
+    line(['KPI', 'Company', 'Lower Quartile', 'Median', 'Upper Quartile', 'Position']),
+    line(['---', '---:', '---:', '---:', '---:', '---']),
+    ...summary.comparisons.map(comparison => line([
+      comparison.name,
+      formatBenchmarkValue(comparison.value, comparison.unit),
+      formatBenchmarkValue(comparison.quartiles.lowerQuartile, comparison.unit),
+      formatBenchmarkValue(comparison.quartiles.median, comparison.unit),
+      formatBenchmarkValue(comparison.quartiles.upperQuartile, comparison.unit),
+      comparison.status ? BENCHMARK_STATUS_LABELS[comparison.status] : 'Not calculated'
+    ])),
+    '',
+    `*${benchmarkCitation(summary)}. Benchmarks: ${summary.basis}.*`
+  ].join('\n');
+};
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeProductMix } from './productMix';
+import { ItemSalesLine, QBOItem } from '../types/financial.types';
+
+const ITEMS: QBOItem[] = [
+  { Id: '5', Name: 'Widget', Type: 'Inventory', PurchaseCost: 25 },
+  { Id: '6', Name: 'Consulting', Type: 'Service' },
+  { Id: '7', Name: 'Gadget', Type: 'Inventory' }
+];
+
+// 10,000 of item revenue; Consulting's report row has no item Id
+const CURRENT: ItemSalesLine[] = [
+  { itemId: '7', name: 'Gadget', quantity: 10, amount: 2000, cogs: 1200 },
+  { itemId: '5', name: 'Widget', quantity: 100, amount: 5000, cogs: 2800 },
+  { name: 'Consulting', quantity: 20, amount: 3000 }
+];
+
+const PREVIOUS: ItemSalesLine[] = [
+  { itemId: '5', name: 'Widget', quantity: 80, amount: 4000 },
+  { name: 'consulting ', quantity: 20, amount: 3000 }
+];
+
+const lineOf = (mix: ReturnType<typeof analyzeProductMix>, name: string) =>
+  mix.lines.find(line => line.name === name)!;
+
+describe('analyzeProductMix', () => {
+  const mix = analyzeProductMix({ current: CURRENT, previous: PREVIOUS, items: ITEMS });
+
+  it('lists items by revenue with their share, volume and average price', () => {
+    expect(mix.totalRevenue).toBe(10000);
+    expect(mix.lines.map(line => [line.name, line.itemType, line.revenue, line.share, line.averagePrice])).toEqual([
+      ['Widget', 'Inventory', 5000, 50, 50],
+      ['Consulting', 'Service', 3000, 30, 150],
+      ['Gadget', 'Inventory', 2000, 20, 200]
+    ]);
+  });
+
+  it("prefers the item's purchase cost over the report's COGS for margin", () => {
+    expect(lineOf(mix, 'Widget')).toMatchObject({ cost: 2500, grossMargin: 2500, grossMarginPercent: 50, marginSource: 'purchaseCost' });
+    expect(lineOf(mix, 'Gadget')).toMatchObject({ cost: 1200, grossMargin: 800, grossMarginPercent: 40, marginSource: 'reportCogs' });
+    expect(lineOf(mix, 'Consulting')).toMatchObject({ cost: null, grossMargin: null, grossMarginPercent: null, marginSource: 'unavailable' });
+  });
+
+  it('ranks growth against the prior period, matching items by Id or name', () => {
+    expect(mix.lines.map(line => [line.name, line.previousRevenue, line.growth, line.growthRank])).toEqual([
+      ['Widget', 4000, 25, 1],
+      ['Consulting', 3000, 0, 2],
+      // No prior sales: no growth figure or rank
+      ['Gadget', 0, null, undefined]
+    ]);
+  });
+
+  it('has no growth without the prior period', () => {
+    const current = analyzeProductMix({ current: CURRENT, items: ITEMS });
+
+    expect(current.lines.every(line => line.previousRevenue === undefined && line.growth === null && !line.growthRank)).toBe(true);
+  });
+
+  it('has no average price or share without quantity or revenue', () => {
+    const [line] = analyzeProductMix({ current: [{ name: 'Setup fee', quantity: 0, amount: 0 }] }).lines;
+
+    expect(line).toMatchObject({ averagePrice: null, share: 0, marginSource: 'unavailable' });
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Product and service revenue mix
+ *
+ * Turns Sales by Product/Service report lines into revenue, volume, price and
+ * margin per item, with growth against the prior period, so the report's top
+ * products and services come from QuickBooks instead of the LLM.
+ */
+
+import { ItemSalesLine, ProductMix, ProductMixLine, QBOItem } from '../types/financial.types';
+import { percent, round } from './utils';
+
+export interface ProductMixInputs {
+  current: ItemSalesLine[];
+  /** The same report for the prior period, for growth */
+  previous?: ItemSalesLine[];
+  previousPeriod?: { start: string; end: string };
+  /** Item records, for purchase cost and item type */
+  items?: QBOItem[];
+}
+
+/** Report rows match item records and prior-period rows by Id, else by name */
+const keyOf = (line: { itemId?: string; name: string }) => line.itemId || `name:${line.name.trim().toLowerCase()}`;
+
+/**
+ * Cost of the units sold. The item's purchase cost is preferred; the report's
+ * COGS column is the fallback for items without one.
+ */
+const costOf = (line: ItemSalesLine, item?: QBOItem): Pick<ProductMixLine, 'cost' | 'marginSource'> => {
+  if (item?.PurchaseCost && line.quantity) {
+    return { cost: round(item.PurchaseCost * line.quantity), marginSource: 'purchaseCost' };
+  }
+  if (line.cogs !== undefined) {
+    return { cost: round(line.cogs), marginSource: 'reportCogs' };
+  }
+  return { cost: null, marginSource: 'unavailable' };
+};
+
+/**
+ * Revenue, quantity, average price, gross margin and growth per item,
+ * largest revenue first
+ */
+export const analyzeProductMix = (inputs: ProductMixInputs): ProductMix => {
+  const itemsByKey = new Map<string, QBOItem>();
+  (inputs.items || []).forEach(item => {
+    itemsByKey.set(item.Id, item);
+    itemsByKey.set(keyOf({ name: item.FullyQualifiedName || item.Name }), item);
+  });
+  const previousByKey = new Map((inputs.previous || []).map(line => [keyOf(line), line.amount]));
+  const totalRevenue = inputs.current.reduce((sum, line) => sum + line.amount, 0);
+
+  const lines: ProductMixLine[] = inputs.current
+    .map(line => {
+      const item = itemsByKey.get(keyOf(line));
+      const { cost, marginSource } = costOf(line, item);
+      const grossMargin = cost === null ? null : round(line.amount - cost);
+      const previousRevenue = inputs.previous ? previousByKey.get(keyOf(line)) ?? 0 : undefined;
+      return {
+        ...(line.itemId ? { itemId: line.itemId } : {}),
+        name: line.name,
+        itemType: item?.Type,
+        revenue: round(line.amount),
+        quantity: line.quantity,
+        averagePrice: line.quantity ? round(line.amount / line.quantity) : null,
+        share: percent(line.amount, totalRevenue) ?? 0,
+        cost,
+        grossMargin,
+        grossMarginPercent: grossMargin === null ? null : percent(grossMargin, line.amount),
+        marginSource,
+        previousRevenue,
+        growth: previousRevenue ? percent(line.amount - previousRevenue, Math.abs(previousRevenue)) : null
+      };
+    })
+    .sort((a, b) => b.revenue - a.revenue);
+
+  lines
+    .filter(line => line.growth !== null)
+    .sort((a, b) => (b.growth ?? 0) - (a.growth ?? 0))
+    .forEach((line, i) => {
+      line.growthRank = i + 1;
+    });
+
+  return {
+    totalRevenue: round(totalRevenue),
+    lines,
+    previousPeriod: inputs.previousPeriod
+  };
+};
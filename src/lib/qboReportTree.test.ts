@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest';
+import {
+  QBOReportColumn,
+  accountAmounts,
+  buildReportTree,
+  findSection,
+  getPeriodColumns,
+  getTotalValueIndex,
+  leafNodes,
+  parseAmount,
+  partitionNodes,
+  toAccountLines
+} from './qboReportTree';
+import { QBOReportRow } from '../types/financial.types';
+
+const data = (label: string, values: string[], id?: string): QBOReportRow => ({
+  type: 'Data',
+  ColData: [{ value: label, ...(id ? { id } : {}) }, ...values.map(value => ({ value }))]
+});
+
+const section = (
+  label: string,
+  rows: QBOReportRow[],
+  total: string[],
+  options: { group?: string; id?: string } = {}
+): QBOReportRow => ({
+  type: 'Section',
+  ...(options.group ? { group: options.group } : {}),
+  Header: { ColData: [{ value: label, ...(options.id ? { id: options.id } : {}) }, ...total.map(() => ({ value: '' }))] },
+  Rows: { Row: rows },
+  Summary: { ColData: [{ value: `Total ${label}` }, ...total.map(value => ({ value }))] }
+});
+
+const SINGLE_COLUMN: QBOReportColumn[] = [
+  { ColTitle: '', ColType: 'Account' },
+  { ColTitle: 'Total', ColType: 'Money' }
+];
+
+/**
+ * Expenses with a parent account (Utilities) holding its own postings and
+ * a sub-account, nested one level deeper than the other expense rows
+ */
+const EXPENSES: QBOReportRow[] = [
+  section('Expenses', [
+    data('Rent', ['1,000.00'], '20'),
+    section('Utilities', [
+      data('Utilities', ['50.00'], '21'),
+      data('Electric', ['150.00'], '22')
+    ], ['200.00'], { id: '21' })
+  ], ['1,200.00'], { group: 'Expenses' })
+];
+
+describe('parseAmount', () => {
+  it('reads separators, currency symbols and accounting negatives', () => {
+    expect(parseAmount('1,234.56')).toBe(1234.56);
+    expect(parseAmount('$1,000')).toBe(1000);
+    expect(parseAmount('(1,234.56)')).toBe(-1234.56);
+    expect(parseAmount('-75.5')).toBe(-75.5);
+    expect(parseAmount('')).toBe(0);
+    expect(parseAmount(undefined)).toBe(0);
+  });
+});
+
+describe('buildReportTree', () => {
+  it('keeps nested Section/Data/Summary rows with their depth and totals', () => {
+    const [expenses] = buildReportTree(EXPENSES, SINGLE_COLUMN);
+    expect(expenses).toMatchObject({ type: 'section', group: 'Expenses', label: 'Expenses', amount: 1200, depth: 0 });
+
+    const [rent, utilities] = expenses.children;
+    expect(rent).toMatchObject({ type: 'data', label: 'Rent', accountId: '20', amount: 1000, depth: 1 });
+    expect(utilities).toMatchObject({ type: 'section', label: 'Utilities', accountId: '21', amount: 200, depth: 1 });
+    expect(utilities.children.map(node => [node.label, node.amount, node.depth])).toEqual([
+      ['Utilities', 50, 2],
+      ['Electric', 150, 2]
+    ]);
+  });
+
+  it('sums the children of a section without a summary row', () => {
+    const [income] = buildReportTree([{
+      type: 'Section',
+      group: 'Income',
+      Header: { ColData: [{ value: 'Income' }, { value: '' }] },
+      Rows: { Row: [data('Sales', ['700.00']), data('Services', ['300.00'])] }
+    }], SINGLE_COLUMN);
+    expect(income.amount).toBe(1000);
+  });
+
+  it('labels a summary-only section from its summary row', () => {
+    const [netIncome] = buildReportTree([{
+      type: 'Section',
+      group: 'NetIncome',
+      Summary: { ColData: [{ value: 'Net Income' }, { value: '(250.00)' }] }
+    }], SINGLE_COLUMN);
+    expect(netIncome).toMatchObject({ label: 'Net Income', amount: -250, children: [] });
+  });
+
+  it('takes the amount from the Total column of a multi-column report', () => {
+    const columns: QBOReportColumn[] = [
+      { ColTitle: '', ColType: 'Account' },
+      { ColTitle: 'Jan 2026', ColType: 'Money', MetaData: [{ Name: 'StartDate', Value: '2026-01-01' }, { Name: 'EndDate', Value: '2026-01-31' }] },
+      { ColTitle: 'Feb 2026', ColType: 'Money', MetaData: [{ Name: 'StartDate', Value: '2026-02-01' }, { Name: 'EndDate', Value: '2026-02-28' }] },
+      { ColTitle: 'Total', ColType: 'Money', MetaData: [{ Name: 'ColKey', Value: 'total' }] }
+    ];
+    const [sales] = buildReportTree([data('Sales', ['100.00', '150.00', '250.00'])], columns);
+
+    expect(getTotalValueIndex(columns)).toBe(2);
+    expect(sales.values).toEqual([100, 150, 250]);
+    expect(sales.amount).toBe(250);
+    expect(getPeriodColumns(columns)).toEqual([
+      { index: 0, title: 'Jan 2026', startDate: '2026-01-01', endDate: '2026-01-31' },
+      { index: 1, title: 'Feb 2026', startDate: '2026-02-01', endDate: '2026-02-28' }
+    ]);
+  });
+});
+
+describe('report tree helpers', () => {
+  const tree = buildReportTree([section('Income', [data('Sales', ['5,000.00'], '1')], ['5,000.00'], { group: 'Income' }), ...EXPENSES], SINGLE_COLUMN);
+
+  it('finds a section by group or, failing that, by label', () => {
+    expect(findSection(tree, 'Expenses')?.amount).toBe(1200);
+    expect(findSection(tree, 'NoSuchGroup', ['utilities'])?.accountId).toBe('21');
+    expect(findSection(tree, 'NoSuchGroup')).toBeUndefined();
+  });
+
+  it('lists leaf rows at any depth', () => {
+    expect(leafNodes(tree).map(node => node.label)).toEqual(['Sales', 'Rent', 'Utilities', 'Electric']);
+  });
+
+  it("gives a parent account's rolled-up amount before its own postings row", () => {
+    const amounts = accountAmounts(tree);
+    expect(amounts.get('21')).toBe(200);
+    expect(amounts.get('22')).toBe(150);
+  });
+
+  it('reduces every ancestor when nodes are split out', () => {
+    const { kept, removed } = partitionNodes(tree, node => node.label === 'Electric');
+    expect(removed.map(node => node.label)).toEqual(['Electric']);
+    const expenses = findSection(kept, 'Expenses')!;
+    expect(expenses.amount).toBe(1050);
+    expect(expenses.children[1]).toMatchObject({ label: 'Utilities', amount: 50, values: [50] });
+  });
+
+  it('converts nodes to account lines with their sub-accounts', () => {
+    expect(toAccountLines(findSection(tree, 'Expenses')!.children)).toEqual([
+      { category: 'Rent', amount: 1000, accountId: '20' },
+      {
+        category: 'Utilities',
+        amount: 200,
+        accountId: '21',
+        subAccounts: [
+          { category: 'Utilities', amount: 50, accountId: '21' },
+          { category: 'Electric', amount: 150, accountId: '22' }
+        ]
+      }
+    ]);
+  });
+});
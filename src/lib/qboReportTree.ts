@@ -0,0 +1,313 @@
+/**
+ * QBO report row-tree helpers
+ *
+ * QBO reports (ProfitAndLoss, BalanceSheet, CashFlow, ...) return rows as
+ * nested Section/Data/Summary structures whose depth follows the company's
+ * chart of accounts. These helpers turn that structure into a typed node tree
+ * with parsed amounts so statement transforms can work at any depth.
+ */
+
+import { AccountLine, QBOColData, QBOReportRow } from '../types/financial.types';
+
+export interface QBOReportColumn {
+  ColTitle: string;
+  ColType: string;
+  MetaData?: Array<{ Name: string; Value?: string }>;
+}
+
+/**
+ * A period column of a report requested with summarize_column_by
+ */
+export interface QBOPeriodColumn {
+  /** Index into a node's values */
+  index: number;
+  title: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface QBOReportNode {
+  type: 'section' | 'data';
+  group?: string;
+  label: string;
+  accountId?: string;
+  /** One amount per report column, excluding the leading label column */
+  values: number[];
+  /** Amount in the report's total column */
+  amount: number;
+  depth: number;
+  children: QBOReportNode[];
+}
+
+/**
+ * Parse a QBO amount string. Handles thousands separators, currency symbols
+ * and accounting-style negatives such as "(1,234.56)".
+ */
+export const parseAmount = (value?: string): number => {
+  if (!value) return 0;
+  const trimmed = value.trim();
+  const parsed = parseFloat(trimmed.replace(/[^0-9.-]/g, '')) || 0;
+  return /^\(.*\)$/.test(trimmed) ? -Math.abs(parsed) : parsed;
+};
+
+/**
+ * Index (within a node's values) of the column holding the period total.
+ * Multi-column reports put the total last; single-period reports have one
+ * amount column.
+ */
+export const getTotalValueIndex = (columns?: QBOReportColumn[]): number => {
+  if (!columns || columns.length < 2) return 0;
+  for (let i = columns.length - 1; i > 0; i--) {
+    if (columns[i].ColType === 'Money') return i - 1;
+  }
+  return columns.length - 2;
+};
+
+export const getMetaData = (column: QBOReportColumn, name: string): string | undefined =>
+  column.MetaData?.find(item => item.Name === name)?.Value;
+
+/**
+ * Period columns (months, quarters, ...) of a multi-column report, excluding
+ * the leading label column and the trailing Total column
+ */
+export const getPeriodColumns = (columns?: QBOReportColumn[]): QBOPeriodColumn[] => {
+  if (!columns) return [];
+  return columns
+    .map((column, i) => ({ column, index: i - 1 }))
+    .filter(({ column, index }) =>
+      index >= 0 &&
+      column.ColType === 'Money' &&
+      column.ColTitle.trim().toLowerCase() !== 'total' &&
+      getMetaData(column, 'ColKey')?.toLowerCase() !== 'total'
+    )
+    .map(({ column, index }) => ({
+      index,
+      title: column.ColTitle,
+      startDate: getMetaData(column, 'StartDate'),
+      endDate: getMetaData(column, 'EndDate')
+    }));
+};
+
+/**
+ * Segment columns (Classes, Departments, ...) of a report requested with
+ * summarize_column_by, excluding the label and Total columns. Numeric ColKeys
+ * are the segment's QBO Id.
+ */
+export const getSegmentColumns = (columns?: QBOReportColumn[]): Array<{ index: number; title: string; id?: string }> =>
+  getPeriodColumns(columns).map(({ index, title }) => {
+    const key = columns && getMetaData(columns[index + 1], 'ColKey');
+    return { index, title, ...(key && /^\d+$/.test(key) ? { id: key } : {}) };
+  });
+
+const parseValues = (colData?: QBOColData[]): number[] | null => {
+  if (!colData || colData.length < 2) return null;
+  const amounts = colData.slice(1);
+  if (amounts.every(col => !col.value || col.value.trim() === '')) return null;
+  return amounts.map(col => parseAmount(col.value));
+};
+
+const sumValues = (nodes: QBOReportNode[]): number[] => {
+  const width = Math.max(0, ...nodes.map(node => node.values.length));
+  return Array.from({ length: width }, (_, i) =>
+    nodes.reduce((sum, node) => sum + (node.values[i] || 0), 0)
+  );
+};
+
+const pickAmount = (values: number[], totalIndex: number): number =>
+  values[Math.min(totalIndex, values.length - 1)] || 0;
+
+const buildNode = (row: QBOReportRow, depth: number, totalIndex: number): QBOReportNode | null => {
+  if (row.Rows?.Row || row.Header || row.Summary || row.type === 'Section') {
+    const children = (row.Rows?.Row || [])
+      .map(child => buildNode(child, depth + 1, totalIndex))
+      .filter((child): child is QBOReportNode => child !== null);
+
+    const values = parseValues(row.Summary?.ColData)
+      ?? parseValues(row.Header?.ColData)
+      ?? sumValues(children);
+
+    const headerLabel = row.Header?.ColData?.[0]?.value;
+    const summaryLabel = row.Summary?.ColData?.[0]?.value?.replace(/^Total\s+/i, '');
+
+    return {
+      type: 'section',
+      group: row.group,
+      label: headerLabel || summaryLabel || row.group || '',
+      accountId: row.Header?.ColData?.[0]?.id,
+      values,
+      amount: pickAmount(values, totalIndex),
+      depth,
+      children
+    };
+  }
+
+  if (row.ColData && row.ColData.length > 0) {
+    const values = parseValues(row.ColData) ?? [];
+    return {
+      type: 'data',
+      group: row.group,
+      label: row.ColData[0]?.value || '',
+      accountId: row.ColData[0]?.id,
+      values,
+      amount: pickAmount(values, totalIndex),
+      depth,
+      children: []
+    };
+  }
+
+  return null;
+};
+
+/**
+ * Build a typed node tree from a report's top-level rows
+ */
+export const buildReportTree = (
+  rows: QBOReportRow[] = [],
+  columns?: QBOReportColumn[]
+): QBOReportNode[] => {
+  const totalIndex = getTotalValueIndex(columns);
+  return rows
+    .map(row => buildNode(row, 0, totalIndex))
+    .filter((node): node is QBOReportNode => node !== null);
+};
+
+/**
+ * Depth-first search for the first section with the given QBO group, falling
+ * back to a case-insensitive match on the section label
+ */
+export const findSection = (
+  nodes: QBOReportNode[],
+  group: string,
+  labels: string[] = []
+): QBOReportNode | undefined => {
+  const wanted = labels.map(label => label.toLowerCase());
+  for (const node of nodes) {
+    if (node.type !== 'section') continue;
+    if (node.group === group || wanted.includes(node.label.toLowerCase())) {
+      return node;
+    }
+    const nested = findSection(node.children, group, labels);
+    if (nested) return nested;
+  }
+  return undefined;
+};
+
+/**
+ * Visit every node in the tree, parents before children
+ */
+export const walkNodes = (
+  nodes: QBOReportNode[],
+  visit: (node: QBOReportNode, parent?: QBOReportNode) => void,
+  parent?: QBOReportNode
+): void => {
+  nodes.forEach(node => {
+    visit(node, parent);
+    walkNodes(node.children, visit, node);
+  });
+};
+
+/**
+ * Leaf (data) rows only, i.e. the account lines that actually carry postings
+ */
+export const leafNodes = (nodes: QBOReportNode[]): QBOReportNode[] => {
+  const leaves: QBOReportNode[] = [];
+  walkNodes(nodes, node => {
+    if (node.type === 'data') leaves.push(node);
+  });
+  return leaves;
+};
+
+/**
+ * Total-column amount of each account by QBO account Id. A parent account's
+ * amount includes its sub-accounts.
+ */
+export const accountAmounts = (nodes: QBOReportNode[]): Map<string, number> => {
+  const amounts = new Map<string, number>();
+  walkNodes(nodes, node => {
+    if (node.accountId && !amounts.has(node.accountId)) amounts.set(node.accountId, node.amount);
+  });
+  return amounts;
+};
+
+/**
+ * Split matching nodes out of a tree. Matching nodes are removed together with
+ * their descendants, and every ancestor's values are reduced accordingly so
+ * totals stay consistent.
+ */
+export const partitionNodes = (
+  nodes: QBOReportNode[],
+  predicate: (node: QBOReportNode) => boolean
+): { kept: QBOReportNode[]; removed: QBOReportNode[] } => {
+  const kept: QBOReportNode[] = [];
+  const removed: QBOReportNode[] = [];
+
+  nodes.forEach(node => {
+    if (predicate(node)) {
+      removed.push(node);
+      return;
+    }
+    if (node.children.length === 0) {
+      kept.push(node);
+      return;
+    }
+
+    const inner = partitionNodes(node.children, predicate);
+    if (inner.removed.length === 0) {
+      kept.push(node);
+      return;
+    }
+
+    const removedValues = sumValues(inner.removed);
+    const values = node.values.map((value, i) => value - (removedValues[i] || 0));
+    const removedAmount = inner.removed.reduce((sum, child) => sum + child.amount, 0);
+    kept.push({
+      ...node,
+      values,
+      amount: node.amount - removedAmount,
+      children: inner.kept
+    });
+    removed.push(...inner.removed);
+  });
+
+  return { kept, removed };
+};
+
+/**
+ * The tree with each node's amount taken from one report column, e.g. a
+ * single segment of a segmented report
+ */
+export const selectColumn = (nodes: QBOReportNode[], index: number): QBOReportNode[] =>
+  nodes.map(node => ({
+    ...node,
+    amount: node.values[index] || 0,
+    children: selectColumn(node.children, index)
+  }));
+
+/**
+ * Flip the sign of every amount in a tree
+ */
+export const negateNodes = (nodes: QBOReportNode[]): QBOReportNode[] =>
+  nodes.map(node => ({
+    ...node,
+    values: node.values.map(value => -value),
+    amount: -node.amount,
+    children: negateNodes(node.children)
+  }));
+
+/**
+ * Convert report nodes to normalized account lines, keeping the sub-account
+ * hierarchy
+ */
+export const toAccountLines = (nodes: QBOReportNode[]): AccountLine[] =>
+  nodes.map(node => ({
+    category: node.label || 'Other',
+    amount: node.amount,
+    ...(node.accountId ? { accountId: node.accountId } : {}),
+    ...(node.children.length > 0 ? { subAccounts: toAccountLines(node.children) } : {})
+  }));
+
+/**
+ * Account lines without sub-accounts, i.e. the lines that carry postings
+ */
+export const leafAccountLines = (lines: AccountLine[]): AccountLine[] =>
+  lines.flatMap(line => line.subAccounts?.length ? leafAccountLines(line.subAccounts) : [line]);
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { parseMonthlyReportPayload, parseQBOReport, profitLossSchema, QBOReportError, ReportProblem } from './qboSchemas';
+
+const COLUMNS = { Column: [{ ColTitle: '', ColType: 'Account' }, { ColTitle: 'Total', ColType: 'Money' }] };
+
+const ROWS = { Row: [{ type: 'Data', ColData: [{ value: 'Sales', id: '1' }, { value: '100.00' }] }] };
+
+const profitLoss = (header: Record<string, unknown> = {}) => ({
+  Header: { ReportName: 'ProfitAndLoss', StartPeriod: '2026-09-01', EndPeriod: '2026-09-30', ...header },
+  Columns: COLUMNS,
+  Rows: ROWS
+});
+
+const workflowReport = (reportName: string, header: Record<string, unknown> = {}) => ({
+  headers: { ReportName: reportName, StartPeriod: '2026-09-01', EndPeriod: '2026-09-30', ...header },
+  columns: COLUMNS,
+  rows: ROWS
+});
+
+/** The problems listed by the QBOReportError the parse throws */
+const problemsOf = (parse: () => unknown): ReportProblem[] => {
+  try {
+    parse();
+  } catch (error) {
+    expect(error).toBeInstanceOf(QBOReportError);
+    return (error as QBOReportError).problems;
+  }
+  throw new Error('Expected the payload to be rejected');
+};
+
+describe('parseQBOReport', () => {
+  it('keeps fields the schema does not list', () => {
+    const report = parseQBOReport(profitLossSchema, { ...profitLoss({ Option: [] }), Extra: true }, 'P&L');
+
+    expect(report).toMatchObject({ Extra: true, Header: { Option: [] } });
+  });
+
+  it('rejects a report with a missing or malformed header', () => {
+    expect(problemsOf(() => parseQBOReport(profitLossSchema, profitLoss({ EndPeriod: undefined, StartPeriod: '09/01/2026' }), 'P&L'))).toEqual([
+      { report: 'P&L', issues: ['Header.StartPeriod: expected a YYYY-MM-DD date', 'Header.EndPeriod is missing'] }
+    ]);
+  });
+
+  it('rejects a different report than the one requested', () => {
+    const [problem] = problemsOf(() => parseQBOReport(profitLossSchema, profitLoss({ ReportName: 'BalanceSheet' }), 'P&L'));
+
+    expect(problem.issues).toHaveLength(1);
+    expect(problem.issues[0]).toMatch(/^Header\.ReportName: /);
+  });
+
+  it('rejects malformed rows, summarizing beyond five issues', () => {
+    const badRow = { ColData: [{ value: 100 }] };
+    const problems = problemsOf(() => parseQBOReport(
+      profitLossSchema,
+      { ...profitLoss(), Rows: { Row: Array.from({ length: 7 }, () => badRow) } },
+      'P&L'
+    ));
+
+    expect(problems[0].issues).toHaveLength(6);
+    expect(problems[0].issues[0]).toMatch(/^Rows\.Row\[0\]\.ColData\[0\]\.value: /);
+    expect(problems[0].issues[5]).toBe('and 2 more');
+  });
+
+  it('reports a QuickBooks fault instead of the schema issues', () => {
+    const fault = { Fault: { Error: [{ Message: 'Token expired', Detail: 'AuthenticationFailed' }] } };
+
+    expect(problemsOf(() => parseQBOReport(profitLossSchema, fault, 'P&L'))).toEqual([
+      { report: 'P&L', issues: ['QuickBooks returned an error: Token expired: AuthenticationFailed'] }
+    ]);
+  });
+
+  it('throws an INVALID_REPORT error naming the report', () => {
+    expect(() => parseQBOReport(profitLossSchema, undefined, 'P&L')).toThrow(
+      expect.objectContaining({ code: 'INVALID_REPORT', message: 'P&L: report is missing' })
+    );
+  });
+});
+
+describe('parseMonthlyReportPayload', () => {
+  const payload = () => [
+    { plMTD: workflowReport('ProfitAndLoss') },
+    { balanceSheet: workflowReport('BalanceSheet') }
+  ];
+
+  it('merges one object per report', () => {
+    const data = parseMonthlyReportPayload([...payload(), { newCustomers: 3 }]);
+
+    expect(Object.keys(data).sort()).toEqual(['balanceSheet', 'newCustomers', 'plMTD']);
+  });
+
+  it('lists every missing or malformed report in one error', () => {
+    const problems = problemsOf(() => parseMonthlyReportPayload([
+      { balanceSheet: workflowReport('BalanceSheet', { EndPeriod: undefined }) },
+      { ar: workflowReport('AgedPayables') },
+      { newCustomers: -1 }
+    ]));
+
+    expect(problems.map(problem => problem.report)).toEqual(['P&L MTD', 'Balance Sheet', 'New Customers']);
+    expect(problems[0].issues).toEqual(['report is missing']);
+    expect(problems[1].issues).toEqual(['headers.EndPeriod is missing']);
+  });
+
+  it('rejects a report returned twice and items that are not objects', () => {
+    const problems = problemsOf(() => parseMonthlyReportPayload([...payload(), { plMTD: workflowReport('ProfitAndLoss') }, 'error']));
+
+    expect(problems).toEqual([
+      { report: 'P&L MTD', issues: ['returned more than once by the workflow'] },
+      { report: 'n8n response', issues: ['item 3 is not an object'] }
+    ]);
+  });
+
+  it('rejects a wrongly typed entity list', () => {
+    const problems = problemsOf(() => parseMonthlyReportPayload([
+      ...payload(),
+      { accounts: [{ Id: 7, Name: 'Checking', AccountType: 'Bank' }] }
+    ]));
+
+    expect(problems).toHaveLength(1);
+    expect(problems[0].report).toBe('Chart of Accounts');
+    expect(problems[0].issues[0]).toMatch(/^\[0\]\.Id: /);
+  });
+});
@@ -0,0 +1,383 @@
+/**
+ * Runtime schemas for QBO report payloads
+ *
+ * QBO and the n8n workflow return untyped JSON. Reports are checked against
+ * these schemas when they arrive so a malformed or missing report fails with
+ * an error naming the report and the problem, instead of surfacing later as
+ * zeros in the statements. Objects are loose: fields the app does not use
+ * are kept as-is.
+ */
+
+import { z } from 'zod';
+import { QBOError } from './supabase-clerk';
+import {
+  QBOAccount,
+  QBOAgingReportData,
+  QBOBalanceSheetData,
+  QBOBudget,
+  QBOCashFlowData,
+  QBOColData,
+  QBOCustomerSalesData,
+  QBOExchangeRate,
+  QBOGeneralLedgerData,
+  QBOItem,
+  QBOItemSalesData,
+  QBOProfitLossData,
+  QBOReportRow,
+  QBOTrialBalanceData
+} from '../types/financial.types';
+
+/** Issues listed per report before the rest are summarized */
+const MAX_ISSUES_PER_REPORT = 5;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const dateSchema = z.string().regex(DATE_PATTERN, 'expected a YYYY-MM-DD date');
+
+const colDataSchema: z.ZodType<QBOColData> = z.looseObject({
+  value: z.string(),
+  id: z.string().optional()
+});
+
+export const qboReportRowSchema: z.ZodType<QBOReportRow> = z.lazy(() => z.looseObject({
+  group: z.string().optional(),
+  type: z.string().optional(),
+  ColData: z.array(colDataSchema).optional(),
+  Header: z.looseObject({ ColData: z.array(colDataSchema) }).optional(),
+  Summary: z.looseObject({ ColData: z.array(colDataSchema) }).optional(),
+  Rows: z.looseObject({ Row: z.array(qboReportRowSchema).optional() }).optional()
+}));
+
+const columnsSchema = z.looseObject({
+  Column: z.array(z.looseObject({
+    ColTitle: z.string(),
+    ColType: z.string(),
+    MetaData: z.array(z.looseObject({ Name: z.string(), Value: z.string().optional() })).optional()
+  }))
+});
+
+const rowsSchema = z.looseObject({
+  Row: z.array(qboReportRowSchema).optional()
+});
+
+/** Header of a report covering a date range */
+const periodHeaderSchema = (reportName: string) => z.looseObject({
+  Time: z.string().optional(),
+  ReportName: z.literal(reportName),
+  ReportBasis: z.string().optional(),
+  StartPeriod: dateSchema,
+  EndPeriod: dateSchema,
+  Currency: z.string().optional()
+});
+
+/** Aging reports are as of a date and carry no basis */
+const agingHeaderSchema = z.looseObject({
+  Time: z.string().optional(),
+  ReportName: z.enum(['AgedReceivables', 'AgedPayables']),
+  ReportBasis: z.string().optional(),
+  StartPeriod: dateSchema.optional(),
+  EndPeriod: dateSchema.optional()
+});
+
+const profitLossHeaderSchema = periodHeaderSchema('ProfitAndLoss');
+const balanceSheetHeaderSchema = periodHeaderSchema('BalanceSheet');
+const cashFlowHeaderSchema = periodHeaderSchema('CashFlow');
+const trialBalanceHeaderSchema = periodHeaderSchema('TrialBalance');
+const generalLedgerHeaderSchema = periodHeaderSchema('GeneralLedger');
+const customerSalesHeaderSchema = periodHeaderSchema('CustomerSales');
+const customerIncomeHeaderSchema = periodHeaderSchema('CustomerIncome');
+const itemSalesHeaderSchema = periodHeaderSchema('ItemSales');
+
+export const profitLossSchema: z.ZodType<QBOProfitLossData> = z.looseObject({
+  Header: profitLossHeaderSchema,
+  Columns: columnsSchema,
+  Rows: rowsSchema
+});
+
+export const balanceSheetSchema: z.ZodType<QBOBalanceSheetData> = z.looseObject({
+  Header: balanceSheetHeaderSchema,
+  Columns: columnsSchema,
+  Rows: rowsSchema
+});
+
+export const cashFlowSchema: z.ZodType<QBOCashFlowData> = z.looseObject({
+  Header: cashFlowHeaderSchema,
+  Columns: columnsSchema.optional(),
+  Rows: rowsSchema
+});
+
+export const agingReportSchema: z.ZodType<QBOAgingReportData> = z.looseObject({
+  Header: agingHeaderSchema,
+  Columns: columnsSchema,
+  Rows: rowsSchema
+});
+
+export const trialBalanceSchema: z.ZodType<QBOTrialBalanceData> = z.looseObject({
+  Header: trialBalanceHeaderSchema,
+  Columns: columnsSchema,
+  Rows: rowsSchema
+});
+
+export const generalLedgerSchema: z.ZodType<QBOGeneralLedgerData> = z.looseObject({
+  Header: generalLedgerHeaderSchema,
+  Columns: columnsSchema,
+  Rows: rowsSchema
+});
+
+export const customerSalesSchema: z.ZodType<QBOCustomerSalesData> = z.looseObject({
+  Header: customerSalesHeaderSchema,
+  Columns: columnsSchema,
+  Rows: rowsSchema
+});
+
+export const customerIncomeSchema: z.ZodType<QBOCustomerSalesData> = z.looseObject({
+  Header: customerIncomeHeaderSchema,
+  Columns: columnsSchema,
+  Rows: rowsSchema
+});
+
+export const itemSalesSchema: z.ZodType<QBOItemSalesData> = z.looseObject({
+  Header: itemSalesHeaderSchema,
+  Columns: columnsSchema,
+  Rows: rowsSchema
+});
+
+/** Item entities the workflow returns alongside the reports */
+export const qboItemSchema: z.ZodType<QBOItem> = z.looseObject({
+  Id: z.string(),
+  Name: z.string(),
+  FullyQualifiedName: z.string().optional(),
+  Type: z.string(),
+  Active: z.boolean().optional(),
+  UnitPrice: z.number().optional(),
+  PurchaseCost: z.number().optional()
+});
+
+/** Account entities, for account currencies and foreign balances */
+export const qboAccountSchema: z.ZodType<QBOAccount> = z.looseObject({
+  Id: z.string(),
+  Name: z.string(),
+  FullyQualifiedName: z.string().optional(),
+  AccountType: z.string(),
+  AccountSubType: z.string().optional(),
+  Classification: z.enum(['Asset', 'Liability', 'Equity', 'Revenue', 'Expense']).optional(),
+  Active: z.boolean().optional(),
+  SubAccount: z.boolean().optional(),
+  ParentRef: z.looseObject({ value: z.string() }).optional(),
+  CurrentBalance: z.number().optional(),
+  CurrencyRef: z.looseObject({ value: z.string(), name: z.string().optional() }).optional()
+});
+
+/** Exchange rates on the period end */
+export const qboExchangeRateSchema: z.ZodType<QBOExchangeRate> = z.looseObject({
+  SourceCurrencyCode: z.string(),
+  TargetCurrencyCode: z.string().optional(),
+  Rate: z.number(),
+  AsOfDate: z.string()
+});
+
+/** Budgets, for budget vs actual */
+export const qboBudgetSchema: z.ZodType<QBOBudget> = z.looseObject({
+  Id: z.string(),
+  Name: z.string(),
+  StartDate: dateSchema,
+  EndDate: dateSchema,
+  BudgetType: z.enum(['ProfitAndLoss', 'BalanceSheet']).optional(),
+  BudgetEntryType: z.enum(['Monthly', 'Quarterly', 'Yearly']).optional(),
+  Active: z.boolean().optional(),
+  BudgetDetail: z.array(z.looseObject({
+    BudgetDate: dateSchema,
+    Amount: z.number(),
+    AccountRef: z.looseObject({ value: z.string(), name: z.string().optional() })
+  })).optional()
+});
+
+/** The CompanyInfo fields the workflow's report uses, for its locale */
+export const qboCompanyInfoSchema = z.looseObject({
+  CompanyName: z.string().optional(),
+  Country: z.string().optional(),
+  SupportedLanguages: z.string().optional(),
+  /** Company settings such as IndustryType and IndustryCode */
+  NameValue: z.array(z.looseObject({ Name: z.string().optional(), Value: z.string().optional() })).optional()
+});
+
+/** Schema for each QBO report endpoint the app fetches */
+export const QBO_REPORT_SCHEMAS: Record<string, z.ZodType> = {
+  ProfitAndLoss: profitLossSchema,
+  BalanceSheet: balanceSheetSchema,
+  CashFlow: cashFlowSchema,
+  AgedReceivables: agingReportSchema,
+  AgedPayables: agingReportSchema,
+  TrialBalance: trialBalanceSchema,
+  GeneralLedger: generalLedgerSchema,
+  CustomerSales: customerSalesSchema,
+  CustomerIncome: customerIncomeSchema,
+  ItemSales: itemSalesSchema
+};
+
+/** A QBO report as the n8n workflow's Format nodes wrap it */
+const workflowReportSchema = <H extends z.ZodType, C extends z.ZodType>(headers: H, columns: C) =>
+  z.looseObject({ headers, columns, rows: rowsSchema });
+
+/**
+ * The merged n8n monthly report payload. Only the month's P&L and balance
+ * sheet are required; the preview shows the other reports as missing.
+ */
+export const monthlyReportDataSchema = z.looseObject({
+  plMTD: workflowReportSchema(profitLossHeaderSchema, columnsSchema),
+  plQTD: workflowReportSchema(profitLossHeaderSchema, columnsSchema).optional(),
+  balanceSheet: workflowReportSchema(balanceSheetHeaderSchema, columnsSchema),
+  /** The prior month's P&L and month-end balance sheet */
+  plPrior: workflowReportSchema(profitLossHeaderSchema, columnsSchema).optional(),
+  balanceSheetPrior: workflowReportSchema(balanceSheetHeaderSchema, columnsSchema).optional(),
+  cashFlow: workflowReportSchema(cashFlowHeaderSchema, columnsSchema.optional()).optional(),
+  ar: workflowReportSchema(agingHeaderSchema, columnsSchema).optional(),
+  ap: workflowReportSchema(agingHeaderSchema, columnsSchema).optional(),
+  /** The trailing months' P&L and cash flow, one column per month, for the trends */
+  plMonthly: workflowReportSchema(profitLossHeaderSchema, columnsSchema).optional(),
+  cashFlowMonthly: workflowReportSchema(cashFlowHeaderSchema, columnsSchema.optional()).optional(),
+  /**
+   * Year-to-date trial balance through the month end and through the day
+   * before the month, present when trial balance statements were requested
+   */
+  trialBalance: workflowReportSchema(trialBalanceHeaderSchema, columnsSchema).optional(),
+  trialBalanceOpening: workflowReportSchema(trialBalanceHeaderSchema, columnsSchema).optional(),
+  /** The month's P&L by Class or Location, present when a segmented report was requested */
+  plSegments: workflowReportSchema(profitLossHeaderSchema, columnsSchema).optional(),
+  customerSales: workflowReportSchema(customerSalesHeaderSchema, columnsSchema).optional(),
+  itemSales: workflowReportSchema(itemSalesHeaderSchema, columnsSchema).optional(),
+  itemSalesPrior: workflowReportSchema(itemSalesHeaderSchema, columnsSchema).optional(),
+  items: z.array(qboItemSchema).optional(),
+  companyInfo: qboCompanyInfoSchema.optional(),
+  accounts: z.array(qboAccountSchema).optional(),
+  exchangeRates: z.array(qboExchangeRateSchema).optional(),
+  budgets: z.array(qboBudgetSchema).optional(),
+  /** Customers created during the month, for CAC */
+  newCustomers: z.number().int().nonnegative().optional()
+});
+
+export type MonthlyReportPayload = z.infer<typeof monthlyReportDataSchema>;
+
+/** Report names shown to users */
+const WORKFLOW_REPORT_LABELS: Record<keyof typeof monthlyReportDataSchema.shape, string> = {
+  plMTD: 'P&L MTD',
+  plQTD: 'P&L QTD',
+  balanceSheet: 'Balance Sheet',
+  plPrior: 'P&L (prior month)',
+  balanceSheetPrior: 'Balance Sheet (prior month)',
+  cashFlow: 'Cash Flow',
+  ar: 'AR Aging',
+  ap: 'AP Aging',
+  plMonthly: 'P&L by Month',
+  cashFlowMonthly: 'Cash Flow by Month',
+  trialBalance: 'Trial Balance',
+  trialBalanceOpening: 'Trial Balance (prior month end)',
+  plSegments: 'P&L by Class/Location',
+  customerSales: 'Sales by Customer',
+  itemSales: 'Sales by Product/Service',
+  itemSalesPrior: 'Sales by Product/Service (prior month)',
+  items: 'Products and Services',
+  companyInfo: 'Company Info',
+  accounts: 'Chart of Accounts',
+  exchangeRates: 'Exchange Rates',
+  budgets: 'Budgets',
+  newCustomers: 'New Customers'
+};
+
+export interface ReportProblem {
+  /** Report name as shown to users, e.g. "Balance Sheet" */
+  report: string;
+  issues: string[];
+}
+
+/**
+ * One or more reports are missing or do not have the expected structure
+ */
+export class QBOReportError extends QBOError {
+  constructor(public problems: ReportProblem[]) {
+    super(
+      problems.map(problem => `${problem.report}: ${problem.issues.join('; ')}`).join('. '),
+      'INVALID_REPORT',
+      problems
+    );
+    this.name = 'QBOReportError';
+  }
+}
+
+/**
+ * Readable issue list, e.g. "Header.EndPeriod is missing"
+ */
+const describeIssues = (error: z.ZodError): string[] => {
+  const issues = error.issues.map(issue => {
+    const path = issue.path
+      .map((key, i) => typeof key === 'number' ? `[${key}]` : `${i ? '.' : ''}${String(key)}`)
+      .join('');
+    if (issue.code === 'invalid_type' && issue.input === undefined) {
+      return path ? `${path} is missing` : 'report is missing';
+    }
+    const message = issue.message.replace(/^Invalid input: /, '');
+    return path ? `${path}: ${message}` : message;
+  });
+  return issues.length > MAX_ISSUES_PER_REPORT
+    ? [...issues.slice(0, MAX_ISSUES_PER_REPORT), `and ${issues.length - MAX_ISSUES_PER_REPORT} more`]
+    : issues;
+};
+
+/**
+ * QBO returns a Fault object instead of a report when a request fails
+ */
+const describeFault = (payload: unknown): string[] | undefined => {
+  const fault = (payload as { Fault?: { Error?: Array<{ Message?: string; Detail?: string }> } })?.Fault;
+  if (!fault) return undefined;
+  const errors = fault.Error?.map(error => [error.Message, error.Detail].filter(Boolean).join(': ')) || [];
+  return [`QuickBooks returned an error: ${errors.join('; ') || 'unknown fault'}`];
+};
+
+/**
+ * Validate a QBO report payload, throwing a QBOReportError naming the report
+ */
+export const parseQBOReport = <T>(schema: z.ZodType<T>, payload: unknown, report: string): T => {
+  const fault = describeFault(payload);
+  if (fault) throw new QBOReportError([{ report, issues: fault }]);
+
+  const result = schema.safeParse(payload, { reportInput: true });
+  if (!result.success) {
+    throw new QBOReportError([{ report, issues: describeIssues(result.error) }]);
+  }
+  return result.data;
+};
+
+/**
+ * Merge and validate the n8n monthly report response, an array of objects
+ * each holding one formatted report (or a single object with all of them).
+ * Every bad report is listed in the one error.
+ */
+export const parseMonthlyReportPayload = (payload: unknown): MonthlyReportPayload => {
+  const items = Array.isArray(payload) ? payload : [payload];
+  const problems: ReportProblem[] = [];
+  const merged: Record<string, unknown> = {};
+
+  items.forEach((item, index) => {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      problems.push({ report: 'n8n response', issues: [`item ${index} is not an object`] });
+      return;
+    }
+    Object.entries(item).forEach(([key, value]) => {
+      if (key in merged) {
+        const report = WORKFLOW_REPORT_LABELS[key as keyof typeof WORKFLOW_REPORT_LABELS] || key;
+        problems.push({ report, issues: ['returned more than once by the workflow'] });
+      }
+      merged[key] = value;
+    });
+  });
+
+  (Object.keys(WORKFLOW_REPORT_LABELS) as Array<keyof typeof WORKFLOW_REPORT_LABELS>).forEach(key => {
+    const result = monthlyReportDataSchema.shape[key].safeParse(merged[key], { reportInput: true });
+    if (!result.success) {
+      problems.push({ report: WORKFLOW_REPORT_LABELS[key], issues: describeIssues(result.error) });
+    }
+  });
+
+  if (problems.length) throw new QBOReportError(problems);
+  return monthlyReportDataSchema.parse(merged);
+};
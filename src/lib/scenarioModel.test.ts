@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { projectScenario, scenarioBaseline } from './scenarioModel';
+import { BalanceSheetStatement, ProfitLossStatement, Scenario, ScenarioBaseline } from '../types/financial.types';
+
+// Assets 165,000 = liabilities 65,000 + equity 100,000
+const BASELINE: ScenarioBaseline = {
+  asOfDate: '2026-09-30',
+  monthlyRevenue: 30000,
+  monthlyDepreciation: 1000,
+  monthlyOtherIncome: 0,
+  inventoryDays: 45,
+  drivers: {
+    revenueGrowthRate: 0,
+    cogsPercent: 40,
+    operatingExpenses: [{ category: 'Rent', monthlyAmount: 5000, annualGrowthRate: 0 }],
+    dso: 30,
+    dpo: 20,
+    monthlyCapex: 0,
+    capexUsefulLifeMonths: 60,
+    debtDraws: [],
+    interestRate: 6,
+    taxRate: 21
+  },
+  balances: {
+    cash: 50000,
+    accountsReceivable: 30000,
+    inventory: 20000,
+    fixedAssets: 60000,
+    otherAssets: 5000,
+    accountsPayable: 15000,
+    debt: 40000,
+    otherLiabilities: 10000,
+    equity: 100000
+  }
+};
+
+const scenario = (drivers: Partial<Scenario['drivers']> = {}, horizonMonths: Scenario['horizonMonths'] = 12): Scenario => ({
+  name: 'Expansion',
+  horizonMonths,
+  drivers: { ...BASELINE.drivers, ...drivers }
+});
+
+describe('projectScenario', () => {
+  it('keeps the projected balance sheet in balance every month', () => {
+    const projection = projectScenario(BASELINE, scenario({
+      revenueGrowthRate: 12,
+      operatingExpenses: [
+        { category: 'Rent', monthlyAmount: 5000, annualGrowthRate: 0 },
+        { category: 'Payroll', monthlyAmount: 12000, annualGrowthRate: 3 }
+      ],
+      monthlyCapex: 2000,
+      capexUsefulLifeMonths: 36,
+      debtDraws: [{ month: 3, amount: 10000 }, { month: 8, amount: -5000 }]
+    }, 24));
+
+    expect(projection.months).toHaveLength(24);
+    projection.months.forEach(month => {
+      // Each line is rounded to the cent on its own
+      expect(Math.abs(month.totalAssets - month.totalLiabilities - month.equity)).toBeLessThan(0.05);
+    });
+  });
+
+  it('caps repayments at the outstanding debt and stops accruing interest once it is repaid', () => {
+    const projection = projectScenario(BASELINE, scenario({
+      debtDraws: [{ month: 2, amount: 10000 }, { month: 4, amount: -80000 }]
+    }));
+    const [, month2, , month4, month5] = projection.months;
+
+    expect([month2.debtFlow, month2.debt]).toEqual([10000, 50000]);
+    expect([month4.debtFlow, month4.debt]).toEqual([-50000, 0]);
+    expect(month5.interestExpense).toBe(0);
+    expect(projection.totals.debtFlow).toBe(-40000);
+  });
+
+  it('projects the run rate month by month from the month after the baseline', () => {
+    const projection = projectScenario(BASELINE, scenario());
+
+    expect(projection.months[0]).toMatchObject({
+      month: '2026-10',
+      revenue: 30000,
+      costOfGoodsSold: 12000,
+      depreciation: 1000,
+      // 40,000 of debt at 6%
+      interestExpense: 200,
+      // (30,000 - 12,000 - 5,000 - 1,000 - 200) × 79%
+      netIncome: 9322
+    });
+    expect(projection.months[11].month).toBe('2027-09');
+  });
+});
+
+describe('scenarioBaseline', () => {
+  const profitLoss: ProfitLossStatement = {
+    revenue: { total: 30000, breakdown: [{ category: 'Sales', amount: 30000, percentage: 100 }] },
+    costOfGoodsSold: { total: 12000, breakdown: [{ category: 'Materials', amount: 12000 }] },
+    grossProfit: 18000,
+    operatingExpenses: { total: 5000, breakdown: [{ category: 'Rent', amount: 5000, percentage: 100 }] },
+    operatingIncome: 13000,
+    otherIncomeExpenses: { total: 0, breakdown: [] },
+    incomeBeforeTax: 13000,
+    taxExpense: 0,
+    netIncome: 13000
+  };
+  const balanceSheet: BalanceSheetStatement = {
+    assets: {
+      current: { total: 60000, cash: 20000, accountsReceivable: 30000, inventory: 10000, otherCurrentAssets: 0 },
+      nonCurrent: { total: 40000, propertyPlantEquipment: 40000, intangibleAssets: 0, otherNonCurrentAssets: 0 },
+      totalAssets: 100000
+    },
+    liabilities: {
+      current: { total: 17000, accountsPayable: 17000, shortTermDebt: 0, otherCurrentLiabilities: 0 },
+      nonCurrent: { total: 0, longTermDebt: 0, otherNonCurrentLiabilities: 0 },
+      totalLiabilities: 17000
+    },
+    equity: { total: 83000, commonStock: 1000, retainedEarnings: 82000, otherEquity: 0 }
+  };
+
+  it('continues the period run rate and working capital days', () => {
+    const baseline = scenarioBaseline(profitLoss, balanceSheet, { start: '2026-09-01', end: '2026-09-30' });
+
+    // 30 days scaled to an average month of 365 / 12 days
+    expect(baseline.monthlyRevenue).toBe(30416.67);
+    expect(baseline.drivers).toMatchObject({ revenueGrowthRate: 0, cogsPercent: 40, dso: 30, dpo: 30, interestRate: 0, taxRate: 0 });
+    expect(baseline.inventoryDays).toBe(25);
+    expect(baseline.balances).toMatchObject({ fixedAssets: 40000, otherAssets: 0, otherLiabilities: 0, equity: 83000 });
+  });
+});
@@ -0,0 +1,329 @@
+/**
+ * Driver-based scenario model
+ *
+ * Projects the P&L, balance sheet and cash month by month from the current
+ * run rates and closing balances and a scenario's driver assumptions. Cash is
+ * the indirect cash flow of each month, so a projected balance sheet balances
+ * whenever the opening one does, and the same drivers always give the same
+ * projection.
+ */
+
+import {
+  AccountLine,
+  BalanceSheetStatement,
+  CurrencyFormat,
+  DebtDraw,
+  OperatingExpenseDriver,
+  ProfitLossStatement,
+  Scenario,
+  ScenarioBaseline,
+  ScenarioMonth,
+  ScenarioProjection,
+  TableContent
+} from '../types/financial.types';
+import { daysInPeriod, interestExpenseLines, nonCashChargeLines } from './financialMetrics';
+import { leafAccountLines } from './qboReportTree';
+import { formatMoney } from './currency';
+import { round } from './utils';
+
+const DAYS_PER_MONTH = 365 / 12;
+const DEFAULT_USEFUL_LIFE_MONTHS = 60;
+const OTHER_OPERATING_EXPENSES = 'Other operating expenses';
+
+const sumLines = (lines: AccountLine[]): number =>
+  lines.reduce((sum, line) => sum + line.amount, 0);
+
+const monthlyGrowth = (annualRate: number): number =>
+  Math.max(0, 1 + annualRate / 100) ** (1 / 12);
+
+/**
+ * YYYY-MM of the month `offset` months after the one containing `date`
+ */
+const monthAfter = (date: string, offset: number): string => {
+  const month = Number(date.slice(5, 7)) - 1 + offset;
+  const year = Number(date.slice(0, 4)) + Math.floor(month / 12);
+  return `${year}-${String((month % 12) + 1).padStart(2, '0')}`;
+};
+
+/**
+ * Run rates and closing balances from a period's P&L and its period-end
+ * balance sheet. The baseline drivers continue the current run rate:
+ * no growth, the period's cost of sales margin, working capital days and
+ * effective interest and tax rates, and no capex or new debt.
+ */
+export const scenarioBaseline = (
+  profitLoss: ProfitLossStatement,
+  balanceSheet: BalanceSheetStatement,
+  period: { start: string; end: string }
+): ScenarioBaseline => {
+  const periodDays = daysInPeriod(period.start, period.end);
+  const toMonthly = (amount: number) => round(amount * DAYS_PER_MONTH / periodDays);
+  const perDay = (amount: number) => amount / periodDays;
+
+  // Depreciation and interest are projected from fixed assets and debt, so
+  // they are taken out of the lines the drivers scale
+  const nonCash = new Set(nonCashChargeLines(profitLoss));
+  const interest = interestExpenseLines(profitLoss);
+  const excluded = new Set([...nonCash, ...interest.operating]);
+  const cashAmount = (lines: AccountLine[]) =>
+    lines.reduce((sum, line) => sum + line.amount - sumLines(leafAccountLines([line]).filter(leaf => excluded.has(leaf))), 0);
+
+  const revenue = profitLoss.revenue.total;
+  const cogs = cashAmount(profitLoss.costOfGoodsSold.breakdown);
+  const opexLines = profitLoss.operatingExpenses.breakdown;
+  const unclassified = profitLoss.operatingExpenses.total - sumLines(opexLines);
+  const operatingExpenses: OperatingExpenseDriver[] = [
+    ...opexLines.map(line => ({ category: line.category, monthlyAmount: toMonthly(cashAmount([line])), annualGrowthRate: 0 })),
+    { category: OTHER_OPERATING_EXPENSES, monthlyAmount: toMonthly(unclassified), annualGrowthRate: 0 }
+  ].filter(line => line.monthlyAmount !== 0);
+  const opex = operatingExpenses.reduce((sum, line) => sum + line.monthlyAmount, 0) * periodDays / DAYS_PER_MONTH;
+
+  const { current, nonCurrent, totalAssets } = balanceSheet.assets;
+  const liabilities = balanceSheet.liabilities;
+  const fixedAssets = nonCurrent.propertyPlantEquipment + nonCurrent.intangibleAssets;
+  const debt = liabilities.current.shortTermDebt + liabilities.nonCurrent.longTermDebt;
+  const annualInterest = (sumLines(interest.operating) - sumLines(interest.other)) * 365 / periodDays;
+  const { incomeBeforeTax, taxExpense } = profitLoss;
+
+  return {
+    asOfDate: period.end,
+    monthlyRevenue: toMonthly(revenue),
+    monthlyDepreciation: toMonthly(sumLines([...nonCash])),
+    monthlyOtherIncome: toMonthly(profitLoss.otherIncomeExpenses.total - sumLines(interest.other)),
+    inventoryDays: cogs > 0 ? round(current.inventory / perDay(cogs), 1) : null,
+    drivers: {
+      revenueGrowthRate: 0,
+      cogsPercent: revenue ? round(cogs / revenue * 100) : 0,
+      operatingExpenses,
+      dso: revenue > 0 ? round(current.accountsReceivable / perDay(revenue), 1) : 0,
+      dpo: cogs + opex > 0 ? round(liabilities.current.accountsPayable / perDay(cogs + opex), 1) : 0,
+      monthlyCapex: 0,
+      capexUsefulLifeMonths: DEFAULT_USEFUL_LIFE_MONTHS,
+      debtDraws: [],
+      interestRate: debt > 0 ? round(Math.max(0, annualInterest) / debt * 100) : 0,
+      taxRate: incomeBeforeTax > 0 && taxExpense > 0 ? round(Math.min(100, taxExpense / incomeBeforeTax * 100)) : 0
+    },
+    balances: {
+      cash: current.cash,
+      accountsReceivable: current.accountsReceivable,
+      inventory: current.inventory,
+      fixedAssets,
+      otherAssets: totalAssets - current.cash - current.accountsReceivable - current.inventory - fixedAssets,
+      accountsPayable: liabilities.current.accountsPayable,
+      debt,
+      otherLiabilities: liabilities.totalLiabilities - liabilities.current.accountsPayable - debt,
+      equity: balanceSheet.equity.total
+    }
+  };
+};
+
+const debtFlowIn = (draws: DebtDraw[], month: number): number =>
+  draws.filter(draw => draw.month === month).reduce((sum, draw) => sum + draw.amount, 0);
+
+/**
+ * Month-by-month projection of a scenario from the baseline. Revenue and
+ * each expense line grow from their baseline monthly amounts; receivables,
+ * inventory and payables follow the working capital days; new capex is
+ * depreciated straight line from the month it is spent; interest accrues on
+ * the debt at the start of each month and tax only on positive pre-tax
+ * income. Repayments are limited to the outstanding debt.
+ */
+export const projectScenario = (baseline: ScenarioBaseline, scenario: Scenario): ScenarioProjection => {
+  const { drivers } = scenario;
+  const revenueGrowth = monthlyGrowth(drivers.revenueGrowthRate);
+  const opexGrowth = drivers.operatingExpenses.map(line => monthlyGrowth(line.annualGrowthRate));
+  const usefulLife = Math.max(1, Math.round(drivers.capexUsefulLifeMonths));
+  const { otherAssets, otherLiabilities } = baseline.balances;
+  let { cash, accountsReceivable, inventory, accountsPayable, debt, equity } = baseline.balances;
+  let existingAssets = baseline.balances.fixedAssets;
+  let newAssets = 0;
+  const capexByMonth: number[] = [];
+  const months: ScenarioMonth[] = [];
+
+  for (let month = 1; month <= scenario.horizonMonths; month++) {
+    const revenue = baseline.monthlyRevenue * revenueGrowth ** month;
+    const costOfGoodsSold = revenue * drivers.cogsPercent / 100;
+    const operatingExpenses = drivers.operatingExpenses
+      .reduce((sum, line, index) => sum + line.monthlyAmount * opexGrowth[index] ** month, 0);
+
+    const capex = Math.max(0, drivers.monthlyCapex);
+    capexByMonth.push(capex);
+    const existingDepreciation = Math.min(Math.max(0, existingAssets), baseline.monthlyDepreciation);
+    const newDepreciation = capexByMonth.slice(-usefulLife).reduce((sum, amount) => sum + amount / usefulLife, 0);
+    const depreciation = existingDepreciation + newDepreciation;
+
+    const grossProfit = revenue - costOfGoodsSold;
+    const operatingIncome = grossProfit - operatingExpenses - depreciation;
+    const interestExpense = debt * drivers.interestRate / 100 / 12;
+    const incomeBeforeTax = operatingIncome + baseline.monthlyOtherIncome - interestExpense;
+    const taxExpense = incomeBeforeTax > 0 ? incomeBeforeTax * drivers.taxRate / 100 : 0;
+    const netIncome = incomeBeforeTax - taxExpense;
+
+    const closingReceivables = revenue / DAYS_PER_MONTH * drivers.dso;
+    const closingInventory = baseline.inventoryDays === null
+      ? inventory
+      : costOfGoodsSold / DAYS_PER_MONTH * baseline.inventoryDays;
+    const closingPayables = (costOfGoodsSold + operatingExpenses) / DAYS_PER_MONTH * drivers.dpo;
+    const operatingCashFlow = netIncome + depreciation
+      - (closingReceivables - accountsReceivable)
+      - (closingInventory - inventory)
+      + (closingPayables - accountsPayable);
+    const debtFlow = Math.max(-debt, debtFlowIn(drivers.debtDraws, month));
+    const netCashFlow = operatingCashFlow - capex + debtFlow;
+
+    cash += netCashFlow;
+    accountsReceivable = closingReceivables;
+    inventory = closingInventory;
+    accountsPayable = closingPayables;
+    debt += debtFlow;
+    equity += netIncome;
+    existingAssets -= existingDepreciation;
+    newAssets += capex - newDepreciation;
+    const fixedAssets = existingAssets + newAssets;
+
+    months.push({
+      month: monthAfter(baseline.asOfDate, month),
+      revenue: round(revenue),
+      costOfGoodsSold: round(costOfGoodsSold),
+      grossProfit: round(grossProfit),
+      operatingExpenses: round(operatingExpenses),
+      depreciation: round(depreciation),
+      operatingIncome: round(operatingIncome),
+      otherIncome: round(baseline.monthlyOtherIncome),
+      interestExpense: round(interestExpense),
+      taxExpense: round(taxExpense),
+      netIncome: round(netIncome),
+      operatingCashFlow: round(operatingCashFlow),
+      capex: round(capex),
+      debtFlow: round(debtFlow),
+      netCashFlow: round(netCashFlow),
+      cash: round(cash),
+      accountsReceivable: round(accountsReceivable),
+      inventory: round(inventory),
+      fixedAssets: round(fixedAssets),
+      totalAssets: round(cash + accountsReceivable + inventory + fixedAssets + otherAssets),
+      accountsPayable: round(accountsPayable),
+      debt: round(debt),
+      totalLiabilities: round(accountsPayable + debt + otherLiabilities),
+      equity: round(equity)
+    });
+  }
+
+  const total = (select: (month: ScenarioMonth) => number) =>
+    round(months.reduce((sum, month) => sum + select(month), 0));
+  const lowest = months.reduce<ScenarioMonth | undefined>(
+    (low, month) => (!low || month.cash < low.cash ? month : low),
+    undefined
+  );
+
+  return {
+    scenarioId: scenario.id,
+    name: scenario.name,
+    drivers,
+    baselineAsOf: baseline.asOfDate,
+    months,
+    totals: {
+      revenue: total(month => month.revenue),
+      grossProfit: total(month => month.grossProfit),
+      operatingIncome: total(month => month.operatingIncome),
+      netIncome: total(month => month.netIncome),
+      operatingCashFlow: total(month => month.operatingCashFlow),
+      capex: total(month => month.capex),
+      debtFlow: total(month => month.debtFlow)
+    },
+    minimumCash: lowest
+      ? { amount: lowest.cash, month: lowest.month }
+      : { amount: round(baseline.balances.cash), month: baseline.asOfDate.slice(0, 7) }
+  };
+};
+
+/**
+ * One-line summary for prompts and report text
+ */
+export const describeScenario = (projection: ScenarioProjection, format: CurrencyFormat): string => {
+  const money = (amount: number) => formatMoney(amount, format, { maximumFractionDigits: 0 });
+  const last = projection.months[projection.months.length - 1];
+  return `${projection.name}: ${money(projection.totals.revenue)} revenue and ${money(projection.totals.netIncome)} net income `
+    + `over ${projection.months.length} months; ending cash ${money(last?.cash ?? projection.minimumCash.amount)}, `
+    + `lowest ${money(projection.minimumCash.amount)} in ${projection.minimumCash.month}`;
+};
+
+/**
+ * The scenarios side by side: drivers, horizon totals and ending balances
+ */
+export const scenarioComparisonTable = (projections: ScenarioProjection[], format: CurrencyFormat): TableContent => {
+  const money = (amount: number) => formatMoney(amount, format, { maximumFractionDigits: 0 });
+  const ending = (projection: ScenarioProjection) => projection.months[projection.months.length - 1];
+  const row = (label: string, value: (projection: ScenarioProjection) => string) =>
+    [label, ...projections.map(value)];
+
+  return {
+    type: 'table',
+    headers: ['', ...projections.map(projection => `${projection.name} (${projection.months.length} mo)`)],
+    rows: [
+      row('Revenue Growth (annual)', projection => `${projection.drivers.revenueGrowthRate}%`),
+      row('COGS % of Revenue', projection => `${projection.drivers.cogsPercent}%`),
+      row('DSO / DPO (days)', projection => `${projection.drivers.dso} / ${projection.drivers.dpo}`),
+      row('Revenue', projection => money(projection.totals.revenue)),
+      row('Gross Profit', projection => money(projection.totals.grossProfit)),
+      row('Operating Income', projection => money(projection.totals.operatingIncome)),
+      row('Net Income', projection => money(projection.totals.netIncome)),
+      row('Operating Cash Flow', projection => money(projection.totals.operatingCashFlow)),
+      row('Capex', projection => money(projection.totals.capex)),
+      row('Net Debt Drawn', projection => money(projection.totals.debtFlow)),
+      row('Ending Cash', projection => money(ending(projection)?.cash ?? 0)),
+      row('Lowest Cash', projection => `${money(projection.minimumCash.amount)} (${projection.minimumCash.month})`),
+      row('Ending Debt', projection => money(ending(projection)?.debt ?? 0)),
+      row('Ending Equity', projection => money(ending(projection)?.equity ?? 0))
+    ],
+    styling: { headerBackground: '#f3f4f6', alternateRows: true }
+  };
+};
+
+/**
+ * Month-end cash of each scenario at every quarter end of the longest horizon
+ */
+export const scenarioCashTable = (projections: ScenarioProjection[], format: CurrencyFormat): TableContent => {
+  const money = (amount: number) => formatMoney(amount, format, { maximumFractionDigits: 0 });
+  const horizon = Math.max(0, ...projections.map(projection => projection.months.length));
+  const quarterEnds = Array.from({ length: Math.floor(horizon / 3) }, (_, index) => (index + 1) * 3);
+
+  return {
+    type: 'table',
+    headers: ['Month', ...projections.map(projection => projection.name)],
+    rows: quarterEnds.map(month => [
+      `Month ${month}`,
+      ...projections.map(projection => {
+        const projected = projection.months[month - 1];
+        return projected ? `${money(projected.cash)} (${projected.month})` : '-';
+      })
+    ]),
+    styling: { headerBackground: '#f3f4f6', alternateRows: true }
+  };
+};
+
+/**
+ * The scenarios as a markdown section, for reports rendered from markdown
+ */
+export const scenarioMarkdown = (projections: ScenarioProjection[], format: CurrencyFormat): string => {
+  const line = (cells: Array<string | number>) =>
+    `| ${cells.map(cell => String(cell).replace(/\|/g, '\\|')).join(' | ')} |`;
+  const table = (content: TableContent) => [
+    line(content.headers),
+    line(content.headers.map((_, index) => (index === 0 ? '---' : '---:'))),
+    ...content.rows.map(line)
+  ];
+  return [
+    '## Scenario Projections',
+    '',
+    ...projections.map(projection => `- ${describeScenario(projection, format)}`),
+    '',
+    ...table(scenarioComparisonTable(projections, format)),
+    '',
+    '### Month-End Cash',
+    '',
+    ...table(scenarioCashTable(projections, format)),
+    '',
+    `*Projected from the run rates and balances as of ${projections[0]?.baselineAsOf ?? 'the period end'} and each scenario's driver assumptions.*`
+  ].join('\n');
+};
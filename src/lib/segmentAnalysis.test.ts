@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeSegments, buildSegmentComparisonTable, calculateSegmentKPIs } from './segmentAnalysis';
+import { ProfitLossStatement } from '../types/financial.types';
+
+const profitLoss = (revenue: number, costOfGoodsSold: number, operatingExpenses: number): ProfitLossStatement => {
+  const grossProfit = revenue - costOfGoodsSold;
+  const netIncome = grossProfit - operatingExpenses;
+  return {
+    revenue: { total: revenue, breakdown: [] },
+    costOfGoodsSold: { total: costOfGoodsSold, breakdown: [] },
+    grossProfit,
+    operatingExpenses: { total: operatingExpenses, breakdown: [] },
+    operatingIncome: netIncome,
+    otherIncomeExpenses: { total: 0, breakdown: [] },
+    incomeBeforeTax: netIncome,
+    taxExpense: 0,
+    netIncome
+  };
+};
+
+const SEPTEMBER = { start: '2026-09-01', end: '2026-09-30' };
+
+describe('analyzeSegments', () => {
+  const segmented = analyzeSegments('Departments', SEPTEMBER, [
+    { name: 'Not Specified', profitLoss: profitLoss(8000, 0, 1000) },
+    { segmentId: '1', name: 'Toronto', profitLoss: profitLoss(6000, 2000, 3000) },
+    { name: 'Closed store', profitLoss: profitLoss(0, 0, 0) },
+    { segmentId: '2', name: 'Vancouver', profitLoss: profitLoss(16000, 6000, 8000) }
+  ], profitLoss(30000, 8000, 12000));
+
+  it('sorts segments by revenue with the unassigned column last, dropping inactive ones', () => {
+    expect(segmented.segments.map(segment => [segment.name, segment.unassigned])).toEqual([
+      ['Vancouver', false],
+      ['Toronto', false],
+      ['Not Specified', true]
+    ]);
+  });
+
+  it("measures each segment's margins and share of the totals", () => {
+    expect(segmented.segments[0].kpis).toEqual({
+      revenue: 16000,
+      grossProfit: 10000,
+      grossMarginPercent: 62.5,
+      operatingIncome: 2000,
+      operatingMarginPercent: 12.5,
+      netIncome: 2000,
+      netMarginPercent: 12.5,
+      operatingExpenseRatio: 50,
+      revenueShare: 53.33,
+      netIncomeShare: 20
+    });
+    expect(segmented.totalKpis).toMatchObject({ revenueShare: 100, netIncomeShare: 100 });
+  });
+
+  it('lists a row per segment and a total row in the comparison table', () => {
+    const { headers, rows } = buildSegmentComparisonTable(segmented);
+
+    expect(headers[0]).toBe('Location');
+    expect(rows.map(row => row[0])).toEqual(['Vancouver', 'Toronto', 'Not Specified', 'Total']);
+    expect(rows[3].slice(1, 3)).toEqual(['$30,000', '100%']);
+  });
+});
+
+describe('calculateSegmentKPIs', () => {
+  it('has no net income share when the company made a loss', () => {
+    // The segment's 2,000 profit against a 1,000 total loss
+    const kpis = calculateSegmentKPIs(profitLoss(10000, 0, 8000), profitLoss(20000, 0, 21000));
+
+    expect(kpis.netIncomeShare).toBeNull();
+    expect(kpis.revenueShare).toBe(50);
+  });
+
+  it('has no margins for a segment without revenue', () => {
+    const kpis = calculateSegmentKPIs(profitLoss(0, 0, 500), profitLoss(20000, 0, 10000));
+
+    expect(kpis).toMatchObject({ grossMarginPercent: null, netMarginPercent: null, revenueShare: 0, netIncomeShare: -5 });
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Class and Location segment analysis
+ *
+ * Builds segment-level KPIs and the segment comparison table from the
+ * per-segment income statements of a P&L requested with summarize_column_by.
+ */
+
+import {
+  CurrencyFormat,
+  ProfitLossStatement,
+  SegmentDimension,
+  SegmentedProfitLoss,
+  SegmentKPIs,
+  SegmentProfitLoss
+} from '../types/financial.types';
+import { DEFAULT_CURRENCY_FORMAT, formatMoney } from './currency';
+import { percent, round } from './utils';
+
+/** Segment dimensions as QBO names them in the UI */
+export const SEGMENT_DIMENSION_LABELS: Record<SegmentDimension, string> = {
+  Classes: 'Class',
+  Departments: 'Location'
+};
+
+/** QBO's column for transactions without a class or location */
+const UNASSIGNED_PATTERN = /^not specified$/i;
+
+export interface SegmentStatement {
+  segmentId?: string;
+  name: string;
+  profitLoss: ProfitLossStatement;
+}
+
+/**
+ * Margins of a segment's P&L and its share of the company totals
+ */
+export const calculateSegmentKPIs = (pl: ProfitLossStatement, total: ProfitLossStatement): SegmentKPIs => ({
+  revenue: round(pl.revenue.total),
+  grossProfit: round(pl.grossProfit),
+  grossMarginPercent: percent(pl.grossProfit, pl.revenue.total),
+  operatingIncome: round(pl.operatingIncome),
+  operatingMarginPercent: percent(pl.operatingIncome, pl.revenue.total),
+  netIncome: round(pl.netIncome),
+  netMarginPercent: percent(pl.netIncome, pl.revenue.total),
+  operatingExpenseRatio: percent(pl.operatingExpenses.total, pl.revenue.total),
+  revenueShare: percent(pl.revenue.total, total.revenue.total),
+  // Shares of a loss-making total would flip sign, so they are left out
+  netIncomeShare: total.netIncome > 0 ? percent(pl.netIncome, total.netIncome) : null
+});
+
+/**
+ * KPIs for each segment, largest revenue first with the unassigned column
+ * last. Segments with no activity in the period are dropped.
+ */
+export const analyzeSegments = (
+  dimension: SegmentDimension,
+  period: { start: string; end: string },
+  statements: SegmentStatement[],
+  total: ProfitLossStatement
+): SegmentedProfitLoss => {
+  const segments: SegmentProfitLoss[] = statements
+    .filter(({ profitLoss }) =>
+      profitLoss.revenue.total !== 0 ||
+      profitLoss.costOfGoodsSold.total !== 0 ||
+      profitLoss.operatingExpenses.total !== 0 ||
+      profitLoss.netIncome !== 0
+    )
+    .map(statement => ({
+      ...statement,
+      unassigned: UNASSIGNED_PATTERN.test(statement.name.trim()),
+      kpis: calculateSegmentKPIs(statement.profitLoss, total)
+    }))
+    .sort((a, b) => Number(a.unassigned) - Number(b.unassigned) || b.kpis.revenue - a.kpis.revenue);
+
+  return {
+    dimension,
+    period,
+    segments,
+    total,
+    totalKpis: calculateSegmentKPIs(total, total)
+  };
+};
+
+const formatPercent = (value: number | null): string => value === null ? 'n/a' : `${value}%`;
+
+/**
+ * Segment comparison table: one row per segment plus a total row
+ */
+export const buildSegmentComparisonTable = (
+  segmented: SegmentedProfitLoss,
+  format: CurrencyFormat = DEFAULT_CURRENCY_FORMAT
+): { headers: string[]; rows: string[][] } => {
+  const formatAmount = (amount: number) => formatMoney(amount, format, { maximumFractionDigits: 0 });
+  const row = (name: string, kpis: SegmentKPIs) => [
+    name,
+    formatAmount(kpis.revenue),
+    formatPercent(kpis.revenueShare),
+    formatAmount(kpis.grossProfit),
+    formatPercent(kpis.grossMarginPercent),
+    formatAmount(kpis.operatingIncome),
+    formatPercent(kpis.operatingMarginPercent),
+    formatAmount(kpis.netIncome),
+    formatPercent(kpis.netMarginPercent)
+  ];
+
+  return {
+    headers: [
+      SEGMENT_DIMENSION_LABELS[segmented.dimension],
+      'Revenue',
+      '% of Revenue',
+      'Gross Profit',
+      'Gross Margin',
+      'Operating Income',
+      'Operating Margin',
+      'Net Income',
+      'Net Margin'
+    ],
+    rows: [
+      ...segmented.segments.map(segment => row(segment.name, segment.kpis)),
+      row('Total', segmented.totalKpis)
+    ]
+  };
+};
+
+/**
+ * The comparison table as a markdown section, for reports rendered from
+ * markdown
+ */
+export const segmentComparisonMarkdown = (
+  segmented: SegmentedProfitLoss,
+  format: CurrencyFormat = DEFAULT_CURRENCY_FORMAT
+): string => {
+  const { headers, rows } = buildSegmentComparisonTable(segmented, format);
+  const line = (cells: string[]) => `| ${cells.map(cell => cell.replace(/\|/g, '\\|')).join(' | ')} |`;
+  return [
+    `## Segment Comparison by ${SEGMENT_DIMENSION_LABELS[segmented.dimension]}`,
+    '',
+    `${segmented.period.start} to ${segmented.period.end}. Computed from the QuickBooks Profit and Loss by ${SEGMENT_DIMENSION_LABELS[segmented.dimension]}.`,
+    '',
+    line(headers),
+    line(headers.map((_, i) => i === 0 ? '---' : '---:')),
+    ...rows.map(line)
+  ].join('\n');
+};
@@ -0,0 +1,163 @@
+import { describe, expect, it } from 'vitest';
+import { describeBlockingIssues, StatementValidationInput, validateStatements } from './statementValidation';
+import { AgingReport, BalanceSheetStatement, CashFlowStatement, ProfitLossStatement } from '../types/financial.types';
+
+const profitLoss = (netIncome: number): ProfitLossStatement => ({
+  revenue: { total: 10000, breakdown: [{ category: 'Sales', amount: 10000, percentage: 100 }] },
+  costOfGoodsSold: { total: 0, breakdown: [] },
+  grossProfit: 10000,
+  operatingExpenses: { total: 10000 - netIncome, breakdown: [{ category: 'Rent', amount: 10000 - netIncome, percentage: 100 - netIncome / 100 }] },
+  operatingIncome: netIncome,
+  otherIncomeExpenses: { total: 0, breakdown: [] },
+  incomeBeforeTax: netIncome,
+  taxExpense: 0,
+  netIncome
+});
+
+/** Cash and receivables against payables, 1,000 of common stock and retained earnings */
+const balanceSheet = (
+  { cash, receivables, payables, retainedEarnings }: { cash: number; receivables: number; payables: number; retainedEarnings: number }
+): BalanceSheetStatement => ({
+  assets: {
+    current: { total: cash + receivables, cash, accountsReceivable: receivables, inventory: 0, otherCurrentAssets: 0 },
+    nonCurrent: { total: 0, propertyPlantEquipment: 0, intangibleAssets: 0, otherNonCurrentAssets: 0 },
+    totalAssets: cash + receivables
+  },
+  liabilities: {
+    current: { total: payables, accountsPayable: payables, shortTermDebt: 0, otherCurrentLiabilities: 0 },
+    nonCurrent: { total: 0, longTermDebt: 0, otherNonCurrentLiabilities: 0 },
+    totalLiabilities: payables
+  },
+  equity: { total: 1000 + retainedEarnings, commonStock: 1000, retainedEarnings, otherEquity: 0 }
+});
+
+const cashFlow = (netIncome: number, endingCash: number, balanceSheetCash = endingCash): CashFlowStatement => ({
+  operatingActivities: {
+    netIncome,
+    adjustments: [],
+    workingCapitalChanges: { accountsReceivable: 0, inventory: 0, accountsPayable: 0, other: 0 },
+    netCashFromOperations: netIncome
+  },
+  investingActivities: { capitalExpenditures: 0, acquisitions: 0, assetSales: 0, otherInvesting: 0, netCashFromInvesting: 0 },
+  financingActivities: {
+    debtProceeds: 0,
+    debtRepayments: 0,
+    equityIssuance: 0,
+    dividendsPaid: 0,
+    otherFinancing: 0,
+    netCashFromFinancing: 0
+  },
+  netChangeInCash: netIncome,
+  beginningCash: endingCash - netIncome,
+  endingCash,
+  reconciliation: {
+    source: 'qbo_report',
+    beginningCash: endingCash - netIncome,
+    netChangeInCash: netIncome,
+    endingCash,
+    balanceSheetCash,
+    difference: balanceSheetCash - endingCash,
+    reconciled: balanceSheetCash === endingCash
+  }
+});
+
+const aging = (totalOutstanding: number): AgingReport => ({
+  totalOutstanding,
+  current: totalOutstanding,
+  days1to30: 0,
+  days31to60: 0,
+  days61to90: 0,
+  over90Days: 0,
+  weightedDaysOutstanding: 0,
+  buckets: [],
+  details: []
+});
+
+// Cash 9,000 + receivables 3,000 = payables 2,000 + common stock 1,000 + retained earnings 9,000
+const input = (overrides: Partial<StatementValidationInput> = {}): StatementValidationInput => ({
+  profitLoss: profitLoss(4000),
+  balanceSheet: balanceSheet({ cash: 9000, receivables: 3000, payables: 2000, retainedEarnings: 9000 }),
+  cashFlow: cashFlow(4000, 9000),
+  openingBalanceSheet: balanceSheet({ cash: 5000, receivables: 3000, payables: 2000, retainedEarnings: 5000 }),
+  accountsReceivable: aging(3000),
+  accountsPayable: aging(2000),
+  ...overrides
+});
+
+const checksOf = (report: ReturnType<typeof validateStatements>) =>
+  report.issues.map(issue => [issue.check, issue.severity]);
+
+describe('validateStatements', () => {
+  it('passes statements that tie out', () => {
+    expect(validateStatements(input())).toEqual({ issues: [], blocking: false, dataQuality: 'high' });
+  });
+
+  it('blocks generation when a required statement is missing', () => {
+    const report = validateStatements(input({ balanceSheet: undefined }));
+
+    expect(checksOf(report)).toEqual([['missing_statement', 'error']]);
+    expect(report).toMatchObject({ blocking: true, dataQuality: 'low' });
+    expect(describeBlockingIssues(report)).toBe('Balance sheet is missing');
+  });
+
+  it('blocks generation when the balance sheet does not balance', () => {
+    const unbalanced = balanceSheet({ cash: 9000, receivables: 3000, payables: 2000, retainedEarnings: 9000 });
+    unbalanced.assets.totalAssets = 12500;
+    const report = validateStatements(input({ balanceSheet: unbalanced }));
+
+    expect(report.issues[0]).toMatchObject({
+      check: 'balance_sheet_balances',
+      severity: 'error',
+      expected: 12500,
+      actual: 12000,
+      difference: -500
+    });
+    expect(report.blocking).toBe(true);
+  });
+
+  it('ignores differences within rounding', () => {
+    const rounded = balanceSheet({ cash: 9000, receivables: 3000, payables: 2000, retainedEarnings: 9000 });
+    rounded.assets.totalAssets = 12000.75;
+
+    expect(validateStatements(input({ balanceSheet: rounded })).issues).toEqual([]);
+  });
+
+  it('blocks an accrual report whose cash flow net income differs from the P&L, but only warns on a cash basis', () => {
+    const mismatched = input({ cashFlow: cashFlow(3500, 9000) });
+
+    expect(validateStatements(mismatched).blocking).toBe(true);
+    expect(checksOf(validateStatements({ ...mismatched, accountingMethod: 'Cash' }))).toContainEqual(['net_income_cash_flow', 'warning']);
+    expect(validateStatements({ ...mismatched, accountingMethod: 'Cash' }).blocking).toBe(false);
+  });
+
+  it('warns without blocking when supporting figures do not tie', () => {
+    const report = validateStatements(input({
+      cashFlow: cashFlow(4000, 8800, 9000),
+      openingBalanceSheet: balanceSheet({ cash: 5000, receivables: 3000, payables: 2000, retainedEarnings: 4000 }),
+      accountsReceivable: aging(3500),
+      accountsPayable: aging(1500)
+    }));
+
+    expect(checksOf(report)).toEqual([
+      ['cash_ties', 'warning'],
+      ['retained_earnings_rollforward', 'warning'],
+      ['ar_aging_ties', 'warning'],
+      ['ap_aging_ties', 'warning']
+    ]);
+    expect(report).toMatchObject({ blocking: false, dataQuality: 'medium' });
+    expect(describeBlockingIssues(report)).toBe('');
+  });
+
+  it('warns when the cash flow statement is missing', () => {
+    const report = validateStatements(input({ cashFlow: undefined }));
+
+    expect(checksOf(report)).toEqual([['missing_statement', 'warning']]);
+    expect(report.blocking).toBe(false);
+  });
+
+  it('skips the aging tie-outs on a cash basis', () => {
+    const report = validateStatements(input({ accountingMethod: 'Cash', accountsReceivable: aging(3500) }));
+
+    expect(report.issues).toEqual([]);
+  });
+});
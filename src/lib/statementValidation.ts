@@ -0,0 +1,270 @@
+/**
+ * Statement integrity checks
+ *
+ * Tie-outs run on the normalized statements before they are sent for
+ * analysis. Errors mean a statement is missing or the statements contradict
+ * each other, and the report should not be generated; warnings are passed on
+ * to the analysis and lower the data quality rating.
+ */
+
+import {
+  AccountingMethod,
+  AgingReport,
+  BalanceSheetStatement,
+  CashFlowStatement,
+  ConsolidationSchedule,
+  DataQuality,
+  DataValidationReport,
+  FinancialDataForLLM,
+  ProfitLossStatement,
+  TrialBalanceSummary,
+  ValidationIssue
+} from '../types/financial.types';
+import { DAY_MS, round } from './utils';
+
+export interface StatementValidationInput {
+  accountingMethod?: AccountingMethod;
+  profitLoss?: ProfitLossStatement;
+  balanceSheet?: BalanceSheetStatement;
+  cashFlow?: CashFlowStatement;
+  /** Balance sheet at the day before the period starts */
+  openingBalanceSheet?: BalanceSheetStatement;
+  accountsReceivable?: AgingReport;
+  accountsPayable?: AgingReport;
+  /** Set when the statements were built from the trial balance */
+  trialBalance?: TrialBalanceSummary;
+  /** Set for consolidated statements */
+  consolidation?: ConsolidationSchedule;
+}
+
+/** Differences up to this amount are rounding across report lines */
+const TIE_OUT_TOLERANCE = 1;
+
+/**
+ * Compare two figures, returning an issue when they differ by more than the
+ * tolerance
+ */
+const tieOut = (
+  check: ValidationIssue['check'],
+  severity: ValidationIssue['severity'],
+  expected: number,
+  actual: number,
+  message: string
+): ValidationIssue | undefined => {
+  const difference = round(actual - expected);
+  if (Math.abs(difference) <= TIE_OUT_TOLERANCE) return undefined;
+  return {
+    check,
+    severity,
+    message: `${message} (expected ${round(expected)}, got ${round(actual)}, difference ${difference})`,
+    expected: round(expected),
+    actual: round(actual),
+    difference
+  };
+};
+
+const qualityFor = (issues: ValidationIssue[]): DataQuality => {
+  if (issues.some(issue => issue.severity === 'error')) return 'low';
+  return issues.length ? 'medium' : 'high';
+};
+
+/** Unmapped accounts named in a warning before the rest are counted */
+const MAX_LISTED_ACCOUNTS = 5;
+
+/**
+ * The trial balance must balance, every account with a balance must land on
+ * a statement line, and the statements built from it should agree with
+ * QBO's own statements
+ */
+const validateTrialBalance = (
+  trialBalance: TrialBalanceSummary,
+  profitLoss?: ProfitLossStatement,
+  balanceSheet?: BalanceSheetStatement
+): Array<ValidationIssue | undefined> => {
+  const issues: Array<ValidationIssue | undefined> = [
+    tieOut(
+      'trial_balance_balances',
+      'error',
+      trialBalance.totalDebits,
+      trialBalance.totalCredits,
+      `Trial balance credits do not equal debits as of ${trialBalance.asOf}`
+    )
+  ];
+
+  const unclassified = trialBalance.unclassified.filter(line => Math.abs(line.balance) > TIE_OUT_TOLERANCE);
+  if (unclassified.length) {
+    const names = unclassified.slice(0, MAX_LISTED_ACCOUNTS).map(line => line.accountName);
+    const more = unclassified.length - names.length;
+    issues.push({
+      check: 'trial_balance_unclassified',
+      severity: 'warning',
+      message: `Trial balance accounts left off the statements because their type is unknown: ${names.join(', ')}${more ? ` and ${more} more` : ''}`,
+      actual: round(unclassified.reduce((sum, line) => sum + line.balance, 0))
+    });
+  }
+
+  if (profitLoss) {
+    issues.push(tieOut(
+      'trial_balance_ties',
+      'warning',
+      trialBalance.reported.netIncome,
+      profitLoss.netIncome,
+      'Net income built from the trial balance does not match the QBO profit and loss'
+    ));
+  }
+  if (balanceSheet) {
+    issues.push(tieOut(
+      'trial_balance_ties',
+      'warning',
+      trialBalance.reported.totalAssets,
+      balanceSheet.assets.totalAssets,
+      'Total assets built from the trial balance do not match the QBO balance sheet'
+    ));
+  }
+
+  return issues;
+};
+
+/**
+ * Run every tie-out the available statements allow
+ */
+export const validateStatements = (input: StatementValidationInput): DataValidationReport => {
+  const { profitLoss, balanceSheet, cashFlow, openingBalanceSheet } = input;
+  const isCashBasis = input.accountingMethod === 'Cash';
+  const issues: Array<ValidationIssue | undefined> = [];
+
+  if (!profitLoss) {
+    issues.push({ check: 'missing_statement', severity: 'error', message: 'Profit and loss statement is missing' });
+  }
+  if (!balanceSheet) {
+    issues.push({ check: 'missing_statement', severity: 'error', message: 'Balance sheet is missing' });
+  }
+  if (!cashFlow) {
+    issues.push({
+      check: 'missing_statement',
+      severity: 'warning',
+      message: 'Cash flow statement is missing or incomplete; net income was not tied to cash flow'
+    });
+  }
+
+  if (balanceSheet) {
+    issues.push(tieOut(
+      'balance_sheet_balances',
+      'error',
+      balanceSheet.assets.totalAssets,
+      balanceSheet.liabilities.totalLiabilities + balanceSheet.equity.total,
+      'Liabilities plus equity do not equal total assets'
+    ));
+  }
+
+  // QBO prepares the cash flow statement on an accrual basis, so a cash basis
+  // P&L is expected to differ from its net income line
+  if (profitLoss && cashFlow) {
+    issues.push(tieOut(
+      'net_income_cash_flow',
+      isCashBasis ? 'warning' : 'error',
+      profitLoss.netIncome,
+      cashFlow.operatingActivities.netIncome,
+      'Cash flow net income does not match the profit and loss statement'
+    ));
+  }
+
+  if (cashFlow?.reconciliation && !cashFlow.reconciliation.reconciled) {
+    issues.push(tieOut(
+      'cash_ties',
+      'warning',
+      cashFlow.reconciliation.balanceSheetCash,
+      cashFlow.reconciliation.endingCash,
+      'Cash flow ending cash does not match balance sheet cash'
+    ));
+  }
+
+  // The equity net income line closes into retained earnings at year end, so
+  // together they move by net income less distributions booked to them
+  if (profitLoss && balanceSheet && openingBalanceSheet) {
+    issues.push(tieOut(
+      'retained_earnings_rollforward',
+      'warning',
+      profitLoss.netIncome,
+      balanceSheet.equity.retainedEarnings - openingBalanceSheet.equity.retainedEarnings,
+      'Change in retained earnings does not equal net income; check for distributions or prior-period adjustments'
+    ));
+  }
+
+  // Cash basis balance sheets carry no receivables or payables
+  if (balanceSheet && !isCashBasis) {
+    if (input.accountsReceivable) {
+      issues.push(tieOut(
+        'ar_aging_ties',
+        'warning',
+        balanceSheet.assets.current.accountsReceivable,
+        input.accountsReceivable.totalOutstanding,
+        'AR aging total does not match balance sheet accounts receivable'
+      ));
+    }
+    if (input.accountsPayable) {
+      issues.push(tieOut(
+        'ap_aging_ties',
+        'warning',
+        balanceSheet.liabilities.current.accountsPayable,
+        input.accountsPayable.totalOutstanding,
+        'AP aging total does not match balance sheet accounts payable'
+      ));
+    }
+  }
+
+  if (input.trialBalance) {
+    issues.push(...validateTrialBalance(input.trialBalance, profitLoss, balanceSheet));
+  }
+
+  // One-sided eliminations leave the consolidated balance sheet out of balance
+  if (input.consolidation) {
+    issues.push(tieOut(
+      'consolidation_eliminations',
+      'error',
+      0,
+      input.consolidation.unmatchedEliminations,
+      'Assets eliminated on consolidation do not equal the liabilities, equity and profit eliminated'
+    ));
+  }
+
+  const found = issues.filter((issue): issue is ValidationIssue => Boolean(issue));
+  return {
+    issues: found,
+    blocking: found.some(issue => issue.severity === 'error'),
+    dataQuality: qualityFor(found)
+  };
+};
+
+/**
+ * Validate the transformed LLM input. The previous balance sheet is used for
+ * the retained earnings roll-forward only when it is the opening balance sheet.
+ */
+export const validateFinancialData = (data: FinancialDataForLLM): DataValidationReport => {
+  const { profitLoss, balanceSheet, cashFlow } = data.financialStatements;
+  const previousEnd = data.metadata.previousPeriod?.end;
+  const isOpening = Boolean(previousEnd) &&
+    Date.parse(data.metadata.reportPeriod.start) - Date.parse(previousEnd!) === DAY_MS;
+
+  return validateStatements({
+    accountingMethod: data.metadata.accountingMethod,
+    profitLoss: profitLoss.current,
+    balanceSheet: balanceSheet.current,
+    // Statements without a reconciliation came from an incomplete QBO report
+    cashFlow: cashFlow.current.reconciliation ? cashFlow.current : undefined,
+    openingBalanceSheet: isOpening ? balanceSheet.previous : undefined,
+    accountsReceivable: data.supplementaryReports.accountsReceivable,
+    accountsPayable: data.supplementaryReports.accountsPayable,
+    trialBalance: data.trialBalance,
+    consolidation: data.consolidation
+  });
+};
+
+/**
+ * One line per error, for messages shown when generation is stopped
+ */
+export const describeBlockingIssues = (report: DataValidationReport): string =>
+  report.issues
+    .filter(issue => issue.severity === 'error')
+    .map(issue => issue.message)
+    .join('; ');
@@ -7,6 +7,17 @@
 
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { useAuth, useUser } from '@clerk/clerk-react';
+import type {
+  AccountMapping,
+  CompanyProfile,
+  ConsolidationGroup,
+  EliminationEntry,
+  IntercompanyAccount,
+  Scenario,
+  ScenarioDrivers,
+  StatementLine
+} from '../types/financial.types';
+import { isCompanySize, isIndustry } from './companyProfile';
 
 // =====================================================
 // TYPES & INTERFACES
@@ -61,16 +72,7 @@ export function createSupabaseClient(
   getToken: () => Promise<string | null>
 ): SupabaseClient {
   return createClient(supabaseUrl, supabaseAnonKey, {
-    global: {
-      headers: async () => {
-        const token = await getToken();
-        return token ? { Authorization: `Bearer ${token}` } : {};
-      },
-    },
-    auth: {
-      persistSession: false,
-      autoRefreshToken: false,
-    },
+    accessToken: getToken,
   });
 }
 
@@ -80,8 +82,13 @@ export function createSupabaseClient(
 
 // Singleton instances to avoid multiple client warnings and share caches
 let supabaseClientInstance: SupabaseClient | null = null;
+let authenticatedClientInstance: SupabaseClient | null = null;
 let qboServicesInstance: SupabaseQBOServices | null = null;
 
+// The signed-in session's token getter, updated on every render so the
+// singleton client always asks the current session
+let getClerkToken: () => Promise<string | null> = async () => null;
+
 export function useSupabaseWithClerk() {
   const { getToken, isLoaded, isSignedIn, userId } = useAuth();
   
@@ -98,8 +105,16 @@ export function useSupabaseWithClerk() {
     supabaseClientInstance = createClient(supabaseUrl, supabaseAnonKey);
   }
   
+  // Client sending the Clerk JWT, for RPC functions that take the caller
+  // from auth.clerk_user_id()
+  getClerkToken = () => getToken();
+  if (!authenticatedClientInstance) {
+    authenticatedClientInstance = createSupabaseClient(supabaseUrl, supabaseAnonKey, () => getClerkToken());
+  }
+  
   return {
     client: supabaseClientInstance,
+    authenticatedClient: authenticatedClientInstance,
     isLoaded,
     isSignedIn,
     userId,
@@ -364,6 +379,299 @@ export class AuditLogService {
   }
 }
 
+// =====================================================
+// ACCOUNT MAPPING SERVICE
+// =====================================================
+
+interface AccountMappingRow {
+  account_id: string;
+  statement_line: StatementLine;
+  note?: string | null;
+  updated_by?: string | null;
+  updated_at?: string | null;
+}
+
+export class AccountMappingService {
+  // Requires a client sending the Clerk JWT
+  constructor(private client: SupabaseClient) {}
+  
+  /**
+   * Get the saved account mappings for a realm
+   */
+  async getMappings(realmId: string): Promise<AccountMapping[]> {
+    const { data, error } = await this.client.rpc('get_account_mappings', {
+      p_realm_id: realmId,
+    });
+    
+    if (error) {
+      throw new Error(`Failed to get account mappings: ${error.message}`);
+    }
+    
+    const response = data as SupabaseResponse<AccountMappingRow[]>;
+    return response.success
+      ? (response.data || []).map(row => ({
+          accountId: row.account_id,
+          statementLine: row.statement_line,
+          note: row.note || undefined,
+          updatedBy: row.updated_by || undefined,
+          updatedAt: row.updated_at || undefined,
+        }))
+      : [];
+  }
+  
+  /**
+   * Create or replace the mapping for one account
+   */
+  async saveMapping(realmId: string, mapping: AccountMapping): Promise<boolean> {
+    const { data, error } = await this.client.rpc('save_account_mapping', {
+      p_realm_id: realmId,
+      p_account_id: mapping.accountId,
+      p_statement_line: mapping.statementLine,
+      p_note: mapping.note || null,
+    });
+    
+    if (error) {
+      throw new Error(`Failed to save account mapping: ${error.message}`);
+    }
+    
+    return (data as SupabaseResponse).success;
+  }
+  
+  /**
+   * Remove an account's mapping so it falls back to its QBO account type
+   */
+  async deleteMapping(realmId: string, accountId: string): Promise<boolean> {
+    const { data, error } = await this.client.rpc('delete_account_mapping', {
+      p_realm_id: realmId,
+      p_account_id: accountId,
+    });
+    
+    if (error) {
+      throw new Error(`Failed to delete account mapping: ${error.message}`);
+    }
+    
+    return (data as SupabaseResponse).success;
+  }
+}
+
+// =====================================================
+// COMPANY PROFILE SERVICE
+// =====================================================
+
+interface CompanyProfileRow {
+  industry?: string | null;
+  size?: string | null;
+  confirmed_by?: string | null;
+  confirmed_at?: string | null;
+}
+
+export class CompanyProfileService {
+  constructor(private client: SupabaseClient) {}
+  
+  /**
+   * Get the industry and size confirmed for a realm, or null before the CPA
+   * has saved a profile
+   */
+  async getProfile(realmId: string): Promise<CompanyProfile | null> {
+    const { data, error } = await this.client.rpc('get_company_profile', {
+      p_realm_id: realmId,
+    });
+    
+    if (error) {
+      throw new Error(`Failed to get company profile: ${error.message}`);
+    }
+    
+    const response = data as SupabaseResponse<CompanyProfileRow | null>;
+    const row = response.success ? response.data : null;
+    return row
+      ? {
+          industry: isIndustry(row.industry) ? row.industry : undefined,
+          size: isCompanySize(row.size) ? row.size : undefined,
+          confirmedBy: row.confirmed_by || undefined,
+          confirmedAt: row.confirmed_at || undefined,
+        }
+      : null;
+  }
+  
+  /**
+   * Confirm or override the industry and size for a realm
+   */
+  async saveProfile(
+    realmId: string,
+    companyName: string,
+    profile: Pick<CompanyProfile, 'industry' | 'size'>
+  ): Promise<boolean> {
+    const { data, error } = await this.client.rpc('save_company_profile', {
+      p_realm_id: realmId,
+      p_company_name: companyName,
+      p_industry: profile.industry || null,
+      p_size: profile.size || null,
+    });
+    
+    if (error) {
+      throw new Error(`Failed to save company profile: ${error.message}`);
+    }
+    
+    return (data as SupabaseResponse).success;
+  }
+}
+
+// =====================================================
+// CONSOLIDATION GROUP SERVICE
+// =====================================================
+
+interface ConsolidationGroupRow {
+  id: string;
+  name: string;
+  realm_ids: string[];
+  intercompany_accounts: IntercompanyAccount[] | null;
+  elimination_entries: EliminationEntry[] | null;
+  updated_at?: string | null;
+}
+
+export class ConsolidationGroupService {
+  constructor(private client: SupabaseClient) {}
+  
+  /**
+   * Get the user's consolidation groups
+   */
+  async getGroups(): Promise<ConsolidationGroup[]> {
+    const { data, error } = await this.client.rpc('get_consolidation_groups');
+    
+    if (error) {
+      throw new Error(`Failed to get consolidation groups: ${error.message}`);
+    }
+    
+    const response = data as SupabaseResponse<ConsolidationGroupRow[]>;
+    return response.success
+      ? (response.data || []).map(row => ({
+          id: row.id,
+          name: row.name,
+          realmIds: row.realm_ids,
+          intercompanyAccounts: row.intercompany_accounts || [],
+          eliminationEntries: row.elimination_entries || [],
+          updatedAt: row.updated_at || undefined,
+        }))
+      : [];
+  }
+  
+  /**
+   * Create a group, or update it when it has an id. Returns the group's id,
+   * or null when the user does not hold every company's connection.
+   */
+  async saveGroup(group: ConsolidationGroup): Promise<string | null> {
+    const { data, error } = await this.client.rpc('save_consolidation_group', {
+      p_name: group.name,
+      p_realm_ids: group.realmIds,
+      p_intercompany_accounts: group.intercompanyAccounts,
+      p_elimination_entries: group.eliminationEntries,
+      p_id: group.id || null,
+    });
+    
+    if (error) {
+      throw new Error(`Failed to save consolidation group: ${error.message}`);
+    }
+    
+    const response = data as SupabaseResponse & { id?: string };
+    return response.success ? response.id || null : null;
+  }
+  
+  /**
+   * Remove one of the user's groups
+   */
+  async deleteGroup(groupId: string): Promise<boolean> {
+    const { data, error } = await this.client.rpc('delete_consolidation_group', {
+      p_id: groupId,
+    });
+    
+    if (error) {
+      throw new Error(`Failed to delete consolidation group: ${error.message}`);
+    }
+    
+    return (data as SupabaseResponse).success;
+  }
+}
+
+// =====================================================
+// SCENARIO SERVICE
+// =====================================================
+
+interface ScenarioRow {
+  id: string;
+  name: string;
+  horizon_months: number;
+  drivers: ScenarioDrivers;
+  updated_at?: string | null;
+}
+
+export class ScenarioService {
+  constructor(private client: SupabaseClient) {}
+  
+  /**
+   * Get the user's scenarios for a realm
+   */
+  async getScenarios(realmId: string): Promise<Scenario[]> {
+    const { data, error } = await this.client.rpc('get_scenarios', {
+      p_realm_id: realmId,
+    });
+    
+    if (error) {
+      throw new Error(`Failed to get scenarios: ${error.message}`);
+    }
+    
+    const response = data as SupabaseResponse<ScenarioRow[]>;
+    return response.success
+      ? (response.data || []).map(row => ({
+          id: row.id,
+          name: row.name,
+          horizonMonths: row.horizon_months === 24 ? 24 : 12,
+          drivers: {
+            ...row.drivers,
+            operatingExpenses: row.drivers.operatingExpenses || [],
+            debtDraws: row.drivers.debtDraws || [],
+          },
+          updatedAt: row.updated_at || undefined,
+        }))
+      : [];
+  }
+  
+  /**
+   * Create a scenario, or update it when it has an id. Returns the
+   * scenario's id, or null when the user does not hold the realm's connection.
+   */
+  async saveScenario(realmId: string, scenario: Scenario): Promise<string | null> {
+    const { data, error } = await this.client.rpc('save_scenario', {
+      p_realm_id: realmId,
+      p_name: scenario.name,
+      p_horizon_months: scenario.horizonMonths,
+      p_drivers: scenario.drivers,
+      p_id: scenario.id || null,
+    });
+    
+    if (error) {
+      throw new Error(`Failed to save scenario: ${error.message}`);
+    }
+    
+    const response = data as SupabaseResponse & { id?: string };
+    return response.success ? response.id || null : null;
+  }
+  
+  /**
+   * Remove one of the user's scenarios
+   */
+  async deleteScenario(scenarioId: string): Promise<boolean> {
+    const { data, error } = await this.client.rpc('delete_scenario', {
+      p_id: scenarioId,
+    });
+    
+    if (error) {
+      throw new Error(`Failed to delete scenario: ${error.message}`);
+    }
+    
+    return (data as SupabaseResponse).success;
+  }
+}
+
 // =====================================================
 // COMBINED SERVICE FACTORY
 // =====================================================
@@ -371,10 +679,22 @@ export class AuditLogService {
 export class SupabaseQBOServices {
   public tokens: QBOTokenService;
   public audit: AuditLogService;
+  public accountMappings: AccountMappingService;
+  public consolidationGroups: ConsolidationGroupService;
+  public companyProfiles: CompanyProfileService;
+  public scenarios: ScenarioService;
   
-  constructor(client: SupabaseClient) {
+  /**
+   * @param authenticatedClient Sends the Clerk JWT, for the services whose
+   * RPC functions identify the caller from it
+   */
+  constructor(client: SupabaseClient, authenticatedClient: SupabaseClient = client) {
     this.tokens = new QBOTokenService(client);
     this.audit = new AuditLogService(client);
+    this.accountMappings = new AccountMappingService(authenticatedClient);
+    this.consolidationGroups = new ConsolidationGroupService(authenticatedClient);
+    this.companyProfiles = new CompanyProfileService(authenticatedClient);
+    this.scenarios = new ScenarioService(authenticatedClient);
   }
 }
 
@@ -386,7 +706,7 @@ export class SupabaseQBOServices {
  * Hook to use all QBO services with Clerk authentication
  */
 export function useQBOServices() {
-  const { client, isLoaded, isSignedIn, userId } = useSupabaseWithClerk();
+  const { client, authenticatedClient, isLoaded, isSignedIn, userId } = useSupabaseWithClerk();
   const { user } = useUser();
   
   if (!isLoaded) {
@@ -400,6 +720,17 @@ export function useQBOServices() {
       getToken: async () => null,
       refreshToken: async () => false,
       revokeToken: async () => 0,
+      getAccountMappings: async () => [] as AccountMapping[],
+      saveAccountMapping: async () => false,
+      deleteAccountMapping: async () => false,
+      getConsolidationGroups: async () => [] as ConsolidationGroup[],
+      saveConsolidationGroup: async () => null as string | null,
+      deleteConsolidationGroup: async () => false,
+      getCompanyProfile: async () => null as CompanyProfile | null,
+      saveCompanyProfile: async () => false,
+      getScenarios: async () => [] as Scenario[],
+      saveScenario: async () => null as string | null,
+      deleteScenario: async () => false,
     };
   }
   
@@ -414,12 +745,23 @@ export function useQBOServices() {
       getToken: async () => null,
       refreshToken: async () => false,
       revokeToken: async () => 0,
+      getAccountMappings: async () => [] as AccountMapping[],
+      saveAccountMapping: async () => false,
+      deleteAccountMapping: async () => false,
+      getConsolidationGroups: async () => [] as ConsolidationGroup[],
+      saveConsolidationGroup: async () => null as string | null,
+      deleteConsolidationGroup: async () => false,
+      getCompanyProfile: async () => null as CompanyProfile | null,
+      saveCompanyProfile: async () => false,
+      getScenarios: async () => [] as Scenario[],
+      saveScenario: async () => null as string | null,
+      deleteScenario: async () => false,
     };
   }
   
   // Use singleton instance to share cache across all components
   if (!qboServicesInstance) {
-    qboServicesInstance = new SupabaseQBOServices(client);
+    qboServicesInstance = new SupabaseQBOServices(client, authenticatedClient);
   }
   const services = qboServicesInstance;
   
@@ -460,6 +802,54 @@ export function useQBOServices() {
     return services.audit.getAdminChanges(userId, realmId);
   };
   
+  const getAccountMappings = async (realmId: string) => {
+    return services.accountMappings.getMappings(realmId);
+  };
+  
+  const saveAccountMapping = async (realmId: string, mapping: AccountMapping) => {
+    return services.accountMappings.saveMapping(realmId, mapping);
+  };
+  
+  const deleteAccountMapping = async (realmId: string, accountId: string) => {
+    return services.accountMappings.deleteMapping(realmId, accountId);
+  };
+  
+  const getConsolidationGroups = async () => {
+    return services.consolidationGroups.getGroups();
+  };
+  
+  const saveConsolidationGroup = async (group: ConsolidationGroup) => {
+    return services.consolidationGroups.saveGroup(group);
+  };
+  
+  const deleteConsolidationGroup = async (groupId: string) => {
+    return services.consolidationGroups.deleteGroup(groupId);
+  };
+  
+  const getCompanyProfile = async (realmId: string) => {
+    return services.companyProfiles.getProfile(realmId);
+  };
+  
+  const saveCompanyProfile = async (
+    realmId: string,
+    companyName: string,
+    profile: Pick<CompanyProfile, 'industry' | 'size'>
+  ) => {
+    return services.companyProfiles.saveProfile(realmId, companyName, profile);
+  };
+  
+  const getScenarios = async (realmId: string) => {
+    return services.scenarios.getScenarios(realmId);
+  };
+  
+  const saveScenario = async (realmId: string, scenario: Scenario) => {
+    return services.scenarios.saveScenario(realmId, scenario);
+  };
+  
+  const deleteScenario = async (scenarioId: string) => {
+    return services.scenarios.deleteScenario(scenarioId);
+  };
+  
   return {
     services,
     isLoaded: true,
@@ -471,6 +861,17 @@ export function useQBOServices() {
     refreshToken,
     revokeToken,
     getAdminChanges,
+    getAccountMappings,
+    saveAccountMapping,
+    deleteAccountMapping,
+    getConsolidationGroups,
+    saveConsolidationGroup,
+    deleteConsolidationGroup,
+    getCompanyProfile,
+    saveCompanyProfile,
+    getScenarios,
+    saveScenario,
+    deleteScenario,
   };
 }
 
@@ -1,15 +1,14 @@
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
+import { CurrencyFormat } from "../types/financial.types"
+import { DEFAULT_CURRENCY_FORMAT, formatMoney } from "./currency"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
 
-export const formatCurrency = (amount: number) => {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD'
-  }).format(amount)
+export const formatCurrency = (amount: number, format: CurrencyFormat = DEFAULT_CURRENCY_FORMAT) => {
+  return formatMoney(amount, format)
 }
 
 export const formatDate = (date: Date) => {
@@ -26,4 +25,19 @@ export const formatNumber = (num: number) => {
 
 export const formatPercentage = (value: number) => {
   return `${value.toFixed(1)}%`
-}
\ No newline at end of file
+}
+
+/** Milliseconds in a day, for arithmetic on dates parsed as UTC midnight */
+export const DAY_MS = 86400000
+
+export const round = (value: number, places = 2): number => {
+  const factor = 10 ** places
+  return Math.round(value * factor) / factor
+}
+
+/**
+ * Numerator as a percentage of the denominator, null when the denominator
+ * is zero
+ */
+export const percent = (numerator: number, denominator: number): number | null =>
+  denominator === 0 || !Number.isFinite(numerator / denominator) ? null : round((numerator / denominator) * 100)
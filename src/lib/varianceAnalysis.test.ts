@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_MATERIALITY, calculateVariance, compareStatements } from './varianceAnalysis';
+
+describe('calculateVariance', () => {
+  it('rates a change against both materiality thresholds', () => {
+    // Default materiality: 5,000 and 10%
+    expect(calculateVariance(60000, 50000).significance).toBe('high');
+    expect(calculateVariance(206000, 200000)).toMatchObject({ amount: 6000, percentage: 3, significance: 'medium' });
+    expect(calculateVariance(1200, 1000)).toMatchObject({ amount: 200, percentage: 20, significance: 'medium' });
+    expect(calculateVariance(10100, 10000).significance).toBe('low');
+  });
+
+  it('treats a change exactly at a threshold as material', () => {
+    expect(calculateVariance(55000, 50000)).toMatchObject({ amount: 5000, percentage: 10, significance: 'high' });
+  });
+
+  it('applies custom thresholds', () => {
+    const thresholds = { amount: 100, percent: 50 };
+    expect(calculateVariance(1200, 1000, thresholds).significance).toBe('medium');
+    expect(calculateVariance(1600, 1000, thresholds).significance).toBe('high');
+    expect(calculateVariance(1050, 1000, thresholds).significance).toBe('low');
+  });
+
+  it('has no percentage when the previous amount is zero', () => {
+    expect(calculateVariance(3000, 0)).toEqual({ amount: 3000, percentage: null, trend: 'increase', significance: 'medium' });
+    expect(calculateVariance(8000, 0).significance).toBe('high');
+    expect(calculateVariance(0, 0)).toEqual({ amount: 0, percentage: null, trend: 'stable', significance: 'low' });
+  });
+
+  it('measures a sign flip against the magnitude of the previous amount', () => {
+    expect(calculateVariance(500, -1000)).toMatchObject({ amount: 1500, percentage: 150, trend: 'increase' });
+    expect(calculateVariance(-1000, 2000)).toMatchObject({ amount: -3000, percentage: -150, trend: 'decrease' });
+  });
+});
+
+describe('compareStatements', () => {
+  const statement = (sales: number, lines: Array<{ category: string; amount: number; accountId?: string }>) => ({
+    revenue: { total: sales, breakdown: [{ category: 'Sales', amount: sales, accountId: '1' }] },
+    operatingExpenses: { total: lines.reduce((sum, line) => sum + line.amount, 0), breakdown: lines }
+  });
+
+  const report = compareStatements([
+    {
+      statement: 'profitLoss',
+      current: statement(30000, [{ category: 'Rent', amount: 4000, accountId: '2' }, { category: 'Software', amount: 900, accountId: '4' }]),
+      previous: statement(20000, [{ category: 'Rent', amount: 4000, accountId: '2' }, { category: 'Travel', amount: 1500, accountId: '3' }])
+    },
+    { statement: 'balanceSheet', current: { cash: 1000 } }
+  ], 'MoM');
+
+  it('compares lines found in only one period against zero', () => {
+    const line = (path: string) => report.lines.find(candidate => candidate.line === path);
+    expect(line('operatingExpenses.breakdown/3')).toMatchObject({ label: 'Operating expenses › Travel', current: 0, previous: 1500, amount: -1500 });
+    expect(line('operatingExpenses.breakdown/4')).toMatchObject({ current: 900, previous: 0, percentage: null });
+  });
+
+  it('skips statements without a previous period', () => {
+    expect(report.lines.every(line => line.statement === 'profitLoss')).toBe(true);
+    expect(report).toMatchObject({ comparison: 'MoM', thresholds: DEFAULT_MATERIALITY });
+  });
+
+  it('ranks the largest changed lines, leaving out totals and unchanged lines', () => {
+    expect(report.topMovements.map(line => [line.label, line.amount])).toEqual([
+      ['Revenue › Sales', 10000],
+      ['Operating expenses › Travel', -1500],
+      ['Operating expenses › Software', 900]
+    ]);
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Period-over-period variance engine
+ *
+ * Compares every line of the normalized P&L, balance sheet and cash flow
+ * between two periods, classifies each movement against dollar and percent
+ * materiality thresholds, and ranks the largest movements for the report.
+ */
+
+import {
+  AccountLine,
+  ComparisonPeriod,
+  LineVariance,
+  MaterialityThresholds,
+  PeriodVarianceReport,
+  VarianceAnalysis
+} from '../types/financial.types';
+
+export const DEFAULT_MATERIALITY: MaterialityThresholds = {
+  amount: 5000,
+  percent: 10
+};
+
+/** Number of movements kept in the ranked list */
+const TOP_MOVEMENTS = 10;
+
+/** Changes smaller than this are rounding noise */
+const STABLE_AMOUNT = 0.005;
+
+/** Subtotal and total fields; these are compared but not ranked */
+const TOTAL_FIELDS = new Set([
+  'total',
+  'totalAssets',
+  'totalLiabilities',
+  'grossProfit',
+  'operatingIncome',
+  'incomeBeforeTax',
+  'netIncome',
+  'netCashFromOperations',
+  'netCashFromInvesting',
+  'netCashFromFinancing',
+  'netChangeInCash',
+  'beginningCash',
+  'endingCash'
+]);
+
+/** Derived or bookkeeping fields that are not statement lines */
+const SKIPPED_FIELDS = new Set(['percentage', 'reconciliation']);
+
+type StatementKind = LineVariance['statement'];
+
+interface StatementValue {
+  label: string;
+  value: number;
+  isTotal: boolean;
+}
+
+const humanize = (key: string): string => {
+  const words = key.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const collectLines = (
+  lines: Array<AccountLine | { item: string; amount: number }>,
+  path: string,
+  label: string,
+  out: Map<string, StatementValue>
+): void => {
+  lines.forEach(line => {
+    const name = 'category' in line ? line.category : line.item;
+    const key = ('accountId' in line && line.accountId) || name;
+    const subAccounts = 'subAccounts' in line ? line.subAccounts : undefined;
+    const linePath = `${path}/${key}`;
+    const lineLabel = `${label} › ${name}`;
+    out.set(linePath, { label: lineLabel, value: line.amount, isTotal: Boolean(subAccounts?.length) });
+    if (subAccounts?.length) collectLines(subAccounts, linePath, lineLabel, out);
+  });
+};
+
+/**
+ * Flatten a statement object into path → value, e.g. "assets.current.cash"
+ * or "revenue.breakdown/42" for an account line
+ */
+const collectValues = (
+  node: unknown,
+  path: string,
+  label: string,
+  out: Map<string, StatementValue>
+): void => {
+  if (!node || typeof node !== 'object') return;
+  Object.entries(node as Record<string, unknown>).forEach(([key, child]) => {
+    if (SKIPPED_FIELDS.has(key)) return;
+    const childPath = path ? `${path}.${key}` : key;
+    const childLabel = key === 'breakdown' || key === 'adjustments'
+      ? label
+      : label ? `${label} › ${humanize(key)}` : humanize(key);
+
+    if (typeof child === 'number') {
+      out.set(childPath, { label: childLabel, value: child, isTotal: TOTAL_FIELDS.has(key) });
+    } else if (Array.isArray(child)) {
+      collectLines(child, childPath, childLabel, out);
+    } else {
+      collectValues(child, childPath, childLabel, out);
+    }
+  });
+};
+
+/**
+ * Variance of a single figure with trend and significance
+ */
+export const calculateVariance = (
+  current: number,
+  previous: number,
+  thresholds: MaterialityThresholds = DEFAULT_MATERIALITY
+): VarianceAnalysis => {
+  const amount = current - previous;
+  const percentage = previous === 0 ? null : Math.round((amount / Math.abs(previous)) * 10000) / 100;
+
+  const amountMaterial = Math.abs(amount) >= thresholds.amount;
+  const percentMaterial = percentage === null
+    ? Math.abs(amount) >= STABLE_AMOUNT
+    : Math.abs(percentage) >= thresholds.percent;
+
+  return {
+    amount: Math.round(amount * 100) / 100,
+    percentage,
+    trend: Math.abs(amount) < STABLE_AMOUNT ? 'stable' : amount > 0 ? 'increase' : 'decrease',
+    significance: amountMaterial && percentMaterial
+      ? 'high'
+      : amountMaterial || percentMaterial ? 'medium' : 'low'
+  };
+};
+
+/**
+ * Compare every line of the given statements between two periods. Lines that
+ * exist in only one period are compared against zero.
+ */
+export const compareStatements = (
+  statements: Array<{ statement: StatementKind; current: object; previous?: object }>,
+  comparison: ComparisonPeriod,
+  thresholds: MaterialityThresholds = DEFAULT_MATERIALITY
+): PeriodVarianceReport => {
+  const lines: LineVariance[] = [];
+
+  statements.forEach(({ statement, current, previous }) => {
+    if (!previous) return;
+    const currentValues = new Map<string, StatementValue>();
+    const previousValues = new Map<string, StatementValue>();
+    collectValues(current, '', '', currentValues);
+    collectValues(previous, '', '', previousValues);
+
+    const paths = new Set([...currentValues.keys(), ...previousValues.keys()]);
+    paths.forEach(path => {
+      const currentValue = currentValues.get(path);
+      const previousValue = previousValues.get(path);
+      const info = (currentValue || previousValue)!;
+      lines.push({
+        statement,
+        line: path,
+        label: info.label,
+        current: currentValue?.value ?? 0,
+        previous: previousValue?.value ?? 0,
+        isTotal: info.isTotal,
+        ...calculateVariance(currentValue?.value ?? 0, previousValue?.value ?? 0, thresholds)
+      });
+    });
+  });
+
+  const topMovements = lines
+    .filter(line => !line.isTotal && line.trend !== 'stable')
+    .sort((a, b) => Math.abs(b.amount) - Math.abs(a.amount) || a.label.localeCompare(b.label))
+    .slice(0, TOP_MOVEMENTS);
+
+  return { comparison, thresholds, lines, topMovements };
+};
+
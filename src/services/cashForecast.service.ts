@@ -0,0 +1,73 @@
+import { QBOApiClient, QBOApiResponse } from './quickbooks.service';
+import { QBOError } from '../lib/supabase-clerk';
+import { parseQBOReport, profitLossSchema } from '../lib/qboSchemas';
+import { getPreviousDay, getTrailingMonths } from '../lib/fiscalPeriods';
+import { DEFAULT_CURRENCY_FORMAT } from '../lib/currency';
+import { buildCashForecast, recurringOutflows } from '../lib/cashForecast';
+import { CashForecast } from '../types/financial.types';
+
+/** Months of customer payments the collection lag is measured over */
+const PAYMENT_HISTORY_MONTHS = 6;
+/** Months of invoices looked up for those payments' due dates */
+const INVOICE_HISTORY_MONTHS = 12;
+/** Months of P&L payroll and rent are averaged over */
+const RECURRING_MONTHS = 3;
+
+export class CashForecastService {
+  /**
+   * Build the 13-week forecast from today's bank balances and open invoices
+   * and bills, the collection lag of the last six months' customer payments
+   * and the last three months' payroll and rent
+   */
+  static async buildForecast(
+    client: QBOApiClient,
+    realmId: string,
+    asOf: string = new Date().toISOString().slice(0, 10)
+  ): Promise<CashForecast> {
+    const lastMonthEnd = getPreviousDay(`${asOf.slice(0, 7)}-01`);
+    const [accounts, openInvoices, openBills, payments, paidInvoices, profitLoss, exchangeRates] = await Promise.all([
+      client.getAccounts(realmId),
+      client.getOpenTransactions(realmId, 'Invoice'),
+      client.getOpenTransactions(realmId, 'Bill'),
+      client.getPayments(realmId, getTrailingMonths(lastMonthEnd, PAYMENT_HISTORY_MONTHS).start),
+      client.getInvoices(realmId, getTrailingMonths(lastMonthEnd, INVOICE_HISTORY_MONTHS).start),
+      client.getReport(realmId, 'ProfitAndLoss', {
+        start_date: getTrailingMonths(lastMonthEnd, RECURRING_MONTHS).start,
+        end_date: lastMonthEnd,
+        summarize_column_by: 'Month'
+      }),
+      client.getExchangeRates(realmId, asOf)
+    ]);
+    const required = (name: string, response: QBOApiResponse<unknown>) => {
+      if (!response.success) {
+        throw new QBOError(
+          `Failed to fetch ${name}: ${response.error?.message || 'Unknown error'}`,
+          response.error?.code,
+          response.error?.detail
+        );
+      }
+    };
+    required('accounts', accounts);
+    required('open invoices', openInvoices);
+    required('open bills', openBills);
+
+    // Payment history and the P&L only refine the forecast, so either may be missing
+    const monthly = profitLoss.success && profitLoss.data
+      ? parseQBOReport(profitLossSchema, profitLoss.data, `ProfitAndLoss (${lastMonthEnd})`)
+      : undefined;
+
+    return buildCashForecast({
+      asOfDate: asOf,
+      homeCurrency: monthly?.Header.Currency || DEFAULT_CURRENCY_FORMAT.currency,
+      bankAccounts: (accounts.data || []).filter(account => account.AccountType === 'Bank'),
+      exchangeRates: exchangeRates.data,
+      openInvoices: openInvoices.data || [],
+      openBills: openBills.data || [],
+      payments: payments.data,
+      paidInvoices: paidInvoices.data,
+      recurring: monthly
+        ? recurringOutflows(monthly, accounts.data, RECURRING_MONTHS)
+        : { payroll: 0, rent: 0, months: 0 }
+    });
+  }
+}
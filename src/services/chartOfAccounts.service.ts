@@ -0,0 +1,111 @@
+import { QBOApiClient } from './quickbooks.service';
+import { QBOError } from '../lib/supabase-clerk';
+import { defaultStatementLine } from '../lib/accountClassification';
+import {
+  AccountMapping,
+  ChartOfAccounts,
+  ChartOfAccountsEntry,
+  QBOAccount,
+  StatementLine
+} from '../types/financial.types';
+
+export class ChartOfAccountsService {
+  /**
+   * Pull the full chart of accounts for a realm, inactive accounts included,
+   * so mappings can be set for accounts that still carry history
+   */
+  static async syncChartOfAccounts(client: QBOApiClient, realmId: string): Promise<ChartOfAccounts> {
+    const response = await client.getAccounts(realmId, { includeInactive: true });
+    if (!response.success || !response.data) {
+      throw new QBOError(
+        `Failed to fetch chart of accounts: ${response.error?.message || 'Unknown error'}`,
+        response.error?.code,
+        response.error?.detail
+      );
+    }
+
+    return {
+      realmId,
+      syncedAt: new Date().toISOString(),
+      accounts: this.buildHierarchy(response.data)
+    };
+  }
+
+  /**
+   * Flatten accounts into hierarchy order: each parent followed by its
+   * sub-accounts, siblings sorted by name. Accounts whose parent is missing
+   * from the list are treated as top-level.
+   */
+  static buildHierarchy(accounts: QBOAccount[]): ChartOfAccountsEntry[] {
+    const ids = new Set(accounts.map(account => account.Id));
+    const childrenOf = new Map<string | undefined, QBOAccount[]>();
+    accounts.forEach(account => {
+      const parentId = account.ParentRef?.value && ids.has(account.ParentRef.value)
+        ? account.ParentRef.value
+        : undefined;
+      childrenOf.set(parentId, [...(childrenOf.get(parentId) || []), account]);
+    });
+
+    const entries: ChartOfAccountsEntry[] = [];
+    const visited = new Set<string>();
+    const visit = (parentId: string | undefined, depth: number) => {
+      (childrenOf.get(parentId) || [])
+        .sort((a, b) => a.Name.localeCompare(b.Name))
+        .forEach(account => {
+          // Guard against ParentRef cycles in malformed data
+          if (visited.has(account.Id)) return;
+          visited.add(account.Id);
+          entries.push(this.toEntry(account, parentId, depth));
+          visit(account.Id, depth + 1);
+        });
+    };
+    visit(undefined, 0);
+
+    return entries;
+  }
+
+  /**
+   * Line each account rolls up into once saved mappings are applied.
+   * Sub-accounts without a mapping follow their nearest mapped parent, as
+   * they do when reports are normalized.
+   */
+  static resolveStatementLines(
+    accounts: ChartOfAccountsEntry[],
+    mappings: AccountMapping[]
+  ): Map<string, StatementLine | undefined> {
+    const mapped = new Map(mappings.map(mapping => [mapping.accountId, mapping.statementLine]));
+    const overrides = new Map<string, StatementLine | undefined>();
+    const resolved = new Map<string, StatementLine | undefined>();
+
+    // Parents come first, so a parent's override is known before its children
+    accounts.forEach(account => {
+      const override = mapped.get(account.id)
+        || (account.parentId ? overrides.get(account.parentId) : undefined);
+      overrides.set(account.id, override);
+      resolved.set(account.id, override || account.defaultLine);
+    });
+
+    return resolved;
+  }
+
+  private static toEntry(
+    account: QBOAccount,
+    parentId: string | undefined,
+    depth: number
+  ): ChartOfAccountsEntry {
+    return {
+      id: account.Id,
+      name: account.Name,
+      fullyQualifiedName: account.FullyQualifiedName || account.Name,
+      accountType: account.AccountType,
+      accountSubType: account.AccountSubType,
+      classification: account.Classification,
+      // QBO omits Active for active accounts in some responses
+      active: account.Active !== false,
+      parentId,
+      depth,
+      currentBalance: account.CurrentBalance,
+      defaultLine: defaultStatementLine(account)
+    };
+  }
+}
@@ -0,0 +1,68 @@
+import { QBOApiClient } from './quickbooks.service';
+import { QBOError } from '../lib/supabase-clerk';
+import { parseQBOReport, profitLossSchema } from '../lib/qboSchemas';
+import { getPreviousDay, getTrailingMonths } from '../lib/fiscalPeriods';
+import { DEFAULT_CURRENCY_FORMAT, localeFromCompanyInfo } from '../lib/currency';
+import { inferCompanySize, inferIndustry, trailingTotals } from '../lib/companyProfile';
+import {
+  CompanySizeInference,
+  CurrencyFormat,
+  IndustryInference
+} from '../types/financial.types';
+
+export interface CompanyProfileInference {
+  companyName: string;
+  /** Undefined when neither QBO's settings nor the accounts point to one */
+  industry?: IndustryInference;
+  /** Undefined when the company has no P&L history */
+  size?: CompanySizeInference;
+  currencyFormat: CurrencyFormat;
+}
+
+export class CompanyInferenceService {
+  /**
+   * Infer a company's industry and size band from its QBO industry settings,
+   * chart of accounts and the 12 months of P&L before the current month, for
+   * the CPA to confirm or override
+   */
+  static async inferProfile(
+    client: QBOApiClient,
+    realmId: string,
+    asOf: string = new Date().toISOString().slice(0, 10)
+  ): Promise<CompanyProfileInference> {
+    const end = getPreviousDay(`${asOf.slice(0, 7)}-01`);
+    const [companyInfo, accounts, profitLoss] = await Promise.all([
+      client.getCompanyInfo(realmId),
+      client.getAccounts(realmId, { includeInactive: true }),
+      client.getReport(realmId, 'ProfitAndLoss', {
+        start_date: getTrailingMonths(end, 12).start,
+        end_date: end,
+        summarize_column_by: 'Month'
+      })
+    ]);
+    if (!companyInfo.success || !companyInfo.data) {
+      throw new QBOError(
+        `Failed to fetch company info: ${companyInfo.error?.message || 'Unknown error'}`,
+        companyInfo.error?.code,
+        companyInfo.error?.detail
+      );
+    }
+
+    const currencyFormat: CurrencyFormat = {
+      currency: profitLoss.data?.Header?.Currency || DEFAULT_CURRENCY_FORMAT.currency,
+      locale: localeFromCompanyInfo(companyInfo.data)
+    };
+    // The accounts and P&L only sharpen the inference, so either may be missing
+    const accountList = accounts.success ? accounts.data : undefined;
+    const monthly = profitLoss.success && profitLoss.data
+      ? parseQBOReport(profitLossSchema, profitLoss.data, `ProfitAndLoss (${end})`)
+      : undefined;
+
+    return {
+      companyName: companyInfo.data.CompanyName,
+      industry: inferIndustry(companyInfo.data, accountList),
+      size: monthly && inferCompanySize(trailingTotals(monthly, accountList), currencyFormat),
+      currencyFormat
+    };
+  }
+}
@@ -0,0 +1,605 @@
+import { DataTransformService } from './dataTransform.service';
+import { QBOError } from '../lib/supabase-clerk';
+import { BALANCE_SHEET_LINE_LABELS, PROFIT_LOSS_LINE_LABELS, STATEMENT_LINE_LABELS, isBalanceSheetLine } from '../lib/accountClassification';
+import { accountAmounts, buildReportTree } from '../lib/qboReportTree';
+import { calculateFinancialMetrics, daysInPeriod } from '../lib/financialMetrics';
+import { calculateVariance, compareStatements } from '../lib/varianceAnalysis';
+import { compareToBenchmarks } from '../lib/industryBenchmarks';
+import {
+  AccountLine,
+  AgingReport,
+  BalanceSheetLine,
+  BalanceSheetStatement,
+  CashFlowStatement,
+  ConsolidationGroup,
+  ConsolidationSchedule,
+  ConsolidationScheduleLine,
+  FinancialDataForLLM,
+  ForeignExchangeSummary,
+  IntercompanyAccount,
+  ProfitLossLine,
+  ProfitLossStatement,
+  QBOBalanceSheetData,
+  QBOProfitLossData,
+  StatementLine
+} from '../types/financial.types';
+import { DAY_MS, round } from '../lib/utils';
+
+/**
+ * One group company's transformed data with the balances of its
+ * intercompany accounts, by QBO account Id
+ */
+export interface ConsolidationEntityData {
+  realmId: string;
+  companyName: string;
+  data: FinancialDataForLLM;
+  intercompanyBalances: {
+    current: Record<string, number>;
+    previous?: Record<string, number>;
+  };
+}
+
+type LineAmounts = Partial<Record<StatementLine, number>>;
+
+const BALANCE_SHEET_LINES = Object.keys(BALANCE_SHEET_LINE_LABELS) as BalanceSheetLine[];
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+export class ConsolidationService {
+  /**
+   * Balances of a company's intercompany accounts for the period, read from
+   * its QBO reports: P&L lines from the profit and loss, balance sheet lines
+   * from the balance sheet. Parent accounts include their sub-accounts.
+   */
+  static intercompanyBalances(
+    accounts: IntercompanyAccount[],
+    profitLoss: QBOProfitLossData,
+    balanceSheet: QBOBalanceSheetData
+  ): Record<string, number> {
+    const amounts = (report: QBOProfitLossData | QBOBalanceSheetData) =>
+      accountAmounts(buildReportTree(report.Rows?.Row, report.Columns?.Column));
+    const profitLossAmounts = amounts(profitLoss);
+    const balanceSheetAmounts = amounts(balanceSheet);
+
+    return accounts.reduce((balances, account) => ({
+      ...balances,
+      [account.accountId]: (isBalanceSheetLine(account.statementLine) ? balanceSheetAmounts : profitLossAmounts)
+        .get(account.accountId) || 0
+    }), {} as Record<string, number>);
+  }
+
+  /**
+   * Combine the group companies' data into one FinancialDataForLLM. Each
+   * company's statements are added line by line, then intercompany account
+   * balances and the group's elimination entries are taken out. Profit
+   * eliminated from the P&L is also taken out of retained earnings and added
+   * back in operating cash flow, since eliminations move no cash.
+   *
+   * Customer, product and segment analyses are per company and are not
+   * carried into the consolidation.
+   */
+  static consolidateFinancialData(
+    group: ConsolidationGroup,
+    entities: ConsolidationEntityData[]
+  ): FinancialDataForLLM {
+    if (entities.length === 0) {
+      throw new QBOError(`Consolidation group ${group.name} has no companies`, 'INVALID_GROUP');
+    }
+    const [first] = entities;
+    const currencies = new Set(entities.map(entity => entity.data.metadata.currency));
+    if (currencies.size > 1) {
+      throw new QBOError(
+        `Companies in ${group.name} report in different currencies (${[...currencies].join(', ')}); consolidation needs a single currency`,
+        'CURRENCY_MISMATCH'
+      );
+    }
+    const { reportPeriod, previousPeriod } = first.data.metadata;
+    const mismatched = entities.find(entity =>
+      entity.data.metadata.reportPeriod.start !== reportPeriod.start ||
+      entity.data.metadata.reportPeriod.end !== reportPeriod.end
+    );
+    if (mismatched) {
+      throw new QBOError(`${mismatched.companyName} was fetched for a different period`, 'INVALID_PERIOD');
+    }
+
+    const currentEliminations = this.eliminationAmounts(group, entities, 'current');
+    const current = this.consolidateStatements(
+      entities.map(entity => entity.data.financialStatements.profitLoss.current),
+      entities.map(entity => entity.data.financialStatements.balanceSheet.current),
+      entities.map(entity => entity.data.financialStatements.cashFlow.current),
+      currentEliminations.byLine
+    );
+
+    // Comparatives need every company's prior statements
+    const hasPrevious = entities.every(entity =>
+      entity.data.financialStatements.profitLoss.previous && entity.data.financialStatements.balanceSheet.previous
+    );
+    const previous = hasPrevious
+      ? this.consolidateStatements(
+        entities.map(entity => entity.data.financialStatements.profitLoss.previous!),
+        entities.map(entity => entity.data.financialStatements.balanceSheet.previous!),
+        entities.every(entity => entity.data.financialStatements.cashFlow.previous)
+          ? entities.map(entity => entity.data.financialStatements.cashFlow.previous!)
+          : undefined,
+        this.eliminationAmounts(group, entities, 'previous').byLine
+      )
+      : undefined;
+
+    const variance = first.data.periodVariance;
+    const materiality = variance?.thresholds;
+    const isOpening = Boolean(previousPeriod) &&
+      Date.parse(reportPeriod.start) - Date.parse(previousPeriod!.end) === DAY_MS;
+    const newCustomers = entities.map(entity => entity.data.calculatedMetrics.kpis
+      .find(kpi => kpi.key === 'customerAcquisitionCost')?.inputs.newCustomers);
+    const periodDays = daysInPeriod(reportPeriod.start, reportPeriod.end);
+    const calculatedMetrics = calculateFinancialMetrics({
+      profitLoss: current.profitLoss,
+      balanceSheet: current.balanceSheet,
+      cashFlow: current.cashFlow!,
+      previousProfitLoss: previous?.profitLoss,
+      previousBalanceSheet: isOpening ? previous?.balanceSheet : undefined,
+      periodDays,
+      newCustomers: newCustomers.every(count => typeof count === 'number')
+        ? sum(newCustomers as number[])
+        : undefined
+    });
+
+    return {
+      metadata: {
+        ...first.data.metadata,
+        companyName: group.name,
+        companyId: group.id || group.realmIds.join('+'),
+        reportGeneratedAt: new Date().toISOString(),
+        previousPeriod: previous ? previousPeriod : undefined
+      },
+      financialStatements: {
+        profitLoss: {
+          current: current.profitLoss,
+          previous: previous?.profitLoss,
+          variance: previous ? calculateVariance(current.profitLoss.netIncome, previous.profitLoss.netIncome, materiality) : undefined
+        },
+        balanceSheet: {
+          current: current.balanceSheet,
+          previous: previous?.balanceSheet,
+          variance: previous
+            ? calculateVariance(current.balanceSheet.assets.totalAssets, previous.balanceSheet.assets.totalAssets, materiality)
+            : undefined
+        },
+        cashFlow: {
+          current: current.cashFlow!,
+          previous: previous?.cashFlow,
+          variance: previous?.cashFlow
+            ? calculateVariance(current.cashFlow!.netChangeInCash, previous.cashFlow.netChangeInCash, materiality)
+            : undefined
+        }
+      },
+      periodVariance: variance && previous
+        ? compareStatements([
+          { statement: 'profitLoss', current: current.profitLoss, previous: previous.profitLoss },
+          { statement: 'balanceSheet', current: current.balanceSheet, previous: previous.balanceSheet },
+          { statement: 'cashFlow', current: current.cashFlow!, previous: previous.cashFlow }
+        ], variance.comparison, variance.thresholds)
+        : undefined,
+      supplementaryReports: {
+        accountsReceivable: this.consolidateAging(entities, 'accountsReceivable'),
+        accountsPayable: this.consolidateAging(entities, 'accountsPayable')
+      },
+      calculatedMetrics,
+      trends: {
+        monthlyRevenue: this.sumSeries(entities.map(entity => entity.data.trends.monthlyRevenue)),
+        monthlyExpenses: this.sumSeries(entities.map(entity => entity.data.trends.monthlyExpenses)),
+        monthlyProfit: this.sumSeries(entities.map(entity => entity.data.trends.monthlyProfit)),
+        monthlyCashFlow: this.sumSeries(entities.map(entity => entity.data.trends.monthlyCashFlow))
+      },
+      consolidation: this.buildSchedule(group, entities, current, currentEliminations.applied),
+      foreignExchange: this.consolidateForeignExchange(entities),
+      // The group is benchmarked in the first company's industry at its combined revenue
+      benchmarks: compareToBenchmarks(calculatedMetrics, {
+        industry: first.data.metadata.industry,
+        naicsCode: first.data.metadata.naicsCode,
+        annualRevenue: current.profitLoss.revenue.total * 365 / periodDays,
+        currency: first.data.metadata.currency
+      }),
+      analysisContext: {
+        ...first.data.analysisContext,
+        specialConsiderations: [
+          ...(first.data.analysisContext.specialConsiderations || []),
+          `Consolidated statements of ${entities.map(entity => entity.companyName).join(', ')} after intercompany eliminations`
+        ]
+      }
+    };
+  }
+
+  /**
+   * Amounts to remove from each statement line: every intercompany account's
+   * balance, and for the current period the manual elimination entries
+   */
+  private static eliminationAmounts(
+    group: ConsolidationGroup,
+    entities: ConsolidationEntityData[],
+    period: 'current' | 'previous'
+  ): { byLine: LineAmounts; applied: ConsolidationSchedule['eliminations'] } {
+    const namesByRealm = new Map(entities.map(entity => [entity.realmId, entity.companyName]));
+    const balancesByRealm = new Map(entities.map(entity => [entity.realmId, entity.intercompanyBalances[period] || {}]));
+
+    const applied: ConsolidationSchedule['eliminations'] = [
+      ...group.intercompanyAccounts
+        .filter(account => balancesByRealm.has(account.realmId))
+        .map(account => ({
+          source: 'intercompanyAccount' as const,
+          description: `${namesByRealm.get(account.realmId)}: ${account.accountName}`,
+          realmId: account.realmId,
+          statementLine: account.statementLine,
+          amount: round(balancesByRealm.get(account.realmId)![account.accountId] || 0)
+        })),
+      ...(period === 'current'
+        ? group.eliminationEntries.flatMap(entry => entry.lines.map(line => ({
+          source: 'entry' as const,
+          description: entry.description,
+          statementLine: line.statementLine,
+          amount: line.amount
+        })))
+        : [])
+    ].filter(elimination => elimination.amount !== 0);
+
+    const byLine = applied.reduce<LineAmounts>((lines, elimination) => ({
+      ...lines,
+      [elimination.statementLine]: (lines[elimination.statementLine] || 0) + elimination.amount
+    }), {});
+
+    return { byLine, applied };
+  }
+
+  /**
+   * Sum the companies' statements and apply the eliminations
+   */
+  private static consolidateStatements(
+    profitLosses: ProfitLossStatement[],
+    balanceSheets: BalanceSheetStatement[],
+    cashFlows: CashFlowStatement[] | undefined,
+    eliminations: LineAmounts
+  ) {
+    const combined = this.sumProfitLoss(profitLosses);
+    const profitLoss = this.eliminateProfitLoss(combined, eliminations);
+    const eliminatedProfit = combined.netIncome - profitLoss.netIncome;
+
+    const lines = BALANCE_SHEET_LINES.reduce((acc, line) => ({
+      ...acc,
+      [line]: sum(balanceSheets.map(bs => this.balanceSheetLine(bs, line))) - (eliminations[line] || 0)
+    }), {} as Record<BalanceSheetLine, number>);
+    lines.retainedEarnings -= eliminatedProfit;
+    const balanceSheet = DataTransformService.buildBalanceSheet(lines);
+
+    const cashFlow = cashFlows && this.sumCashFlow(cashFlows, balanceSheet, eliminatedProfit);
+
+    return { profitLoss, balanceSheet, cashFlow, eliminatedProfit };
+  }
+
+  /**
+   * Line-by-line total of the companies' P&Ls. Accounts with the same name
+   * are combined; account Ids are dropped because they are per company.
+   */
+  private static sumProfitLoss(statements: ProfitLossStatement[]): ProfitLossStatement {
+    const revenueTotal = sum(statements.map(pl => pl.revenue.total));
+    const withPercentage = (lines: AccountLine[]) => lines.map(line => ({
+      ...line,
+      percentage: revenueTotal !== 0 ? (line.amount / revenueTotal) * 100 : 0
+    }));
+
+    return {
+      revenue: {
+        total: revenueTotal,
+        breakdown: withPercentage(this.mergeAccountLines(statements.map(pl => pl.revenue.breakdown)))
+      },
+      costOfGoodsSold: {
+        total: sum(statements.map(pl => pl.costOfGoodsSold.total)),
+        breakdown: this.mergeAccountLines(statements.map(pl => pl.costOfGoodsSold.breakdown))
+      },
+      grossProfit: sum(statements.map(pl => pl.grossProfit)),
+      operatingExpenses: {
+        total: sum(statements.map(pl => pl.operatingExpenses.total)),
+        breakdown: withPercentage(this.mergeAccountLines(statements.map(pl => pl.operatingExpenses.breakdown)))
+      },
+      operatingIncome: sum(statements.map(pl => pl.operatingIncome)),
+      otherIncomeExpenses: {
+        total: sum(statements.map(pl => pl.otherIncomeExpenses.total)),
+        breakdown: this.mergeAccountLines(statements.map(pl => pl.otherIncomeExpenses.breakdown))
+      },
+      incomeBeforeTax: sum(statements.map(pl => pl.incomeBeforeTax)),
+      taxExpense: sum(statements.map(pl => pl.taxExpense)),
+      netIncome: sum(statements.map(pl => pl.netIncome))
+    };
+  }
+
+  private static mergeAccountLines(lists: AccountLine[][]): AccountLine[] {
+    const merged = new Map<string, { category: string; amount: number; subAccounts: AccountLine[][] }>();
+    lists.flat().forEach(line => {
+      const key = line.category.trim().toLowerCase();
+      const existing = merged.get(key) || { category: line.category, amount: 0, subAccounts: [] };
+      existing.amount += line.amount;
+      if (line.subAccounts?.length) existing.subAccounts.push(line.subAccounts);
+      merged.set(key, existing);
+    });
+    return [...merged.values()].map(line => ({
+      category: line.category,
+      amount: line.amount,
+      ...(line.subAccounts.length ? { subAccounts: this.mergeAccountLines(line.subAccounts) } : {})
+    }));
+  }
+
+  /**
+   * Take eliminated amounts out of the P&L lines, listing each as an
+   * "Intercompany eliminations" line, and recompute the subtotals
+   */
+  private static eliminateProfitLoss(pl: ProfitLossStatement, eliminations: LineAmounts): ProfitLossStatement {
+    const amount = (line: ProfitLossLine) => eliminations[line] || 0;
+    const eliminationLine = (value: number): AccountLine[] =>
+      value ? [{ category: 'Intercompany eliminations', amount: -value }] : [];
+
+    const revenueTotal = pl.revenue.total - amount('revenue');
+    const withPercentage = (lines: AccountLine[]) => lines.map(line => ({
+      ...line,
+      percentage: revenueTotal !== 0 ? (line.amount / revenueTotal) * 100 : 0
+    }));
+    // Other expenses are netted into other income, so eliminating one adds back
+    const otherEliminated = amount('otherIncome') - amount('otherExpenses');
+
+    const revenue = {
+      total: revenueTotal,
+      breakdown: withPercentage([...pl.revenue.breakdown, ...eliminationLine(amount('revenue'))])
+    };
+    const costOfGoodsSold = {
+      total: pl.costOfGoodsSold.total - amount('costOfGoodsSold'),
+      breakdown: [...pl.costOfGoodsSold.breakdown, ...eliminationLine(amount('costOfGoodsSold'))]
+    };
+    const operatingExpenses = {
+      total: pl.operatingExpenses.total - amount('operatingExpenses'),
+      breakdown: withPercentage([...pl.operatingExpenses.breakdown, ...eliminationLine(amount('operatingExpenses'))])
+    };
+    const otherIncomeExpenses = {
+      total: pl.otherIncomeExpenses.total - otherEliminated,
+      breakdown: [...pl.otherIncomeExpenses.breakdown, ...eliminationLine(otherEliminated)]
+    };
+    const taxExpense = pl.taxExpense - amount('taxExpense');
+
+    const grossProfit = revenue.total - costOfGoodsSold.total;
+    const operatingIncome = grossProfit - operatingExpenses.total;
+    const incomeBeforeTax = operatingIncome + otherIncomeExpenses.total;
+
+    return {
+      revenue,
+      costOfGoodsSold,
+      grossProfit,
+      operatingExpenses,
+      operatingIncome,
+      otherIncomeExpenses,
+      incomeBeforeTax,
+      taxExpense,
+      netIncome: incomeBeforeTax - taxExpense
+    };
+  }
+
+  private static balanceSheetLine(bs: BalanceSheetStatement, line: BalanceSheetLine): number {
+    const { assets, liabilities, equity } = bs;
+    const lines: Record<BalanceSheetLine, number> = {
+      cash: assets.current.cash,
+      accountsReceivable: assets.current.accountsReceivable,
+      inventory: assets.current.inventory,
+      otherCurrentAssets: assets.current.otherCurrentAssets,
+      propertyPlantEquipment: assets.nonCurrent.propertyPlantEquipment,
+      intangibleAssets: assets.nonCurrent.intangibleAssets,
+      otherNonCurrentAssets: assets.nonCurrent.otherNonCurrentAssets,
+      accountsPayable: liabilities.current.accountsPayable,
+      shortTermDebt: liabilities.current.shortTermDebt,
+      otherCurrentLiabilities: liabilities.current.otherCurrentLiabilities,
+      longTermDebt: liabilities.nonCurrent.longTermDebt,
+      otherNonCurrentLiabilities: liabilities.nonCurrent.otherNonCurrentLiabilities,
+      commonStock: equity.commonStock,
+      retainedEarnings: equity.retainedEarnings,
+      otherEquity: equity.otherEquity
+    };
+    return lines[line];
+  }
+
+  /**
+   * Sum of the companies' cash flows. Net income is restated to the
+   * consolidated figure with the eliminated profit added back as a non-cash
+   * item, so cash from operations is unchanged.
+   */
+  private static sumCashFlow(
+    statements: CashFlowStatement[],
+    balanceSheet: BalanceSheetStatement,
+    eliminatedProfit: number
+  ): CashFlowStatement {
+    const total = (pick: (cf: CashFlowStatement) => number) => sum(statements.map(pick));
+    const adjustments = new Map<string, number>();
+    statements.flatMap(cf => cf.operatingActivities.adjustments).forEach(adjustment => {
+      adjustments.set(adjustment.item, (adjustments.get(adjustment.item) || 0) + adjustment.amount);
+    });
+
+    const statement: CashFlowStatement = {
+      operatingActivities: {
+        netIncome: total(cf => cf.operatingActivities.netIncome) - eliminatedProfit,
+        adjustments: [
+          ...[...adjustments].map(([item, amount]) => ({ item, amount })),
+          ...(eliminatedProfit ? [{ item: 'Intercompany profit eliminated', amount: eliminatedProfit }] : [])
+        ],
+        workingCapitalChanges: {
+          accountsReceivable: total(cf => cf.operatingActivities.workingCapitalChanges.accountsReceivable),
+          inventory: total(cf => cf.operatingActivities.workingCapitalChanges.inventory),
+          accountsPayable: total(cf => cf.operatingActivities.workingCapitalChanges.accountsPayable),
+          other: total(cf => cf.operatingActivities.workingCapitalChanges.other)
+        },
+        netCashFromOperations: total(cf => cf.operatingActivities.netCashFromOperations)
+      },
+      investingActivities: {
+        capitalExpenditures: total(cf => cf.investingActivities.capitalExpenditures),
+        acquisitions: total(cf => cf.investingActivities.acquisitions),
+        assetSales: total(cf => cf.investingActivities.assetSales),
+        otherInvesting: total(cf => cf.investingActivities.otherInvesting),
+        netCashFromInvesting: total(cf => cf.investingActivities.netCashFromInvesting)
+      },
+      financingActivities: {
+        debtProceeds: total(cf => cf.financingActivities.debtProceeds),
+        debtRepayments: total(cf => cf.financingActivities.debtRepayments),
+        equityIssuance: total(cf => cf.financingActivities.equityIssuance),
+        dividendsPaid: total(cf => cf.financingActivities.dividendsPaid),
+        otherFinancing: total(cf => cf.financingActivities.otherFinancing),
+        netCashFromFinancing: total(cf => cf.financingActivities.netCashFromFinancing)
+      },
+      netChangeInCash: total(cf => cf.netChangeInCash),
+      beginningCash: total(cf => cf.beginningCash),
+      endingCash: total(cf => cf.endingCash)
+    };
+
+    // Tie out only when every company's statement could be tied out
+    const reconciliations = statements.map(cf => cf.reconciliation);
+    if (reconciliations.every(Boolean)) {
+      const difference = round(statement.endingCash - balanceSheet.assets.current.cash);
+      statement.reconciliation = {
+        source: reconciliations.every(item => item!.source === 'qbo_report') ? 'qbo_report' : 'indirect_method',
+        beginningCash: statement.beginningCash,
+        netChangeInCash: statement.netChangeInCash,
+        endingCash: statement.endingCash,
+        balanceSheetCash: balanceSheet.assets.current.cash,
+        difference,
+        reconciled: reconciliations.every(item => item!.reconciled) && Math.abs(difference) < 0.01
+      };
+    }
+    return statement;
+  }
+
+  /**
+   * Combined foreign-currency balances and exchange gains, each account
+   * labelled with its company. The unrealized gain is left out when any
+   * company's could not be computed.
+   */
+  private static consolidateForeignExchange(entities: ConsolidationEntityData[]): ForeignExchangeSummary | undefined {
+    const companies = entities.filter(entity => entity.data.foreignExchange);
+    if (companies.length === 0) return undefined;
+    const summaries = companies.map(entity => entity.data.foreignExchange!);
+    const rates = new Map(summaries.flatMap(fx => fx.rates).map(rate => [rate.currency, rate]));
+    const notes = [...new Set(summaries.map(fx => fx.unrealizedNote).filter((note): note is string => Boolean(note)))];
+
+    return {
+      homeCurrency: summaries[0].homeCurrency,
+      asOfDate: summaries[0].asOfDate,
+      rates: [...rates.values()],
+      balances: companies.flatMap(entity => entity.data.foreignExchange!.balances.map(balance => ({
+        ...balance,
+        accountName: `${entity.companyName}: ${balance.accountName}`
+      }))),
+      realizedGainLoss: round(sum(summaries.map(fx => fx.realizedGainLoss))),
+      unrealizedGainLoss: summaries.every(fx => fx.unrealizedGainLoss !== null)
+        ? round(sum(summaries.map(fx => fx.unrealizedGainLoss!)))
+        : null,
+      ...(notes.length ? { unrealizedNote: notes.join('; ') } : {})
+    };
+  }
+
+  /**
+   * Combined aging. Columns are matched by label; each customer or vendor is
+   * labelled with its company.
+   */
+  private static consolidateAging(
+    entities: ConsolidationEntityData[],
+    report: 'accountsReceivable' | 'accountsPayable'
+  ): AgingReport {
+    const reports = entities.map(entity => ({ name: entity.companyName, aging: entity.data.supplementaryReports[report] }));
+    const total = (pick: (aging: AgingReport) => number) => sum(reports.map(({ aging }) => pick(aging)));
+    const totalOutstanding = total(aging => aging.totalOutstanding);
+
+    const buckets = new Map<string, AgingReport['buckets'][number]>();
+    reports.flatMap(({ aging }) => aging.buckets).forEach(bucket => {
+      const existing = buckets.get(bucket.label);
+      buckets.set(bucket.label, existing ? { ...existing, amount: existing.amount + bucket.amount } : { ...bucket });
+    });
+
+    return {
+      totalOutstanding,
+      current: total(aging => aging.current),
+      days1to30: total(aging => aging.days1to30),
+      days31to60: total(aging => aging.days31to60),
+      days61to90: total(aging => aging.days61to90),
+      over90Days: total(aging => aging.over90Days),
+      weightedDaysOutstanding: totalOutstanding
+        ? round(total(aging => aging.weightedDaysOutstanding * aging.totalOutstanding) / totalOutstanding)
+        : 0,
+      buckets: [...buckets.values()].sort((a, b) => a.minDays - b.minDays),
+      details: reports.flatMap(({ name, aging }) => aging.details.map(detail => ({
+        ...detail,
+        customerOrVendor: `${detail.customerOrVendor} (${name})`
+      })))
+    };
+  }
+
+  private static sumSeries(series: Array<Array<{ month: string; amount: number }>>) {
+    const byMonth = new Map<string, number>();
+    series.flat().forEach(point => byMonth.set(point.month, (byMonth.get(point.month) || 0) + point.amount));
+    return [...byMonth].sort(([a], [b]) => a.localeCompare(b)).map(([month, amount]) => ({ month, amount }));
+  }
+
+  /**
+   * Each company's column next to the eliminations and the consolidated total
+   */
+  private static buildSchedule(
+    group: ConsolidationGroup,
+    entities: ConsolidationEntityData[],
+    consolidated: { profitLoss: ProfitLossStatement; balanceSheet: BalanceSheetStatement; eliminatedProfit: number },
+    eliminations: ConsolidationSchedule['eliminations']
+  ): ConsolidationSchedule {
+    const line = (
+      statement: ConsolidationScheduleLine['statement'],
+      label: string,
+      pick: (pl: ProfitLossStatement, bs: BalanceSheetStatement) => number,
+      isTotal = false
+    ): ConsolidationScheduleLine => {
+      const values = entities.map(entity => round(pick(
+        entity.data.financialStatements.profitLoss.current,
+        entity.data.financialStatements.balanceSheet.current
+      )));
+      const total = round(pick(consolidated.profitLoss, consolidated.balanceSheet));
+      return {
+        statement,
+        label,
+        entities: values,
+        eliminations: round(total - sum(values)),
+        consolidated: total,
+        ...(isTotal ? { isTotal } : {})
+      };
+    };
+    const eliminated = (lines: StatementLine[]) => sum(eliminations
+      .filter(elimination => lines.includes(elimination.statementLine))
+      .map(elimination => elimination.amount));
+
+    return {
+      groupName: group.name,
+      entities: entities.map(({ realmId, companyName }) => ({ realmId, companyName })),
+      lines: [
+        line('profitLoss', PROFIT_LOSS_LINE_LABELS.revenue, pl => pl.revenue.total),
+        line('profitLoss', PROFIT_LOSS_LINE_LABELS.costOfGoodsSold, pl => pl.costOfGoodsSold.total),
+        line('profitLoss', 'Gross Profit', pl => pl.grossProfit, true),
+        line('profitLoss', PROFIT_LOSS_LINE_LABELS.operatingExpenses, pl => pl.operatingExpenses.total),
+        line('profitLoss', 'Operating Income', pl => pl.operatingIncome, true),
+        line('profitLoss', 'Other Income (Expense), net', pl => pl.otherIncomeExpenses.total),
+        line('profitLoss', PROFIT_LOSS_LINE_LABELS.taxExpense, pl => pl.taxExpense),
+        line('profitLoss', 'Net Income', pl => pl.netIncome, true),
+        ...BALANCE_SHEET_LINES.map(bsLine => line(
+          'balanceSheet',
+          STATEMENT_LINE_LABELS[bsLine],
+          (_, bs) => this.balanceSheetLine(bs, bsLine)
+        )),
+        line('balanceSheet', 'Total Assets', (_, bs) => bs.assets.totalAssets, true),
+        line('balanceSheet', 'Total Liabilities', (_, bs) => bs.liabilities.totalLiabilities, true),
+        line('balanceSheet', 'Total Equity', (_, bs) => bs.equity.total, true)
+      ],
+      eliminations,
+      eliminatedProfit: round(consolidated.eliminatedProfit),
+      unmatchedEliminations: round(
+        eliminated(['cash', 'accountsReceivable', 'inventory', 'otherCurrentAssets', 'propertyPlantEquipment', 'intangibleAssets', 'otherNonCurrentAssets']) -
+        eliminated(['accountsPayable', 'shortTermDebt', 'otherCurrentLiabilities', 'longTermDebt', 'otherNonCurrentLiabilities', 'commonStock', 'retainedEarnings', 'otherEquity']) -
+        consolidated.eliminatedProfit
+      )
+    };
+  }
+}
@@ -0,0 +1,407 @@
+import { describe, expect, it } from 'vitest';
+import { DataTransformService } from './dataTransform.service';
+import { BALANCE_SHEET_LINE_LABELS } from '../lib/accountClassification';
+import { AccountLine, BalanceSheetLine, ProfitLossStatement, QBOAccount, QBOBudget, QBOBudgetData, QBOReportRow } from '../types/financial.types';
+
+const PERIOD = { start: '2026-09-01', end: '2026-09-30' };
+
+const COLUMNS = { Column: [{ ColTitle: '', ColType: 'Account' }, { ColTitle: 'Total', ColType: 'Money' }] };
+
+const data = (label: string, amount: number, id?: string): QBOReportRow => ({
+  type: 'Data',
+  ColData: [{ value: label, ...(id ? { id } : {}) }, { value: amount.toFixed(2) }]
+});
+
+const section = (group: string, label: string, rows: QBOReportRow[], total: number, id?: string): QBOReportRow => ({
+  type: 'Section',
+  group,
+  ...(rows.length ? { Header: { ColData: [{ value: label, ...(id ? { id } : {}) }, { value: '' }] }, Rows: { Row: rows } } : {}),
+  Summary: { ColData: [{ value: rows.length ? `Total ${label}` : label }, { value: total.toFixed(2) }] }
+});
+
+const report = (reportName: string, rows: QBOReportRow[]) => ({
+  Header: { ReportName: reportName, StartPeriod: PERIOD.start, EndPeriod: PERIOD.end, Currency: 'USD' },
+  Columns: COLUMNS,
+  Rows: { Row: rows }
+});
+
+describe('DataTransformService profit and loss', () => {
+  it('parses nested sections into lines with their sub-accounts', () => {
+    const pl = DataTransformService['transformProfitLoss'](report('ProfitAndLoss', [
+      section('Income', 'Income', [data('Sales', 10000, '1')], 10000),
+      section('COGS', 'Cost of Goods Sold', [data('Materials', 4000, '2')], 4000),
+      section('Expenses', 'Expenses', [
+        data('Rent', 1500, '3'),
+        section('', 'Utilities', [data('Utilities', 100, '4'), data('Electric', 400, '5')], 500, '4'),
+        data('State Income Tax', 600, '6')
+      ], 2600),
+      section('OtherIncome', 'Other Income', [data('Interest Income', 50, '7')], 50),
+      section('OtherExpenses', 'Other Expenses', [data('Loan Interest', 150, '8')], 150),
+      section('NetIncome', 'Net Income', [], 3300)
+    ]));
+
+    expect(pl.revenue.total).toBe(10000);
+    expect(pl.grossProfit).toBe(6000);
+    expect(pl.operatingExpenses.breakdown.map(line => [line.category, line.amount])).toEqual([
+      ['Rent', 1500],
+      ['Utilities', 500]
+    ]);
+    expect(pl.operatingExpenses.breakdown[1].subAccounts?.map(line => line.category)).toEqual(['Utilities', 'Electric']);
+    // Income tax booked as an expense moves below pre-tax income
+    expect(pl.operatingIncome).toBe(4000);
+    expect(pl.otherIncomeExpenses.breakdown.map(line => [line.category, line.amount])).toEqual([
+      ['Interest Income', 50],
+      ['Loan Interest', -150]
+    ]);
+    expect(pl.incomeBeforeTax).toBe(3900);
+    expect(pl.taxExpense).toBe(600);
+    expect(pl.netIncome).toBe(3300);
+  });
+});
+
+describe('DataTransformService statements for validation', () => {
+  // An inventory account QBO lists under Other Current Assets
+  const balanceSheet = report('BalanceSheet', [
+    section('TotalAssets', 'Assets', [
+      section('BankAccounts', 'Bank Accounts', [data('Checking', 5000, '10')], 5000),
+      section('OtherCurrentAssets', 'Other Current Assets', [data('Stock on Hand', 2000, '11')], 2000)
+    ], 7000),
+    section('TotalLiabilitiesAndEquity', 'Liabilities and Equity', [
+      section('Equity', 'Equity', [data('Retained Earnings', 7000, '12')], 7000)
+    ], 7000)
+  ]);
+
+  it('classifies balance sheet rows by the chart of accounts when it is given', () => {
+    const { balanceSheet: withAccounts } = DataTransformService.transformForValidation({
+      balanceSheet,
+      accounts: [{ Id: '11', Name: 'Stock on Hand', AccountType: 'Other Current Asset', AccountSubType: 'Inventory' }]
+    });
+    expect(withAccounts?.assets.current.inventory).toBe(2000);
+    expect(withAccounts?.assets.current.otherCurrentAssets).toBe(0);
+
+    const { balanceSheet: bySection } = DataTransformService.transformForValidation({ balanceSheet });
+    expect(bySection?.assets.current.inventory).toBe(0);
+    expect(bySection?.assets.current.otherCurrentAssets).toBe(2000);
+  });
+});
+
+describe('DataTransformService cash flow', () => {
+  it('splits the QBO cash flow report into operating, investing and financing lines', () => {
+    const cashFlow = DataTransformService['transformCashFlow'](report('CashFlow', [
+      section('OperatingActivities', 'Operating Activities', [
+        data('Net Income', 3000),
+        section('', 'Adjustments to reconcile Net Income to Net Cash provided by operations:', [
+          data('Accounts Receivable (A/R)', -1000, '20'),
+          data('Accumulated Depreciation', 200, '21'),
+          data('Accounts Payable (A/P)', 500, '22')
+        ], -300)
+      ], 2700),
+      section('InvestingActivities', 'Investing Activities', [
+        data('Equipment', -4000, '23'),
+        data('Vehicles', 1500, '24')
+      ], -2500),
+      section('FinancingActivities', 'Financing Activities', [
+        data('Bank Loan', 5000, '25'),
+        data('Line of Credit', -800, '26'),
+        data("Owner's Draw", -1000, '27')
+      ], 3200),
+      section('CashIncrease', 'Net cash increase for period', [], 3400),
+      section('BeginningCash', 'Cash at beginning of period', [], 10000),
+      section('EndingCash', 'Cash at end of period', [], 13400)
+    ]));
+
+    expect(cashFlow.operatingActivities).toEqual({
+      netIncome: 3000,
+      adjustments: [{ item: 'Accumulated Depreciation', amount: 200 }],
+      workingCapitalChanges: { accountsReceivable: -1000, inventory: 0, accountsPayable: 500, other: 0 },
+      netCashFromOperations: 2700
+    });
+    expect(cashFlow.investingActivities).toMatchObject({
+      capitalExpenditures: -4000,
+      assetSales: 1500,
+      netCashFromInvesting: -2500
+    });
+    expect(cashFlow.financingActivities).toMatchObject({
+      debtProceeds: 5000,
+      debtRepayments: -800,
+      dividendsPaid: -1000,
+      netCashFromFinancing: 3200
+    });
+    expect([cashFlow.netChangeInCash, cashFlow.beginningCash, cashFlow.endingCash]).toEqual([3400, 10000, 13400]);
+  });
+});
+
+describe('DataTransformService monthly trends', () => {
+  const month = (title: string, start: string, end: string) =>
+    ({ ColTitle: title, ColType: 'Money', MetaData: [{ Name: 'StartDate', Value: start }, { Name: 'EndDate', Value: end }] });
+  const TOTAL = { ColTitle: 'Total', ColType: 'Money' };
+  const values = (amounts: number[]) => amounts.map(amount => ({ value: amount.toFixed(2) }));
+  const monthly = (group: string, label: string, amounts: number[]): QBOReportRow => ({
+    type: 'Section',
+    group,
+    Header: { ColData: [{ value: label }, ...amounts.map(() => ({ value: '' }))] },
+    Rows: { Row: [{ type: 'Data', ColData: [{ value: label }, ...values(amounts)] }] },
+    Summary: { ColData: [{ value: `Total ${label}` }, ...values(amounts)] }
+  });
+  const total = (group: string, label: string, amounts: number[]): QBOReportRow =>
+    ({ type: 'Section', group, Summary: { ColData: [{ value: label }, ...values(amounts)] } });
+
+  // The trailing range starts and ends mid-month, so QBO returns partial
+  // first and last months
+  const monthlyPL = {
+    Header: { ReportName: 'ProfitAndLoss', StartPeriod: '2026-07-15', EndPeriod: '2026-09-20', Currency: 'USD' },
+    Columns: { Column: [
+      { ColTitle: '', ColType: 'Account' },
+      month('Jul 15-31, 2026', '2026-07-15', '2026-07-31'),
+      month('Aug 2026', '2026-08-01', '2026-08-31'),
+      month('Sep 1-20, 2026', '2026-09-01', '2026-09-20'),
+      TOTAL
+    ] },
+    Rows: { Row: [
+      monthly('Income', 'Sales', [400, 1000, 700, 2100]),
+      monthly('COGS', 'Materials', [100, 300, 200, 600]),
+      monthly('Expenses', 'Rent', [250, 500, 500, 1250]),
+      total('NetIncome', 'Net Income', [50, 200, 0, 250])
+    ] }
+  };
+  const cashFlowRows = [total('CashIncrease', 'Net cash increase for period', [-150, 320, 80, 250])];
+
+  it('keys partial months by the month they fall in', () => {
+    const trends = DataTransformService.transformMonthlyTrends(monthlyPL);
+
+    expect(trends.monthlyRevenue).toEqual([
+      { month: '2026-07', amount: 400 },
+      { month: '2026-08', amount: 1000 },
+      { month: '2026-09', amount: 700 }
+    ]);
+    expect(trends.monthlyExpenses.map(item => item.amount)).toEqual([350, 800, 700]);
+    expect(trends.monthlyProfit.map(item => item.amount)).toEqual([50, 200, 0]);
+  });
+
+  it('leaves the cash flow series empty when the cash flow report has no month columns', () => {
+    const withoutColumns = DataTransformService.transformMonthlyTrends(monthlyPL, {
+      Header: { ReportName: 'CashFlow', StartPeriod: '2026-07-15', EndPeriod: '2026-09-20' },
+      Rows: { Row: cashFlowRows }
+    });
+    expect(withoutColumns.monthlyRevenue).toHaveLength(3);
+    expect(withoutColumns.monthlyCashFlow).toEqual([]);
+
+    const withColumns = DataTransformService.transformMonthlyTrends(monthlyPL, {
+      Header: { ReportName: 'CashFlow', StartPeriod: '2026-07-15', EndPeriod: '2026-09-20' },
+      Columns: monthlyPL.Columns,
+      Rows: { Row: cashFlowRows }
+    });
+    expect(withColumns.monthlyCashFlow.map(item => item.amount)).toEqual([-150, 320, 80]);
+  });
+});
+
+const balanceSheetOf = (values: Partial<Record<BalanceSheetLine, number>>) =>
+  DataTransformService.buildBalanceSheet(Object.fromEntries(
+    Object.keys(BALANCE_SHEET_LINE_LABELS).map(line => [line, values[line as BalanceSheetLine] || 0])
+  ) as Record<BalanceSheetLine, number>);
+
+describe('DataTransformService indirect cash flow', () => {
+  const opening = balanceSheetOf({
+    cash: 10000, accountsReceivable: 5000, inventory: 3000, propertyPlantEquipment: 20000,
+    accountsPayable: 4000, longTermDebt: 10000, commonStock: 5000, retainedEarnings: 19000
+  });
+  // 3,000 of equipment bought, 500 depreciated, 1,000 of debt repaid and
+  // 800 distributed to the owners
+  const closing = balanceSheetOf({
+    cash: 7700, accountsReceivable: 6000, inventory: 2500, propertyPlantEquipment: 22500,
+    accountsPayable: 4500, longTermDebt: 9000, commonStock: 5000, retainedEarnings: 20200
+  });
+  const pl: ProfitLossStatement = {
+    revenue: { total: 12000, breakdown: [{ category: 'Sales', amount: 12000, percentage: 100 }] },
+    costOfGoodsSold: { total: 0, breakdown: [] },
+    grossProfit: 12000,
+    operatingExpenses: {
+      total: 10000,
+      breakdown: [
+        { category: 'Wages', amount: 9500, percentage: 79.17 },
+        { category: 'Depreciation Expense', amount: 500, percentage: 4.17 }
+      ]
+    },
+    operatingIncome: 2000,
+    otherIncomeExpenses: { total: 0, breakdown: [] },
+    incomeBeforeTax: 2000,
+    taxExpense: 0,
+    netIncome: 2000
+  };
+
+  it('reconciles to the change in balance sheet cash', () => {
+    const cashFlow = DataTransformService.buildIndirectCashFlow(opening, closing, pl);
+
+    expect(cashFlow.operatingActivities).toEqual({
+      netIncome: 2000,
+      adjustments: [{ item: 'Depreciation Expense', amount: 500 }],
+      workingCapitalChanges: { accountsReceivable: -1000, inventory: 500, accountsPayable: 500, other: 0 },
+      netCashFromOperations: 2500
+    });
+    expect(cashFlow.investingActivities.capitalExpenditures).toBe(-3000);
+    expect(cashFlow.financingActivities).toMatchObject({ debtRepayments: -1000, dividendsPaid: -800, netCashFromFinancing: -1800 });
+    expect(cashFlow.netChangeInCash).toBe(closing.assets.current.cash - opening.assets.current.cash);
+    expect(cashFlow.reconciliation).toMatchObject({ source: 'indirect_method', endingCash: 7700, difference: 0, reconciled: true });
+  });
+});
+
+describe('DataTransformService aging reports', () => {
+  const agingReport = (titles: string[], rows: Array<[string, ...string[]]>) =>
+    DataTransformService['transformAgingReport']({
+      Header: { ReportName: 'AgedReceivables', EndPeriod: PERIOD.end },
+      Columns: { Column: [{ ColTitle: '', ColType: 'Customer' }, ...titles.map(ColTitle => ({ ColTitle, ColType: 'Money' }))] },
+      Rows: { Row: rows.map(([customer, ...amounts]) => ({ type: 'Data', ColData: [{ value: customer }, ...amounts.map(value => ({ value }))] })) }
+    });
+
+  it('detects custom bucket widths from the column titles', () => {
+    // Requested with aging_period=15 and num_periods=3
+    const aging = agingReport(
+      ['Current', '1 - 15', '16 - 30', '31 - 45', '46 and over', 'Total'],
+      [
+        ['Acme', '100.00', '200.00', '', '300.00', '400.00', '1,000.00'],
+        ['Globex', '500.00', '', '', '', '', '500.00']
+      ]
+    );
+
+    expect(aging.buckets.map(({ label, minDays, maxDays }) => [label, minDays, maxDays])).toEqual([
+      ['Current', 0, 0],
+      ['1 - 15', 1, 15],
+      ['16 - 30', 16, 30],
+      ['31 - 45', 31, 45],
+      ['46 and over', 46, undefined]
+    ]);
+    expect(aging.buckets.map(bucket => bucket.amount)).toEqual([600, 200, 0, 300, 400]);
+    expect(aging).toMatchObject({ totalOutstanding: 1500, current: 600, days1to30: 200, days31to60: 700, days61to90: 0, over90Days: 0 });
+    expect(aging.details[0]).toEqual({ customerOrVendor: 'Acme', totalAmount: 1000, current: 100, pastDue: 900, daysOutstanding: 34.4 });
+    // The open-ended bucket sits half a bucket width (7.5 days) past day 46
+    expect(aging.weightedDaysOutstanding).toBe(22.9);
+  });
+
+  it('reads "Over N" titles as starting the day after N', () => {
+    const aging = agingReport(
+      ['Current', '1 - 30', '31 - 60', '61 - 90', 'Over 90', 'Total'],
+      [['Initech', '', '', '', '250.00', '750.00', '1,000.00']]
+    );
+
+    expect(aging.buckets[4]).toMatchObject({ label: 'Over 90', minDays: 91, maxDays: undefined });
+    expect(aging).toMatchObject({ days61to90: 250, over90Days: 750, totalOutstanding: 1000 });
+  });
+});
+
+const profitLoss = (utilities: AccountLine[]): ProfitLossStatement => ({
+  revenue: { total: 1000, breakdown: [{ category: 'Sales', amount: 1000, accountId: '1', percentage: 100 }] },
+  costOfGoodsSold: { total: 0, breakdown: [] },
+  grossProfit: 1000,
+  operatingExpenses: {
+    total: 300,
+    breakdown: [{ category: 'Utilities', amount: 300, accountId: '5', subAccounts: utilities, percentage: 30 }]
+  },
+  operatingIncome: 700,
+  otherIncomeExpenses: { total: 0, breakdown: [] },
+  incomeBeforeTax: 700,
+  taxExpense: 0,
+  netIncome: 700
+});
+
+const budget = (accountIds: string[], date = '2026-09-01'): QBOBudgetData => ({
+  budgetId: 'b1',
+  name: 'FY2026',
+  startDate: '2026-01-01',
+  endDate: '2026-12-31',
+  periodType: 'Monthly',
+  budgetDetails: accountIds.map(accountId => ({
+    accountId,
+    accountName: accountId === '5' ? 'Utilities' : 'Electric',
+    periods: [{ date, amount: 250 }]
+  }))
+});
+
+const budgetVsActual = (utilities: AccountLine[], accountIds: string[]) =>
+  DataTransformService.transformBudgetVsActual(budget(accountIds), profitLoss(utilities), PERIOD);
+
+describe('DataTransformService budget vs actual', () => {
+  it("compares a parent account's budget with its rolled-up total", () => {
+    // QBO lists the parent's own postings as a row with the parent's id
+    const ownPostingsLast = budgetVsActual([
+      { category: 'Electric', amount: 200, accountId: '6' },
+      { category: 'Utilities', amount: 100, accountId: '5' }
+    ], ['5', '6']);
+    const ownPostingsFirst = budgetVsActual([
+      { category: 'Utilities', amount: 100, accountId: '5' },
+      { category: 'Electric', amount: 200, accountId: '6' }
+    ], ['5', '6']);
+
+    for (const report of [ownPostingsLast, ownPostingsFirst]) {
+      expect(report.items.map(item => [item.accountId, item.actual, item.variance])).toEqual([
+        ['5', 300, 50],
+        ['6', 200, -50]
+      ]);
+    }
+  });
+
+  it('budgets nothing for an account with no budget period in the month', () => {
+    const report = DataTransformService.transformBudgetVsActual(budget(['5'], '2026-08-01'), profitLoss([]), PERIOD);
+
+    expect(report.items).toEqual([
+      { accountId: '5', category: 'Utilities', budgeted: 0, actual: 300, variance: 300, variancePercentage: 0 }
+    ]);
+    expect(report.summary).toMatchObject({ totalBudgeted: 0, totalVariancePercentage: 0 });
+  });
+
+  it('compares other expenses as positive amounts and other income as income', () => {
+    const accounts: QBOAccount[] = [
+      { Id: '7', Name: 'Interest Earned', AccountType: 'Other Income' },
+      { Id: '8', Name: 'Bank Charges', AccountType: 'Other Expense' }
+    ];
+    const actual: ProfitLossStatement = {
+      ...profitLoss([]),
+      // Other expenses are signed as income on the P&L
+      otherIncomeExpenses: {
+        total: -30,
+        breakdown: [
+          { category: 'Interest Earned', amount: 50, accountId: '7' },
+          { category: 'Bank Charges', amount: -80, accountId: '8' }
+        ]
+      }
+    };
+    const otherBudget: QBOBudgetData = {
+      ...budget([]),
+      budgetDetails: [
+        { accountId: '7', accountName: 'Interest Earned', periods: [{ date: '2026-09-01', amount: 40 }] },
+        { accountId: '8', accountName: 'Bank Charges', periods: [{ date: '2026-09-01', amount: 100 }] }
+      ]
+    };
+
+    const report = DataTransformService.transformBudgetVsActual(otherBudget, actual, PERIOD, accounts);
+
+    expect(report.items.map(item => [item.category, item.actual, item.variance])).toEqual([
+      ['Interest Earned', 50, 10],
+      ['Bank Charges', 80, -20]
+    ]);
+  });
+});
+
+describe('DataTransformService.findBudgetForPeriod', () => {
+  const qboBudget = (id: string, overrides: Partial<QBOBudget> = {}): QBOBudget => ({
+    Id: id,
+    Name: `Budget ${id}`,
+    StartDate: '2026-01-01',
+    EndDate: '2026-12-31',
+    ...overrides
+  });
+
+  it('picks the active profit and loss budget covering the whole period', () => {
+    const budgets = [
+      qboBudget('inactive', { Active: false }),
+      qboBudget('balance-sheet', { BudgetType: 'BalanceSheet' }),
+      qboBudget('ends-mid-month', { EndDate: '2026-09-15' }),
+      qboBudget('fy2026', { BudgetType: 'ProfitAndLoss' })
+    ];
+
+    expect(DataTransformService.findBudgetForPeriod(budgets, PERIOD)?.Id).toBe('fy2026');
+  });
+
+  it('finds nothing when no budget covers the period', () => {
+    expect(DataTransformService.findBudgetForPeriod([qboBudget('fy2025', { StartDate: '2025-01-01', EndDate: '2025-12-31' })], PERIOD)).toBeUndefined();
+  });
+});
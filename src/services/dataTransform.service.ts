@@ -4,11 +4,14 @@ import {
   QBOCashFlowData,
   QBOAgingReportData,
   QBOBudgetData,
+  QBOBudget,
+  QBOBudgetEntryType,
   FinancialDataForLLM,
   ProfitLossStatement,
   BalanceSheetStatement,
   CashFlowStatement,
   AgingReport,
+  AgingBucket,
   BudgetVsActualReport,
   LLMAnalysisResponse,
   DashboardData,
@@ -16,8 +19,160 @@ import {
   PDFReportData,
   ChartData,
   TableContent,
-  MetricCardContent
+  MetricCardContent,
+  AccountLine,
+  QBOAccount,
+  BalanceSheetLine,
+  CashReconciliation,
+  ComparisonPeriod,
+  MaterialityThresholds,
+  AccountingMethod,
+  BasisReconciliation,
+  AccountMapping,
+  ProfitLossLine,
+  StatementLine,
+  StatementSource,
+  QBOTrialBalanceData,
+  QBOCustomerSalesData,
+  CustomerRevenue,
+  CustomerConcentration,
+  QBOItemSalesData,
+  QBOReportRow,
+  QBOItem,
+  ItemSalesLine,
+  SegmentDimension,
+  SegmentedProfitLoss,
+  ConsolidationSchedule,
+  CurrencyFormat,
+  ForeignExchangeSummary,
+  QBOExchangeRate,
+  BenchmarkSummary,
+  CashForecast,
+  ScenarioProjection,
+  TrialBalance,
+  TrialBalanceLine,
+  TrialBalanceSummary
 } from '../types/financial.types';
+import {
+  QBOReportNode,
+  QBOPeriodColumn,
+  buildReportTree,
+  findSection,
+  getPeriodColumns,
+  getSegmentColumns,
+  leafNodes,
+  parseAmount,
+  partitionNodes,
+  negateNodes,
+  selectColumn,
+  toAccountLines
+} from '../lib/qboReportTree';
+import {
+  classifyBalanceSheetAccount,
+  classifyBySectionGroup,
+  classifyByAccountName,
+  defaultStatementLine,
+  indexAccountMappings,
+  isBalanceSheetLine,
+  isProfitLossLine
+} from '../lib/accountClassification';
+import { calculateFinancialMetrics, daysInPeriod, nonCashChargeLines } from '../lib/financialMetrics';
+import { DEFAULT_MATERIALITY, calculateVariance, compareStatements } from '../lib/varianceAnalysis';
+import { DEFAULT_FISCAL_CALENDAR, FiscalCalendar, getFiscalPeriod } from '../lib/fiscalPeriods';
+import { StatementValidationInput } from '../lib/statementValidation';
+import { analyzeCustomerConcentration, describeCustomerConcentration } from '../lib/customerConcentration';
+import { analyzeProductMix } from '../lib/productMix';
+import { SEGMENT_DIMENSION_LABELS, analyzeSegments, buildSegmentComparisonTable } from '../lib/segmentAnalysis';
+import { DEFAULT_CURRENCY_FORMAT, analyzeForeignExchange, currencyFormatOf, describeForeignExchange, formatMoney } from '../lib/currency';
+import {
+  BENCHMARK_STATUS_LABELS,
+  benchmarkCitation,
+  compareToBenchmarks,
+  describeBenchmarks,
+  formatBenchmarkValue
+} from '../lib/industryBenchmarks';
+import { describeScenario, scenarioComparisonTable } from '../lib/scenarioModel';
+import { cashForecastTable, describeCashForecast } from '../lib/cashForecast';
+import { DAY_MS, round } from '../lib/utils';
+
+/**
+ * Section labels used as a fallback when a QBO P&L section has no group
+ */
+const PL_SECTION_LABELS = {
+  Income: ['Income', 'Revenue'],
+  COGS: ['Cost of Goods Sold', 'Cost of Sales'],
+  Expenses: ['Expenses'],
+  OtherIncome: ['Other Income'],
+  OtherExpenses: ['Other Expenses', 'Other Expense']
+};
+
+/**
+ * Income statement line each QBO P&L section rolls up into
+ */
+const PL_SECTION_LINES: Record<keyof typeof PL_SECTION_LABELS, ProfitLossLine> = {
+  Income: 'revenue',
+  COGS: 'costOfGoodsSold',
+  Expenses: 'operatingExpenses',
+  OtherIncome: 'otherIncome',
+  OtherExpenses: 'otherExpenses'
+};
+
+const BALANCE_SHEET_LINES: BalanceSheetLine[] = [
+  'cash', 'accountsReceivable', 'inventory', 'otherCurrentAssets',
+  'propertyPlantEquipment', 'intangibleAssets', 'otherNonCurrentAssets',
+  'accountsPayable', 'shortTermDebt', 'otherCurrentLiabilities',
+  'longTermDebt', 'otherNonCurrentLiabilities',
+  'commonStock', 'retainedEarnings', 'otherEquity'
+];
+
+/**
+ * Section labels used as a fallback when a QBO cash flow section has no group
+ */
+const CF_SECTION_LABELS = {
+  OperatingActivities: ['Operating Activities'],
+  InvestingActivities: ['Investing Activities'],
+  FinancingActivities: ['Financing Activities'],
+  CashIncrease: ['Net cash increase for period'],
+  BeginningCash: ['Cash at beginning of period'],
+  EndingCash: ['Cash at end of period']
+};
+
+/** Debit-normal balance sheet lines; the rest carry credit balances */
+const ASSET_LINES = new Set<BalanceSheetLine>([
+  'cash', 'accountsReceivable', 'inventory', 'otherCurrentAssets',
+  'propertyPlantEquipment', 'intangibleAssets', 'otherNonCurrentAssets'
+]);
+
+/** Credit-normal income statement lines; the rest carry debit balances */
+const INCOME_LINES = new Set<ProfitLossLine>(['revenue', 'otherIncome']);
+
+const TRIAL_BALANCE_TOTAL_PATTERN = /^total$/i;
+
+const WORKING_CAPITAL_LINES = new Set<BalanceSheetLine>([
+  'otherCurrentAssets', 'shortTermDebt', 'otherCurrentLiabilities'
+]);
+
+const DEBT_LINES = new Set<BalanceSheetLine>([
+  'shortTermDebt', 'longTermDebt', 'otherNonCurrentLiabilities'
+]);
+
+const NET_INCOME_PATTERN = /^net income$/i;
+const ACQUISITION_PATTERN = /acquisition|purchase of business/i;
+const DISTRIBUTION_PATTERN = /dividend|distribution|draw/i;
+
+const BUDGET_PERIOD_MONTHS: Record<QBOBudgetEntryType, number> = {
+  Monthly: 1,
+  Quarterly: 3,
+  Yearly: 12
+};
+
+/** Rounding tolerance when tying statement cash to the balance sheet */
+const CASH_TIE_OUT_TOLERANCE = 0.01;
+
+/** An aging bucket parsed from a column title; index points into node values */
+type AgingColumn = Omit<AgingBucket, 'amount'> & { index: number };
+
+const INCOME_TAX_PATTERN = /\bincome tax(es)?\b|\b(federal|state) (income )?tax(es)?\b/i;
 
 export class DataTransformService {
   /**
@@ -33,28 +188,127 @@ export class DataTransformService {
       budget?: QBOBudgetData;
       previousProfitLoss?: QBOProfitLossData;
       previousBalanceSheet?: QBOBalanceSheetData;
+      previousCashFlow?: QBOCashFlowData;
+      accounts?: QBOAccount[];
+      /** Saved overrides of the statement line each account rolls up into */
+      accountMappings?: AccountMapping[];
+      monthlyProfitLoss?: QBOProfitLossData;
+      monthlyCashFlow?: QBOCashFlowData;
+      newCustomers?: number;
+      /** The same period on the other accounting basis, for the basis reconciliation */
+      alternateBasis?: {
+        profitLoss: QBOProfitLossData;
+        balanceSheet: QBOBalanceSheetData;
+      };
+      /** Trial balance from the start of the fiscal year to the period end */
+      trialBalance?: QBOTrialBalanceData;
+      /** Trial balance to the day before the period starts, when that is in the same fiscal year */
+      openingTrialBalance?: QBOTrialBalanceData;
+      /** Sales by Customer (or Income by Customer) for the period */
+      customerSales?: QBOCustomerSalesData;
+      /** Sales by Product/Service for the period and the comparison period */
+      itemSales?: QBOItemSalesData;
+      previousItemSales?: QBOItemSalesData;
+      /** Item records, for purchase cost */
+      items?: QBOItem[];
+      /** The period's P&L summarized by Class or Location */
+      segmentedProfitLoss?: {
+        dimension: SegmentDimension;
+        report: QBOProfitLossData;
+      };
+      /** QBO exchange rates at the period end, for translating foreign balances */
+      exchangeRates?: QBOExchangeRate[];
     },
     companyInfo: {
       name: string;
       id: string;
       industry?: string;
       size?: string;
-    }
+      /** Locale amounts are formatted in */
+      locale?: string;
+      /** Whether the industry and size were confirmed or inferred */
+      industryBasis?: string;
+      sizeBasis?: string;
+      /** QBO's industry code, used to pick the benchmark set */
+      naicsCode?: string;
+    },
+    options: {
+      comparison?: ComparisonPeriod;
+      materiality?: MaterialityThresholds;
+      fiscalCalendar?: FiscalCalendar;
+      accountingMethod?: AccountingMethod;
+      /** Build the current P&L and balance sheet from the trial balance (default reports) */
+      statementSource?: StatementSource;
+    } = {}
   ): FinancialDataForLLM {
+    const accountingMethod = options.accountingMethod
+      || (qboData.profitLoss.Header.ReportBasis === 'Cash' ? 'Cash' : 'Accrual');
+    const mappings = indexAccountMappings(qboData.accountMappings);
+    
     // Transform P&L
-    const currentPL = this.transformProfitLoss(qboData.profitLoss);
+    let currentPL = this.transformProfitLoss(qboData.profitLoss, mappings);
     const previousPL = qboData.previousProfitLoss 
-      ? this.transformProfitLoss(qboData.previousProfitLoss) 
+      ? this.transformProfitLoss(qboData.previousProfitLoss, mappings) 
       : undefined;
     
     // Transform Balance Sheet
-    const currentBS = this.transformBalanceSheet(qboData.balanceSheet);
+    let currentBS = this.transformBalanceSheet(qboData.balanceSheet, qboData.accounts, mappings);
+    
+    // In trial balance mode the current statements are built from account
+    // balances; QBO's formatted statements are kept for the tie-out
+    let trialBalanceSummary: TrialBalanceSummary | undefined;
+    if (options.statementSource === 'trialBalance') {
+      if (!qboData.trialBalance) {
+        throw new Error('Trial balance statement source requires the TrialBalance report');
+      }
+      const built = this.statementsFromTrialBalance(
+        qboData.trialBalance,
+        qboData.openingTrialBalance,
+        qboData.accounts,
+        mappings,
+        { profitLoss: currentPL, balanceSheet: currentBS }
+      );
+      trialBalanceSummary = built.summary;
+      currentPL = built.profitLoss;
+      currentBS = built.balanceSheet;
+    }
+    
     const previousBS = qboData.previousBalanceSheet 
-      ? this.transformBalanceSheet(qboData.previousBalanceSheet) 
+      ? this.transformBalanceSheet(qboData.previousBalanceSheet, qboData.accounts, mappings) 
       : undefined;
     
-    // Transform Cash Flow
-    const currentCF = this.transformCashFlow(qboData.cashFlow);
+    // The previous balance sheet is the opening balance sheet only when it is
+    // dated the day before the period starts (e.g. not for YoY comparisons)
+    const openingBS = previousBS && this.isDayBefore(
+      qboData.previousBalanceSheet!.Header.EndPeriod,
+      qboData.profitLoss.Header.StartPeriod
+    ) ? previousBS : undefined;
+    
+    // Transform Cash Flow, rebuilding it from the opening and closing balance
+    // sheets when QBO returns an empty or partial report
+    let currentCF: CashFlowStatement;
+    if (openingBS && !this.isCashFlowReportComplete(qboData.cashFlow)) {
+      currentCF = this.buildIndirectCashFlow(openingBS, currentBS, currentPL);
+    } else {
+      currentCF = this.transformCashFlow(qboData.cashFlow, qboData.accounts, mappings);
+      // An incomplete report has nothing to tie out
+      if (this.isCashFlowReportComplete(qboData.cashFlow)) {
+        currentCF.reconciliation = this.reconcileCash(currentCF, currentBS, 'qbo_report');
+      }
+    }
+    const previousCF = qboData.previousCashFlow && this.isCashFlowReportComplete(qboData.previousCashFlow)
+      ? this.transformCashFlow(qboData.previousCashFlow, qboData.accounts, mappings)
+      : undefined;
+    
+    // Line-by-line comparison with the prior period
+    const materiality = options.materiality || DEFAULT_MATERIALITY;
+    const periodVariance = previousPL || previousBS || previousCF
+      ? compareStatements([
+          { statement: 'profitLoss', current: currentPL, previous: previousPL },
+          { statement: 'balanceSheet', current: currentBS, previous: previousBS },
+          { statement: 'cashFlow', current: currentCF, previous: previousCF }
+        ], options.comparison || 'MoM', materiality)
+      : undefined;
     
     // Transform Aging Reports
     const arAging = this.transformAgingReport(qboData.arAging);
@@ -62,14 +316,45 @@ export class DataTransformService {
     
     // Transform Budget if available
     const budgetVsActual = qboData.budget 
-      ? this.transformBudgetVsActual(qboData.budget, currentPL) 
+      ? this.transformBudgetVsActual(
+          qboData.budget,
+          currentPL,
+          { start: qboData.profitLoss.Header.StartPeriod, end: qboData.profitLoss.Header.EndPeriod },
+          qboData.accounts
+        ) 
       : undefined;
     
-    // Calculate financial metrics
-    const metrics = this.calculateFinancialMetrics(currentPL, currentBS, currentCF);
+    // Calculate KPIs locally so the LLM explains figures rather than computing them
+    const periodDays = daysInPeriod(qboData.profitLoss.Header.StartPeriod, qboData.profitLoss.Header.EndPeriod);
+    const metrics = calculateFinancialMetrics({
+      profitLoss: currentPL,
+      balanceSheet: currentBS,
+      cashFlow: currentCF,
+      previousProfitLoss: previousPL,
+      previousBalanceSheet: openingBS,
+      periodDays,
+      newCustomers: qboData.newCustomers
+    });
+    const currency = qboData.profitLoss.Header.Currency || DEFAULT_CURRENCY_FORMAT.currency;
+    
+    // Monthly trends from the month-summarized reports
+    const trends = this.transformMonthlyTrends(qboData.monthlyProfitLoss, qboData.monthlyCashFlow, qboData.accountMappings);
+    
+    const basisReconciliation = qboData.alternateBasis
+      ? this.buildBasisReconciliation(
+          accountingMethod,
+          { profitLoss: currentPL, balanceSheet: currentBS },
+          {
+            profitLoss: this.transformProfitLoss(qboData.alternateBasis.profitLoss, mappings),
+            balanceSheet: this.transformBalanceSheet(qboData.alternateBasis.balanceSheet, qboData.accounts, mappings)
+          }
+        )
+      : undefined;
     
-    // Calculate trends
-    const trends = this.calculateTrends(qboData);
+    const fiscalPeriod = getFiscalPeriod(
+      options.fiscalCalendar || DEFAULT_FISCAL_CALENDAR,
+      qboData.profitLoss.Header.EndPeriod
+    );
     
     return {
       metadata: {
@@ -84,28 +369,77 @@ export class DataTransformService {
           start: qboData.previousProfitLoss!.Header.StartPeriod,
           end: qboData.previousProfitLoss!.Header.EndPeriod
         } : undefined,
-        currency: qboData.profitLoss.Header.Currency || 'USD',
+        accountingMethod,
+        fiscalPeriod: {
+          fiscalYear: fiscalPeriod.fiscalYear,
+          period: fiscalPeriod.period,
+          quarter: fiscalPeriod.quarter
+        },
+        currency,
+        locale: companyInfo.locale || DEFAULT_CURRENCY_FORMAT.locale,
         industry: companyInfo.industry,
-        companySize: companyInfo.size
+        naicsCode: companyInfo.naicsCode,
+        companySize: companyInfo.size,
+        industryBasis: companyInfo.industryBasis,
+        companySizeBasis: companyInfo.sizeBasis
       },
       
       financialStatements: {
         profitLoss: {
           current: currentPL,
           previous: previousPL,
-          variance: previousPL ? this.calculateVariance(currentPL.netIncome, previousPL.netIncome) : undefined
+          variance: previousPL ? calculateVariance(currentPL.netIncome, previousPL.netIncome, materiality) : undefined
         },
         balanceSheet: {
           current: currentBS,
           previous: previousBS,
-          variance: previousBS ? this.calculateVariance(currentBS.assets.totalAssets, previousBS.assets.totalAssets) : undefined
+          variance: previousBS
+            ? calculateVariance(currentBS.assets.totalAssets, previousBS.assets.totalAssets, materiality)
+            : undefined
         },
         cashFlow: {
           current: currentCF,
-          variance: undefined // Calculate if previous period available
+          previous: previousCF,
+          variance: previousCF
+            ? calculateVariance(currentCF.netChangeInCash, previousCF.netChangeInCash, materiality)
+            : undefined
         }
       },
       
+      periodVariance,
+      basisReconciliation,
+      trialBalance: trialBalanceSummary,
+      customerConcentration: qboData.customerSales
+        ? analyzeCustomerConcentration(this.transformCustomerRevenue(qboData.customerSales))
+        : undefined,
+      productMix: qboData.itemSales
+        ? analyzeProductMix({
+          current: this.transformItemSales(qboData.itemSales),
+          previous: qboData.previousItemSales && this.transformItemSales(qboData.previousItemSales),
+          previousPeriod: qboData.previousItemSales && {
+            start: qboData.previousItemSales.Header.StartPeriod,
+            end: qboData.previousItemSales.Header.EndPeriod
+          },
+          items: qboData.items
+        })
+        : undefined,
+      segments: qboData.segmentedProfitLoss
+        ? this.transformSegmentedProfitLoss(
+          qboData.segmentedProfitLoss.report,
+          qboData.segmentedProfitLoss.dimension,
+          qboData.accountMappings
+        )
+        : undefined,
+      foreignExchange: qboData.accounts
+        ? this.transformForeignExchange(qboData.profitLoss, qboData.balanceSheet, qboData.accounts, qboData.exchangeRates)
+        : undefined,
+      benchmarks: compareToBenchmarks(metrics, {
+        industry: companyInfo.industry,
+        naicsCode: companyInfo.naicsCode,
+        annualRevenue: currentPL.revenue.total * 365 / periodDays,
+        currency
+      }),
+      
       supplementaryReports: {
         accountsReceivable: arAging,
         accountsPayable: apAging,
@@ -124,75 +458,124 @@ export class DataTransformService {
           'growth',
           'risk management'
         ],
-        industryBenchmarks: companyInfo.industry ? this.getIndustryBenchmarks(companyInfo.industry) : undefined,
         specialConsiderations: []
       }
     };
   }
   
   /**
-   * Transform QBO Profit & Loss to normalized format
+   * Foreign-currency balances translated at the period-end exchange rates,
+   * with realized and unrealized exchange gains. The accounts' foreign
+   * balances are as of when they were fetched, today by default, so the
+   * unrealized gain is left out with a note unless the period ends that day.
    */
-  private static transformProfitLoss(qboData: QBOProfitLossData): ProfitLossStatement {
-    const extractValue = (row: any): number => {
-      if (row.ColData && row.ColData.length > 0) {
-        return parseFloat(row.ColData[0].value.replace(/[^0-9.-]/g, '')) || 0;
-      }
-      if (row.Summary && row.Summary.ColData) {
-        return parseFloat(row.Summary.ColData[0].value.replace(/[^0-9.-]/g, '')) || 0;
-      }
-      return 0;
-    };
-    
-    // Parse QBO rows structure - this is simplified, actual implementation needs careful mapping
-    let revenue = { total: 0, breakdown: [] as any[] };
-    let cogs = { total: 0, breakdown: [] as any[] };
-    let opex = { total: 0, breakdown: [] as any[] };
-    let otherIncome = { total: 0, breakdown: [] as any[] };
-    let taxes = 0;
-    
-    // Traverse QBO row structure (simplified example)
-    qboData.Rows.Row.forEach(row => {
-      if (row.group === 'Income') {
-        revenue.total = extractValue(row);
-        if (row.Rows?.Row) {
-          row.Rows.Row.forEach(subRow => {
-            const value = extractValue(subRow);
-            revenue.breakdown.push({
-              category: subRow.ColData?.[0]?.value || 'Other',
-              amount: value,
-              percentage: 0 // Calculate after
-            });
-          });
-        }
-      } else if (row.group === 'COGS') {
-        cogs.total = extractValue(row);
-      } else if (row.group === 'Expenses') {
-        opex.total = extractValue(row);
-        if (row.Rows?.Row) {
-          row.Rows.Row.forEach(subRow => {
-            const value = extractValue(subRow);
-            opex.breakdown.push({
-              category: subRow.ColData?.[0]?.value || 'Other',
-              amount: value,
-              percentage: 0
-            });
-          });
-        }
-      }
+  static transformForeignExchange(
+    profitLoss: QBOProfitLossData,
+    balanceSheet: QBOBalanceSheetData,
+    accounts: QBOAccount[],
+    exchangeRates: QBOExchangeRate[] = [],
+    balancesAsOf: string = new Date().toISOString().slice(0, 10)
+  ): ForeignExchangeSummary | undefined {
+    return analyzeForeignExchange({
+      homeCurrency: profitLoss.Header.Currency || DEFAULT_CURRENCY_FORMAT.currency,
+      asOfDate: balanceSheet.Header.EndPeriod,
+      balancesAsOf,
+      accounts,
+      rates: exchangeRates,
+      balanceSheet: buildReportTree(balanceSheet.Rows?.Row, balanceSheet.Columns?.Column),
+      profitLoss: buildReportTree(profitLoss.Rows?.Row, profitLoss.Columns?.Column)
     });
+  }
+  
+  /**
+   * Transform QBO Profit & Loss to normalized format.
+   * Walks nested Section/Data/Summary rows to any depth so sub-account
+   * hierarchies are preserved in each breakdown. Accounts mapped onto another
+   * line move there together with their sub-accounts.
+   */
+  private static transformProfitLoss(
+    qboData: QBOProfitLossData,
+    mappings: Map<string, StatementLine> = new Map()
+  ): ProfitLossStatement {
+    const tree = buildReportTree(qboData.Rows?.Row, qboData.Columns?.Column);
+    return this.buildProfitLoss(this.groupProfitLossNodes(tree, mappings), mappings);
+  }
+  
+  /**
+   * One income statement per segment column of a P&L requested with
+   * summarize_column_by=Classes or Departments, plus the total column
+   */
+  static transformSegmentedProfitLoss(
+    qboData: QBOProfitLossData,
+    dimension: SegmentDimension,
+    accountMappings?: AccountMapping[]
+  ): SegmentedProfitLoss {
+    const mappings = indexAccountMappings(accountMappings);
+    const tree = buildReportTree(qboData.Rows?.Row, qboData.Columns?.Column);
+    const statementAt = (nodes: QBOReportNode[]) =>
+      this.buildProfitLoss(this.groupProfitLossNodes(nodes, mappings), mappings);
     
-    // Calculate percentages
-    revenue.breakdown = revenue.breakdown.map(item => ({
-      ...item,
-      percentage: revenue.total > 0 ? (item.amount / revenue.total) * 100 : 0
-    }));
+    return analyzeSegments(
+      dimension,
+      { start: qboData.Header.StartPeriod, end: qboData.Header.EndPeriod },
+      getSegmentColumns(qboData.Columns?.Column).map(column => ({
+        ...(column.id ? { segmentId: column.id } : {}),
+        name: column.title,
+        profitLoss: statementAt(selectColumn(tree, column.index))
+      })),
+      statementAt(tree)
+    );
+  }
+  
+  /**
+   * Income statement from the account rows of each line. Amounts are
+   * positive for the line's normal balance (income for revenue lines,
+   * expense for cost lines).
+   */
+  private static buildProfitLoss(
+    lines: Record<ProfitLossLine, QBOReportNode[]>,
+    mappings: Map<string, StatementLine>
+  ): ProfitLossStatement {
+    // Mapped accounts are never pulled out as tax by name
+    const isTaxLine = (node: QBOReportNode) =>
+      !(node.accountId && mappings.has(node.accountId)) && INCOME_TAX_PATTERN.test(node.label);
+    const sum = (nodes: QBOReportNode[]) => nodes.reduce((total, node) => total + node.amount, 0);
+    
+    // Income tax is usually booked as an expense or other expense account;
+    // pull it out so operating income and pre-tax income are stated correctly
+    const expenses = partitionNodes(lines.operatingExpenses, isTaxLine);
+    const otherExpenses = partitionNodes(lines.otherExpenses, isTaxLine);
+    const incomeNodes = lines.revenue;
+    const cogsNodes = lines.costOfGoodsSold;
+    const otherIncomeNodes = lines.otherIncome;
     
-    opex.breakdown = opex.breakdown.map(item => ({
-      ...item,
-      percentage: revenue.total > 0 ? (item.amount / revenue.total) * 100 : 0
+    const revenueTotal = sum(incomeNodes);
+    const withPercentage = (lines: AccountLine[]) => lines.map(line => ({
+      ...line,
+      percentage: revenueTotal !== 0 ? (line.amount / revenueTotal) * 100 : 0
     }));
     
+    const revenue = {
+      total: revenueTotal,
+      breakdown: withPercentage(toAccountLines(incomeNodes))
+    };
+    const cogs = {
+      total: sum(cogsNodes),
+      breakdown: toAccountLines(cogsNodes)
+    };
+    const opex = {
+      total: sum(expenses.kept),
+      breakdown: withPercentage(toAccountLines(expenses.kept))
+    };
+    const otherIncome = {
+      total: sum(otherIncomeNodes) - sum(otherExpenses.kept),
+      breakdown: [
+        ...toAccountLines(otherIncomeNodes),
+        ...toAccountLines(negateNodes(otherExpenses.kept))
+      ]
+    };
+    const taxes = sum(expenses.removed) + sum(otherExpenses.removed) + sum(lines.taxExpense);
+    
     const grossProfit = revenue.total - cogs.total;
     const operatingIncome = grossProfit - opex.total;
     const incomeBeforeTax = operatingIncome + otherIncome.total;
@@ -212,279 +595,1012 @@ export class DataTransformService {
   }
   
   /**
-   * Transform QBO Balance Sheet to normalized format
+   * Account rows of each income statement line: the rows of the matching QBO
+   * section, with accounts mapped onto another line moved there together
+   * with their sub-accounts
    */
-  private static transformBalanceSheet(qboData: QBOBalanceSheetData): BalanceSheetStatement {
-    // Similar extraction logic as P&L
-    const extractValue = (row: any): number => {
-      if (row.ColData && row.ColData.length > 0) {
-        return parseFloat(row.ColData[0].value.replace(/[^0-9.-]/g, '')) || 0;
-      }
-      return 0;
+  private static groupProfitLossNodes(
+    tree: QBOReportNode[],
+    mappings: Map<string, StatementLine>
+  ): Record<ProfitLossLine, QBOReportNode[]> {
+    const mappedLine = (node: QBOReportNode): ProfitLossLine | undefined => {
+      const line = node.accountId ? mappings.get(node.accountId) : undefined;
+      return line && isProfitLossLine(line) ? line : undefined;
+    };
+    const lines: Record<ProfitLossLine, QBOReportNode[]> = {
+      revenue: [],
+      costOfGoodsSold: [],
+      operatingExpenses: [],
+      otherIncome: [],
+      otherExpenses: [],
+      taxExpense: []
+    };
+    const moved: QBOReportNode[] = [];
+    
+    (Object.keys(PL_SECTION_LINES) as Array<keyof typeof PL_SECTION_LINES>).forEach(group => {
+      const line = PL_SECTION_LINES[group];
+      const nodes = findSection(tree, group, PL_SECTION_LABELS[group])?.children || [];
+      const { kept, removed } = partitionNodes(nodes, node => {
+        const target = mappedLine(node);
+        return Boolean(target && target !== line);
+      });
+      lines[line].push(...kept);
+      moved.push(...removed);
+    });
+    moved.forEach(node => lines[mappedLine(node)!].push(node));
+    
+    return lines;
+  }
+  
+  /**
+   * Transform QBO Balance Sheet to normalized format.
+   * Each account row is classified by its saved mapping, then by its QBO
+   * AccountType/AccountSubType when the account list is available, otherwise
+   * by the report section it sits in.
+   */
+  private static transformBalanceSheet(
+    qboData: QBOBalanceSheetData,
+    accounts: QBOAccount[] = [],
+    mappings: Map<string, StatementLine> = new Map()
+  ): BalanceSheetStatement {
+    const tree = buildReportTree(qboData.Rows?.Row, qboData.Columns?.Column);
+    const accountsById = new Map(accounts.map(account => [account.Id, account]));
+    const lines = BALANCE_SHEET_LINES.reduce(
+      (acc, line) => ({ ...acc, [line]: 0 }),
+      {} as Record<BalanceSheetLine, number>
+    );
+    
+    // Sub-accounts inherit the parent's account, mapping and section when they
+    // have none
+    const classifyRows = (
+      nodes: QBOReportNode[],
+      context: { group?: string; account?: QBOAccount; mapped?: BalanceSheetLine }
+    ) => {
+      nodes.forEach(node => {
+        const account = (node.accountId && accountsById.get(node.accountId)) || context.account;
+        const group = node.group || context.group;
+        const mapping = node.accountId ? mappings.get(node.accountId) : undefined;
+        const mapped = (mapping && isBalanceSheetLine(mapping) ? mapping : undefined) || context.mapped;
+        
+        if (node.type === 'section') {
+          classifyRows(node.children, { group, account, mapped });
+          return;
+        }
+        
+        const line = mapped
+          || (account && classifyBalanceSheetAccount(account))
+          || classifyBySectionGroup(group, node.label);
+        if (line) {
+          lines[line] += node.amount;
+        }
+      });
     };
+    classifyRows(tree, {});
+    
+    return this.buildBalanceSheet(lines);
+  }
+  
+  /**
+   * Balance sheet from the total of each line. Amounts are positive for the
+   * line's normal balance (debit for assets, credit for liabilities and equity).
+   */
+  static buildBalanceSheet(lines: Record<BalanceSheetLine, number>): BalanceSheetStatement {
+    const currentAssets = {
+      cash: lines.cash,
+      accountsReceivable: lines.accountsReceivable,
+      inventory: lines.inventory,
+      otherCurrentAssets: lines.otherCurrentAssets
+    };
+    const nonCurrentAssets = {
+      propertyPlantEquipment: lines.propertyPlantEquipment,
+      intangibleAssets: lines.intangibleAssets,
+      otherNonCurrentAssets: lines.otherNonCurrentAssets
+    };
+    const currentLiabilities = {
+      accountsPayable: lines.accountsPayable,
+      shortTermDebt: lines.shortTermDebt,
+      otherCurrentLiabilities: lines.otherCurrentLiabilities
+    };
+    const nonCurrentLiabilities = {
+      longTermDebt: lines.longTermDebt,
+      otherNonCurrentLiabilities: lines.otherNonCurrentLiabilities
+    };
+    const total = (values: Record<string, number>) =>
+      Object.values(values).reduce((sum, value) => sum + value, 0);
     
-    // Initialize structure
     const assets = {
-      current: {
-        total: 0,
-        cash: 0,
-        accountsReceivable: 0,
-        inventory: 0,
-        otherCurrentAssets: 0
-      },
-      nonCurrent: {
-        total: 0,
-        propertyPlantEquipment: 0,
-        intangibleAssets: 0,
-        otherNonCurrentAssets: 0
-      },
-      totalAssets: 0
+      current: { total: total(currentAssets), ...currentAssets },
+      nonCurrent: { total: total(nonCurrentAssets), ...nonCurrentAssets },
+      totalAssets: total(currentAssets) + total(nonCurrentAssets)
     };
     
     const liabilities = {
-      current: {
-        total: 0,
-        accountsPayable: 0,
-        shortTermDebt: 0,
-        otherCurrentLiabilities: 0
-      },
-      nonCurrent: {
-        total: 0,
-        longTermDebt: 0,
-        otherNonCurrentLiabilities: 0
-      },
-      totalLiabilities: 0
+      current: { total: total(currentLiabilities), ...currentLiabilities },
+      nonCurrent: { total: total(nonCurrentLiabilities), ...nonCurrentLiabilities },
+      totalLiabilities: total(currentLiabilities) + total(nonCurrentLiabilities)
     };
     
     const equity = {
-      total: 0,
-      commonStock: 0,
-      retainedEarnings: 0,
-      otherEquity: 0
-    };
-    
-    // Parse QBO balance sheet structure (simplified)
-    qboData.Rows.Row.forEach(row => {
-      if (row.group === 'Asset') {
-        assets.totalAssets = extractValue(row);
-      } else if (row.group === 'Liability') {
-        liabilities.totalLiabilities = extractValue(row);
-      } else if (row.group === 'Equity') {
-        equity.total = extractValue(row);
-      }
-    });
+      total: lines.commonStock + lines.retainedEarnings + lines.otherEquity,
+      commonStock: lines.commonStock,
+      retainedEarnings: lines.retainedEarnings,
+      otherEquity: lines.otherEquity
+    };
     
     return { assets, liabilities, equity };
   }
   
   /**
-   * Transform QBO Cash Flow to normalized format
+   * Parse a QBO TrialBalance report into one line per account
    */
-  private static transformCashFlow(qboData: QBOCashFlowData): CashFlowStatement {
-    // Simplified transformation
+  static transformTrialBalance(qboData: QBOTrialBalanceData): TrialBalance {
+    const tree = buildReportTree(qboData.Rows?.Row, qboData.Columns?.Column);
+    const lines: TrialBalanceLine[] = leafNodes(tree)
+      .filter(node => !TRIAL_BALANCE_TOTAL_PATTERN.test(node.label.trim()))
+      .map(node => {
+        const [debit = 0, credit = 0] = node.values;
+        return {
+          ...(node.accountId ? { accountId: node.accountId } : {}),
+          accountName: node.label,
+          debit,
+          credit,
+          balance: debit - credit
+        };
+      });
+    
     return {
-      operatingActivities: {
-        netIncome: 0,
-        adjustments: [],
-        workingCapitalChanges: {
-          accountsReceivable: 0,
-          inventory: 0,
-          accountsPayable: 0,
-          other: 0
-        },
-        netCashFromOperations: 0
-      },
-      investingActivities: {
-        capitalExpenditures: 0,
-        acquisitions: 0,
-        assetSales: 0,
-        otherInvesting: 0,
-        netCashFromInvesting: 0
-      },
-      financingActivities: {
-        debtProceeds: 0,
-        debtRepayments: 0,
-        equityIssuance: 0,
-        dividendsPaid: 0,
-        otherFinancing: 0,
-        netCashFromFinancing: 0
-      },
-      netChangeInCash: 0,
-      beginningCash: 0,
-      endingCash: 0
+      startPeriod: qboData.Header.StartPeriod,
+      endPeriod: qboData.Header.EndPeriod,
+      lines,
+      totalDebits: round(lines.reduce((sum, line) => sum + line.debit, 0)),
+      totalCredits: round(lines.reduce((sum, line) => sum + line.credit, 0))
     };
   }
   
   /**
-   * Transform Aging Report
+   * Build the period's statements from the year-to-date trial balance and the
+   * one ending the day before the period, summarizing the trial balance with
+   * QBO's own net income and total assets for the tie-out
    */
-  private static transformAgingReport(qboData: QBOAgingReportData): AgingReport {
-    const extractValue = (value: string): number => {
-      return parseFloat(value.replace(/[^0-9.-]/g, '')) || 0;
-    };
-    
-    let totalOutstanding = 0;
-    let current = 0;
-    let days1to30 = 0;
-    let days31to60 = 0;
-    let days61to90 = 0;
-    let over90Days = 0;
-    const details: any[] = [];
-    
-    // Parse aging buckets from column headers and rows
-    const columns = qboData.Columns.Column;
-    qboData.Rows.Row.forEach(row => {
-      if (row.ColData && row.type !== 'Section') {
-        const customerName = row.ColData[0]?.value || '';
-        const amounts = row.ColData.slice(1).map(col => extractValue(col.value));
-        
-        if (amounts.length >= 5) {
-          current += amounts[0];
-          days1to30 += amounts[1];
-          days31to60 += amounts[2];
-          days61to90 += amounts[3];
-          over90Days += amounts[4];
-          
-          const total = amounts.reduce((sum, val) => sum + val, 0);
-          totalOutstanding += total;
-          
-          details.push({
-            customerOrVendor: customerName,
-            totalAmount: total,
-            current: amounts[0],
-            pastDue: total - amounts[0],
-            daysOutstanding: 0 // Calculate based on weighted average
-          });
+  private static statementsFromTrialBalance(
+    qboTrialBalance: QBOTrialBalanceData,
+    qboOpeningTrialBalance: QBOTrialBalanceData | undefined,
+    accounts: QBOAccount[] | undefined,
+    mappings: Map<string, StatementLine>,
+    reported: { profitLoss: ProfitLossStatement; balanceSheet: BalanceSheetStatement }
+  ): { profitLoss: ProfitLossStatement; balanceSheet: BalanceSheetStatement; summary: TrialBalanceSummary } {
+    const trialBalance = this.transformTrialBalance(qboTrialBalance);
+    const built = this.buildStatementsFromTrialBalance(
+      trialBalance,
+      accounts,
+      mappings,
+      qboOpeningTrialBalance && this.transformTrialBalance(qboOpeningTrialBalance)
+    );
+    return {
+      profitLoss: built.profitLoss,
+      balanceSheet: built.balanceSheet,
+      summary: {
+        asOf: trialBalance.endPeriod,
+        totalDebits: trialBalance.totalDebits,
+        totalCredits: trialBalance.totalCredits,
+        unclassified: built.unclassified,
+        reported: {
+          netIncome: reported.profitLoss.netIncome,
+          totalAssets: reported.balanceSheet.assets.totalAssets
         }
       }
+    };
+  }
+  
+  /**
+   * Build the P&L and balance sheet from trial balance account balances.
+   * Each account is placed by its saved mapping (or its nearest mapped
+   * parent's), otherwise by its QBO account type. Income statement accounts
+   * carry fiscal year-to-date activity, so the period P&L is the change from
+   * the opening trial balance when one is given.
+   */
+  private static buildStatementsFromTrialBalance(
+    trialBalance: TrialBalance,
+    accounts: QBOAccount[] = [],
+    mappings: Map<string, StatementLine> = new Map(),
+    openingTrialBalance?: TrialBalance
+  ): { profitLoss: ProfitLossStatement; balanceSheet: BalanceSheetStatement; unclassified: TrialBalanceLine[] } {
+    const accountsById = new Map(accounts.map(account => [account.Id, account]));
+    const lineFor = (row: TrialBalanceLine): StatementLine | undefined => {
+      const seen = new Set<string>();
+      for (let id = row.accountId; id && !seen.has(id); id = accountsById.get(id)?.ParentRef?.value) {
+        seen.add(id);
+        const mapped = mappings.get(id);
+        if (mapped) return mapped;
+      }
+      const account = row.accountId ? accountsById.get(row.accountId) : undefined;
+      return account && defaultStatementLine(account);
+    };
+    const keyOf = (row: TrialBalanceLine) => row.accountId || row.accountName;
+    
+    // QBO leaves zero balances out, so accounts in the opening trial balance
+    // only are accounts whose year-to-date activity reversed to zero
+    const openingBalances = new Map((openingTrialBalance?.lines || []).map(row => [keyOf(row), row.balance]));
+    const closingKeys = new Set(trialBalance.lines.map(keyOf));
+    const rows = [
+      ...trialBalance.lines,
+      ...(openingTrialBalance?.lines || [])
+        .filter(row => !closingKeys.has(keyOf(row)))
+        .map(row => ({ ...row, debit: 0, credit: 0, balance: 0 }))
+    ];
+    
+    const balanceSheetLines = BALANCE_SHEET_LINES.reduce(
+      (acc, line) => ({ ...acc, [line]: 0 }),
+      {} as Record<BalanceSheetLine, number>
+    );
+    const profitLossLines: Record<ProfitLossLine, QBOReportNode[]> = {
+      revenue: [],
+      costOfGoodsSold: [],
+      operatingExpenses: [],
+      otherIncome: [],
+      otherExpenses: [],
+      taxExpense: []
+    };
+    const unclassified: TrialBalanceLine[] = [];
+    let yearToDateNetIncome = 0;
+    
+    rows.forEach(row => {
+      const line = lineFor(row);
+      if (!line) {
+        if (row.balance !== 0) unclassified.push(row);
+        return;
+      }
+      if (isBalanceSheetLine(line)) {
+        balanceSheetLines[line] += ASSET_LINES.has(line) ? row.balance : -row.balance;
+        return;
+      }
+      
+      yearToDateNetIncome -= row.balance;
+      const activity = row.balance - (openingBalances.get(keyOf(row)) || 0);
+      const amount = INCOME_LINES.has(line) ? -activity : activity;
+      if (amount === 0) return;
+      profitLossLines[line].push({
+        type: 'data',
+        label: row.accountName,
+        ...(row.accountId ? { accountId: row.accountId } : {}),
+        values: [amount],
+        amount,
+        depth: 0,
+        children: []
+      });
     });
     
+    // Income statement accounts close into retained earnings at year end;
+    // until then the balance sheet shows year-to-date net income in equity
+    balanceSheetLines.retainedEarnings += yearToDateNetIncome;
+    
     return {
-      totalOutstanding,
-      current,
-      days1to30,
-      days31to60,
-      days61to90,
-      over90Days,
-      details
+      profitLoss: this.buildProfitLoss(profitLossLines, mappings),
+      balanceSheet: this.buildBalanceSheet(balanceSheetLines),
+      unclassified
     };
   }
   
   /**
-   * Transform Budget vs Actual
+   * Transform QBO Cash Flow to normalized format.
+   * Adjustment and financing lines are classified by their saved mapping or
+   * through the account list when available, otherwise by account name.
    */
-  private static transformBudgetVsActual(
-    budget: QBOBudgetData,
-    actual: ProfitLossStatement
-  ): BudgetVsActualReport {
-    const items: any[] = [];
-    let totalBudgeted = 0;
-    let totalActual = 0;
-    
-    // Map budget items to actual P&L categories
-    budget.budgetDetails.forEach(budgetItem => {
-      const actualAmount = this.findActualAmount(budgetItem.accountName, actual);
-      const budgetedAmount = budgetItem.periods.reduce((sum, p) => sum + p.amount, 0);
-      
-      totalBudgeted += budgetedAmount;
-      totalActual += actualAmount;
-      
-      items.push({
-        category: budgetItem.accountName,
-        budgeted: budgetedAmount,
-        actual: actualAmount,
-        variance: actualAmount - budgetedAmount,
-        variancePercentage: budgetedAmount !== 0 
-          ? ((actualAmount - budgetedAmount) / budgetedAmount) * 100 
-          : 0
+  private static transformCashFlow(
+    qboData: QBOCashFlowData,
+    accounts: QBOAccount[] = [],
+    mappings: Map<string, StatementLine> = new Map()
+  ): CashFlowStatement {
+    const tree = buildReportTree(qboData.Rows?.Row, qboData.Columns?.Column);
+    const accountsById = new Map(accounts.map(account => [account.Id, account]));
+    const classify = (node: QBOReportNode): BalanceSheetLine | undefined => {
+      const mapping = node.accountId ? mappings.get(node.accountId) : undefined;
+      if (mapping && isBalanceSheetLine(mapping)) return mapping;
+      const account = node.accountId ? accountsById.get(node.accountId) : undefined;
+      return (account && classifyBalanceSheetAccount(account)) || classifyByAccountName(node.label);
+    };
+    const section = (group: keyof typeof CF_SECTION_LABELS) =>
+      findSection(tree, group, CF_SECTION_LABELS[group]);
+    
+    // Operating activities: net income, non-cash adjustments, working capital
+    const operating = section('OperatingActivities');
+    const netIncomeRow = operating?.children.find(
+      node => node.type === 'data' && NET_INCOME_PATTERN.test(node.label)
+    );
+    
+    const adjustments: Array<{ item: string; amount: number }> = [];
+    const workingCapitalChanges = {
+      accountsReceivable: 0,
+      inventory: 0,
+      accountsPayable: 0,
+      other: 0
+    };
+    leafNodes(operating?.children || [])
+      .filter(node => node !== netIncomeRow)
+      .forEach(node => {
+        const line = classify(node);
+        if (line === 'accountsReceivable' || line === 'inventory' || line === 'accountsPayable') {
+          workingCapitalChanges[line] += node.amount;
+        } else if (line && WORKING_CAPITAL_LINES.has(line)) {
+          workingCapitalChanges.other += node.amount;
+        } else {
+          // Non-current movements in operations are non-cash items such as
+          // depreciation and amortization
+          adjustments.push({ item: node.label, amount: node.amount });
+        }
       });
+    
+    // Investing activities
+    const investingActivities = {
+      capitalExpenditures: 0,
+      acquisitions: 0,
+      assetSales: 0,
+      otherInvesting: 0,
+      netCashFromInvesting: 0
+    };
+    leafNodes(section('InvestingActivities')?.children || []).forEach(node => {
+      const line = classify(node);
+      if (ACQUISITION_PATTERN.test(node.label) || (line === 'intangibleAssets' && /goodwill/i.test(node.label))) {
+        investingActivities.acquisitions += node.amount;
+      } else if (!line || line === 'propertyPlantEquipment' || line === 'intangibleAssets') {
+        // QBO only lists asset accounts here, so unknown rows are fixed assets
+        if (node.amount < 0) {
+          investingActivities.capitalExpenditures += node.amount;
+        } else {
+          investingActivities.assetSales += node.amount;
+        }
+      } else {
+        investingActivities.otherInvesting += node.amount;
+      }
     });
     
+    // Financing activities
+    const financingActivities = {
+      debtProceeds: 0,
+      debtRepayments: 0,
+      equityIssuance: 0,
+      dividendsPaid: 0,
+      otherFinancing: 0,
+      netCashFromFinancing: 0
+    };
+    leafNodes(section('FinancingActivities')?.children || []).forEach(node => {
+      const line = classify(node);
+      if (line && DEBT_LINES.has(line)) {
+        if (node.amount >= 0) {
+          financingActivities.debtProceeds += node.amount;
+        } else {
+          financingActivities.debtRepayments += node.amount;
+        }
+      } else if (DISTRIBUTION_PATTERN.test(node.label)) {
+        financingActivities.dividendsPaid += node.amount;
+      } else if (line === 'commonStock' && node.amount > 0) {
+        financingActivities.equityIssuance += node.amount;
+      } else {
+        financingActivities.otherFinancing += node.amount;
+      }
+    });
+    
+    const netCashFromOperations = operating?.amount ?? 0;
+    investingActivities.netCashFromInvesting = section('InvestingActivities')?.amount ?? 0;
+    financingActivities.netCashFromFinancing = section('FinancingActivities')?.amount ?? 0;
+    
+    const netChangeInCash = section('CashIncrease')?.amount
+      ?? netCashFromOperations
+        + investingActivities.netCashFromInvesting
+        + financingActivities.netCashFromFinancing;
+    const beginningCash = section('BeginningCash')?.amount || 0;
+    const endingCash = section('EndingCash')?.amount ?? beginningCash + netChangeInCash;
+    
     return {
-      period: `${budget.startDate} to ${budget.endDate}`,
-      items,
-      summary: {
-        totalBudgeted,
-        totalActual,
-        totalVariance: totalActual - totalBudgeted,
-        totalVariancePercentage: totalBudgeted !== 0 
-          ? ((totalActual - totalBudgeted) / totalBudgeted) * 100 
-          : 0
+      operatingActivities: {
+        netIncome: netIncomeRow?.amount || 0,
+        adjustments,
+        workingCapitalChanges,
+        netCashFromOperations
+      },
+      investingActivities,
+      financingActivities,
+      netChangeInCash,
+      beginningCash,
+      endingCash
+    };
+  }
+  
+  /**
+   * Build the monthly trend series from P&L and cash flow reports requested
+   * with summarize_column_by=Month. Months are keyed YYYY-MM.
+   */
+  static transformMonthlyTrends(
+    monthlyPL?: QBOProfitLossData,
+    monthlyCF?: QBOCashFlowData,
+    accountMappings?: AccountMapping[]
+  ): FinancialDataForLLM['trends'] {
+    const mappings = indexAccountMappings(accountMappings);
+    const plColumns = getPeriodColumns(monthlyPL?.Columns?.Column);
+    const plTree = buildReportTree(monthlyPL?.Rows?.Row, monthlyPL?.Columns?.Column);
+    const plLines = this.groupProfitLossNodes(plTree, mappings);
+    const plValues = (...lines: ProfitLossLine[]) => {
+      const nodes = lines.flatMap(line => plLines[line]);
+      const width = Math.max(0, ...nodes.map(node => node.values.length));
+      return Array.from({ length: width }, (_, i) =>
+        nodes.reduce((sum, node) => sum + (node.values[i] || 0), 0)
+      );
+    };
+    
+    const income = plValues('revenue');
+    const otherIncome = plValues('otherIncome');
+    const cogs = plValues('costOfGoodsSold');
+    const expenses = plValues('operatingExpenses', 'taxExpense');
+    const otherExpenses = plValues('otherExpenses');
+    const netIncome = findSection(plTree, 'NetIncome', ['Net Income'])?.values;
+    
+    const toSeries = (
+      columns: QBOPeriodColumn[],
+      amountAt: (index: number) => number
+    ) => columns.map(column => ({
+      month: column.startDate?.slice(0, 7) || column.title,
+      amount: amountAt(column.index)
+    }));
+    const totalExpensesAt = (i: number) =>
+      (cogs[i] || 0) + (expenses[i] || 0) + (otherExpenses[i] || 0);
+    
+    const cfTree = buildReportTree(monthlyCF?.Rows?.Row, monthlyCF?.Columns?.Column);
+    const cashIncrease = findSection(cfTree, 'CashIncrease', CF_SECTION_LABELS.CashIncrease)?.values || [];
+    
+    return {
+      monthlyRevenue: toSeries(plColumns, i => income[i] || 0),
+      monthlyExpenses: toSeries(plColumns, totalExpensesAt),
+      monthlyProfit: toSeries(plColumns, i => netIncome
+        ? netIncome[i] || 0
+        : (income[i] || 0) + (otherIncome[i] || 0) - totalExpensesAt(i)),
+      monthlyCashFlow: toSeries(getPeriodColumns(monthlyCF?.Columns?.Column), i => cashIncrease[i] || 0)
+    };
+  }
+  
+  /**
+   * Whether date (YYYY-MM-DD) is the day before nextDate
+   */
+  private static isDayBefore(date: string | undefined, nextDate: string | undefined): boolean {
+    if (!date || !nextDate) return false;
+    return Date.parse(nextDate) - Date.parse(date) === DAY_MS;
+  }
+  
+  /**
+   * Whether a QBO cash flow report has the sections needed to state operating
+   * cash flow and ending cash
+   */
+  private static isCashFlowReportComplete(qboData?: QBOCashFlowData): boolean {
+    const tree = buildReportTree(qboData?.Rows?.Row, qboData?.Columns?.Column);
+    return Boolean(
+      findSection(tree, 'OperatingActivities', CF_SECTION_LABELS.OperatingActivities) &&
+      findSection(tree, 'EndingCash', CF_SECTION_LABELS.EndingCash)
+    );
+  }
+  
+  /**
+   * Build a cash flow statement with the indirect method from the opening and
+   * closing balance sheets and the period P&L.
+   * Depreciation and amortization found in the P&L are added back to operating
+   * cash and grossed up into capital expenditures; any movement in equity not
+   * explained by net income is treated as owner contributions or distributions.
+   */
+  static buildIndirectCashFlow(
+    openingBS: BalanceSheetStatement,
+    closingBS: BalanceSheetStatement,
+    pl: ProfitLossStatement
+  ): CashFlowStatement {
+    const change = (select: (bs: BalanceSheetStatement) => number) =>
+      select(closingBS) - select(openingBS);
+    
+    // Non-cash charges booked as operating expenses or cost of sales
+    const adjustments = nonCashChargeLines(pl)
+      .map(line => ({ item: line.category, amount: line.amount }));
+    const nonCashCharges = adjustments.reduce((sum, item) => sum + item.amount, 0);
+    
+    // Increases in assets consume cash; increases in liabilities provide it
+    const workingCapitalChanges = {
+      accountsReceivable: -change(bs => bs.assets.current.accountsReceivable),
+      inventory: -change(bs => bs.assets.current.inventory),
+      accountsPayable: change(bs => bs.liabilities.current.accountsPayable),
+      other: change(bs => bs.liabilities.current.otherCurrentLiabilities)
+        - change(bs => bs.assets.current.otherCurrentAssets)
+    };
+    const netCashFromOperations = pl.netIncome + nonCashCharges
+      + Object.values(workingCapitalChanges).reduce((sum, value) => sum + value, 0);
+    
+    // Fixed and intangible assets are carried net of accumulated depreciation
+    const fixedAssetCash = -(
+      change(bs => bs.assets.nonCurrent.propertyPlantEquipment + bs.assets.nonCurrent.intangibleAssets)
+      + nonCashCharges
+    );
+    const investingActivities = {
+      capitalExpenditures: Math.min(fixedAssetCash, 0),
+      acquisitions: 0,
+      assetSales: Math.max(fixedAssetCash, 0),
+      otherInvesting: -change(bs => bs.assets.nonCurrent.otherNonCurrentAssets),
+      netCashFromInvesting: 0
+    };
+    investingActivities.netCashFromInvesting = fixedAssetCash + investingActivities.otherInvesting;
+    
+    const debtChange = change(bs =>
+      bs.liabilities.current.shortTermDebt
+      + bs.liabilities.nonCurrent.longTermDebt
+      + bs.liabilities.nonCurrent.otherNonCurrentLiabilities
+    );
+    const stockChange = change(bs => bs.equity.commonStock);
+    const ownerEquityChange = change(bs => bs.equity.otherEquity);
+    const unexplainedRetainedEarnings = change(bs => bs.equity.retainedEarnings) - pl.netIncome;
+    const financingActivities = {
+      debtProceeds: Math.max(debtChange, 0),
+      debtRepayments: Math.min(debtChange, 0),
+      equityIssuance: Math.max(stockChange, 0) + Math.max(ownerEquityChange, 0),
+      dividendsPaid: Math.min(ownerEquityChange, 0) + Math.min(unexplainedRetainedEarnings, 0),
+      otherFinancing: Math.min(stockChange, 0) + Math.max(unexplainedRetainedEarnings, 0),
+      netCashFromFinancing: 0
+    };
+    financingActivities.netCashFromFinancing = debtChange + stockChange
+      + ownerEquityChange + unexplainedRetainedEarnings;
+    
+    const netChangeInCash = netCashFromOperations
+      + investingActivities.netCashFromInvesting
+      + financingActivities.netCashFromFinancing;
+    const beginningCash = openingBS.assets.current.cash;
+    
+    const statement: CashFlowStatement = {
+      operatingActivities: {
+        netIncome: pl.netIncome,
+        adjustments,
+        workingCapitalChanges,
+        netCashFromOperations
+      },
+      investingActivities,
+      financingActivities,
+      netChangeInCash,
+      beginningCash,
+      endingCash: beginningCash + netChangeInCash
+    };
+    statement.reconciliation = this.reconcileCash(statement, closingBS, 'indirect_method');
+    return statement;
+  }
+  
+  /**
+   * Normalize the statements the integrity checks need, for callers that
+   * work from raw QBO reports without building the full LLM input.
+   * The cash flow is rebuilt with the indirect method when QBO's report is
+   * incomplete and the balance sheet the day before the period is given.
+   * With a trial balance, the P&L and balance sheet are built from it and
+   * tied out to the reports.
+   */
+  static transformForValidation(
+    reports: {
+      profitLoss?: QBOProfitLossData;
+      balanceSheet?: QBOBalanceSheetData;
+      cashFlow?: QBOCashFlowData;
+      arAging?: QBOAgingReportData;
+      apAging?: QBOAgingReportData;
+      accounts?: QBOAccount[];
+      /** Balance sheet at the end of the prior period */
+      openingBalanceSheet?: QBOBalanceSheetData;
+      /**
+       * Year-to-date trial balance (and the one ending the day before the
+       * period) to build the P&L and balance sheet from instead of the reports
+       */
+      trialBalance?: QBOTrialBalanceData;
+      openingTrialBalance?: QBOTrialBalanceData;
+    },
+    accountingMethod?: AccountingMethod,
+    accountMappings?: AccountMapping[]
+  ): StatementValidationInput {
+    const mappings = indexAccountMappings(accountMappings);
+    let profitLoss = reports.profitLoss && this.transformProfitLoss(reports.profitLoss, mappings);
+    let balanceSheet = reports.balanceSheet && this.transformBalanceSheet(reports.balanceSheet, reports.accounts, mappings);
+    let trialBalance: TrialBalanceSummary | undefined;
+    if (reports.trialBalance && profitLoss && balanceSheet) {
+      const built = this.statementsFromTrialBalance(
+        reports.trialBalance,
+        reports.openingTrialBalance,
+        reports.accounts,
+        mappings,
+        { profitLoss, balanceSheet }
+      );
+      profitLoss = built.profitLoss;
+      balanceSheet = built.balanceSheet;
+      trialBalance = built.summary;
+    }
+    const openingBalanceSheet = reports.openingBalanceSheet && this.isDayBefore(
+      reports.openingBalanceSheet.Header.EndPeriod,
+      reports.profitLoss?.Header.StartPeriod
+    ) ? this.transformBalanceSheet(reports.openingBalanceSheet, reports.accounts, mappings) : undefined;
+    
+    let cashFlow: CashFlowStatement | undefined;
+    if (reports.cashFlow && this.isCashFlowReportComplete(reports.cashFlow)) {
+      cashFlow = this.transformCashFlow(reports.cashFlow, reports.accounts, mappings);
+      if (balanceSheet) {
+        cashFlow.reconciliation = this.reconcileCash(cashFlow, balanceSheet, 'qbo_report');
       }
+    } else if (openingBalanceSheet && balanceSheet && profitLoss) {
+      cashFlow = this.buildIndirectCashFlow(openingBalanceSheet, balanceSheet, profitLoss);
+    }
+    
+    return {
+      accountingMethod,
+      profitLoss,
+      balanceSheet,
+      cashFlow,
+      openingBalanceSheet,
+      accountsReceivable: reports.arAging && this.transformAgingReport(reports.arAging),
+      accountsPayable: reports.apAging && this.transformAgingReport(reports.apAging),
+      trialBalance
     };
   }
   
   /**
-   * Calculate comprehensive financial metrics
+   * Tie a cash flow statement's ending cash to the balance sheet cash line
    */
+  private static reconcileCash(
+    cashFlow: CashFlowStatement,
+    balanceSheet: BalanceSheetStatement,
+    source: CashReconciliation['source']
+  ): CashReconciliation {
+    const balanceSheetCash = balanceSheet.assets.current.cash;
+    const difference = cashFlow.endingCash - balanceSheetCash;
+    return {
+      source,
+      beginningCash: cashFlow.beginningCash,
+      netChangeInCash: cashFlow.netChangeInCash,
+      endingCash: cashFlow.endingCash,
+      balanceSheetCash,
+      difference,
+      reconciled: Math.abs(difference) < CASH_TIE_OUT_TOLERANCE
+    };
+  }
+  
   /**
-   * REMOVED: calculateFinancialMetrics - NO KPI CALCULATIONS
-   * Only data normalization allowed - LLM handles all KPI calculations
+   * Side-by-side accrual and cash figures for the lines where the two bases
+   * differ: revenue and expenses recognized before cash moves, and the
+   * receivables and payables that only exist on an accrual basis
    */
-  private static normalizeFinancialDataOnly(
-    pl: ProfitLossStatement,
-    bs: BalanceSheetStatement,
-    cf: CashFlowStatement
-  ) {
-    // Return raw normalized data only - NO CALCULATIONS
+  private static buildBasisReconciliation(
+    reportBasis: AccountingMethod,
+    report: { profitLoss: ProfitLossStatement; balanceSheet: BalanceSheetStatement },
+    alternate: { profitLoss: ProfitLossStatement; balanceSheet: BalanceSheetStatement }
+  ): BasisReconciliation {
+    const [accrual, cash] = reportBasis === 'Accrual' ? [report, alternate] : [alternate, report];
+    const line = (label: string, pick: (statements: typeof report) => number) => ({
+      label,
+      accrual: pick(accrual),
+      cash: pick(cash),
+      difference: pick(accrual) - pick(cash)
+    });
+    
     return {
-      // Raw data for LLM to calculate KPIs
-      rawData: {
-        currentAssets: bs.assets.current.total,
-        currentLiabilities: bs.liabilities.current.total,
-        cash: bs.assets.current.cash,
-        inventory: bs.assets.current.inventory,
-        totalAssets: bs.assets.totalAssets,
-        totalEquity: bs.equity.total,
-        totalRevenue: pl.revenue.total,
-        grossProfit: pl.grossProfit,
-        operatingIncome: pl.operatingIncome,
-        netIncome: pl.netIncome,
-        operatingCashFlow: cf.operatingActivities.netCash,
-        totalLiabilities: bs.liabilities.totalLiabilities
+      reportBasis,
+      lines: [
+        line('Revenue', s => s.profitLoss.revenue.total),
+        line('Cost of goods sold', s => s.profitLoss.costOfGoodsSold.total),
+        line('Gross profit', s => s.profitLoss.grossProfit),
+        line('Operating expenses', s => s.profitLoss.operatingExpenses.total),
+        line('Net income', s => s.profitLoss.netIncome),
+        line('Accounts receivable', s => s.balanceSheet.assets.current.accountsReceivable),
+        line('Accounts payable', s => s.balanceSheet.liabilities.current.accountsPayable),
+        line('Total assets', s => s.balanceSheet.assets.totalAssets),
+        line('Total liabilities', s => s.balanceSheet.liabilities.totalLiabilities),
+        line('Total equity', s => s.balanceSheet.equity.total)
+      ]
+    };
+  }
+  
+  /**
+   * Revenue per top-level customer from a CustomerSales or CustomerIncome
+   * report. Sub-customers and jobs roll up into their parent customer.
+   */
+  static transformCustomerRevenue(qboData: QBOCustomerSalesData): CustomerRevenue[] {
+    const columns = qboData.Columns?.Column || [];
+    // CustomerIncome's total column is net income; revenue is the Income column
+    const incomeIndex = columns.findIndex((column, i) => i > 0 && /^income$/i.test(column.ColTitle.trim()));
+    
+    return buildReportTree(qboData.Rows?.Row, columns)
+      .filter(node => node.group !== 'GrandTotal' && !/^total$/i.test(node.label.trim()))
+      .map(node => ({
+        ...(node.accountId ? { customerId: node.accountId } : {}),
+        customerName: node.label,
+        amount: incomeIndex > 0 ? node.values[incomeIndex - 1] || 0 : node.amount
+      }));
+  }
+  
+  /**
+   * Quantity, amount and COGS per item from an ItemSales report. Columns are
+   * found by title since the set QBO returns depends on the company's
+   * inventory settings.
+   */
+  static transformItemSales(qboData: QBOItemSalesData): ItemSalesLine[] {
+    const columns = qboData.Columns?.Column || [];
+    const columnIndex = (pattern: RegExp) =>
+      columns.findIndex((column, i) => i > 0 && pattern.test(column.ColTitle.trim()));
+    const quantityIndex = columnIndex(/^(qty|quantity)$/i);
+    const amountIndex = columnIndex(/^amount$/i);
+    const cogsIndex = columnIndex(/^cogs$/i);
+    const lines: ItemSalesLine[] = [];
+    
+    // Category sections only group items; the item rows carry the sales.
+    // COGS is blank rather than zero for items without inventory cost.
+    const visit = (rows: QBOReportRow[] = []) => rows.forEach(row => {
+      if (row.Rows?.Row) {
+        visit(row.Rows.Row);
+        return;
       }
-      // NO CALCULATIONS - Only normalized raw data
-      // All KPI calculations must be done by LLM using prompt.txt
+      const colData = row.ColData;
+      const label = colData?.[0]?.value?.trim();
+      if (!colData || !label || /^total\b/i.test(label)) return;
+      
+      const cogs = cogsIndex > 0 ? colData[cogsIndex]?.value?.trim() : undefined;
+      lines.push({
+        ...(colData[0].id ? { itemId: colData[0].id } : {}),
+        name: label,
+        quantity: quantityIndex > 0 ? parseAmount(colData[quantityIndex]?.value) : 0,
+        amount: parseAmount(colData[amountIndex > 0 ? amountIndex : colData.length - 1]?.value),
+        ...(cogs ? { cogs: parseAmount(cogs) } : {})
+      });
+    });
+    visit(qboData.Rows?.Row);
+    
+    return lines;
+  }
+  
+  /**
+   * Transform Aging Report.
+   * Buckets are read from the column titles, so custom aging periods and the
+   * aging_method / past_due options produce correctly labelled amounts.
+   */
+  private static transformAgingReport(qboData: QBOAgingReportData): AgingReport {
+    const columns = qboData.Columns?.Column || [];
+    const buckets = this.parseAgingColumns(columns);
+    const totalIndex = columns.findIndex(column => /^total$/i.test(column.ColTitle.trim())) - 1;
+    
+    const reportBuckets: AgingBucket[] = buckets.map(({ label, minDays, maxDays }) => ({
+      label,
+      minDays,
+      maxDays,
+      amount: 0
+    }));
+    const details: AgingReport['details'] = [];
+    
+    leafNodes(buildReportTree(qboData.Rows?.Row, columns)).forEach(node => {
+      const amounts = buckets.map(bucket => node.values[bucket.index] || 0);
+      const bucketTotal = amounts.reduce((sum, amount) => sum + amount, 0);
+      const totalAmount = totalIndex >= 0 ? node.values[totalIndex] ?? bucketTotal : bucketTotal;
+      const current = buckets.reduce(
+        (sum, bucket, i) => bucket.maxDays === 0 ? sum + amounts[i] : sum, 0
+      );
+      amounts.forEach((amount, i) => { reportBuckets[i].amount += amount; });
+      
+      details.push({
+        customerOrVendor: node.label,
+        totalAmount,
+        current,
+        pastDue: totalAmount - current,
+        daysOutstanding: this.weightedDaysOutstanding(buckets, amounts)
+      });
+    });
+    
+    // Roll the reported columns up into the standard buckets by first day
+    const rollUp = (from: number, to = Infinity) => reportBuckets
+      .filter(bucket => bucket.minDays >= from && bucket.minDays <= to)
+      .reduce((sum, bucket) => sum + bucket.amount, 0);
+    
+    return {
+      totalOutstanding: details.reduce((sum, detail) => sum + detail.totalAmount, 0),
+      current: rollUp(0, 0),
+      days1to30: rollUp(1, 30),
+      days31to60: rollUp(31, 60),
+      days61to90: rollUp(61, 90),
+      over90Days: rollUp(91),
+      weightedDaysOutstanding: this.weightedDaysOutstanding(
+        buckets,
+        reportBuckets.map(bucket => bucket.amount)
+      ),
+      buckets: reportBuckets,
+      details
     };
   }
   
   /**
-   * REMOVED: calculateTrends - NO CALCULATIONS
-   * Only data normalization allowed - LLM handles all calculations
+   * Parse aging column titles ("Current", "1 - 30", "91 and over", "Over 90")
+   * into day ranges. `index` points into a report node's values.
    */
+  private static parseAgingColumns(
+    columns: QBOAgingReportData['Columns']['Column']
+  ): AgingColumn[] {
+    const buckets: AgingColumn[] = [];
+    
+    columns.forEach((column, i) => {
+      const label = column.ColTitle.trim();
+      const range = label.match(/^(\d+)\s*-\s*(\d+)/);
+      const openEnded = label.match(/^(\d+)\s*(\+|and over|or more|and older)/i);
+      const over = label.match(/^(over|more than|>)\s*(\d+)/i);
+      
+      if (/^current$/i.test(label)) {
+        buckets.push({ label, minDays: 0, maxDays: 0, index: i - 1 });
+      } else if (range) {
+        buckets.push({ label, minDays: Number(range[1]), maxDays: Number(range[2]), index: i - 1 });
+      } else if (openEnded) {
+        buckets.push({ label, minDays: Number(openEnded[1]), index: i - 1 });
+      } else if (over) {
+        buckets.push({ label, minDays: Number(over[2]) + 1, index: i - 1 });
+      }
+    });
+    
+    return buckets;
+  }
   
   /**
-   * REMOVED: calculateVariance - NO CALCULATIONS
-   * Only data normalization allowed - LLM handles all calculations
+   * Amount-weighted average age using each bucket's midpoint. The open-ended
+   * bucket is placed half a bucket width past its first day. Credits are
+   * ignored so they do not pull the average below zero.
    */
+  private static weightedDaysOutstanding(
+    buckets: AgingColumn[],
+    amounts: number[]
+  ): number {
+    const widths = buckets
+      .filter(bucket => bucket.maxDays !== undefined && bucket.maxDays > 0)
+      .map(bucket => bucket.maxDays! - bucket.minDays + 1);
+    const openEndedOffset = widths.length > 0 ? widths[widths.length - 1] / 2 : 15;
+    
+    let weighted = 0;
+    let total = 0;
+    buckets.forEach((bucket, i) => {
+      const amount = amounts[i];
+      if (!(amount > 0)) return;
+      const days = bucket.maxDays === undefined
+        ? bucket.minDays + openEndedOffset
+        : (bucket.minDays + bucket.maxDays) / 2;
+      weighted += amount * days;
+      total += amount;
+    });
+    
+    return total > 0 ? Math.round((weighted / total) * 10) / 10 : 0;
+  }
   
   /**
-   * REMOVED: getIndustryBenchmarks - NO BENCHMARKING
-   * Only data normalization allowed - LLM handles all analysis
+   * Normalize a QBO Budget entity to one entry per account and budget period.
+   * Budgets subdivided by class, location or customer are summed per account.
    */
+  static transformQBOBudget(budget: QBOBudget): QBOBudgetData {
+    const accounts = new Map<string, { accountName: string; periods: Map<string, number> }>();
+    
+    (budget.BudgetDetail || []).forEach(detail => {
+      const accountId = detail.AccountRef.value;
+      const account = accounts.get(accountId)
+        || { accountName: detail.AccountRef.name || accountId, periods: new Map<string, number>() };
+      account.periods.set(detail.BudgetDate, (account.periods.get(detail.BudgetDate) || 0) + (detail.Amount || 0));
+      accounts.set(accountId, account);
+    });
+    
+    return {
+      budgetId: budget.Id,
+      name: budget.Name,
+      startDate: budget.StartDate,
+      endDate: budget.EndDate,
+      periodType: budget.BudgetEntryType || 'Monthly',
+      budgetDetails: Array.from(accounts.entries()).map(([accountId, account]) => ({
+        accountId,
+        accountName: account.accountName,
+        periods: Array.from(account.periods.entries())
+          .map(([date, amount]) => ({ date, amount }))
+          .sort((a, b) => a.date.localeCompare(b.date))
+      }))
+    };
+  }
   
   /**
-   * Find actual amount for budget comparison
+   * The active profit and loss budget covering the report period, if any
    */
-  private static findActualAmount(accountName: string, pl: ProfitLossStatement): number {
-    // Map account names to P&L categories
-    const revenueItem = pl.revenue.breakdown.find(item => 
-      item.category.toLowerCase().includes(accountName.toLowerCase())
+  static findBudgetForPeriod(
+    budgets: QBOBudget[],
+    period: { start: string; end: string }
+  ): QBOBudget | undefined {
+    return budgets.find(candidate =>
+      candidate.Active !== false &&
+      (candidate.BudgetType || 'ProfitAndLoss') === 'ProfitAndLoss' &&
+      candidate.StartDate <= period.start &&
+      candidate.EndDate >= period.end
     );
-    if (revenueItem) return revenueItem.amount;
-    
-    const expenseItem = pl.operatingExpenses.breakdown.find(item => 
-      item.category.toLowerCase().includes(accountName.toLowerCase())
+  }
+  
+  /**
+   * Compare budgeted and actual amounts for the report period, matching
+   * budget lines to P&L lines by account id. Monthly, quarterly and yearly
+   * budget periods are prorated by day when they only partly overlap the
+   * report period.
+   */
+  static transformBudgetVsActual(
+    budget: QBOBudgetData,
+    actual: ProfitLossStatement,
+    period: { start: string; end: string },
+    accounts: QBOAccount[] = []
+  ): BudgetVsActualReport {
+    const accountsById = new Map(accounts.map(account => [account.Id, account]));
+    // A budget on a parent account is compared with the parent's rolled-up
+    // total. QBO repeats the parent's id on the row for its own postings
+    // inside the section, so the first (section) amount is kept.
+    const actualById = new Map<string, number>();
+    const collect = (lines: AccountLine[], sign: (line: AccountLine) => number) => {
+      lines.forEach(line => {
+        if (line.accountId && !actualById.has(line.accountId)) {
+          actualById.set(line.accountId, sign(line) * line.amount);
+        }
+        if (line.subAccounts) collect(line.subAccounts, sign);
+      });
+    };
+    collect([...actual.revenue.breakdown, ...actual.costOfGoodsSold.breakdown, ...actual.operatingExpenses.breakdown], () => 1);
+    // Other income and expense lines are signed as income, while budgets carry
+    // expenses as positive amounts
+    collect(actual.otherIncomeExpenses.breakdown, line =>
+      line.accountId && accountsById.get(line.accountId)?.AccountType === 'Other Expense' ? -1 : 1
     );
-    if (expenseItem) return expenseItem.amount;
     
-    return 0;
+    const items: BudgetVsActualReport['items'] = budget.budgetDetails.map(budgetItem => {
+      const budgeted = this.budgetForPeriod(budgetItem.periods, budget.periodType, period);
+      const actualAmount = actualById.get(budgetItem.accountId) || 0;
+      return {
+        accountId: budgetItem.accountId,
+        category: budgetItem.accountName,
+        budgeted,
+        actual: actualAmount,
+        variance: actualAmount - budgeted,
+        variancePercentage: budgeted !== 0 ? ((actualAmount - budgeted) / budgeted) * 100 : 0
+      };
+    });
+    
+    const totalBudgeted = items.reduce((sum, item) => sum + item.budgeted, 0);
+    const totalActual = items.reduce((sum, item) => sum + item.actual, 0);
+    
+    return {
+      period: `${period.start} to ${period.end}`,
+      items,
+      summary: {
+        totalBudgeted,
+        totalActual,
+        totalVariance: totalActual - totalBudgeted,
+        totalVariancePercentage: totalBudgeted !== 0 
+          ? ((totalActual - totalBudgeted) / totalBudgeted) * 100 
+          : 0
+      }
+    };
+  }
+  
+  /**
+   * Budgeted amount falling within a date range. Each budget period runs from
+   * its date for one month, quarter or year.
+   */
+  private static budgetForPeriod(
+    periods: QBOBudgetData['budgetDetails'][number]['periods'],
+    periodType: QBOBudgetEntryType,
+    range: { start: string; end: string }
+  ): number {
+    const rangeStart = Date.parse(range.start);
+    const rangeEnd = Date.parse(range.end);
+    
+    return periods.reduce((sum, entry) => {
+      const [year, month, day] = entry.date.split('-').map(Number);
+      const coverStart = Date.UTC(year, month - 1, day);
+      const coverEnd = Date.UTC(year, month - 1 + BUDGET_PERIOD_MONTHS[periodType], day) - DAY_MS;
+      const overlapDays = (Math.min(rangeEnd, coverEnd) - Math.max(rangeStart, coverStart)) / DAY_MS + 1;
+      if (overlapDays <= 0) return sum;
+      const coverDays = (coverEnd - coverStart) / DAY_MS + 1;
+      return sum + entry.amount * (overlapDays / coverDays);
+    }, 0);
   }
   
   /**
-   * Parse LLM response and structure for UI
+   * Parse LLM response and structure for UI. With the financial data, a
+   * statement detail section lists the P&L accounts behind the analysis, and
+   * computed customer concentration and product mix replace the model's
+   * estimates.
    */
-  static parseLLMResponse(llmResponse: LLMAnalysisResponse): ReportSection[] {
+  static parseLLMResponse(llmResponse: LLMAnalysisResponse, financialData?: FinancialDataForLLM): ReportSection[] {
+    const format = currencyFormatOf(financialData?.metadata);
     const sections: ReportSection[] = [
       {
         id: 'executive-summary',
@@ -545,11 +1661,11 @@ export class DataTransformService {
           details: [
             {
               label: 'Operating Cash Flow',
-              value: this.formatCurrency(llmResponse.choice.cashFlowAnalysis.operatingCashFlow.amount)
+              value: this.formatCurrency(llmResponse.choice.cashFlowAnalysis.operatingCashFlow.amount, format)
             },
             {
               label: 'Free Cash Flow',
-              value: this.formatCurrency(llmResponse.choice.cashFlowAnalysis.freeCashFlow.amount)
+              value: this.formatCurrency(llmResponse.choice.cashFlowAnalysis.freeCashFlow.amount, format)
             },
             {
               label: 'Current Ratio',
@@ -576,7 +1692,7 @@ export class DataTransformService {
             headers: ['Revenue Stream', 'Amount', 'Percentage', 'Growth'],
             rows: llmResponse.choice.revenueMetrics.topRevenueStreams.map(stream => [
               stream.source,
-              this.formatCurrency(stream.amount),
+              this.formatCurrency(stream.amount, format),
               `${stream.percentage}%`,
               `${stream.growth}%`
             ])
@@ -588,7 +1704,7 @@ export class DataTransformService {
             },
             {
               label: 'Next Quarter Forecast',
-              value: this.formatCurrency(llmResponse.choice.revenueMetrics.forecast.nextQuarter)
+              value: this.formatCurrency(llmResponse.choice.revenueMetrics.forecast.nextQuarter, format)
             }
           ]
         }
@@ -605,13 +1721,13 @@ export class DataTransformService {
             headers: ['Category', 'Amount', '% of Revenue', 'Trend'],
             rows: llmResponse.choice.expenseReview.majorExpenses.map(expense => [
               expense.category,
-              this.formatCurrency(expense.amount),
+              this.formatCurrency(expense.amount, format),
               `${expense.percentageOfRevenue}%`,
               expense.trend
             ])
           },
           recommendations: llmResponse.choice.expenseReview.costSavingOpportunities.map(
-            opp => `${opp.area}: Save ${this.formatCurrency(opp.potentialSaving)} - ${opp.implementation}`
+            opp => `${opp.area}: Save ${this.formatCurrency(opp.potentialSaving, format)} - ${opp.implementation}`
           )
         }
       },
@@ -643,7 +1759,7 @@ export class DataTransformService {
           details: [
             {
               label: 'Working Capital',
-              value: this.formatCurrency(llmResponse.choice.workingCapitalLiquidity.workingCapital.amount)
+              value: this.formatCurrency(llmResponse.choice.workingCapitalLiquidity.workingCapital.amount, format)
             },
             {
               label: 'Cash Conversion Cycle',
@@ -702,7 +1818,7 @@ export class DataTransformService {
           details: [
             {
               label: 'Overall Variance',
-              value: this.formatCurrency(llmResponse.choice.budgetVsActual.overallVariance.amount)
+              value: this.formatCurrency(llmResponse.choice.budgetVsActual.overallVariance.amount, format)
             },
             {
               label: 'Variance Percentage',
@@ -714,9 +1830,9 @@ export class DataTransformService {
             headers: ['Category', 'Budget', 'Actual', 'Variance'],
             rows: llmResponse.choice.budgetVsActual.majorVariances.map(variance => [
               variance.category,
-              this.formatCurrency(variance.budgeted),
-              this.formatCurrency(variance.actual),
-              this.formatCurrency(variance.variance)
+              this.formatCurrency(variance.budgeted, format),
+              this.formatCurrency(variance.actual, format),
+              this.formatCurrency(variance.variance, format)
             ])
           }
         }
@@ -732,11 +1848,11 @@ export class DataTransformService {
           details: [
             {
               label: 'Revenue Projection',
-              value: this.formatCurrency(llmResponse.choice.forwardOutlook.longTermProjections.revenueProjection)
+              value: this.formatCurrency(llmResponse.choice.forwardOutlook.longTermProjections.revenueProjection, format)
             },
             {
               label: 'Profit Projection',
-              value: this.formatCurrency(llmResponse.choice.forwardOutlook.longTermProjections.profitProjection)
+              value: this.formatCurrency(llmResponse.choice.forwardOutlook.longTermProjections.profitProjection, format)
             }
           ],
           recommendations: llmResponse.choice.forwardOutlook.strategicRecommendations.map(
@@ -747,9 +1863,352 @@ export class DataTransformService {
       }
     ];
     
+    if (financialData) {
+      // After the performance snapshot, whose figures these accounts make up
+      sections.splice(2, 0, this.buildStatementDetailSection(
+        financialData.financialStatements.profitLoss.current,
+        financialData.metadata.reportPeriod,
+        format
+      ));
+      if (financialData.segments) {
+        sections.splice(3, 0, this.buildSegmentComparisonSection(financialData.segments, format));
+      }
+      if (financialData.consolidation) {
+        sections.splice(2, 0, this.buildConsolidationSection(financialData.consolidation, format));
+      }
+      if (financialData.benchmarks) {
+        const index = sections.findIndex(section => section.id === 'kpi-dashboard');
+        sections.splice(index + 1 || sections.length, 0, this.buildBenchmarkSection(financialData.benchmarks));
+      }
+      if (financialData.scenarios?.length) {
+        const index = sections.findIndex(section => section.id === 'forward-outlook');
+        sections.splice(index + 1 || sections.length, 0, this.buildScenarioSection(financialData.scenarios, format));
+      }
+      if (financialData.foreignExchange) {
+        // Foreign balances are part of working capital, so they follow it
+        const index = sections.findIndex(section => section.id === 'working-capital');
+        sections.splice(index + 1 || sections.length, 0, this.buildForeignExchangeSection(financialData.foreignExchange, format));
+      }
+      
+      const concentration = financialData.customerConcentration;
+      const revenueSection = sections.find(section => section.id === 'revenue-metrics');
+      if (concentration && revenueSection) {
+        revenueSection.content.summary = describeCustomerConcentration(concentration);
+        revenueSection.content.chart = this.prepareCustomerConcentrationChart(concentration);
+        revenueSection.content.details = [
+          {
+            label: 'Customer Concentration Risk',
+            value: concentration.risk,
+            subItems: [
+              { label: 'Largest Customer', value: `${concentration.topShares.top1}%` },
+              { label: 'Top 5 Customers', value: `${concentration.topShares.top5}%` },
+              { label: 'Top 10 Customers', value: `${concentration.topShares.top10}%` },
+              { label: 'Herfindahl Index', value: concentration.herfindahlIndex }
+            ]
+          },
+          ...(revenueSection.content.details || []).filter(detail => detail.label !== 'Customer Concentration Risk')
+        ];
+      }
+      
+      const forecast = financialData.cashForecast;
+      const outlookSection = sections.find(section => section.id === 'forward-outlook');
+      if (forecast && outlookSection) {
+        this.addCashForecast(outlookSection, forecast, format);
+      }
+      
+      const productMix = financialData.productMix;
+      if (productMix?.lines.length && revenueSection) {
+        revenueSection.content.table = {
+          type: 'table',
+          headers: ['Product / Service', 'Revenue', '% of Sales', 'Qty', 'Avg Price', 'Gross Margin', 'Growth'],
+          rows: productMix.lines.slice(0, 10).map(line => [
+            line.name,
+            this.formatCurrency(line.revenue, format),
+            `${line.share}%`,
+            line.quantity,
+            line.averagePrice === null ? 'n/a' : this.formatCurrency(line.averagePrice, format),
+            line.grossMarginPercent === null ? 'n/a' : `${line.grossMarginPercent}%`,
+            line.previousRevenue === undefined ? 'n/a' : line.growth === null ? 'new' : `${line.growth}%`
+          ])
+        };
+      }
+    }
+    
     return sections;
   }
   
+  /**
+   * P&L totals with one sub-item per account. Accounts QBO identifies can be
+   * drilled into to list their transactions for the period.
+   */
+  static buildStatementDetailSection(
+    profitLoss: ProfitLossStatement,
+    period: { start: string; end: string },
+    format: CurrencyFormat = DEFAULT_CURRENCY_FORMAT
+  ): ReportSection {
+    const line = (label: string, total: number, breakdown: AccountLine[] = []) => ({
+      label,
+      value: this.formatCurrency(total, format),
+      subItems: breakdown.map(account => ({
+        label: account.category,
+        value: this.formatCurrency(account.amount, format),
+        ...(account.accountId ? {
+          drillDown: {
+            accountId: account.accountId,
+            accountName: account.category,
+            start: period.start,
+            end: period.end
+          }
+        } : {})
+      }))
+    });
+    
+    return {
+      id: 'statement-detail',
+      title: 'Profit & Loss Detail',
+      icon: 'list',
+      expanded: false,
+      content: {
+        details: [
+          line('Revenue', profitLoss.revenue.total, profitLoss.revenue.breakdown),
+          line('Cost of Goods Sold', profitLoss.costOfGoodsSold.total, profitLoss.costOfGoodsSold.breakdown),
+          line('Gross Profit', profitLoss.grossProfit),
+          line('Operating Expenses', profitLoss.operatingExpenses.total, profitLoss.operatingExpenses.breakdown),
+          line('Operating Income', profitLoss.operatingIncome),
+          line('Other Income & Expenses', profitLoss.otherIncomeExpenses.total, profitLoss.otherIncomeExpenses.breakdown),
+          line('Tax Expense', profitLoss.taxExpense),
+          line('Net Income', profitLoss.netIncome)
+        ]
+      }
+    };
+  }
+  
+  /**
+   * Segment KPIs and comparison table, computed from the segmented P&L
+   */
+  static buildSegmentComparisonSection(
+    segmented: SegmentedProfitLoss,
+    format: CurrencyFormat = DEFAULT_CURRENCY_FORMAT
+  ): ReportSection {
+    const label = SEGMENT_DIMENSION_LABELS[segmented.dimension];
+    const { headers, rows } = buildSegmentComparisonTable(segmented, format);
+    const ranked = segmented.segments.filter(segment => !segment.unassigned);
+    const unassigned = segmented.segments.find(segment => segment.unassigned);
+    
+    return {
+      id: 'segment-comparison',
+      title: `Performance by ${label}`,
+      icon: 'layers',
+      expanded: true,
+      content: {
+        summary: ranked.length
+          ? `${ranked.length} ${label.toLowerCase()} segments; ${ranked[0].name} is the largest at ${ranked[0].kpis.revenueShare ?? 0}% of revenue.`
+          : `No revenue was assigned to a ${label.toLowerCase()} in the period.`,
+        chart: {
+          labels: segmented.segments.map(segment => segment.name),
+          datasets: [
+            {
+              label: 'Revenue',
+              data: segmented.segments.map(segment => segment.kpis.revenue),
+              backgroundColor: '#3b82f6'
+            },
+            {
+              label: 'Net Income',
+              data: segmented.segments.map(segment => segment.kpis.netIncome),
+              backgroundColor: '#10b981'
+            }
+          ]
+        },
+        table: { type: 'table', headers, rows },
+        insights: unassigned && unassigned.kpis.revenueShare
+          ? [`${unassigned.kpis.revenueShare}% of revenue has no ${label.toLowerCase()} assigned in QuickBooks.`]
+          : undefined
+      }
+    };
+  }
+  
+  /**
+   * Consolidation schedule: each company's column, the eliminations and the
+   * consolidated total
+   */
+  static buildConsolidationSection(
+    schedule: ConsolidationSchedule,
+    format: CurrencyFormat = DEFAULT_CURRENCY_FORMAT
+  ): ReportSection {
+    const amount = (value: number) => value === 0 ? '-' : this.formatCurrency(value, format);
+    const eliminationCount = schedule.eliminations.length;
+    
+    return {
+      id: 'consolidation',
+      title: `Consolidation: ${schedule.groupName}`,
+      icon: 'layers',
+      expanded: true,
+      content: {
+        summary: `Consolidated statements of ${schedule.entities.map(entity => entity.companyName).join(', ')}` +
+          (eliminationCount
+            ? ` after ${eliminationCount} intercompany elimination${eliminationCount === 1 ? '' : 's'}.`
+            : '; no intercompany balances were eliminated.'),
+        table: {
+          type: 'table',
+          headers: ['Line', ...schedule.entities.map(entity => entity.companyName), 'Eliminations', 'Consolidated'],
+          rows: schedule.lines.map(line => [
+            line.label,
+            ...line.entities.map(amount),
+            amount(line.eliminations),
+            amount(line.consolidated)
+          ])
+        },
+        details: schedule.eliminations.map(elimination => ({
+          label: elimination.description,
+          value: this.formatCurrency(elimination.amount, format)
+        })),
+        insights: [
+          ...(schedule.eliminatedProfit
+            ? [`Eliminating intercompany activity changed consolidated net income by ${this.formatCurrency(-schedule.eliminatedProfit, format)}.`]
+            : []),
+          ...(schedule.unmatchedEliminations
+            ? [`Eliminations are out of balance by ${this.formatCurrency(schedule.unmatchedEliminations, format)}; check the intercompany accounts on both sides.`]
+            : [])
+        ]
+      }
+    };
+  }
+  
+  /**
+   * The KPIs against the industry's benchmark quartiles, citing the dataset
+   * the quartiles came from
+   */
+  static buildBenchmarkSection(summary: BenchmarkSummary): ReportSection {
+    return {
+      id: 'industry-benchmarks',
+      title: `Industry Benchmarks: ${summary.industryTitle}`,
+      icon: 'target',
+      expanded: false,
+      content: {
+        summary: `${describeBenchmarks(summary)}.`,
+        table: {
+          type: 'table',
+          headers: ['KPI', 'Company', 'Lower Quartile', 'Median', 'Upper Quartile', 'Position'],
+          rows: summary.comparisons.map(comparison => [
+            comparison.name,
+            formatBenchmarkValue(comparison.value, comparison.unit),
+            formatBenchmarkValue(comparison.quartiles.lowerQuartile, comparison.unit),
+            formatBenchmarkValue(comparison.quartiles.median, comparison.unit),
+            formatBenchmarkValue(comparison.quartiles.upperQuartile, comparison.unit),
+            comparison.status ? BENCHMARK_STATUS_LABELS[comparison.status] : 'Not calculated'
+          ])
+        },
+        details: [
+          { label: 'Industry', value: `${summary.industryTitle} (NAICS ${summary.naicsCode})` },
+          { label: 'Peer Group', value: summary.bandLabel },
+          { label: 'Benchmark Source', value: benchmarkCitation(summary) }
+        ],
+        insights: [`Benchmarks: ${summary.basis}`]
+      }
+    };
+  }
+  
+  /**
+   * Put the 13-week cash forecast's weekly table and lowest cash point in the
+   * Forward Outlook, ahead of the LLM's projections
+   */
+  static addCashForecast(
+    section: ReportSection,
+    forecast: CashForecast,
+    format: CurrencyFormat = DEFAULT_CURRENCY_FORMAT
+  ): void {
+    section.content.table = cashForecastTable(forecast, format);
+    section.content.details = [
+      {
+        label: 'Lowest Cash Point',
+        value: `${this.formatCurrency(forecast.lowestCash.amount, format)} in week ${forecast.lowestCash.week} (from ${forecast.lowestCash.weekStart})`,
+        subItems: [
+          { label: 'Bank Balance Today', value: this.formatCurrency(forecast.openingCash, format) },
+          { label: 'Open Invoices', value: this.formatCurrency(forecast.openReceivables, format) },
+          { label: 'Open Bills', value: this.formatCurrency(forecast.openPayables, format) },
+          { label: 'Average Collection Lag', value: `${forecast.collectionLag.days} days past due` }
+        ]
+      },
+      ...(section.content.details || [])
+    ];
+    section.content.insights = [
+      describeCashForecast(forecast, format),
+      ...forecast.notes,
+      ...(section.content.insights || [])
+    ];
+  }
+  
+  /**
+   * The scenarios side by side, with each one's month-end cash over its
+   * horizon
+   */
+  static buildScenarioSection(
+    projections: ScenarioProjection[],
+    format: CurrencyFormat = DEFAULT_CURRENCY_FORMAT
+  ): ReportSection {
+    const longest = projections.reduce((a, b) => (b.months.length > a.months.length ? b : a));
+    
+    return {
+      id: 'scenarios',
+      title: 'Scenario Projections',
+      icon: 'trending-up',
+      expanded: false,
+      content: {
+        summary: `${projections.length} scenario${projections.length === 1 ? '' : 's'} projected from the run rates and balances as of ${longest.baselineAsOf}.`,
+        table: scenarioComparisonTable(projections, format),
+        chart: {
+          labels: longest.months.map(month => month.month),
+          datasets: projections.map(projection => ({
+            label: `${projection.name} Cash`,
+            data: projection.months.map(month => month.cash)
+          }))
+        },
+        insights: projections.map(projection => describeScenario(projection, format))
+      }
+    };
+  }
+  
+  /**
+   * Foreign-currency balances translated at the period-end rates, with the
+   * realized and unrealized exchange gains kept apart
+   */
+  static buildForeignExchangeSection(
+    fx: ForeignExchangeSummary,
+    format: CurrencyFormat = DEFAULT_CURRENCY_FORMAT
+  ): ReportSection {
+    const amount = (value: number | null) => value === null ? 'n/a' : this.formatCurrency(value, format);
+    
+    return {
+      id: 'foreign-exchange',
+      title: `Foreign Exchange (${fx.homeCurrency})`,
+      icon: 'globe',
+      expanded: false,
+      content: {
+        summary: `${describeForeignExchange(fx, format)}.`,
+        table: fx.balances.length ? {
+          type: 'table',
+          headers: ['Account', 'Currency', 'Foreign Balance', 'Rate', 'Book Value', 'Translated Value', 'Unrealized Gain (Loss)'],
+          rows: fx.balances.map(balance => [
+            balance.accountName,
+            balance.currency,
+            balance.foreignBalance === null
+              ? 'n/a'
+              : formatMoney(balance.foreignBalance, { currency: balance.currency, locale: format.locale }),
+            balance.rate ?? 'n/a',
+            amount(balance.bookValue),
+            amount(balance.translatedValue),
+            amount(balance.unrealizedGainLoss)
+          ])
+        } : undefined,
+        details: [
+          { label: 'Realized Exchange Gain (Loss)', value: amount(fx.realizedGainLoss) },
+          { label: 'Unrealized Exchange Gain (Loss)', value: amount(fx.unrealizedGainLoss) }
+        ],
+        insights: fx.unrealizedNote ? [fx.unrealizedNote] : undefined
+      }
+    };
+  }
+  
   /**
    * Prepare data for dashboard display
    */
@@ -763,15 +2222,19 @@ export class DataTransformService {
         totalExpenses: financialData.financialStatements.profitLoss.current.operatingExpenses.total,
         netIncome: financialData.financialStatements.profitLoss.current.netIncome,
         cashBalance: financialData.financialStatements.balanceSheet.current.assets.current.cash,
-        revenueGrowth: llmResponse.choice.yearOverYearAnalysis.revenueGrowth.percentage,
-        profitMargin: llmResponse.choice.financialPerformanceSnapshot.profitabilityAnalysis.margins.net
+        revenueGrowth: financialData.calculatedMetrics.growthMetrics.revenueGrowthRate
+          ?? llmResponse.choice.yearOverYearAnalysis.revenueGrowth.percentage,
+        profitMargin: financialData.calculatedMetrics.profitabilityRatios.netProfitMargin
+          ?? llmResponse.choice.financialPerformanceSnapshot.profitabilityAnalysis.margins.net
       },
       
       charts: {
         revenueChart: this.prepareRevenueChart(financialData),
         expenseChart: this.prepareExpenseChart(financialData),
         cashFlowChart: this.prepareCashFlowChart(financialData),
-        profitTrendChart: this.prepareProfitTrendChart(financialData)
+        profitTrendChart: this.prepareProfitTrendChart(financialData),
+        customerConcentrationChart: financialData.customerConcentration
+          && this.prepareCustomerConcentrationChart(financialData.customerConcentration)
       },
       
       kpis: llmResponse.choice.kpiDashboard.financialKPIs.map(kpi => ({
@@ -934,6 +2397,25 @@ export class DataTransformService {
     };
   }
   
+  /**
+   * Share of revenue from each of the largest customers and from all others
+   */
+  private static prepareCustomerConcentrationChart(concentration: CustomerConcentration): ChartData {
+    const listed = concentration.topCustomers.reduce((sum, customer) => sum + customer.share, 0);
+    const others = Math.max(0, Math.round((100 - listed) * 100) / 100);
+    return {
+      labels: [
+        ...concentration.topCustomers.map(customer => customer.customerName),
+        ...(others > 0 ? ['All other customers'] : [])
+      ],
+      datasets: [{
+        label: 'Share of Revenue (%)',
+        data: [...concentration.topCustomers.map(customer => customer.share), ...(others > 0 ? [others] : [])],
+        backgroundColor: ['#ef4444', '#f59e0b', '#10b981', '#3b82f6', '#8b5cf6', '#9ca3af']
+      }]
+    };
+  }
+  
   private static prepareCashFlowChart(data: FinancialDataForLLM): ChartData {
     return {
       labels: ['Operating', 'Investing', 'Financing'],
@@ -963,12 +2445,9 @@ export class DataTransformService {
   }
   
   /**
-   * Format currency for display
+   * Format currency for display in the company's currency and locale
    */
-  private static formatCurrency(amount: number): string {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD'
-    }).format(amount);
+  private static formatCurrency(amount: number, format: CurrencyFormat = DEFAULT_CURRENCY_FORMAT): string {
+    return formatMoney(amount, format);
   }
 }
\ No newline at end of file
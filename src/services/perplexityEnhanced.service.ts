@@ -1,4 +1,14 @@
 import { FinancialDataForLLM, LLMAnalysisResponse } from '../types/financial.types';
+import { describeCustomerConcentration } from '../lib/customerConcentration';
+import { SEGMENT_DIMENSION_LABELS } from '../lib/segmentAnalysis';
+import { COMPANY_SIZE_LABELS, INDUSTRY_LABELS, isCompanySize, isIndustry } from '../lib/companyProfile';
+import { benchmarkCitation, describeBenchmarks } from '../lib/industryBenchmarks';
+import { currencyFormatOf } from '../lib/currency';
+import { describeScenario } from '../lib/scenarioModel';
+import { describeCashForecast } from '../lib/cashForecast';
+
+/** Products and services listed as top revenue streams */
+const TOP_REVENUE_STREAMS = 10;
 
 export class PerplexityEnhancedService {
   private static readonly API_KEY = import.meta.env.VITE_PERPLEXITY_API_KEY;
@@ -45,7 +55,38 @@ export class PerplexityEnhancedService {
       const parsedResponse = JSON.parse(content);
       
       // Ensure response has the expected structure
-      return this.validateAndFormatResponse(parsedResponse);
+      const analysis = this.validateAndFormatResponse(parsedResponse);
+      
+      // Data quality comes from the statement checks, not the model's own rating
+      if (financialData.dataValidation) {
+        analysis.metadata.dataQuality = financialData.dataValidation.dataQuality;
+        analysis.metadata.limitations = [
+          ...analysis.metadata.limitations,
+          ...financialData.dataValidation.issues.map(issue => issue.message)
+        ];
+      }
+      
+      // Concentration risk is computed from customer sales; keep the model's commentary
+      if (financialData.customerConcentration) {
+        analysis.choice.revenueMetrics.customerConcentration = {
+          risk: financialData.customerConcentration.risk,
+          details: analysis.choice.revenueMetrics.customerConcentration?.details
+            || describeCustomerConcentration(financialData.customerConcentration)
+        };
+      }
+      
+      // Top products and services come from Sales by Product/Service
+      if (financialData.productMix?.lines.length) {
+        analysis.choice.revenueMetrics.topRevenueStreams = financialData.productMix.lines
+          .slice(0, TOP_REVENUE_STREAMS)
+          .map(line => ({
+            source: line.name,
+            amount: line.revenue,
+            percentage: line.share,
+            growth: line.growth ?? 0
+          }));
+      }
+      return analysis;
     } catch (error) {
       console.error('Error analyzing financial data:', error);
       throw error;
@@ -85,7 +126,7 @@ You must respond with a JSON object that contains a 'choice' key with the follow
 Analysis Guidelines:
 1. Be specific and quantitative in your analysis
 2. Provide actionable recommendations with clear implementation steps
-3. Compare metrics to industry benchmarks when available
+3. Compare metrics only to the INDUSTRY BENCHMARKS given; never estimate benchmark figures
 4. Identify both opportunities and risks
 5. Use professional financial terminology appropriately
 6. Prioritize insights by business impact
@@ -93,7 +134,8 @@ Analysis Guidelines:
 8. Provide forward-looking guidance based on trends
 9. Include tax optimization strategies where applicable
 10. Format all percentages as numbers (e.g., 15.5 not "15.5%")
-11. Format all currency amounts as numbers without symbols`;
+11. Format all currency amounts as numbers without symbols
+12. Use the figures in CALCULATED METRICS exactly as given and explain them; do not recalculate them. A null value means the metric could not be calculated, and its note says why`;
   }
   
   /**
@@ -105,20 +147,74 @@ Analysis Guidelines:
 COMPANY INFORMATION:
 - Company: ${data.metadata.companyName}
 - Report Period: ${data.metadata.reportPeriod.start} to ${data.metadata.reportPeriod.end}
-- Industry: ${data.metadata.industry || 'Not specified'}
-- Company Size: ${data.metadata.companySize || 'Not specified'}
+- Accounting Basis: ${data.metadata.accountingMethod}
+${data.trialBalance ? `- Statement Source: built from the trial balance as of ${data.trialBalance.asOf}\n` : ''}${data.metadata.fiscalPeriod ? `- Fiscal Period: FY${data.metadata.fiscalPeriod.fiscalYear} P${data.metadata.fiscalPeriod.period} (Q${data.metadata.fiscalPeriod.quarter})\n` : ''}- Industry: ${data.metadata.industry
+  ? `${isIndustry(data.metadata.industry) ? INDUSTRY_LABELS[data.metadata.industry] : data.metadata.industry}${data.metadata.industryBasis ? ` (${data.metadata.industryBasis})` : ''}`
+  : 'Not specified'}
+- Company Size: ${data.metadata.companySize
+  ? `${isCompanySize(data.metadata.companySize) ? COMPANY_SIZE_LABELS[data.metadata.companySize] : data.metadata.companySize}${data.metadata.companySizeBasis ? ` (${data.metadata.companySizeBasis})` : ''}`
+  : 'Not specified'}
 - Currency: ${data.metadata.currency}
 
 FINANCIAL STATEMENTS DATA:
 ${JSON.stringify(data.financialStatements, null, 2)}
 
-SUPPLEMENTARY REPORTS:
+${data.periodVariance ? `PERIOD-OVER-PERIOD VARIANCE (${data.periodVariance.comparison}; significance against materiality of ${data.periodVariance.thresholds.amount} and ${data.periodVariance.thresholds.percent}%):
+${JSON.stringify({
+  largestMovements: data.periodVariance.topMovements,
+  totals: data.periodVariance.lines.filter(line => line.isTotal)
+}, null, 2)}
+
+` : ''}${data.basisReconciliation ? `CASH VS ACCRUAL RECONCILIATION (statements above are on a ${data.basisReconciliation.reportBasis} basis; difference = accrual - cash):
+${JSON.stringify(data.basisReconciliation.lines, null, 2)}
+
+` : ''}${data.dataValidation?.issues.length ? `DATA VALIDATION WARNINGS (mention these where they affect the analysis):
+${data.dataValidation.issues.map(issue => `- ${issue.message}`).join('\n')}
+
+` : ''}SUPPLEMENTARY REPORTS:
 ${JSON.stringify(data.supplementaryReports, null, 2)}
 
-CALCULATED METRICS:
+CALCULATED METRICS (computed from the statements above; each KPI lists its formula and inputs):
 ${JSON.stringify(data.calculatedMetrics, null, 2)}
 
-HISTORICAL TRENDS:
+${data.customerConcentration ? `CUSTOMER CONCENTRATION (computed from Sales by Customer; use this risk tier and these shares as given in revenueMetrics.customerConcentration):
+${JSON.stringify(data.customerConcentration, null, 2)}
+
+` : ''}${data.productMix ? `PRODUCT AND SERVICE MIX (computed from Sales by Product/Service${data.productMix.previousPeriod ? `; growth is against ${data.productMix.previousPeriod.start} to ${data.productMix.previousPeriod.end}` : ''}; use these as revenueMetrics.topRevenueStreams. marginSource says whether cost came from the item's purchase cost or the report's COGS):
+${JSON.stringify({ ...data.productMix, lines: data.productMix.lines.slice(0, TOP_REVENUE_STREAMS * 2) }, null, 2)}
+
+` : ''}${data.segments ? `SEGMENT PERFORMANCE BY ${SEGMENT_DIMENSION_LABELS[data.segments.dimension].toUpperCase()} (computed from the P&L by ${SEGMENT_DIMENSION_LABELS[data.segments.dimension]}; compare the segments' margins and shares and explain which drive the results):
+${JSON.stringify({
+  total: data.segments.totalKpis,
+  segments: data.segments.segments.map(({ name, unassigned, kpis }) => ({ name, unassigned, ...kpis }))
+}, null, 2)}
+
+` : ''}${data.consolidation ? `CONSOLIDATION (the statements above consolidate ${data.consolidation.entities.map(entity => entity.companyName).join(', ')} after intercompany eliminations; comment on each company's contribution and do not treat eliminated intercompany activity as group revenue or cost):
+${JSON.stringify({
+  entities: data.consolidation.entities.map(entity => entity.companyName),
+  lines: data.consolidation.lines.map(({ label, entities, eliminations, consolidated }) => ({ label, entities, eliminations, consolidated })),
+  eliminatedProfit: data.consolidation.eliminatedProfit
+}, null, 2)}
+
+` : ''}${data.foreignExchange ? `FOREIGN EXCHANGE (all amounts above are in ${data.foreignExchange.homeCurrency}; foreign balances are translated at the ${data.foreignExchange.asOfDate} rates. Report realized and unrealized exchange gains separately and do not treat them as operating results${data.foreignExchange.unrealizedGainLoss === null ? '; the unrealized gain could not be computed, so do not estimate it' : ''}):
+${JSON.stringify(data.foreignExchange, null, 2)}
+
+` : ''}${data.benchmarks ? `INDUSTRY BENCHMARKS (${describeBenchmarks(data.benchmarks)}; ${benchmarkCitation(data.benchmarks)}. Use each comparison's median as the kpiDashboard benchmark and its status as given, cite the source when discussing benchmarks, and leave the benchmark empty for KPIs not listed here):
+${JSON.stringify(data.benchmarks.comparisons, null, 2)}
+
+` : ''}${data.scenarios?.length ? `SCENARIO PROJECTIONS (computed from the period-end statements and each scenario's driver assumptions: ${data.scenarios.map(scenario => describeScenario(scenario, currencyFormatOf(data.metadata))).join('; ')}. Use these projections as given for the forwardOutlook scenarios, compare them and explain which drivers move the results; do not project other figures for them):
+${JSON.stringify(data.scenarios.map(scenario => ({
+  name: scenario.name,
+  drivers: scenario.drivers,
+  totals: scenario.totals,
+  minimumCash: scenario.minimumCash,
+  ending: scenario.months[scenario.months.length - 1]
+})), null, 2)}
+
+` : ''}${data.cashForecast ? `13-WEEK CASH FORECAST (from today's bank balance, open invoices at the historical collection lag, open bills by due date and recurring payroll and rent: ${describeCashForecast(data.cashForecast, currencyFormatOf(data.metadata))}. Base the forwardOutlook cash needs and cash runway on these weeks and report the lowest cash point as given):
+${JSON.stringify(data.cashForecast, null, 2)}
+
+` : ''}HISTORICAL TRENDS:
 ${JSON.stringify(data.trends, null, 2)}
 
 ANALYSIS CONTEXT:
@@ -138,7 +234,7 @@ Please provide a comprehensive financial analysis following the JSON structure s
 10. Tax optimization opportunities
 
 For each section, provide:
-- Quantitative metrics and calculations
+- Quantitative metrics taken from CALCULATED METRICS
 - Qualitative insights and interpretations
 - Specific, actionable recommendations
 - Priority levels for actions
@@ -355,19 +451,25 @@ Provide analysis including:
     financialData: FinancialDataForLLM,
     industry: string
   ): Promise<any> {
-    const systemPrompt = `You are an expert financial analyst with deep knowledge of the ${industry} industry. Provide industry-specific analysis and benchmarking.`;
+    const industryName = isIndustry(industry) ? INDUSTRY_LABELS[industry] : industry;
+    const benchmarks = financialData.benchmarks;
+    const systemPrompt = `You are an expert financial analyst with deep knowledge of the ${industryName} industry. Provide industry-specific analysis. Use only the benchmark figures you are given and never estimate benchmark numbers.`;
     
-    const userPrompt = `Analyze this company's financial performance in the context of the ${industry} industry:
+    const userPrompt = `Analyze this company's financial performance in the context of the ${industryName} industry:
 
 ${JSON.stringify(financialData, null, 2)}
 
+${benchmarks
+  ? `The benchmarks field compares the company's KPIs with ${benchmarks.industryTitle} quartiles (peer group: ${benchmarks.bandLabel}; ${benchmarkCitation(benchmarks)}). Use these figures as given and cite the source.`
+  : 'No benchmark dataset covers this industry, so make no numeric benchmark comparisons.'}
+
 Provide:
-1. Industry benchmark comparisons
+1. Industry benchmark comparisons, from the benchmarks field only
 2. Competitive positioning assessment
 3. Industry-specific KPIs analysis
 4. Market trend impact analysis
 5. Regulatory considerations
-6. Growth opportunities specific to ${industry}
+6. Growth opportunities specific to ${industryName}
 7. Industry-specific risks and mitigation strategies`;
     
     const response = await fetch(`${this.API_BASE_URL}/chat/completions`, {
@@ -395,56 +497,6 @@ Provide:
     return data.choices[0].message.content;
   }
   
-  /**
-   * Get scenario analysis
-   */
-  static async getScenarioAnalysis(
-    financialData: FinancialDataForLLM,
-    scenarios: Array<{ name: string; assumptions: string[] }>
-  ): Promise<any> {
-    const systemPrompt = `You are an expert financial analyst specializing in scenario planning and financial modeling. Provide detailed scenario analysis with quantitative projections.`;
-    
-    const userPrompt = `Based on the following financial data, provide scenario analysis for the specified scenarios:
-
-CURRENT FINANCIAL DATA:
-${JSON.stringify(financialData, null, 2)}
-
-SCENARIOS TO ANALYZE:
-${JSON.stringify(scenarios, null, 2)}
-
-For each scenario, provide:
-1. Financial impact projections
-2. Key metrics under each scenario
-3. Risk assessment
-4. Mitigation strategies
-5. Probability assessment
-6. Decision recommendations`;
-    
-    const response = await fetch(`${this.API_BASE_URL}/chat/completions`, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${this.API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'pplx-70b-online',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userPrompt }
-        ],
-        temperature: 0.3,
-        max_tokens: 4000
-      }),
-    });
-    
-    if (!response.ok) {
-      throw new Error(`Perplexity API error: ${response.statusText}`);
-    }
-    
-    const data = await response.json();
-    return data.choices[0].message.content;
-  }
-  
   /**
    * Get executive briefing
    */
@@ -7,6 +7,15 @@
  */
 
 import { QBOToken, QBOTokenService, QBOError } from '../lib/supabase-clerk'
+import {
+  AccountingMethod,
+  QBOAccount,
+  QBOBudget,
+  QBOExchangeRate,
+  QBOItem,
+  QBOOpenTransaction,
+  QBOPayment
+} from '../types/financial.types'
 
 // =====================================================
 // TYPES & INTERFACES
@@ -75,6 +84,23 @@ export interface QBOCompanyInfo {
   }
 }
 
+/**
+ * Reports that accept accounting_method. The aging and cash flow reports
+ * have no basis option, so the parameter is not sent to them.
+ */
+const ACCOUNTING_METHOD_REPORTS = new Set([
+  'ProfitAndLoss',
+  'ProfitAndLossDetail',
+  'BalanceSheet',
+  'TrialBalance',
+  'GeneralLedger',
+  'CustomerIncome',
+  'CustomerSales',
+  'ItemSales',
+  'ClassSales',
+  'DepartmentSales'
+])
+
 // =====================================================
 // TOKEN MANAGER
 // =====================================================
@@ -458,6 +484,89 @@ export class QBOApiClient {
     }))
   }
 
+  /**
+   * Run a select through every page of QBO's 1000-row query limit
+   */
+  private async queryAll<T>(realmId: string, entity: string, where: string = ''): Promise<QBOApiResponse<T[]>> {
+    const pageSize = 1000
+    const rows: T[] = []
+
+    for (let start = 1; ; start += pageSize) {
+      const response = await this.query<Record<string, T[] | undefined>>(
+        realmId,
+        `select * from ${entity}${where} startposition ${start} maxresults ${pageSize}`
+      )
+      if (!response.success) {
+        return { ...response, data: undefined }
+      }
+
+      const page = response.data?.[entity] || []
+      rows.push(...page)
+      if (page.length < pageSize) {
+        return { ...response, data: rows }
+      }
+    }
+  }
+
+  /**
+   * Get the full chart of accounts
+   */
+  async getAccounts(
+    realmId: string,
+    options: { includeInactive?: boolean } = {}
+  ): Promise<QBOApiResponse<QBOAccount[]>> {
+    return this.queryAll<QBOAccount>(realmId, 'Account', options.includeInactive ? ' where Active in (true, false)' : '')
+  }
+
+  /**
+   * Get all products and services. Inactive items are included because they
+   * can still carry sales history.
+   */
+  async getItems(realmId: string): Promise<QBOApiResponse<QBOItem[]>> {
+    return this.queryAll<QBOItem>(realmId, 'Item', ' where Active in (true, false)')
+  }
+
+  /**
+   * Get the invoices or bills with an open balance
+   */
+  async getOpenTransactions(realmId: string, entity: 'Invoice' | 'Bill'): Promise<QBOApiResponse<QBOOpenTransaction[]>> {
+    return this.queryAll<QBOOpenTransaction>(realmId, entity, " where Balance > '0'")
+  }
+
+  /**
+   * Get the invoices dated on or after a date, paid or open
+   */
+  async getInvoices(realmId: string, since: string): Promise<QBOApiResponse<QBOOpenTransaction[]>> {
+    return this.queryAll<QBOOpenTransaction>(realmId, 'Invoice', ` where TxnDate >= '${since}'`)
+  }
+
+  /**
+   * Get the customer payments received on or after a date
+   */
+  async getPayments(realmId: string, since: string): Promise<QBOApiResponse<QBOPayment[]>> {
+    return this.queryAll<QBOPayment>(realmId, 'Payment', ` where TxnDate >= '${since}'`)
+  }
+
+  /**
+   * Get all budgets. QBO budgets are few per company, so a single page is enough.
+   */
+  async getBudgets(realmId: string): Promise<QBOApiResponse<QBOBudget[]>> {
+    const response = await this.query<{ Budget?: QBOBudget[] }>(realmId, 'select * from Budget')
+    return { ...response, data: response.success ? response.data?.Budget || [] : undefined }
+  }
+
+  /**
+   * Get the exchange rates QBO holds for a date, one per foreign currency the
+   * company uses, each stated in the home currency
+   */
+  async getExchangeRates(realmId: string, asOfDate: string): Promise<QBOApiResponse<QBOExchangeRate[]>> {
+    const response = await this.query<{ ExchangeRate?: QBOExchangeRate[] }>(
+      realmId,
+      `select * from ExchangeRate where AsOfDate = '${asOfDate}'`
+    )
+    return { ...response, data: response.success ? response.data?.ExchangeRate || [] : undefined }
+  }
+
   /**
    * Get entity by ID
    */
@@ -558,16 +667,20 @@ export class QBOApiClient {
   }
 
   /**
-   * Get report
+   * Get report, on the given accounting basis where the report supports one
    */
   async getReport(
     realmId: string,
     reportType: string,
-    params?: Record<string, string>
+    params?: Record<string, string>,
+    accountingMethod?: AccountingMethod
   ): Promise<QBOApiResponse<any>> {
+    const queryParams = accountingMethod && ACCOUNTING_METHOD_REPORTS.has(reportType)
+      ? { ...params, accounting_method: accountingMethod }
+      : params
     return this.request(realmId, {
       endpoint: `reports/${reportType}`,
-      queryParams: params
+      queryParams
     })
   }
 
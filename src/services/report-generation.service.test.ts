@@ -0,0 +1,260 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { QBOReportRow } from '../types/financial.types';
+
+// The service loads public/prompt.txt when the module is imported
+const { fetchMock } = vi.hoisted(() => {
+  const fetchMock = vi.fn<(url: string) => Promise<Response>>(async () => new Response('System prompt'));
+  vi.stubGlobal('fetch', fetchMock);
+  return { fetchMock };
+});
+
+vi.mock('../lib/supabase', () => ({ supabase: {} }));
+
+import { MonthlyReportRequest, reportGenerationService } from './report-generation.service';
+
+const COLUMNS = { Column: [{ ColTitle: '', ColType: 'Account' }, { ColTitle: 'Total', ColType: 'Money' }] };
+
+const data = (label: string, amount: number, id?: string): QBOReportRow => ({
+  type: 'Data',
+  ColData: [{ value: label, ...(id ? { id } : {}) }, { value: amount.toFixed(2) }]
+});
+
+const section = (group: string, label: string, rows: QBOReportRow[], total: number): QBOReportRow => ({
+  type: 'Section',
+  group,
+  ...(rows.length ? { Header: { ColData: [{ value: label }, { value: '' }] }, Rows: { Row: rows } } : {}),
+  Summary: { ColData: [{ value: rows.length ? `Total ${label}` : label }, { value: total.toFixed(2) }] }
+});
+
+const workflowReport = (reportName: string, start: string, end: string, rows: QBOReportRow[], columns = COLUMNS) => ({
+  headers: { ReportName: reportName, StartPeriod: start, EndPeriod: end, Currency: 'USD' },
+  columns,
+  rows: { Row: rows }
+});
+
+const MONTH_COLUMNS = {
+  Column: [
+    { ColTitle: '', ColType: 'Account' },
+    ...[['Aug 2026', '2026-08-01', '2026-08-31'], ['Sep 2026', '2026-09-01', '2026-09-30']].map(([title, start, end]) => ({
+      ColTitle: title,
+      ColType: 'Money',
+      MetaData: [{ Name: 'StartDate', Value: start }, { Name: 'EndDate', Value: end }]
+    })),
+    { ColTitle: 'Total', ColType: 'Money' }
+  ]
+};
+
+const balanceSheet = (
+  date: string,
+  { cash, receivables, payables, netIncome }: { cash: number; receivables: number; payables: number; netIncome: number }
+) => workflowReport('BalanceSheet', '2026-01-01', date, [
+  section('TotalAssets', 'Assets', [
+    section('BankAccounts', 'Bank Accounts', [data('Checking', cash, '10')], cash),
+    section('AR', 'Accounts Receivable', [data('Accounts Receivable (A/R)', receivables, '11')], receivables)
+  ], cash + receivables),
+  section('TotalLiabilitiesAndEquity', 'Liabilities and Equity', [
+    section('AP', 'Accounts Payable', [data('Accounts Payable (A/P)', payables, '12')], payables),
+    section('Equity', 'Equity', [data('Retained Earnings', 12000, '13'), data('Net Income', netIncome)], 12000 + netIncome)
+  ], payables + 12000 + netIncome)
+]);
+
+/** The prior month's reports and new customer count */
+const priorMonthPayload = () => [
+  {
+    plPrior: workflowReport('ProfitAndLoss', '2026-08-01', '2026-08-31', [
+      section('Income', 'Income', [data('Sales', 8000, '1')], 8000),
+      section('Expenses', 'Expenses', [data('Rent', 4000, '2')], 4000),
+      section('NetIncome', 'Net Income', [], 4000)
+    ])
+  },
+  { balanceSheetPrior: balanceSheet('2026-08-31', { cash: 11000, receivables: 3000, payables: 1000, netIncome: 1000 }) },
+  { newCustomers: 4 }
+];
+
+/** September 2026 as the n8n workflow returns it, one object per report */
+const workflowPayload = () => [
+  {
+    plMTD: workflowReport('ProfitAndLoss', '2026-09-01', '2026-09-30', [
+      section('Income', 'Income', [data('Sales', 10000, '1')], 10000),
+      section('Expenses', 'Expenses', [data('Rent', 4000, '2')], 4000),
+      section('NetIncome', 'Net Income', [], 6000)
+    ])
+  },
+  { balanceSheet: balanceSheet('2026-09-30', { cash: 17000, receivables: 4000, payables: 2000, netIncome: 7000 }) },
+  {
+    plMonthly: workflowReport('ProfitAndLoss', '2026-08-01', '2026-09-30', [
+      {
+        type: 'Section',
+        group: 'Income',
+        Header: { ColData: [{ value: 'Income' }, { value: '' }, { value: '' }, { value: '' }] },
+        Rows: { Row: [{ type: 'Data', ColData: [{ value: 'Sales', id: '1' }, { value: '8000.00' }, { value: '10000.00' }, { value: '18000.00' }] }] },
+        Summary: { ColData: [{ value: 'Total Income' }, { value: '8000.00' }, { value: '10000.00' }, { value: '18000.00' }] }
+      },
+      { type: 'Section', group: 'NetIncome', Summary: { ColData: [{ value: 'Net Income' }, { value: '5000.00' }, { value: '6000.00' }, { value: '11000.00' }] } }
+    ], MONTH_COLUMNS)
+  }
+];
+
+const TRIAL_BALANCE_COLUMNS = {
+  Column: [{ ColTitle: '', ColType: 'Account' }, { ColTitle: 'Debit', ColType: 'Money' }, { ColTitle: 'Credit', ColType: 'Money' }]
+};
+
+const trialBalanceLine = (label: string, id: string, debit: number, credit: number): QBOReportRow => ({
+  type: 'Data',
+  ColData: [{ value: label, id }, { value: debit ? debit.toFixed(2) : '' }, { value: credit ? credit.toFixed(2) : '' }]
+});
+
+/** Year-to-date trial balance through the date, its P&L accounts netting to the net income */
+const trialBalance = (
+  date: string,
+  { cash, receivables, payables, sales, rent }: { cash: number; receivables: number; payables: number; sales: number; rent: number }
+) => workflowReport('TrialBalance', '2026-01-01', date, [
+  trialBalanceLine('Checking', '10', cash, 0),
+  trialBalanceLine('Accounts Receivable (A/R)', '11', receivables, 0),
+  trialBalanceLine('Accounts Payable (A/P)', '12', 0, payables),
+  trialBalanceLine('Retained Earnings', '13', 0, 12000),
+  trialBalanceLine('Sales', '1', 0, sales),
+  trialBalanceLine('Rent', '2', rent, 0),
+  {
+    type: 'Section',
+    group: 'GrandTotal',
+    Summary: { ColData: [{ value: 'TOTAL' }, { value: (cash + receivables + rent).toFixed(2) }, { value: (payables + 12000 + sales).toFixed(2) }] }
+  }
+], TRIAL_BALANCE_COLUMNS);
+
+/** The trial balances for September 2026 and the chart of accounts typing their lines */
+const trialBalancePayload = () => [
+  { trialBalance: trialBalance('2026-09-30', { cash: 17000, receivables: 4000, payables: 2000, sales: 20000, rent: 13000 }) },
+  { trialBalanceOpening: trialBalance('2026-08-31', { cash: 11000, receivables: 3000, payables: 1000, sales: 10000, rent: 9000 }) },
+  {
+    accounts: [
+      { Id: '1', Name: 'Sales', AccountType: 'Income' },
+      { Id: '2', Name: 'Rent', AccountType: 'Expense' },
+      { Id: '10', Name: 'Checking', AccountType: 'Bank' },
+      { Id: '11', Name: 'Accounts Receivable (A/R)', AccountType: 'Accounts Receivable' },
+      { Id: '12', Name: 'Accounts Payable (A/P)', AccountType: 'Accounts Payable' },
+      { Id: '13', Name: 'Retained Earnings', AccountType: 'Equity', AccountSubType: 'RetainedEarnings' }
+    ]
+  }
+];
+
+const REQUEST: MonthlyReportRequest = { month: 9, year: 2026, realmId: 'realm-1', token: 'token' };
+
+const respondWith = (payload: unknown) => {
+  fetchMock.mockImplementation(async () => new Response(JSON.stringify(payload)));
+};
+
+const requestedParams = () => new URL(fetchMock.mock.calls[0][0], 'http://localhost').searchParams;
+
+describe('reportGenerationService.fetchMonthlyData', () => {
+  beforeEach(() => {
+    fetchMock.mockReset();
+  });
+
+  it('builds the monthly trends from the P&L by month', async () => {
+    respondWith(workflowPayload());
+    const result = await reportGenerationService.fetchMonthlyData(REQUEST);
+
+    expect(requestedParams().get('trend_start')).toBe('2024-10-01');
+    expect(requestedParams().get('trend_end')).toBe('2026-09-30');
+    expect(result?.trends?.monthlyRevenue).toEqual([
+      { month: '2026-08', amount: 8000 },
+      { month: '2026-09', amount: 10000 }
+    ]);
+    expect(result?.trends?.monthlyProfit.map(item => item.amount)).toEqual([5000, 6000]);
+    // No cash flow by month was returned
+    expect(result?.trends?.monthlyCashFlow).toEqual([]);
+  });
+
+  it('calculates KPIs from the prior month and an indirect cash flow when QBO has none', async () => {
+    respondWith([...workflowPayload(), ...priorMonthPayload()]);
+    const result = await reportGenerationService.fetchMonthlyData(REQUEST);
+    const kpi = (key: string) => result?.calculatedMetrics?.kpis.find(figure => figure.key === key);
+
+    // Net income 6,000, receivables up 1,000 and payables up 1,000
+    expect(kpi('operatingCashFlow')?.value).toBe(6000);
+    expect(kpi('revenueGrowthRate')?.value).toBe(25);
+    expect(kpi('customerAcquisitionCost')?.inputs).toEqual({ marketingSpend: 0, newCustomers: 4 });
+    expect(kpi('accountsReceivableDays')?.formula).toMatch(/^Average/);
+    // The rebuilt cash flow ties to balance sheet cash and retained earnings roll forward
+    expect(result?.validation?.issues).toEqual([]);
+  });
+
+  it('compares the statements with the prior month line by line', async () => {
+    respondWith([...workflowPayload(), ...priorMonthPayload()]);
+    const result = await reportGenerationService.fetchMonthlyData({ ...REQUEST, materiality: { amount: 5000, percent: 10 } });
+
+    expect(result?.periodVariance?.comparison).toBe('MoM');
+    expect(result?.periodVariance?.topMovements.slice(0, 4).map(line => [line.label, line.amount, line.significance])).toEqual([
+      ['Assets › Current › Cash', 6000, 'high'],
+      ['Equity › Retained earnings', 6000, 'high'],
+      ['Revenue › Sales', 2000, 'medium'],
+      ['Assets › Current › Accounts receivable', 1000, 'medium']
+    ]);
+  });
+
+  it('compares the month with the QuickBooks budget covering it', async () => {
+    const budget = (id: string, startDate: string, endDate: string) => ({
+      Id: id,
+      Name: `FY${startDate.slice(0, 4)}`,
+      StartDate: startDate,
+      EndDate: endDate,
+      BudgetEntryType: 'Monthly',
+      BudgetDetail: [
+        { BudgetDate: '2026-09-01', Amount: 9000, AccountRef: { value: '1', name: 'Sales' } },
+        { BudgetDate: '2026-09-01', Amount: 3500, AccountRef: { value: '2', name: 'Rent' } }
+      ]
+    });
+    respondWith([...workflowPayload(), { budgets: [budget('1', '2025-01-01', '2025-12-31'), budget('2', '2026-01-01', '2026-12-31')] }]);
+    const result = await reportGenerationService.fetchMonthlyData(REQUEST);
+
+    expect(result?.budgetVsActual?.period).toBe('2026-09-01 to 2026-09-30');
+    expect(result?.budgetVsActual?.items.map(item => [item.category, item.budgeted, item.actual, item.variance])).toEqual([
+      ['Sales', 9000, 10000, 1000],
+      ['Rent', 3500, 4000, 500]
+    ]);
+  });
+
+  it('has no budget vs actual without a budget covering the month', async () => {
+    respondWith(workflowPayload());
+    const result = await reportGenerationService.fetchMonthlyData(REQUEST);
+
+    expect(result?.budgetVsActual).toBeUndefined();
+  });
+
+  it('builds the statements from the trial balance when asked to', async () => {
+    respondWith([...workflowPayload(), ...priorMonthPayload(), ...trialBalancePayload()]);
+    const result = await reportGenerationService.fetchMonthlyData({ ...REQUEST, statementSource: 'trialBalance' });
+    const { profitLoss, balanceSheet } = reportGenerationService['transformMonthlyData'](result!);
+    const { assets, liabilities, equity } = balanceSheet!;
+
+    expect(requestedParams().get('statement_source')).toBe('trialBalance');
+    // The month's activity is the change from the trial balance through August
+    expect(profitLoss?.revenue.total).toBe(10000);
+    expect(profitLoss?.netIncome).toBe(6000);
+    // Year-to-date net income of 7,000 is carried in retained earnings
+    expect(assets.totalAssets).toBe(21000);
+    expect(liabilities.totalLiabilities + equity.total).toBe(assets.totalAssets);
+    expect(equity.retainedEarnings).toBe(19000);
+    // Net income and total assets match the QBO P&L and balance sheet
+    expect(result?.validation?.issues).toEqual([]);
+  });
+
+  it('requires the trial balance to build the statements from it', async () => {
+    respondWith(workflowPayload());
+
+    await expect(reportGenerationService.fetchMonthlyData({ ...REQUEST, statementSource: 'trialBalance' })).rejects.toMatchObject({
+      problems: [{ report: 'Trial Balance', issues: ['required to build the statements from the trial balance'] }]
+    });
+  });
+
+  it('calculates the P&L and balance sheet KPIs without a cash flow statement', async () => {
+    respondWith(workflowPayload());
+    const result = await reportGenerationService.fetchMonthlyData(REQUEST);
+    const kpi = (key: string) => result?.calculatedMetrics?.kpis.find(figure => figure.key === key);
+
+    expect(kpi('operatingCashFlow')).toMatchObject({ value: null, note: 'Cash flow statement not available' });
+    expect(kpi('netProfitMargin')?.value).toBe(60);
+    expect(kpi('currentRatio')?.value).toBe(10.5);
+  });
+});
@@ -1,26 +1,124 @@
 import { logger } from '../lib/logger';
 import { supabase } from '../lib/supabase';
+import { DEFAULT_FISCAL_CALENDAR, FiscalCalendar, ReportPeriods, getReportPeriods, getTrailingMonths } from '../lib/fiscalPeriods';
+import { StatementValidationInput, describeBlockingIssues, validateStatements } from '../lib/statementValidation';
+import { MonthlyReportPayload, QBOReportError, parseMonthlyReportPayload } from '../lib/qboSchemas';
+import { DataTransformService } from './dataTransform.service';
+import { calculateFinancialMetrics, daysInPeriod } from '../lib/financialMetrics';
+import { compareStatements } from '../lib/varianceAnalysis';
+import { analyzeCustomerConcentration, describeCustomerConcentration } from '../lib/customerConcentration';
+import { analyzeProductMix } from '../lib/productMix';
+import { SEGMENT_DIMENSION_LABELS, segmentComparisonMarkdown } from '../lib/segmentAnalysis';
+import { DEFAULT_CURRENCY_FORMAT, currencyFormatOf, describeForeignExchange, foreignExchangeMarkdown, localeFromCompanyInfo } from '../lib/currency';
+import { industryCodeOf, inferIndustry } from '../lib/companyProfile';
+import { benchmarkCitation, benchmarkMarkdown, compareToBenchmarks, describeBenchmarks } from '../lib/industryBenchmarks';
+import { describeScenario, projectScenario, scenarioBaseline, scenarioMarkdown } from '../lib/scenarioModel';
+import { cashForecastMarkdown, describeCashForecast } from '../lib/cashForecast';
+import {
+  AccountMapping,
+  AccountingMethod,
+  BenchmarkSummary,
+  BudgetVsActualReport,
+  CalculatedMetrics,
+  CashForecast,
+  CompanyProfile,
+  CustomerConcentration,
+  DataValidationReport,
+  FinancialDataForLLM,
+  MaterialityThresholds,
+  PeriodVarianceReport,
+  ForeignExchangeSummary,
+  ProductMix,
+  ReportSection,
+  Scenario,
+  ScenarioProjection,
+  SegmentDimension,
+  SegmentedProfitLoss,
+  StatementSource
+} from '../types/financial.types';
 
 const reportLogger = logger.child('ReportGeneration');
 
+// Months of P&L and cash flow history for the trends; 24 covers a full
+// year-over-year comparison
+const TREND_MONTHS = 24;
+
 export interface MonthlyReportRequest {
   month: number;
   year: number;
   realmId: string;
   token: string;
+  /** Defaults to a January-start fiscal year */
+  fiscalCalendar?: FiscalCalendar;
+  /** Basis for the P&L and balance sheet (default Accrual) */
+  accountingMethod?: AccountingMethod;
+  /** Also fetch the other basis for a cash vs accrual reconciliation */
+  includeBasisReconciliation?: boolean;
+  /** Build the month's P&L and balance sheet from the trial balance (default reports) */
+  statementSource?: StatementSource;
+  /** The company's saved statement line overrides, applied when validating */
+  accountMappings?: AccountMapping[];
+  /** Thresholds for flagging changes from the prior month (default 5,000 and 10%) */
+  materiality?: MaterialityThresholds;
+  /** Segment report mode: also fetch the month's P&L by Class or Location */
+  segmentBy?: SegmentDimension;
+  /** The industry confirmed by the CPA; inferred from QuickBooks when absent */
+  companyProfile?: CompanyProfile;
+  /** Saved scenarios to project from the month's statements */
+  scenarios?: Scenario[];
+  /** 13-week forecast from today's open invoices and bills, for the Forward Outlook */
+  cashForecast?: CashForecast;
 }
 
-export interface MonthlyReportData {
-  plMTD?: any;
-  plQTD?: any;
-  balanceSheet?: any;
-  cashFlow?: any;
-  ar?: any;
-  ap?: any;
+/**
+ * The workflow's reports, validated by monthlyReportDataSchema, plus the
+ * fields added by this service
+ */
+export interface MonthlyReportData extends Partial<MonthlyReportPayload> {
+  /** The same month on the other accounting basis */
+  alternateBasis?: {
+    accountingMethod: AccountingMethod;
+    plMTD?: MonthlyReportData['plMTD'];
+    balanceSheet?: MonthlyReportData['balanceSheet'];
+  };
+  /** Statement tie-outs; generation stops when they are blocking */
+  validation?: DataValidationReport;
+  /** The month's P&L accounts, each linked to its transactions */
+  statementDetail?: ReportSection;
+  /** Computed from the month's Sales by Customer report */
+  customerConcentration?: CustomerConcentration;
+  /** Computed from the month's and prior month's Sales by Product/Service */
+  productMix?: ProductMix;
+  /** Computed from the month's P&L by Class or Location */
+  segments?: SegmentedProfitLoss;
+  /** Foreign balances at the month-end rates and the month's exchange gains */
+  foreignExchange?: ForeignExchangeSummary;
+  /** Line-by-line comparison with the prior month's statements */
+  periodVariance?: PeriodVarianceReport;
+  /** The month's P&L against the active QBO budget covering the month */
+  budgetVsActual?: BudgetVsActualReport;
+  /** Monthly series from the trailing months' P&L and cash flow */
+  trends?: FinancialDataForLLM['trends'];
+  /** The month's ratios and report KPIs, each KPI with its formula and inputs */
+  calculatedMetrics?: CalculatedMetrics;
+  /** The month's KPIs against the bundled industry benchmarks */
+  benchmarks?: BenchmarkSummary;
+  /** The scenarios projected from the month's P&L and month-end balance sheet */
+  scenarios?: ScenarioProjection[];
+  /** The 13-week cash forecast given with the request */
+  cashForecast?: CashForecast;
   metadata?: {
     month: number;
     year: number;
+    /** Fiscal quarter and year of the reported period */
     quarter: number;
+    fiscalYear: number;
+    periods: ReportPeriods;
+    accountingMethod: AccountingMethod;
+    statementSource: StatementSource;
+    /** Home currency and locale amounts are formatted in */
+    currency: string;
+    locale: string;
     generatedAt: string;
   };
 }
@@ -35,6 +133,8 @@ export interface ReportGenerationResult {
     pdfBlob?: Blob;
   };
   error?: string;
+  /** Set when generation stopped because the statements failed validation */
+  validation?: DataValidationReport;
 }
 
 class ReportGenerationService {
@@ -93,23 +193,52 @@ class ReportGenerationService {
   async fetchMonthlyData(request: MonthlyReportRequest): Promise<MonthlyReportData | null> {
     // Get QBO API base URL from environment
     const qboApiBaseUrl = import.meta.env.VITE_QBO_API_BASE_URL || 'https://sandbox-quickbooks.api.intuit.com';
+    const accountingMethod = request.accountingMethod || 'Accrual';
+    const statementSource = request.statementSource || 'reports';
     
     reportLogger.info('Fetching monthly data', { 
       month: request.month, 
       year: request.year,
+      accountingMethod,
       qboApiBaseUrl 
     });
     reportLogger.time('fetchMonthlyData');
 
     try {
+      // The workflow fetches exactly these ranges, so the report and the
+      // prompt agree on the fiscal calendar
+      const periods = getReportPeriods(request.fiscalCalendar || DEFAULT_FISCAL_CALENDAR, request.year, request.month);
+      
       // Build query parameters
       const queryParams = new URLSearchParams({
         realmId: request.realmId,
         token: request.token,
         month: request.month.toString(),
         year: request.year.toString(),
-        baseUrl: qboApiBaseUrl
+        baseUrl: qboApiBaseUrl,
+        accounting_method: accountingMethod,
+        fiscal_year: periods.period.fiscalYear.toString(),
+        fiscal_period: periods.period.period.toString(),
+        fiscal_quarter: periods.period.quarter.toString(),
+        mtd_start: periods.mtd.start,
+        mtd_end: periods.mtd.end,
+        qtd_start: periods.qtd.start,
+        qtd_end: periods.qtd.end,
+        ytd_start: periods.ytd.start,
+        ytd_end: periods.ytd.end,
+        prev_month_start: periods.priorMonth.start,
+        prev_month_end: periods.priorMonth.end,
+        prev_year_start: periods.priorYearSamePeriod.start,
+        prev_year_end: periods.priorYearSamePeriod.end,
+        trend_start: getTrailingMonths(periods.mtd.end, TREND_MONTHS).start,
+        trend_end: periods.mtd.end
       });
+      if (request.segmentBy) {
+        queryParams.set('segment_by', request.segmentBy);
+      }
+      if (statementSource === 'trialBalance') {
+        queryParams.set('statement_source', statementSource);
+      }
       
       const url = `${this.n8nMonthlyReportUrl}?${queryParams.toString()}`;
       
@@ -151,42 +280,162 @@ class ReportGenerationService {
         throw new Error(`Invalid JSON response from n8n webhook: ${parseError}`);
       }
 
-      // Handle array response from n8n - merge all objects into single data structure
-      let data: MonthlyReportData = {};
-      
-      if (Array.isArray(rawData)) {
-        reportLogger.debug('Processing array response from n8n', { itemCount: rawData.length });
-        
-        // Merge all array items into a single object
-        rawData.forEach((item, index) => {
-          reportLogger.debug(`Processing array item ${index}`, { keys: Object.keys(item) });
-          Object.assign(data, item);
-        });
-      } else {
-        // Handle single object response (backwards compatibility)
-        data = rawData;
+      // n8n returns one object per report; merge them and check each report
+      let data: MonthlyReportPayload;
+      try {
+        data = parseMonthlyReportPayload(rawData);
+      } catch (validationError) {
+        if (validationError instanceof QBOReportError) {
+          reportLogger.error('n8n webhook returned invalid reports', validationError.problems);
+        }
+        throw validationError;
+      }
+      if (statementSource === 'trialBalance' && !data.trialBalance) {
+        throw new QBOReportError([{ report: 'Trial Balance', issues: ['required to build the statements from the trial balance'] }]);
       }
       
       reportLogger.debug('Monthly data received', { 
         hasPlMTD: !!data.plMTD,
         hasPlQTD: !!data.plQTD,
         hasBalanceSheet: !!data.balanceSheet,
+        hasPlPrior: !!data.plPrior,
+        hasBalanceSheetPrior: !!data.balanceSheetPrior,
         hasCashFlow: !!data.cashFlow,
         hasAR: !!data.ar,
-        hasAP: !!data.ap
+        hasAP: !!data.ap,
+        hasPlMonthly: !!data.plMonthly,
+        hasCashFlowMonthly: !!data.cashFlowMonthly,
+        hasCustomerSales: !!data.customerSales,
+        hasItemSales: !!data.itemSales,
+        hasPlSegments: !!data.plSegments,
+        hasTrialBalance: !!data.trialBalance,
+        hasBudgets: !!data.budgets?.length
       });
 
       // Add metadata
-      const quarter = Math.ceil(request.month / 3);
       const enrichedData: MonthlyReportData = {
         ...data,
         metadata: {
           month: request.month,
           year: request.year,
-          quarter,
+          quarter: periods.period.quarter,
+          fiscalYear: periods.period.fiscalYear,
+          periods,
+          accountingMethod,
+          statementSource,
+          currency: data.plMTD.headers.Currency || DEFAULT_CURRENCY_FORMAT.currency,
+          locale: localeFromCompanyInfo(data.companyInfo),
           generatedAt: new Date().toISOString()
         }
       };
+      
+      const statements = this.transformMonthlyData(enrichedData, request.accountMappings);
+      const priorMonth = this.transformPriorMonthData(enrichedData, request.accountMappings);
+      enrichedData.validation = validateStatements(statements);
+      if (statements.profitLoss && statements.balanceSheet && (priorMonth.profitLoss || priorMonth.balanceSheet)) {
+        enrichedData.periodVariance = compareStatements([
+          { statement: 'profitLoss', current: statements.profitLoss, previous: priorMonth.profitLoss },
+          { statement: 'balanceSheet', current: statements.balanceSheet, previous: priorMonth.balanceSheet }
+        ], 'MoM', request.materiality);
+      }
+      const budget = data.budgets && DataTransformService.findBudgetForPeriod(data.budgets, periods.mtd);
+      if (budget && statements.profitLoss) {
+        enrichedData.budgetVsActual = DataTransformService.transformBudgetVsActual(
+          DataTransformService.transformQBOBudget(budget),
+          statements.profitLoss,
+          periods.mtd,
+          data.accounts
+        );
+      }
+      if (statements.profitLoss) {
+        enrichedData.statementDetail = DataTransformService.buildStatementDetailSection(
+          statements.profitLoss,
+          periods.mtd,
+          currencyFormatOf(enrichedData.metadata)
+        );
+      }
+      if (data.plMonthly) {
+        const { plMonthly, cashFlowMonthly } = data;
+        enrichedData.trends = DataTransformService.transformMonthlyTrends(
+          { Header: plMonthly.headers, Columns: plMonthly.columns, Rows: plMonthly.rows },
+          cashFlowMonthly && { Header: cashFlowMonthly.headers, Columns: cashFlowMonthly.columns, Rows: cashFlowMonthly.rows },
+          request.accountMappings
+        );
+      }
+      if (data.customerSales) {
+        const { headers, columns, rows } = data.customerSales;
+        enrichedData.customerConcentration = analyzeCustomerConcentration(
+          DataTransformService.transformCustomerRevenue({ Header: headers, Columns: columns, Rows: rows })
+        );
+      }
+      if (data.itemSales) {
+        const toLines = (report: NonNullable<MonthlyReportData['itemSales']>) =>
+          DataTransformService.transformItemSales({ Header: report.headers, Columns: report.columns, Rows: report.rows });
+        enrichedData.productMix = analyzeProductMix({
+          current: toLines(data.itemSales),
+          previous: data.itemSalesPrior && toLines(data.itemSalesPrior),
+          previousPeriod: data.itemSalesPrior && periods.priorMonth,
+          items: data.items
+        });
+      }
+      if (request.segmentBy && data.plSegments) {
+        const { headers, columns, rows } = data.plSegments;
+        enrichedData.segments = DataTransformService.transformSegmentedProfitLoss(
+          { Header: headers, Columns: columns, Rows: rows },
+          request.segmentBy,
+          request.accountMappings
+        );
+      } else if (request.segmentBy) {
+        reportLogger.warn(`P&L by ${SEGMENT_DIMENSION_LABELS[request.segmentBy]} unavailable; generating the report without segments`);
+      }
+      // Without QBO's cash flow or the prior month-end balance sheet the cash
+      // flow KPIs are null, but the P&L and balance sheet KPIs still apply
+      if (statements.profitLoss && statements.balanceSheet) {
+        const periodDays = daysInPeriod(periods.mtd.start, periods.mtd.end);
+        enrichedData.calculatedMetrics = calculateFinancialMetrics({
+          profitLoss: statements.profitLoss,
+          balanceSheet: statements.balanceSheet,
+          cashFlow: statements.cashFlow,
+          previousProfitLoss: priorMonth.profitLoss,
+          previousBalanceSheet: statements.openingBalanceSheet,
+          periodDays,
+          newCustomers: data.newCustomers
+        });
+        enrichedData.benchmarks = compareToBenchmarks(enrichedData.calculatedMetrics, {
+          industry: request.companyProfile?.industry || inferIndustry(data.companyInfo, data.accounts)?.industry,
+          naicsCode: industryCodeOf(data.companyInfo),
+          annualRevenue: statements.profitLoss.revenue.total * 365 / periodDays,
+          currency: currencyFormatOf(enrichedData.metadata).currency
+        });
+      }
+      enrichedData.cashForecast = request.cashForecast;
+      if (request.scenarios?.length && statements.profitLoss && statements.balanceSheet) {
+        const baseline = scenarioBaseline(statements.profitLoss, statements.balanceSheet, periods.mtd);
+        enrichedData.scenarios = request.scenarios.map(scenario => projectScenario(baseline, scenario));
+      }
+      if (data.accounts) {
+        const { plMTD, balanceSheet } = data;
+        enrichedData.foreignExchange = DataTransformService.transformForeignExchange(
+          { Header: plMTD.headers, Columns: plMTD.columns, Rows: plMTD.rows },
+          { Header: balanceSheet.headers, Columns: balanceSheet.columns, Rows: balanceSheet.rows },
+          data.accounts,
+          data.exchangeRates
+        );
+      }
+      
+      if (request.includeBasisReconciliation) {
+        const otherMethod: AccountingMethod = accountingMethod === 'Accrual' ? 'Cash' : 'Accrual';
+        const alternate = await this.fetchMonthlyData({
+          ...request,
+          accountingMethod: otherMethod,
+          includeBasisReconciliation: false
+        });
+        enrichedData.alternateBasis = {
+          accountingMethod: otherMethod,
+          plMTD: alternate?.plMTD,
+          balanceSheet: alternate?.balanceSheet
+        };
+      }
 
       reportLogger.timeEnd('fetchMonthlyData');
       return enrichedData;
@@ -198,6 +447,59 @@ class ReportGenerationService {
     }
   }
 
+  /**
+   * Run the statement integrity checks on the workflow's reports
+   */
+  validateMonthlyData(data: MonthlyReportData, accountMappings?: AccountMapping[]): DataValidationReport {
+    return validateStatements(this.transformMonthlyData(data, accountMappings));
+  }
+
+  /**
+   * Normalize the workflow's reports, which wrap each QBO report as
+   * { headers, columns, rows }
+   */
+  private transformMonthlyData(data: MonthlyReportData, accountMappings?: AccountMapping[]): StatementValidationInput {
+    const { plMTD, balanceSheet, cashFlow, ar, ap, accounts, balanceSheetPrior } = data;
+    // The trial balance is only used when it was asked for
+    const trialBalance = data.metadata?.statementSource === 'trialBalance' ? data.trialBalance : undefined;
+    const trialBalanceOpening = trialBalance && data.trialBalanceOpening;
+    return DataTransformService.transformForValidation({
+      profitLoss: plMTD && { Header: plMTD.headers, Columns: plMTD.columns, Rows: plMTD.rows },
+      balanceSheet: balanceSheet && { Header: balanceSheet.headers, Columns: balanceSheet.columns, Rows: balanceSheet.rows },
+      cashFlow: cashFlow && { Header: cashFlow.headers, Columns: cashFlow.columns, Rows: cashFlow.rows },
+      arAging: ar && { Header: ar.headers, Columns: ar.columns, Rows: ar.rows },
+      apAging: ap && { Header: ap.headers, Columns: ap.columns, Rows: ap.rows },
+      accounts,
+      openingBalanceSheet: balanceSheetPrior && {
+        Header: balanceSheetPrior.headers,
+        Columns: balanceSheetPrior.columns,
+        Rows: balanceSheetPrior.rows
+      },
+      trialBalance: trialBalance && { Header: trialBalance.headers, Columns: trialBalance.columns, Rows: trialBalance.rows },
+      openingTrialBalance: trialBalanceOpening && {
+        Header: trialBalanceOpening.headers,
+        Columns: trialBalanceOpening.columns,
+        Rows: trialBalanceOpening.rows
+      }
+    }, data.metadata?.accountingMethod, accountMappings);
+  }
+
+  /**
+   * Normalize the prior month's P&L and month-end balance sheet
+   */
+  private transformPriorMonthData(data: MonthlyReportData, accountMappings?: AccountMapping[]): StatementValidationInput {
+    const { plPrior, balanceSheetPrior, accounts } = data;
+    return DataTransformService.transformForValidation({
+      profitLoss: plPrior && { Header: plPrior.headers, Columns: plPrior.columns, Rows: plPrior.rows },
+      balanceSheet: balanceSheetPrior && {
+        Header: balanceSheetPrior.headers,
+        Columns: balanceSheetPrior.columns,
+        Rows: balanceSheetPrior.rows
+      },
+      accounts
+    }, data.metadata?.accountingMethod, accountMappings);
+  }
+
   /**
    * Extract thinking content and clean report
    */
@@ -232,6 +534,12 @@ class ReportGenerationService {
       const context = {
         month: data.metadata?.month,
         year: data.metadata?.year,
+        fiscalYear: data.metadata?.fiscalYear,
+        fiscalQuarter: data.metadata?.quarter,
+        periods: data.metadata?.periods,
+        accountingMethod: data.metadata?.accountingMethod,
+        statementSource: data.metadata?.statementSource,
+        currency: data.metadata?.currency,
         financialData: {
           profitLoss: {
             mtd: data.plMTD,
@@ -241,11 +549,88 @@ class ReportGenerationService {
           cashFlow: data.cashFlow,
           receivables: data.ar,
           payables: data.ap
-        }
+        },
+        trends: data.trends,
+        periodVariance: data.periodVariance && {
+          comparison: data.periodVariance.comparison,
+          thresholds: data.periodVariance.thresholds,
+          largestMovements: data.periodVariance.topMovements,
+          totals: data.periodVariance.lines.filter(line => line.isTotal)
+        },
+        budgetVsActual: data.budgetVsActual,
+        calculatedMetrics: data.calculatedMetrics,
+        alternateBasis: data.alternateBasis,
+        dataValidation: data.validation,
+        customerConcentration: data.customerConcentration,
+        productMix: data.productMix,
+        segments: data.segments && {
+          dimension: SEGMENT_DIMENSION_LABELS[data.segments.dimension],
+          total: data.segments.totalKpis,
+          segments: data.segments.segments.map(({ name, unassigned, kpis }) => ({ name, unassigned, ...kpis }))
+        },
+        foreignExchange: data.foreignExchange,
+        benchmarks: data.benchmarks,
+        scenarios: data.scenarios?.map(({ name, drivers, totals, minimumCash, months }) => ({
+          name,
+          drivers,
+          totals,
+          minimumCash,
+          ending: months[months.length - 1]
+        })),
+        cashForecast: data.cashForecast
       };
 
+      const periods = data.metadata?.periods;
       const userPrompt = `Generate a monthly financial report for ${this.getMonthName(data.metadata?.month || 1)} ${data.metadata?.year}. 
-      
+${periods ? `
+Reporting Periods (fiscal year FY${periods.period.fiscalYear}, period ${periods.period.period}, Q${periods.period.quarter}):
+- Month to date: ${periods.mtd.start} to ${periods.mtd.end}
+- Quarter to date: ${periods.qtd.start} to ${periods.qtd.end}
+- Year to date: ${periods.ytd.start} to ${periods.ytd.end}
+- Trailing 12 months: ${periods.trailing12.start} to ${periods.trailing12.end}
+- Prior month: ${periods.priorMonth.start} to ${periods.priorMonth.end}
+- Prior year same period: ${periods.priorYearSamePeriod.start} to ${periods.priorYearSamePeriod.end}
+Quarter and year references must follow these fiscal periods, not the calendar.
+` : ''}${data.metadata?.accountingMethod ? `
+Accounting Basis: ${data.metadata.accountingMethod}. State the basis in the report.
+` : ''}${data.metadata?.statementSource === 'trialBalance' ? `
+The month's P&L and balance sheet behind calculatedMetrics were built from the trial balance account balances rather than QuickBooks' formatted reports; financialData keeps the formatted reports for reference. State this in the report, and where dataValidation lists trial balance differences, disclose them.
+` : ''}${data.calculatedMetrics ? `
+calculatedMetrics was computed from the month's statements; each entry in calculatedMetrics.kpis gives a KPI Dashboard figure with its formula and inputs. Report these values as given and explain what they mean and what drives them, citing the inputs; do not recalculate them or compute other ratios. Where a value is null, say it is unavailable and why, using its note.
+` : `
+The statements needed to compute the KPIs are incomplete, so show each KPI Dashboard figure as unavailable rather than calculating it.
+`}${data.trends ? `
+trends holds monthly revenue, expenses, net income and net change in cash for the trailing months, computed from the P&L and cash flow by month. Base trend and year-over-year commentary on it; a month with no monthlyCashFlow entry has no cash flow data, so do not estimate one.
+` : ''}${data.periodVariance ? `
+periodVariance compares the month's statements with the prior month line by line; significance is against materiality of ${data.periodVariance.thresholds.amount} and ${data.periodVariance.thresholds.percent}%. Explain the largestMovements in the Financial Performance Snapshot and Expense Review using the amounts and percentages as given; a null percentage means the line was zero in the prior month.
+` : ''}${data.budgetVsActual ? `
+budgetVsActual compares the month's P&L accounts with the QuickBooks budget, prorated to the month. Report the Budget vs. Actual section from these budgeted, actual and variance amounts as given and explain the largest variances.
+` : `
+No QuickBooks budget covers this month, so omit the Budget vs. Actual section.
+`}${data.alternateBasis ? `
+alternateBasis holds the month's P&L and balance sheet on a ${data.alternateBasis.accountingMethod} basis. Add a "Cash vs Accrual Reconciliation" section comparing revenue, expenses, net income, receivables and payables on both bases and explaining the differences.
+` : ''}${data.validation?.issues.length ? `
+Data quality: ${data.validation.dataQuality}. Disclose these validation warnings where they affect the analysis:
+${data.validation.issues.map(issue => `- ${issue.message}`).join('\n')}
+` : ''}${data.customerConcentration ? `
+Customer concentration was computed from Sales by Customer (${describeCustomerConcentration(data.customerConcentration)}). Report this risk tier and these shares as given in a "Customer Concentration" section; do not estimate them.
+` : ''}${data.productMix?.lines.length ? `
+productMix holds revenue, quantity, average price, gross margin and growth per product/service from Sales by Product/Service. Use it for the top products/services in Revenue Metrics; where marginSource is "unavailable", say the margin is unknown rather than estimating it.
+` : ''}${data.segments ? `
+segments holds KPIs for each ${SEGMENT_DIMENSION_LABELS[data.segments.dimension]} computed from the P&L by ${SEGMENT_DIMENSION_LABELS[data.segments.dimension]}. Add a "Segment Performance" section comparing the segments' revenue shares and margins and explaining which segments drive the results. A computed segment comparison table is appended to the report, so do not reproduce the table.
+` : ''}${data.metadata?.currency ? `
+All amounts are in ${data.metadata.currency}; state amounts in that currency.
+` : ''}${data.foreignExchange ? `
+foreignExchange holds the foreign-currency balances translated at the month-end rates (${describeForeignExchange(data.foreignExchange, currencyFormatOf(data.metadata))}). Add a "Foreign Exchange" section reporting realized and unrealized exchange gains separately; where the unrealized gain is null, say why rather than estimating it. A computed foreign exchange table is appended to the report, so do not reproduce the table.
+` : ''}${data.benchmarks ? `
+benchmarks compares the month's KPIs with industry quartiles (${describeBenchmarks(data.benchmarks)}; ${benchmarkCitation(data.benchmarks)}). Compare KPIs only with these figures, cite the source, and do not estimate benchmarks for other KPIs. A computed benchmark table is appended to the report, so do not reproduce the table.
+` : `
+No industry benchmark dataset applies to this company, so do not make numeric benchmark comparisons.
+`}${data.scenarios?.length ? `
+scenarios holds driver-based projections computed from the month's statements (${data.scenarios.map(scenario => describeScenario(scenario, currencyFormatOf(data.metadata))).join('; ')}). Discuss them in the Forward Outlook using these figures as given, comparing the scenarios and the drivers behind them. A computed scenario table is appended to the report, so do not reproduce the table.
+` : ''}${data.cashForecast ? `
+cashForecast is a 13-week rolling cash forecast from today's bank balance, open invoices at the historical collection lag, open bills by due date and recurring payroll and rent (${describeCashForecast(data.cashForecast, currencyFormatOf(data.metadata))}). Base the Forward Outlook's cash needs and cash runway on it and report the lowest cash point as given. A computed weekly table is appended to the report, so do not reproduce the table.
+` : ''}
 Financial Data:
 ${JSON.stringify(context, null, 2)}
 
@@ -436,9 +821,33 @@ Please analyze this data and create a comprehensive report following the structu
         throw new Error('No financial data received');
       }
 
+      // Stop before analysis when the statements do not tie out
+      const validation = rawData.validation || this.validateMonthlyData(rawData, request.accountMappings);
+      if (validation.blocking) {
+        reportLogger.warn('Statements failed validation', validation.issues);
+        reportLogger.timeEnd('generateCompleteReport');
+        reportLogger.groupEnd();
+        return {
+          success: false,
+          error: `Financial statements failed validation: ${describeBlockingIssues(validation)}`,
+          validation
+        };
+      }
+
       // Step 2: Process with LLM
       reportLogger.info('Step 2: Processing with LLM');
-      const { report: llmReport, analysis: detailedAnalysis } = await this.processWithLLM(rawData);
+      const { report: analysisReport, analysis: detailedAnalysis } = await this.processWithLLM(rawData);
+      // Computed tables are appended as given rather than left to the LLM
+      const format = currencyFormatOf(rawData.metadata);
+      const llmReport = [
+        analysisReport,
+        ...(rawData.segments ? [segmentComparisonMarkdown(rawData.segments, format)] : []),
+        ...(rawData.foreignExchange ? [foreignExchangeMarkdown(rawData.foreignExchange, format)] : []),
+        ...(rawData.benchmarks ? [benchmarkMarkdown(rawData.benchmarks)] : []),
+        ...(rawData.cashForecast ? [cashForecastMarkdown(rawData.cashForecast, format)] : []),
+        ...(rawData.scenarios?.length ? [scenarioMarkdown(rawData.scenarios, format)] : [])
+      ].join('\n\n')
+        + (rawData.segments || rawData.foreignExchange || rawData.benchmarks || rawData.cashForecast || rawData.scenarios?.length ? '\n' : '');
 
       // Step 3: Generate PDF
       reportLogger.info('Step 3: Generating PDF');
@@ -572,7 +981,8 @@ Please analyze this data and create a comprehensive report following the structu
   <div class="metadata">
     <strong>Report Period:</strong> ${this.getMonthName(metadata.month)} ${metadata.year}<br>
     <strong>Generated:</strong> ${new Date(metadata.generatedAt).toLocaleString()}<br>
-    <strong>Quarter:</strong> Q${metadata.quarter} ${metadata.year}
+    <strong>Fiscal Quarter:</strong> Q${metadata.quarter} FY${metadata.fiscalYear ?? metadata.year}${metadata.accountingMethod ? `<br>
+    <strong>Basis:</strong> ${metadata.accountingMethod}` : ''}
   </div>
   ` : ''}
   
@@ -0,0 +1,225 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ReportOrchestratorService } from './reportOrchestrator.service';
+import { ConsolidationService } from './consolidation.service';
+import { QBOApiClient } from './quickbooks.service';
+import { ConsolidationGroup, QBOReportRow } from '../types/financial.types';
+
+const { storage, generatePDF } = vi.hoisted(() => ({
+  storage: {
+    upload: vi.fn(async () => ({ data: { path: 'uploaded' }, error: null })),
+    getPublicUrl: vi.fn((fileName: string) => ({ data: { publicUrl: `https://storage.test/${fileName}` } }))
+  },
+  generatePDF: vi.fn(async () => new Blob(['%PDF']))
+}));
+
+vi.mock('../lib/supabase', () => ({
+  supabase: {
+    from: () => ({
+      select: () => ({ eq: () => ({ single: async () => ({ data: null, error: null }) }) })
+    }),
+    storage: { from: () => storage }
+  }
+}));
+
+vi.mock('./pdfEnhanced.service', () => ({ PDFEnhancedService: { generatePDF } }));
+
+const PERIOD = { start: '2026-09-01', end: '2026-09-30' };
+
+const COLUMNS = { Column: [{ ColTitle: '', ColType: 'Account' }, { ColTitle: 'Total', ColType: 'Money' }] };
+
+const data = (label: string, amount: number, id?: string): QBOReportRow => ({
+  type: 'Data',
+  ColData: [{ value: label, ...(id ? { id } : {}) }, { value: amount.toFixed(2) }]
+});
+
+const section = (group: string, label: string, rows: QBOReportRow[], total: number): QBOReportRow => ({
+  type: 'Section',
+  group,
+  ...(rows.length ? { Header: { ColData: [{ value: label }, { value: '' }] }, Rows: { Row: rows } } : {}),
+  Summary: { ColData: [{ value: rows.length ? `Total ${label}` : label }, { value: total.toFixed(2) }] }
+});
+
+/**
+ * Two companies that each earn 600 in the period. Alpha is owed 200 by Beta,
+ * which the group eliminates.
+ */
+const COMPANIES: Record<string, {
+  name: string;
+  cash: number;
+  openingCash: number;
+  intercompany: { assets: QBOReportRow[]; liabilities: QBOReportRow[] };
+}> = {
+  alpha: {
+    name: 'Alpha LLC',
+    cash: 1400,
+    openingCash: 800,
+    intercompany: { assets: [data('Due from Beta', 200, '90')], liabilities: [] }
+  },
+  beta: {
+    name: 'Beta LLC',
+    cash: 1800,
+    openingCash: 1200,
+    intercompany: { assets: [], liabilities: [data('Due to Alpha', 200, '91')] }
+  }
+};
+
+const reportRows = (realmId: string, reportType: string): QBOReportRow[] => {
+  const company = COMPANIES[realmId];
+  switch (reportType) {
+    case 'ProfitAndLoss':
+      return [
+        section('Income', 'Income', [data('Sales', 1000, '1')], 1000),
+        section('Expenses', 'Expenses', [data('Rent', 400, '2')], 400),
+        section('NetIncome', 'Net Income', [], 600)
+      ];
+    case 'BalanceSheet': {
+      const { assets, liabilities } = company.intercompany;
+      const otherAssets = assets.reduce((sum, row) => sum + Number(row.ColData![1].value), 0);
+      const otherLiabilities = liabilities.reduce((sum, row) => sum + Number(row.ColData![1].value), 0);
+      return [
+        section('TotalAssets', 'Assets', [
+          section('BankAccounts', 'Bank Accounts', [data('Checking', company.cash, '10')], company.cash),
+          ...(assets.length ? [section('OtherCurrentAssets', 'Other Current Assets', assets, otherAssets)] : [])
+        ], company.cash + otherAssets),
+        section('TotalLiabilitiesAndEquity', 'Liabilities and Equity', [
+          ...(liabilities.length
+            ? [section('OtherCurrentLiabilities', 'Other Current Liabilities', liabilities, otherLiabilities)]
+            : []),
+          section('Equity', 'Equity', [
+            data('Retained Earnings', company.cash + otherAssets - otherLiabilities - 600),
+            data('Net Income', 600)
+          ], company.cash + otherAssets - otherLiabilities)
+        ], company.cash + otherAssets)
+      ];
+    }
+    case 'CashFlow':
+      return [
+        section('OperatingActivities', 'Operating Activities', [data('Net Income', 600)], 600),
+        section('CashIncrease', 'Net cash increase for period', [], 600),
+        section('BeginningCash', 'Cash at beginning of period', [], company.openingCash),
+        section('EndingCash', 'Cash at end of period', [], company.cash)
+      ];
+    default:
+      return [];
+  }
+};
+
+/**
+ * A QBO client serving the fixture companies; reports it does not know
+ * about fail as QBO would
+ */
+const fakeClient = () => ({
+  getCompanyInfo: vi.fn(async (realmId: string) => ({
+    success: true,
+    data: { Id: realmId, CompanyName: COMPANIES[realmId].name, Country: 'US', FiscalYearStartMonth: 'January' }
+  })),
+  getReport: vi.fn(async (realmId: string, reportType: string, params: Record<string, string>) => {
+    if (!['ProfitAndLoss', 'BalanceSheet', 'CashFlow', 'AgedReceivables', 'AgedPayables'].includes(reportType)) {
+      return { success: false, error: { message: `${reportType} not available` } };
+    }
+    return {
+      success: true,
+      data: {
+        Header: {
+          ReportName: reportType,
+          StartPeriod: params.start_date || params.report_date,
+          EndPeriod: params.end_date || params.report_date,
+          Currency: 'USD'
+        },
+        Columns: COLUMNS,
+        Rows: { Row: reportRows(realmId, reportType) }
+      }
+    };
+  }),
+  getAccounts: vi.fn(async () => ({ success: true, data: [] })),
+  query: vi.fn(async () => ({ success: true, data: { totalCount: 1 } })),
+  getItems: vi.fn(async () => ({ success: true, data: [] })),
+  getExchangeRates: vi.fn(async () => ({ success: true, data: [] })),
+  getBudgets: vi.fn(async () => ({ success: true, data: [] }))
+});
+
+const GROUP: ConsolidationGroup = {
+  id: 'group-1',
+  name: 'Alpha Group',
+  realmIds: ['alpha', 'beta'],
+  intercompanyAccounts: [
+    { realmId: 'alpha', accountId: '90', accountName: 'Due from Beta', statementLine: 'otherCurrentAssets', counterpartyRealmId: 'beta' },
+    { realmId: 'beta', accountId: '91', accountName: 'Due to Alpha', statementLine: 'otherCurrentLiabilities', counterpartyRealmId: 'alpha' }
+  ],
+  eliminationEntries: []
+};
+
+describe('ReportOrchestratorService.generateConsolidatedReport', () => {
+  // The Perplexity API, answering with an empty analysis
+  const llm = vi.fn<(url: string, init: RequestInit) => Promise<Pick<Response, 'ok' | 'json'>>>(async () => ({
+    ok: true,
+    json: async () => ({ choices: [{ message: { content: JSON.stringify({ choice: {} }) } }] })
+  }));
+
+  beforeEach(() => {
+    vi.stubGlobal('fetch', llm);
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    llm.mockClear();
+    storage.upload.mockClear();
+    generatePDF.mockClear();
+  });
+
+  it('runs end to end and publishes the PDF under a generated report id', async () => {
+    const client = fakeClient();
+    const result = await ReportOrchestratorService.generateConsolidatedReport(
+      client as unknown as QBOApiClient,
+      GROUP,
+      PERIOD,
+      { generatePDF: true }
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.reportId).toMatch(/^[0-9a-f-]{36}$/);
+    expect(llm).toHaveBeenCalledTimes(1);
+    expect(result.metadata.company.name).toBe('Alpha Group');
+    expect(result.reportSections.length).toBeGreaterThan(0);
+
+    const request = JSON.parse(String(llm.mock.calls[0][1].body));
+    expect(request.messages[1].content).toContain('Alpha Group');
+
+    expect(storage.upload).toHaveBeenCalledWith(
+      expect.stringMatching(new RegExp(`^reports/${result.reportId}/financial-report-`)),
+      expect.any(Blob),
+      expect.objectContaining({ contentType: 'application/pdf' })
+    );
+    expect(result.pdfUrl).toMatch(new RegExp(`^https://storage.test/reports/${result.reportId}/`));
+  });
+
+  it('eliminates intercompany balances from the statements sent to the analysis', async () => {
+    const client = fakeClient();
+    const consolidate = vi.spyOn(ConsolidationService, 'consolidateFinancialData');
+    await ReportOrchestratorService.generateConsolidatedReport(client as unknown as QBOApiClient, GROUP, PERIOD);
+
+    const consolidated = consolidate.mock.results[0].value;
+    const { profitLoss, balanceSheet } = consolidated.financialStatements;
+    expect(profitLoss.current.revenue.total).toBe(2000);
+    expect(profitLoss.current.netIncome).toBe(1200);
+    expect(balanceSheet.current.assets.totalAssets).toBe(3200);
+    expect(balanceSheet.current.assets.current.otherCurrentAssets).toBe(0);
+    expect(balanceSheet.current.liabilities.totalLiabilities).toBe(0);
+    expect(consolidated.dataValidation.blocking).toBe(false);
+    expect(generatePDF).not.toHaveBeenCalled();
+  });
+
+  it('stops before the analysis when a group has one company', async () => {
+    const client = fakeClient();
+    await expect(ReportOrchestratorService.generateConsolidatedReport(
+      client as unknown as QBOApiClient,
+      { ...GROUP, realmIds: ['alpha'] },
+      PERIOD
+    )).rejects.toMatchObject({ code: 'INVALID_GROUP' });
+    expect(llm).not.toHaveBeenCalled();
+  });
+});
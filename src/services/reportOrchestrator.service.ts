@@ -1,260 +1,687 @@
-import { QuickBooksService } from './quickbooks.service';
+import { QBOApiClient } from './quickbooks.service';
+import { QBOError } from '../lib/supabase-clerk';
 import { DataTransformService } from './dataTransform.service';
+import { ConsolidationEntityData, ConsolidationService } from './consolidation.service';
 import { PerplexityEnhancedService } from './perplexityEnhanced.service';
 import { PDFEnhancedService } from './pdfEnhanced.service';
+import { CashForecastService } from './cashForecast.service';
 import { supabase } from '../lib/supabase';
+import { describeBlockingIssues, validateFinancialData } from '../lib/statementValidation';
+import { QBO_REPORT_SCHEMAS, parseQBOReport } from '../lib/qboSchemas';
+import { DEFAULT_CURRENCY_FORMAT, currencyFormatOf, localeFromCompanyInfo } from '../lib/currency';
+import { projectScenario, scenarioBaseline } from '../lib/scenarioModel';
+import { TrailingTotals, describeInference, industryCodeOf, inferCompanySize, inferIndustry, trailingTotals } from '../lib/companyProfile';
 import {
+  FiscalCalendar,
+  fiscalCalendarFromCompanyInfo,
+  getComparisonRange,
+  getFiscalYearToDate,
+  getPreviousDay,
+  getTrailingMonths
+} from '../lib/fiscalPeriods';
+import {
+  CashForecast,
   FinancialDataForLLM,
   LLMAnalysisResponse,
   ReportSection,
   DashboardData,
-  PDFReportData
+  PDFReportData,
+  ComparisonPeriod,
+  MaterialityThresholds,
+  QBOBudgetData,
+  AccountingMethod,
+  AccountMapping,
+  ConsolidationGroup,
+  QBOAccount,
+  QBOProfitLossData,
+  Scenario,
+  ScenarioProjection,
+  SegmentDimension,
+  StatementSource
 } from '../types/financial.types';
 
+/**
+ * QBO aged receivables/payables report options
+ */
+interface AgingReportOptions {
+  /** Days per aging bucket (QBO default 30) */
+  agingPeriod?: number;
+  /** Number of buckets before the open-ended one (QBO default 4) */
+  numPeriods?: number;
+  agingMethod?: 'Report_Date' | 'Current';
+  /** Only include amounts at least this many days past due */
+  pastDue?: number;
+}
+
+/**
+ * Options for generateComprehensiveReport
+ */
+interface ComprehensiveReportOptions {
+  includePreviousPeriod?: boolean;
+  /** Compare the P&L with the active QBO budget covering the period */
+  includeBudget?: boolean;
+  generatePDF?: boolean;
+  // REMOVED: generateExcel - only PDF export is in scope
+  industryBenchmarks?: boolean;
+  /** Saved scenarios to project from the period-end statements into the report */
+  scenarios?: Scenario[];
+  trendMonths?: 12 | 24;
+  aging?: AgingReportOptions;
+  /** Prior period to compare with when previousStart/previousEnd are not given */
+  comparison?: ComparisonPeriod;
+  materiality?: MaterialityThresholds;
+  /** Overrides the month-based calendar from the company's FiscalYearStartMonth */
+  fiscalCalendar?: FiscalCalendar;
+  /** Basis for every report (default Accrual) */
+  accountingMethod?: AccountingMethod;
+  /** Also fetch the other basis and add a cash vs accrual reconciliation */
+  basisReconciliation?: boolean;
+  /** The company's saved statement line overrides */
+  accountMappings?: AccountMapping[];
+  /** Build the statements from QBO's statements (default) or the trial balance */
+  statementSource?: StatementSource;
+  /** Also fetch the P&L by Class or Location for segment KPIs */
+  segmentBy?: SegmentDimension;
+}
+
 export class ReportOrchestratorService {
   /**
    * Main orchestration method for generating comprehensive financial reports
    */
   static async generateComprehensiveReport(
-    connectionId: string,
+    client: QBOApiClient,
+    realmId: string,
     reportPeriod: {
       start: string;
       end: string;
       previousStart?: string;
       previousEnd?: string;
     },
-    options: {
-      includePreviousPeriod?: boolean;
-      includeBudget?: boolean;
-      generatePDF?: boolean;
-      // REMOVED: generateExcel - only PDF export is in scope
-      industryBenchmarks?: boolean;
-      scenarioAnalysis?: boolean;
-    } = {}
+    options: ComprehensiveReportOptions = {}
   ) {
     try {
       console.log('Starting comprehensive report generation...');
       
-      // Step 1: Fetch data from QuickBooks
-      console.log('Step 1: Fetching data from QuickBooks...');
+      // Step 1: Get company information (the fiscal calendar drives the date ranges)
+      console.log('Step 1: Getting company information...');
+      const companyInfo = await this.getCompanyInfo(client, realmId);
+      const fiscalCalendar = options.fiscalCalendar || companyInfo.fiscalCalendar;
+      const accountingMethod = options.accountingMethod || 'Accrual';
+      
+      // Step 2: Fetch data from QuickBooks
+      console.log('Step 2: Fetching data from QuickBooks...');
       const qboData = await this.fetchQuickBooksData(
-        connectionId,
-        reportPeriod,
-        options.includePreviousPeriod
+        client,
+        realmId,
+        this.withComparisonPeriod(reportPeriod, fiscalCalendar, options.comparison),
+        options.includePreviousPeriod,
+        options.trendMonths,
+        options.aging,
+        accountingMethod,
+        options.basisReconciliation,
+        options.statementSource === 'trialBalance' ? fiscalCalendar : undefined,
+        options.segmentBy,
+        options.includeBudget
       );
       
-      // Step 2: Get company information
-      console.log('Step 2: Getting company information...');
-      const companyInfo = await this.getCompanyInfo(connectionId);
-      
       // Step 3: Transform QBO data to LLM input format
       console.log('Step 3: Transforming data for LLM analysis...');
+      const profiledCompanyInfo = this.withInferredProfile(companyInfo, qboData);
       const llmInputData = DataTransformService.transformQBOToLLMInput(
-        qboData,
-        companyInfo
-      );
-      
-      // Step 4: Get LLM analysis
-      console.log('Step 4: Getting AI-powered financial analysis...');
-      const llmAnalysis = await PerplexityEnhancedService.analyzeFinancialData(
-        llmInputData
+        { ...qboData, accountMappings: options.accountMappings },
+        profiledCompanyInfo,
+        {
+          comparison: options.comparison,
+          materiality: options.materiality,
+          fiscalCalendar,
+          accountingMethod,
+          statementSource: options.statementSource
+        }
       );
       
-      // Step 5: Get additional analyses if requested
-      let additionalAnalyses: any = {};
+      // Step 3a: Forecast cash from today's bank balances and open invoices and bills
+      console.log('Step 3a: Forecasting cash for the next 13 weeks...');
+      llmInputData.cashForecast = await this.fetchCashForecast(client, realmId);
       
-      if (options.industryBenchmarks && companyInfo.industry) {
-        console.log('Step 5a: Getting industry benchmark analysis...');
-        additionalAnalyses.industryBenchmarks = await PerplexityEnhancedService
-          .getIndustryBenchmarkAnalysis(llmInputData, companyInfo.industry);
-      }
+      return await this.analyzeAndPublish(llmInputData, profiledCompanyInfo, reportPeriod, options);
       
-      if (options.scenarioAnalysis) {
-        console.log('Step 5b: Running scenario analysis...');
-        additionalAnalyses.scenarios = await this.runScenarioAnalysis(
-          llmInputData,
-          llmAnalysis
-        );
+    } catch (error) {
+      console.error('Error generating comprehensive report:', error);
+      throw error;
+    }
+  }
+  
+  /**
+   * Generate one report for a group of companies from their consolidated
+   * statements. Each company is fetched and transformed on its own (with its
+   * own account mappings) before intercompany balances and the group's
+   * elimination entries are taken out.
+   */
+  static async generateConsolidatedReport(
+    client: QBOApiClient,
+    group: ConsolidationGroup,
+    reportPeriod: {
+      start: string;
+      end: string;
+      previousStart?: string;
+      previousEnd?: string;
+    },
+    options: Omit<ComprehensiveReportOptions, 'accountMappings' | 'segmentBy'> & {
+      /** Each company's saved statement line overrides, by realm */
+      accountMappingsByRealm?: Record<string, AccountMapping[]>;
+    } = {}
+  ) {
+    try {
+      console.log(`Starting consolidated report generation for ${group.name}...`);
+      if (group.realmIds.length < 2) {
+        throw new QBOError('A consolidated report needs at least two companies', 'INVALID_GROUP');
       }
       
-      // Step 6: Parse LLM response into UI sections
-      console.log('Step 6: Parsing analysis for UI display...');
-      const reportSections = DataTransformService.parseLLMResponse(llmAnalysis);
-      
-      // Step 7: Prepare dashboard data
-      console.log('Step 7: Preparing dashboard data...');
-      const dashboardData = DataTransformService.prepareDashboardData(
-        llmAnalysis,
-        llmInputData
-      );
-      
-      // Step 8: REMOVED - Database storage to maintain stateless architecture
-      // Financial data is NOT stored - exists only during active session
+      // Step 1: Company information; the first company's calendar sets the periods
+      console.log('Step 1: Getting company information...');
+      const companies = await Promise.all(group.realmIds.map(realmId => this.getCompanyInfo(client, realmId)));
+      const fiscalCalendar = options.fiscalCalendar || companies[0].fiscalCalendar;
+      const accountingMethod = options.accountingMethod || 'Accrual';
+      const period = this.withComparisonPeriod(reportPeriod, fiscalCalendar, options.comparison);
       
-      // Step 9: Generate PDF if requested
-      let pdfUrl: string | undefined;
-      if (options.generatePDF) {
-        console.log('Step 9: Generating PDF report...');
-        pdfUrl = await this.generatePDFReport(
-          reportSections,
-          companyInfo,
-          llmAnalysis,
-          savedReport.id
+      // Step 2: Fetch and transform each company in turn to stay under QBO rate limits
+      console.log('Step 2: Fetching data from QuickBooks for each company...');
+      const entities: ConsolidationEntityData[] = [];
+      const trailing: TrailingTotals[] = [];
+      for (const [i, realmId] of group.realmIds.entries()) {
+        const qboData = await this.fetchQuickBooksData(
+          client,
+          realmId,
+          period,
+          options.includePreviousPeriod,
+          options.trendMonths,
+          options.aging,
+          accountingMethod,
+          options.basisReconciliation,
+          options.statementSource === 'trialBalance' ? fiscalCalendar : undefined
+        );
+        companies[i] = this.withInferredProfile(companies[i], qboData);
+        if (qboData.monthlyProfitLoss) trailing.push(trailingTotals(qboData.monthlyProfitLoss, qboData.accounts));
+        const data = DataTransformService.transformQBOToLLMInput(
+          { ...qboData, accountMappings: options.accountMappingsByRealm?.[realmId] },
+          companies[i],
+          {
+            comparison: options.comparison,
+            materiality: options.materiality,
+            fiscalCalendar,
+            accountingMethod,
+            statementSource: options.statementSource
+          }
         );
+        const intercompanyAccounts = group.intercompanyAccounts.filter(account => account.realmId === realmId);
+        entities.push({
+          realmId,
+          companyName: companies[i].name,
+          data,
+          intercompanyBalances: {
+            current: ConsolidationService.intercompanyBalances(intercompanyAccounts, qboData.profitLoss, qboData.balanceSheet),
+            previous: qboData.previousProfitLoss && qboData.previousBalanceSheet
+              ? ConsolidationService.intercompanyBalances(
+                intercompanyAccounts,
+                qboData.previousProfitLoss,
+                qboData.previousBalanceSheet
+              )
+              : undefined
+          }
+        });
       }
       
-      // Step 10: REMOVED - Excel generation not in scope (PDF only)
-      
-      console.log('Report generation completed successfully!');
-      
-      return {
-        success: true,
-        reportId: savedReport.id,
-        dashboardData,
-        reportSections,
-        llmAnalysis,
-        additionalAnalyses,
-        pdfUrl,
-        // REMOVED: excelUrl - only PDF export is in scope
-        metadata: {
-          generatedAt: new Date().toISOString(),
-          period: reportPeriod,
-          company: companyInfo
-        }
+      // Step 3: Consolidate
+      console.log('Step 3: Consolidating statements and applying eliminations...');
+      const llmInputData = ConsolidationService.consolidateFinancialData(group, entities);
+      // The group is sized by its combined revenue and payroll, not the first company's
+      const groupSize = trailing.length === entities.length
+        ? inferCompanySize({
+          months: Math.min(...trailing.map(totals => totals.months)),
+          revenue: trailing.reduce((sum, totals) => sum + totals.revenue, 0),
+          payroll: trailing.some(totals => totals.payroll !== null)
+            ? trailing.reduce((sum, totals) => sum + (totals.payroll || 0), 0)
+            : null
+        }, currencyFormatOf(llmInputData.metadata))
+        : undefined;
+      llmInputData.metadata.companySize = groupSize?.size;
+      llmInputData.metadata.companySizeBasis = groupSize && `group total ${describeInference(groupSize)}`;
+      const companyInfo = {
+        ...companies[0],
+        size: groupSize?.size,
+        sizeBasis: llmInputData.metadata.companySizeBasis,
+        id: group.id || llmInputData.metadata.companyId,
+        name: group.name,
+        logo: undefined
       };
       
+      return await this.analyzeAndPublish(llmInputData, companyInfo, reportPeriod, options);
+      
     } catch (error) {
-      console.error('Error generating comprehensive report:', error);
+      console.error('Error generating consolidated report:', error);
       throw error;
     }
   }
   
+  /**
+   * Validate the transformed data, run the LLM analysis and build the report
+   * sections, dashboard and PDF
+   */
+  private static async analyzeAndPublish(
+    llmInputData: FinancialDataForLLM,
+    companyInfo: Awaited<ReturnType<typeof ReportOrchestratorService.getCompanyInfo>>,
+    reportPeriod: { start: string; end: string },
+    options: Pick<ComprehensiveReportOptions, 'industryBenchmarks' | 'scenarios' | 'generatePDF'>
+  ) {
+    // Step 3b: Check statement integrity before analysis
+    console.log('Step 3b: Validating statement tie-outs...');
+    llmInputData.dataValidation = validateFinancialData(llmInputData);
+    if (llmInputData.dataValidation.blocking) {
+      throw new QBOError(
+        `Financial statements failed validation: ${describeBlockingIssues(llmInputData.dataValidation)}`,
+        'DATA_VALIDATION_FAILED',
+        llmInputData.dataValidation
+      );
+    }
+    
+    // Step 3c: Project the scenarios so the analysis discusses computed figures
+    if (options.scenarios?.length) {
+      console.log('Step 3c: Projecting scenarios...');
+      llmInputData.scenarios = this.projectScenarios(llmInputData, options.scenarios);
+    }
+    
+    // Step 4: Get LLM analysis
+    console.log('Step 4: Getting AI-powered financial analysis...');
+    const llmAnalysis = await PerplexityEnhancedService.analyzeFinancialData(
+      llmInputData
+    );
+    
+    // Step 5: Get additional analyses if requested
+    let additionalAnalyses: any = {};
+    
+    if (options.industryBenchmarks && companyInfo.industry) {
+      console.log('Step 5a: Getting industry benchmark analysis...');
+      additionalAnalyses.industryBenchmarks = await PerplexityEnhancedService
+        .getIndustryBenchmarkAnalysis(llmInputData, companyInfo.industry);
+    }
+    
+    // Step 6: Parse LLM response into UI sections
+    console.log('Step 6: Parsing analysis for UI display...');
+    const reportSections = DataTransformService.parseLLMResponse(llmAnalysis, llmInputData);
+    
+    // Step 7: Prepare dashboard data
+    console.log('Step 7: Preparing dashboard data...');
+    const dashboardData = DataTransformService.prepareDashboardData(
+      llmAnalysis,
+      llmInputData
+    );
+    
+    // Step 8: REMOVED - Database storage to maintain stateless architecture
+    // Financial data is NOT stored - exists only during active session, so
+    // the report id only names this run's files in storage
+    const reportId = crypto.randomUUID();
+    
+    // Step 9: Generate PDF if requested
+    let pdfUrl: string | undefined;
+    if (options.generatePDF) {
+      console.log('Step 9: Generating PDF report...');
+      pdfUrl = await this.generatePDFReport(
+        reportSections,
+        companyInfo,
+        llmAnalysis,
+        reportId
+      );
+    }
+    
+    // Step 10: REMOVED - Excel generation not in scope (PDF only)
+    
+    console.log('Report generation completed successfully!');
+    
+    return {
+      success: true,
+      reportId,
+      dashboardData,
+      reportSections,
+      llmAnalysis,
+      additionalAnalyses,
+      pdfUrl,
+      // REMOVED: excelUrl - only PDF export is in scope
+      metadata: {
+        generatedAt: new Date().toISOString(),
+        period: reportPeriod,
+        company: companyInfo
+      }
+    };
+    
+  }
+  
+  /**
+   * Fill in the previous period from the comparison type and fiscal calendar
+   * unless the caller gave one explicitly. Defaults to month over month.
+   */
+  private static withComparisonPeriod<T extends { start: string; end: string; previousStart?: string; previousEnd?: string }>(
+    period: T,
+    fiscalCalendar: FiscalCalendar,
+    comparison: ComparisonPeriod = 'MoM'
+  ): T {
+    if (period.previousStart && period.previousEnd) return period;
+    const previous = getComparisonRange(fiscalCalendar, period, comparison);
+    return { ...period, previousStart: previous.start, previousEnd: previous.end };
+  }
+  
   /**
    * Fetch all required data from QuickBooks
    */
   private static async fetchQuickBooksData(
-    connectionId: string,
+    client: QBOApiClient,
+    realmId: string,
     period: any,
-    includePrevious: boolean = false
+    includePrevious: boolean = false,
+    trendMonths: number = 24,
+    aging: AgingReportOptions = {},
+    accountingMethod: AccountingMethod = 'Accrual',
+    includeAlternateBasis: boolean = false,
+    trialBalanceCalendar?: FiscalCalendar,
+    segmentBy?: SegmentDimension,
+    includeBudget: boolean = false
   ) {
-    // Fetch current period reports
-    const [profitLoss, balanceSheet, cashFlow, arAging, apAging] = await Promise.all([
-      QuickBooksService.importReports(connectionId, 'profit_loss', period.start, period.end),
-      QuickBooksService.importReports(connectionId, 'balance_sheet', period.start, period.end),
-      QuickBooksService.importReports(connectionId, 'cash_flow', period.start, period.end),
-      QuickBooksService.importReports(connectionId, 'aged_receivables', period.start, period.end),
-      QuickBooksService.importReports(connectionId, 'aged_payables', period.start, period.end)
+    const range = { start_date: period.start, end_date: period.end };
+    // Trailing months ending with the report period, one column per month.
+    // 24 months lets the trends cover a full year-over-year comparison.
+    const trendRange = {
+      start_date: getTrailingMonths(period.end, trendMonths).start,
+      end_date: period.end,
+      summarize_column_by: 'Month'
+    };
+    const agingParams: Record<string, string> = { report_date: period.end };
+    if (aging.agingPeriod) agingParams.aging_period = String(aging.agingPeriod);
+    if (aging.numPeriods) agingParams.num_periods = String(aging.numPeriods);
+    if (aging.agingMethod) agingParams.aging_method = aging.agingMethod;
+    if (aging.pastDue !== undefined) agingParams.past_due = String(aging.pastDue);
+    
+    // Fetch current period reports, monthly trend reports and the chart of accounts
+    const [
+      profitLoss,
+      balanceSheet,
+      cashFlow,
+      arAging,
+      apAging,
+      monthlyProfitLoss,
+      monthlyCashFlow,
+      accounts,
+      newCustomers,
+      customerSales,
+      itemSales,
+      items,
+      exchangeRates
+    ] = await Promise.all([
+      this.fetchReport(client, realmId, 'ProfitAndLoss', range, accountingMethod),
+      this.fetchReport(client, realmId, 'BalanceSheet', range, accountingMethod),
+      this.fetchReport(client, realmId, 'CashFlow', range, accountingMethod),
+      this.fetchReport(client, realmId, 'AgedReceivables', agingParams, accountingMethod),
+      this.fetchReport(client, realmId, 'AgedPayables', agingParams, accountingMethod),
+      this.fetchReport(client, realmId, 'ProfitAndLoss', trendRange, accountingMethod),
+      this.fetchReport(client, realmId, 'CashFlow', trendRange, accountingMethod),
+      // Inactive accounts can still carry balances in the reported periods
+      client.getAccounts(realmId, { includeInactive: true }),
+      this.fetchNewCustomerCount(client, realmId, period),
+      this.fetchOptionalReport(client, realmId, 'CustomerSales', range, accountingMethod),
+      this.fetchOptionalReport(client, realmId, 'ItemSales', range, accountingMethod),
+      client.getItems(realmId),
+      // Period-end rates for translating foreign-currency balances
+      client.getExchangeRates(realmId, period.end)
     ]);
     
-    let previousProfitLoss, previousBalanceSheet;
+    // Item sales for the comparison period give each product's growth
+    const previousItemSales = itemSales && period.previousStart && period.previousEnd
+      ? await this.fetchOptionalReport(
+        client,
+        realmId,
+        'ItemSales',
+        { start_date: period.previousStart, end_date: period.previousEnd },
+        accountingMethod
+      )
+      : undefined;
+    
+    let previousProfitLoss, previousBalanceSheet, previousCashFlow;
     
     // Fetch previous period if requested
     if (includePrevious && period.previousStart && period.previousEnd) {
-      [previousProfitLoss, previousBalanceSheet] = await Promise.all([
-        QuickBooksService.importReports(connectionId, 'profit_loss', period.previousStart, period.previousEnd),
-        QuickBooksService.importReports(connectionId, 'balance_sheet', period.previousStart, period.previousEnd)
+      const previousRange = { start_date: period.previousStart, end_date: period.previousEnd };
+      [previousProfitLoss, previousBalanceSheet, previousCashFlow] = await Promise.all([
+        this.fetchReport(client, realmId, 'ProfitAndLoss', previousRange, accountingMethod),
+        this.fetchReport(client, realmId, 'BalanceSheet', previousRange, accountingMethod),
+        this.fetchReport(client, realmId, 'CashFlow', previousRange, accountingMethod)
+      ]);
+    }
+    
+    // The same period on the other basis for the cash vs accrual reconciliation
+    let alternateBasis;
+    if (includeAlternateBasis) {
+      const otherMethod: AccountingMethod = accountingMethod === 'Accrual' ? 'Cash' : 'Accrual';
+      const [alternateProfitLoss, alternateBalanceSheet] = await Promise.all([
+        this.fetchReport(client, realmId, 'ProfitAndLoss', range, otherMethod),
+        this.fetchReport(client, realmId, 'BalanceSheet', range, otherMethod)
       ]);
+      alternateBasis = { profitLoss: alternateProfitLoss, balanceSheet: alternateBalanceSheet };
     }
     
-    // Fetch budget data if available
-    const budget = await this.fetchBudgetData(connectionId, period);
+    // Trial balances for building the statements from account balances. The
+    // TB shows P&L accounts year to date, so the period's activity is the
+    // difference from a TB ending the day before the period starts.
+    let trialBalance, openingTrialBalance;
+    if (trialBalanceCalendar) {
+      const yearToDate = getFiscalYearToDate(trialBalanceCalendar, period.end);
+      if (period.start < yearToDate.start) {
+        throw new QBOError(
+          `Trial balance statements need a period within one fiscal year; ${period.start} is before the fiscal year starting ${yearToDate.start}`,
+          'INVALID_PERIOD'
+        );
+      }
+      [trialBalance, openingTrialBalance] = await Promise.all([
+        this.fetchReport(client, realmId, 'TrialBalance', { start_date: yearToDate.start, end_date: period.end }, accountingMethod),
+        period.start > yearToDate.start
+          ? this.fetchReport(client, realmId, 'TrialBalance', { start_date: yearToDate.start, end_date: getPreviousDay(period.start) }, accountingMethod)
+          : undefined
+      ]);
+    }
+    
+    // One P&L column per class or location
+    const segmentedProfitLoss = segmentBy
+      ? {
+        dimension: segmentBy,
+        report: await this.fetchReport(
+          client,
+          realmId,
+          'ProfitAndLoss',
+          { ...range, summarize_column_by: segmentBy },
+          accountingMethod
+        )
+      }
+      : undefined;
+    
+    // Fetch budget data if requested and available
+    const budget = includeBudget
+      ? await this.fetchBudgetData(client, realmId, period)
+      : undefined;
     
     return {
-      profitLoss: profitLoss.report_data,
-      balanceSheet: balanceSheet.report_data,
-      cashFlow: cashFlow.report_data,
-      arAging: arAging.report_data,
-      apAging: apAging.report_data,
+      profitLoss,
+      balanceSheet,
+      cashFlow,
+      arAging,
+      apAging,
       budget,
-      previousProfitLoss: previousProfitLoss?.report_data,
-      previousBalanceSheet: previousBalanceSheet?.report_data
+      previousProfitLoss,
+      previousBalanceSheet,
+      previousCashFlow,
+      monthlyProfitLoss,
+      monthlyCashFlow,
+      newCustomers,
+      customerSales,
+      itemSales,
+      previousItemSales,
+      items: items.success ? items.data : undefined,
+      alternateBasis,
+      trialBalance,
+      openingTrialBalance,
+      segmentedProfitLoss,
+      exchangeRates: exchangeRates.success ? exchangeRates.data : undefined,
+      // Without the account list the balance sheet falls back to section-based classification
+      accounts: accounts.success ? accounts.data : undefined
     };
   }
   
+  /**
+   * Number of customers created during the period, used for customer
+   * acquisition cost. Undefined when the count cannot be fetched.
+   */
+  private static async fetchNewCustomerCount(
+    client: QBOApiClient,
+    realmId: string,
+    period: { start: string; end: string }
+  ): Promise<number | undefined> {
+    const response = await client.query<{ totalCount?: number }>(
+      realmId,
+      `select count(*) from Customer where MetaData.CreateTime >= '${period.start}' and MetaData.CreateTime <= '${period.end}T23:59:59'`
+    );
+    return response.success ? response.data?.totalCount ?? 0 : undefined;
+  }
+  
+  /**
+   * The 13-week cash forecast, which the analysis can do without. Returns
+   * undefined when QBO cannot return the open invoices and bills.
+   */
+  private static async fetchCashForecast(client: QBOApiClient, realmId: string): Promise<CashForecast | undefined> {
+    try {
+      return await CashForecastService.buildForecast(client, realmId);
+    } catch (error) {
+      console.warn('Cash forecast unavailable; continuing without it:', error);
+      return undefined;
+    }
+  }
+  
+  /**
+   * Fetch a report the analysis can do without (sales by customer, sales by
+   * item). Returns undefined when QBO cannot return it.
+   */
+  private static async fetchOptionalReport(
+    client: QBOApiClient,
+    realmId: string,
+    reportType: string,
+    range: Record<string, string>,
+    accountingMethod: AccountingMethod
+  ) {
+    try {
+      return await this.fetchReport(client, realmId, reportType, range, accountingMethod);
+    } catch (error) {
+      console.warn(`${reportType} report unavailable; continuing without it:`, error);
+      return undefined;
+    }
+  }
+  
+  /**
+   * Fetch a single QBO report, throwing if the API call fails or the report
+   * does not have the expected structure
+   */
+  private static async fetchReport(
+    client: QBOApiClient,
+    realmId: string,
+    reportType: string,
+    params: Record<string, string>,
+    accountingMethod?: AccountingMethod
+  ) {
+    const response = await client.getReport(realmId, reportType, params, accountingMethod);
+    if (!response.success) {
+      throw new QBOError(
+        `Failed to fetch ${reportType} report: ${response.error?.message || 'Unknown error'}`,
+        response.error?.code,
+        response.error?.detail
+      );
+    }
+    
+    const schema = QBO_REPORT_SCHEMAS[reportType];
+    if (!schema) return response.data;
+    const range = params.start_date ? `${params.start_date} to ${params.end_date}` : params.report_date;
+    return parseQBOReport(schema, response.data, `${reportType} (${range})`);
+  }
+  
   /**
    * Get company information
    */
-  private static async getCompanyInfo(connectionId: string) {
+  private static async getCompanyInfo(client: QBOApiClient, realmId: string) {
     // Get from QuickBooks
-    const qboCompanyInfo = await QuickBooksService.getCompanyInfo(connectionId);
+    const response = await client.getCompanyInfo(realmId);
+    if (!response.success || !response.data) {
+      throw new QBOError(
+        `Failed to fetch company info: ${response.error?.message || 'Unknown error'}`,
+        response.error?.code,
+        response.error?.detail
+      );
+    }
+    const qboCompanyInfo = response.data;
     
     // Get additional info from database
     const { data: dbCompanyInfo } = await supabase
       .from('companies')
       .select('*')
-      .eq('quickbooks_connection_id', connectionId)
+      .eq('quickbooks_connection_id', realmId)
       .single();
     
+    // The CPA's confirmed profile wins; anything unconfirmed is inferred
+    // once the company's data is fetched (withInferredProfile)
+    const confirmed = Boolean(dbCompanyInfo?.profile_confirmed_at);
+    const industry: string | undefined = (confirmed && dbCompanyInfo.industry) || undefined;
+    const size: string | undefined = (confirmed && dbCompanyInfo.size) || undefined;
+    
     return {
-      id: dbCompanyInfo?.id || qboCompanyInfo.CompanyInfo.Id,
-      name: qboCompanyInfo.CompanyInfo.CompanyName,
-      industry: dbCompanyInfo?.industry || this.inferIndustry(qboCompanyInfo),
-      size: dbCompanyInfo?.size || this.inferCompanySize(qboCompanyInfo),
-      address: qboCompanyInfo.CompanyInfo.CompanyAddr,
-      fiscalYearStart: qboCompanyInfo.CompanyInfo.FiscalYearStartMonth,
+      id: dbCompanyInfo?.id || qboCompanyInfo.Id || realmId,
+      name: qboCompanyInfo.CompanyName,
+      industry,
+      size,
+      industryBasis: industry ? 'confirmed by the CPA' : undefined,
+      sizeBasis: size ? 'confirmed by the CPA' : undefined,
+      /** QBO's IndustryType and IndustryCode settings */
+      industrySettings: qboCompanyInfo.NameValue as Array<{ Name?: string; Value?: string }> | undefined,
+      naicsCode: industryCodeOf({ NameValue: qboCompanyInfo.NameValue }),
+      address: qboCompanyInfo.CompanyAddr,
+      fiscalYearStart: qboCompanyInfo.FiscalYearStartMonth,
+      fiscalCalendar: fiscalCalendarFromCompanyInfo(qboCompanyInfo),
+      locale: localeFromCompanyInfo(qboCompanyInfo),
       logo: dbCompanyInfo?.logo_url
     };
   }
   
   /**
-   * Fetch budget data
+   * Fetch the active profit and loss budget covering the report period.
+   * Budget vs actual is optional, so failures are logged and skipped.
    */
-  private static async fetchBudgetData(connectionId: string, period: any) {
-    // This would fetch budget data from QuickBooks or a separate budget system
-    // For now, return null if not available
-    try {
-      const { data } = await supabase
-        .from('budgets')
-        .select('*')
-        .eq('connection_id', connectionId)
-        .gte('start_date', period.start)
-        .lte('end_date', period.end)
-        .single();
-      
-      return data;
-    } catch {
-      return null;
+  private static async fetchBudgetData(
+    client: QBOApiClient,
+    realmId: string,
+    period: { start: string; end: string }
+  ): Promise<QBOBudgetData | undefined> {
+    const response = await client.getBudgets(realmId);
+    if (!response.success) {
+      console.warn('Failed to fetch budgets:', response.error?.message);
+      return undefined;
     }
+    
+    const budget = DataTransformService.findBudgetForPeriod(response.data || [], period);
+    return budget ? DataTransformService.transformQBOBudget(budget) : undefined;
   }
   
   /**
-   * Run scenario analysis
+   * Project each scenario from the report period's P&L and period-end
+   * balance sheet
    */
-  private static async runScenarioAnalysis(
+  private static projectScenarios(
     financialData: FinancialDataForLLM,
-    baseAnalysis: LLMAnalysisResponse
-  ) {
-    const scenarios = [
-      {
-        name: 'Best Case',
-        assumptions: [
-          '20% revenue growth',
-          '5% cost reduction',
-          'Improved collection cycle by 10 days'
-        ]
-      },
-      {
-        name: 'Base Case',
-        assumptions: [
-          '10% revenue growth',
-          'Costs remain stable',
-          'Collection cycle unchanged'
-        ]
-      },
-      {
-        name: 'Worst Case',
-        assumptions: [
-          '5% revenue decline',
-          '10% cost increase',
-          'Collection cycle extends by 15 days'
-        ]
-      }
-    ];
-    
-    return await PerplexityEnhancedService.getScenarioAnalysis(
-      financialData,
-      scenarios
-    );
+    scenarios: Scenario[]
+  ): ScenarioProjection[] {
+    const { profitLoss, balanceSheet } = financialData.financialStatements;
+    const baseline = scenarioBaseline(profitLoss.current, balanceSheet.current, financialData.metadata.reportPeriod);
+    return scenarios.map(scenario => projectScenario(baseline, scenario));
   }
   
   /**
@@ -318,17 +745,11 @@ export class ReportOrchestratorService {
     
     if (error) throw error;
     
-    // Get public URL
+    // Get public URL. There is no report record to update (stateless architecture).
     const { data: { publicUrl } } = supabase.storage
       .from('reports')
       .getPublicUrl(fileName);
     
-    // Update report record with PDF URL
-    await supabase
-      .from('financial_reports')
-      .update({ pdf_url: publicUrl })
-      .eq('id', reportId);
-    
     return publicUrl;
   }
   
@@ -345,10 +766,11 @@ export class ReportOrchestratorService {
    * REMOVED: refreshReport - stateless architecture
    * Reports are not stored in database, generated fresh each time
    */
-  static async refreshReportRemoved(reportId: string) {
+  static async refreshReportRemoved(client: QBOApiClient, reportId: string) {
     // This method is removed - stateless architecture
     // Generate new report with same parameters
     return await this.generateComprehensiveReport(
+      client,
       existingReport.connection_id,
       {
         start: existingReport.period_start,
@@ -356,6 +778,7 @@ export class ReportOrchestratorService {
       },
       {
         includePreviousPeriod: true,
+        includeBudget: true,
         generatePDF: true
         // REMOVED: generateExcel - only PDF export is in scope
       }
@@ -363,19 +786,27 @@ export class ReportOrchestratorService {
   }
   
   /**
-   * Infer industry from company data
+   * Fill in the industry and size the CPA has not confirmed, from the
+   * company's QBO industry settings, chart of accounts and trailing P&L
    */
-  private static inferIndustry(companyInfo: any): string {
-    // Logic to infer industry from company data
-    // This would use business type, SIC codes, or other indicators
-    return 'technology'; // Default
-  }
-  
-  /**
-   * Infer company size
-   */
-  private static inferCompanySize(companyInfo: any): string {
-    // Logic to infer company size from revenue, employees, etc.
-    return 'small'; // Default
+  private static withInferredProfile<T extends Awaited<ReturnType<typeof ReportOrchestratorService.getCompanyInfo>>>(
+    companyInfo: T,
+    qboData: { accounts?: QBOAccount[]; monthlyProfitLoss?: QBOProfitLossData }
+  ): T {
+    const industry = companyInfo.industry
+      ? undefined
+      : inferIndustry({ NameValue: companyInfo.industrySettings }, qboData.accounts);
+    const size = companyInfo.size || !qboData.monthlyProfitLoss
+      ? undefined
+      : inferCompanySize(trailingTotals(qboData.monthlyProfitLoss, qboData.accounts), {
+        currency: qboData.monthlyProfitLoss.Header.Currency || DEFAULT_CURRENCY_FORMAT.currency,
+        locale: companyInfo.locale
+      });
+    
+    return {
+      ...companyInfo,
+      ...(industry ? { industry: industry.industry, industryBasis: describeInference(industry) } : {}),
+      ...(size ? { size: size.size, sizeBasis: describeInference(size) } : {})
+    };
   }
 }
\ No newline at end of file
@@ -0,0 +1,69 @@
+import { QBOApiClient } from './quickbooks.service';
+import { QBOError } from '../lib/supabase-clerk';
+import { DataTransformService } from './dataTransform.service';
+import { balanceSheetSchema, parseQBOReport, profitLossSchema } from '../lib/qboSchemas';
+import { getPreviousDay, getTrailingMonths } from '../lib/fiscalPeriods';
+import { DEFAULT_CURRENCY_FORMAT, localeFromCompanyInfo } from '../lib/currency';
+import { scenarioBaseline } from '../lib/scenarioModel';
+import { AccountMapping, CurrencyFormat, ScenarioBaseline } from '../types/financial.types';
+
+/** Months of P&L the planning run rates are averaged over */
+const BASELINE_MONTHS = 3;
+
+export interface ScenarioPlanningBaseline {
+  baseline: ScenarioBaseline;
+  currencyFormat: CurrencyFormat;
+}
+
+export class ScenarioPlanningService {
+  /**
+   * Baseline for scenario planning: run rates from the P&L of the three
+   * months before the current month and balances at the last month end
+   */
+  static async loadBaseline(
+    client: QBOApiClient,
+    realmId: string,
+    accountMappings: AccountMapping[] = [],
+    asOf: string = new Date().toISOString().slice(0, 10)
+  ): Promise<ScenarioPlanningBaseline> {
+    const end = getPreviousDay(`${asOf.slice(0, 7)}-01`);
+    const period = getTrailingMonths(end, BASELINE_MONTHS);
+    const [companyInfo, profitLoss, balanceSheet] = await Promise.all([
+      client.getCompanyInfo(realmId),
+      client.getReport(realmId, 'ProfitAndLoss', { start_date: period.start, end_date: period.end }),
+      client.getReport(realmId, 'BalanceSheet', { start_date: period.start, end_date: period.end })
+    ]);
+    for (const [name, response] of [['ProfitAndLoss', profitLoss], ['BalanceSheet', balanceSheet]] as const) {
+      if (!response.success || !response.data) {
+        throw new QBOError(
+          `Failed to fetch ${name} report: ${response.error?.message || 'Unknown error'}`,
+          response.error?.code,
+          response.error?.detail
+        );
+      }
+    }
+
+    const range = `${period.start} to ${period.end}`;
+    const statements = DataTransformService.transformForValidation(
+      {
+        profitLoss: parseQBOReport(profitLossSchema, profitLoss.data, `ProfitAndLoss (${range})`),
+        balanceSheet: parseQBOReport(balanceSheetSchema, balanceSheet.data, `BalanceSheet (${range})`)
+      },
+      'Accrual',
+      accountMappings
+    );
+    if (!statements.profitLoss || !statements.balanceSheet) {
+      throw new QBOError('QuickBooks returned no statements to plan from', 'NO_DATA');
+    }
+
+    return {
+      baseline: scenarioBaseline(statements.profitLoss, statements.balanceSheet, period),
+      currencyFormat: {
+        currency: profitLoss.data.Header?.Currency || DEFAULT_CURRENCY_FORMAT.currency,
+        locale: companyInfo.success && companyInfo.data
+          ? localeFromCompanyInfo(companyInfo.data)
+          : DEFAULT_CURRENCY_FORMAT.locale
+      }
+    };
+  }
+}
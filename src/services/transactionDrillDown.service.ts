@@ -0,0 +1,154 @@
+import { QBOApiClient } from './quickbooks.service';
+import { QBOError } from '../lib/supabase-clerk';
+import { generalLedgerSchema, parseQBOReport } from '../lib/qboSchemas';
+import { getMetaData, parseAmount } from '../lib/qboReportTree';
+import {
+  AccountingMethod,
+  QBOGeneralLedgerData,
+  QBOReportRow,
+  TransactionDetail,
+  TransactionDrillDown,
+  TransactionDrillDownTarget
+} from '../types/financial.types';
+
+/** GeneralLedger columns requested for each transaction */
+const LEDGER_COLUMNS = ['tx_date', 'txn_type', 'doc_num', 'name', 'memo', 'subt_nat_amount'];
+
+/** ColKeys QBO uses for the transaction amount, in order of preference */
+const AMOUNT_KEYS = ['subt_nat_amount', 'nat_amount', 'amount'];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const DEFAULT_TRANSACTION_PAGE_SIZE = 25;
+
+export interface TransactionPage {
+  transactions: TransactionDetail[];
+  /** 1-based */
+  page: number;
+  pageCount: number;
+}
+
+export class TransactionDrillDownService {
+  /**
+   * List the transactions behind an account's balance for a period. Uses the
+   * GeneralLedger report because, unlike TransactionList, it can be filtered
+   * by account.
+   */
+  static async fetchTransactions(
+    client: QBOApiClient,
+    realmId: string,
+    target: TransactionDrillDownTarget,
+    accountingMethod?: AccountingMethod
+  ): Promise<TransactionDrillDown> {
+    const response = await client.getReport(realmId, 'GeneralLedger', {
+      account: target.accountId,
+      start_date: target.start,
+      end_date: target.end,
+      columns: LEDGER_COLUMNS.join(','),
+      sort_by: 'tx_date'
+    }, accountingMethod);
+    if (!response.success) {
+      throw new QBOError(
+        `Failed to fetch transactions for ${target.accountName}: ${response.error?.message || 'Unknown error'}`,
+        response.error?.code,
+        response.error?.detail
+      );
+    }
+
+    const report = parseQBOReport(
+      generalLedgerSchema,
+      response.data,
+      `GeneralLedger (${target.accountName}, ${target.start} to ${target.end})`
+    );
+    const transactions = this.parseGeneralLedger(report);
+
+    return {
+      target,
+      accountingMethod,
+      transactions,
+      total: Math.round(transactions.reduce((sum, txn) => sum + txn.amount, 0) * 100) / 100
+    };
+  }
+
+  /**
+   * One entry per transaction row. Beginning balance and total rows are
+   * skipped; each transaction is labelled with the account section it sits in.
+   */
+  static parseGeneralLedger(report: QBOGeneralLedgerData): TransactionDetail[] {
+    const keys = report.Columns.Column.map(column => getMetaData(column, 'ColKey') || '');
+    const indexOf = (key: string) => keys.indexOf(key);
+    const amountIndex = AMOUNT_KEYS.map(indexOf).find(index => index >= 0) ?? -1;
+    const dateIndex = indexOf('tx_date');
+    const typeIndex = indexOf('txn_type');
+    const transactions: TransactionDetail[] = [];
+
+    const visit = (rows: QBOReportRow[] | undefined, accountName: string) => {
+      (rows || []).forEach(row => {
+        if (row.Rows?.Row || row.Header) {
+          visit(row.Rows?.Row, row.Header?.ColData?.[0]?.value || accountName);
+          return;
+        }
+
+        const colData = row.ColData;
+        const date = colData?.[dateIndex]?.value || '';
+        if (!colData || !DATE_PATTERN.test(date)) return;
+
+        const text = (key: string) => colData[indexOf(key)]?.value?.trim() || undefined;
+        transactions.push({
+          ...(colData[typeIndex]?.id ? { transactionId: colData[typeIndex].id } : {}),
+          date,
+          type: text('txn_type') || 'Transaction',
+          docNumber: text('doc_num'),
+          name: text('name'),
+          memo: text('memo'),
+          accountName,
+          amount: parseAmount(colData[amountIndex]?.value)
+        });
+      });
+    };
+    visit(report.Rows.Row, '');
+
+    return transactions;
+  }
+
+  /**
+   * One page of transactions, clamping the page number to the available pages
+   */
+  static paginate(
+    transactions: TransactionDetail[],
+    page: number,
+    pageSize: number = DEFAULT_TRANSACTION_PAGE_SIZE
+  ): TransactionPage {
+    const pageCount = Math.max(1, Math.ceil(transactions.length / pageSize));
+    const current = Math.min(Math.max(1, page), pageCount);
+    return {
+      transactions: transactions.slice((current - 1) * pageSize, current * pageSize),
+      page: current,
+      pageCount
+    };
+  }
+
+  /**
+   * CSV of every transaction in the drill-down, with a total row
+   */
+  static toCsv(drillDown: TransactionDrillDown): string {
+    const escape = (value: string | number | undefined) => {
+      const text = value === undefined ? '' : String(value);
+      return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+    const rows = [
+      ['Date', 'Type', 'Num', 'Name', 'Memo', 'Account', 'Amount'],
+      ...drillDown.transactions.map(txn => [
+        txn.date,
+        txn.type,
+        txn.docNumber,
+        txn.name,
+        txn.memo,
+        txn.accountName,
+        txn.amount.toFixed(2)
+      ]),
+      ['Total', '', '', '', '', drillDown.target.accountName, drillDown.total.toFixed(2)]
+    ];
+    return rows.map(row => row.map(escape).join(',')).join('\n');
+  }
+}
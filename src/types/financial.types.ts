@@ -1,11 +1,38 @@
 // QBO API Response Types
+export interface QBOColData {
+  value: string;
+  id?: string;
+}
+
+/**
+ * A row in a QBO report. Sections nest to any depth: a Section has a Header
+ * (label), child Rows and a Summary (total); a Data row carries the account
+ * label and one amount per column in ColData.
+ */
+export interface QBOReportRow {
+  group?: string;
+  type?: 'Section' | 'Data' | string;
+  ColData?: QBOColData[];
+  Header?: {
+    ColData: QBOColData[];
+  };
+  Summary?: {
+    ColData: QBOColData[];
+  };
+  /** Empty sections may come back as "Rows": {} */
+  Rows?: {
+    Row?: QBOReportRow[];
+  };
+}
+
 export interface QBOProfitLossData {
   Header: {
-    Time: string;
+    Time?: string;
     ReportName: string;
+    ReportBasis?: string;
     StartPeriod: string;
     EndPeriod: string;
-    Currency: string;
+    Currency?: string;
   };
   Columns: {
     Column: Array<{
@@ -14,32 +41,18 @@ export interface QBOProfitLossData {
     }>;
   };
   Rows: {
-    Row: Array<{
-      group?: string;
-      type?: string;
-      ColData?: Array<{
-        value: string;
-        id?: string;
-      }>;
-      Summary?: {
-        ColData: Array<{
-          value: string;
-        }>;
-      };
-      Rows?: {
-        Row: Array<any>;
-      };
-    }>;
+    Row?: QBOReportRow[];
   };
 }
 
 export interface QBOBalanceSheetData {
   Header: {
-    Time: string;
+    Time?: string;
     ReportName: string;
+    ReportBasis?: string;
     StartPeriod: string;
     EndPeriod: string;
-    Currency: string;
+    Currency?: string;
   };
   Columns: {
     Column: Array<{
@@ -48,54 +61,62 @@ export interface QBOBalanceSheetData {
     }>;
   };
   Rows: {
-    Row: Array<{
-      group?: string;
-      type?: string;
-      ColData?: Array<{
-        value: string;
-        id?: string;
-      }>;
-      Summary?: {
-        ColData: Array<{
-          value: string;
-        }>;
-      };
-      Rows?: {
-        Row: Array<any>;
-      };
-    }>;
+    Row?: QBOReportRow[];
   };
 }
 
 export interface QBOCashFlowData {
   Header: {
-    Time: string;
+    Time?: string;
     ReportName: string;
+    ReportBasis?: string;
     StartPeriod: string;
     EndPeriod: string;
-    Currency: string;
+    Currency?: string;
   };
-  Rows: {
-    Row: Array<{
-      group?: string;
-      type?: string;
-      ColData?: Array<{
-        value: string;
-      }>;
-      Rows?: {
-        Row: Array<any>;
-      };
+  Columns?: {
+    Column: Array<{
+      ColTitle: string;
+      ColType: string;
     }>;
   };
+  Rows: {
+    Row?: QBOReportRow[];
+  };
 }
 
 export interface QBOAgingReportData {
   Header: {
-    Time: string;
+    Time?: string;
     ReportName: string;
-    ReportBasis: string;
+    ReportBasis?: string;
+    StartPeriod?: string;
+    EndPeriod?: string;
+  };
+  Columns: {
+    Column: Array<{
+      ColTitle: string;
+      ColType: string;
+    }>;
+  };
+  Rows: {
+    Row?: QBOReportRow[];
+  };
+}
+
+/**
+ * QBO TrialBalance report: one row per account with Debit and Credit columns.
+ * Balance sheet accounts show their balance at EndPeriod; income statement
+ * accounts show activity since the start of the fiscal year.
+ */
+export interface QBOTrialBalanceData {
+  Header: {
+    Time?: string;
+    ReportName: string;
+    ReportBasis?: string;
     StartPeriod: string;
     EndPeriod: string;
+    Currency?: string;
   };
   Columns: {
     Column: Array<{
@@ -104,21 +125,219 @@ export interface QBOAgingReportData {
     }>;
   };
   Rows: {
-    Row: Array<{
-      ColData?: Array<{
-        value: string;
-        id?: string;
-      }>;
-      type?: string;
+    Row?: QBOReportRow[];
+  };
+}
+
+/**
+ * QBO CustomerSales or CustomerIncome report: one row per customer, with
+ * sub-customers and jobs as sections under their parent customer.
+ * CustomerIncome has Income, Expense and Net Income columns.
+ */
+export interface QBOCustomerSalesData {
+  Header: {
+    Time?: string;
+    ReportName: string;
+    ReportBasis?: string;
+    StartPeriod: string;
+    EndPeriod: string;
+    Currency?: string;
+  };
+  Columns: {
+    Column: Array<{
+      ColTitle: string;
+      ColType: string;
+      MetaData?: Array<{ Name: string; Value?: string }>;
+    }>;
+  };
+  Rows: {
+    Row?: QBOReportRow[];
+  };
+}
+
+/**
+ * QBO ItemSales (Sales by Product/Service Summary) report: one row per item,
+ * grouped into category sections. Columns include quantity, amount, average
+ * price and, for inventory items, COGS and gross margin.
+ */
+export interface QBOItemSalesData {
+  Header: {
+    Time?: string;
+    ReportName: string;
+    ReportBasis?: string;
+    StartPeriod: string;
+    EndPeriod: string;
+    Currency?: string;
+  };
+  Columns: {
+    Column: Array<{
+      ColTitle: string;
+      ColType: string;
+      MetaData?: Array<{ Name: string; Value?: string }>;
+    }>;
+  };
+  Rows: {
+    Row?: QBOReportRow[];
+  };
+}
+
+/**
+ * QBO GeneralLedger report: a section per account holding one row per
+ * transaction, with columns chosen by the `columns` parameter and named by
+ * each column's ColKey metadata
+ */
+export interface QBOGeneralLedgerData {
+  Header: {
+    Time?: string;
+    ReportName: string;
+    ReportBasis?: string;
+    StartPeriod: string;
+    EndPeriod: string;
+    Currency?: string;
+  };
+  Columns: {
+    Column: Array<{
+      ColTitle: string;
+      ColType: string;
+      MetaData?: Array<{ Name: string; Value?: string }>;
     }>;
   };
+  Rows: {
+    Row?: QBOReportRow[];
+  };
+}
+
+/**
+ * QBO Account entity (select * from Account)
+ */
+export interface QBOAccount {
+  Id: string;
+  Name: string;
+  FullyQualifiedName?: string;
+  AccountType: string;
+  AccountSubType?: string;
+  Classification?: 'Asset' | 'Liability' | 'Equity' | 'Revenue' | 'Expense';
+  Active?: boolean;
+  SubAccount?: boolean;
+  ParentRef?: {
+    value: string;
+  };
+  CurrentBalance?: number;
+  CurrencyRef?: {
+    value: string;
+    name?: string;
+  };
 }
 
+/**
+ * QBO Item entity (select * from Item)
+ */
+export interface QBOItem {
+  Id: string;
+  Name: string;
+  FullyQualifiedName?: string;
+  Type: 'Inventory' | 'NonInventory' | 'Service' | 'Group' | 'Category' | string;
+  Active?: boolean;
+  UnitPrice?: number;
+  /** Cost per unit from the item record, used for margin when set */
+  PurchaseCost?: number;
+}
+
+/**
+ * QBO ExchangeRate entity: units of the target (home) currency per unit of
+ * the source currency on AsOfDate
+ */
+export interface QBOExchangeRate {
+  SourceCurrencyCode: string;
+  TargetCurrencyCode?: string;
+  Rate: number;
+  AsOfDate: string;
+}
+
+/**
+ * QBO Invoice or Bill entity (select * from Invoice / Bill). Balance is the
+ * open amount in the transaction currency; ExchangeRate converts it to the
+ * home currency.
+ */
+export interface QBOOpenTransaction {
+  Id: string;
+  DocNumber?: string;
+  TxnDate: string;
+  DueDate?: string;
+  TotalAmt: number;
+  Balance: number;
+  CurrencyRef?: {
+    value: string;
+    name?: string;
+  };
+  ExchangeRate?: number;
+  /** Set on invoices */
+  CustomerRef?: {
+    value: string;
+    name?: string;
+  };
+  /** Set on bills */
+  VendorRef?: {
+    value: string;
+    name?: string;
+  };
+}
+
+/**
+ * QBO Payment entity (select * from Payment): a customer payment applied to
+ * the invoices in its lines' LinkedTxn
+ */
+export interface QBOPayment {
+  Id: string;
+  TxnDate: string;
+  TotalAmt: number;
+  CustomerRef?: {
+    value: string;
+    name?: string;
+  };
+  Line?: Array<{
+    Amount: number;
+    LinkedTxn?: Array<{
+      TxnId: string;
+      TxnType: string;
+    }>;
+  }>;
+}
+
+/**
+ * QBO Budget entity as returned by the query endpoint
+ */
+export interface QBOBudget {
+  Id: string;
+  Name: string;
+  StartDate: string;
+  EndDate: string;
+  BudgetType?: 'ProfitAndLoss' | 'BalanceSheet';
+  BudgetEntryType?: QBOBudgetEntryType;
+  Active?: boolean;
+  BudgetDetail?: Array<{
+    BudgetDate: string;
+    Amount: number;
+    AccountRef: { value: string; name?: string };
+    ClassRef?: { value: string; name?: string };
+    DepartmentRef?: { value: string; name?: string };
+    CustomerRef?: { value: string; name?: string };
+  }>;
+}
+
+export type QBOBudgetEntryType = 'Monthly' | 'Quarterly' | 'Yearly';
+
+/**
+ * A QBO budget normalized to one entry per account per budget period.
+ * Each period starts on `date` and lasts one month, quarter or year
+ * depending on `periodType`.
+ */
 export interface QBOBudgetData {
   budgetId: string;
   name: string;
   startDate: string;
   endDate: string;
+  periodType: QBOBudgetEntryType;
   budgetDetails: Array<{
     accountId: string;
     accountName: string;
@@ -143,9 +362,24 @@ export interface FinancialDataForLLM {
       start: string;
       end: string;
     };
+    /** Basis the statements were prepared on */
+    accountingMethod: AccountingMethod;
+    /** Fiscal period the report period ends in */
+    fiscalPeriod?: {
+      fiscalYear: number;
+      period: number;
+      quarter: number;
+    };
     currency: string;
+    /** Locale amounts are formatted in, from the company's country */
+    locale?: string;
     industry?: string;
+    /** QBO's industry code (NAICS), when set */
+    naicsCode?: string;
     companySize?: string;
+    /** Whether the industry and size were confirmed by the CPA or inferred, and from what */
+    industryBasis?: string;
+    companySizeBasis?: string;
   };
   
   financialStatements: {
@@ -166,48 +400,47 @@ export interface FinancialDataForLLM {
     };
   };
   
+  periodVariance?: PeriodVarianceReport;
+  
+  basisReconciliation?: BasisReconciliation;
+  
+  /** Integrity checks run before analysis */
+  dataValidation?: DataValidationReport;
+  
+  /** Set when the current statements were built from the trial balance */
+  trialBalance?: TrialBalanceSummary;
+  
+  /** Computed from the Sales by Customer report when it is available */
+  customerConcentration?: CustomerConcentration;
+  
+  /** Computed from the Sales by Product/Service report when it is available */
+  productMix?: ProductMix;
+  
+  /** Set when the P&L was also fetched by Class or Location */
+  segments?: SegmentedProfitLoss;
+  
+  /** Set for companies with foreign-currency accounts */
+  foreignExchange?: ForeignExchangeSummary;
+  
+  /** The KPIs against the bundled industry benchmarks, when the industry is known */
+  benchmarks?: BenchmarkSummary;
+  
+  /** Driver-based projections of the saved scenarios from the period-end statements */
+  scenarios?: ScenarioProjection[];
+  
+  /** 13-week rolling cash forecast from today's open invoices and bills */
+  cashForecast?: CashForecast;
+  
+  /** Set when the statements consolidate several companies */
+  consolidation?: ConsolidationSchedule;
+  
   supplementaryReports: {
     accountsReceivable: AgingReport;
     accountsPayable: AgingReport;
     budgetVsActual?: BudgetVsActualReport;
   };
   
-  calculatedMetrics: {
-    liquidityRatios: {
-      currentRatio: number;
-      quickRatio: number;
-      cashRatio: number;
-      workingCapital: number;
-    };
-    profitabilityRatios: {
-      grossProfitMargin: number;
-      operatingMargin: number;
-      netProfitMargin: number;
-      returnOnAssets: number;
-      returnOnEquity: number;
-      ebitda: number;
-      ebitdaMargin: number;
-    };
-    efficiencyRatios: {
-      assetTurnover: number;
-      inventoryTurnover: number;
-      receivablesTurnover: number;
-      payablesTurnover: number;
-      cashConversionCycle: number;
-    };
-    leverageRatios: {
-      debtToEquity: number;
-      debtToAssets: number;
-      interestCoverage: number;
-      debtServiceCoverage: number;
-    };
-    growthMetrics: {
-      revenueGrowthRate: number;
-      profitGrowthRate: number;
-      assetGrowthRate: number;
-      customerGrowthRate?: number;
-    };
-  };
+  calculatedMetrics: CalculatedMetrics;
   
   trends: {
     monthlyRevenue: Array<{ month: string; amount: number }>;
@@ -219,46 +452,102 @@ export interface FinancialDataForLLM {
   analysisContext: {
     reportType: 'comprehensive' | 'quarterly' | 'annual' | 'custom';
     focusAreas: string[];
-    industryBenchmarks?: {
-      [key: string]: number;
-    };
     specialConsiderations?: string[];
   };
 }
 
 // Normalized Financial Statement Structures
+
+/**
+ * A statement line for one account. Parent accounts carry their own total
+ * (including all sub-accounts) and the sub-account lines beneath them.
+ */
+/**
+ * Ratios are null when a denominator is zero or an input is unavailable
+ */
+export interface CalculatedMetrics {
+  liquidityRatios: {
+    currentRatio: number | null;
+    quickRatio: number | null;
+    cashRatio: number | null;
+    workingCapital: number;
+  };
+  profitabilityRatios: {
+    grossProfitMargin: number | null;
+    operatingMargin: number | null;
+    netProfitMargin: number | null;
+    returnOnAssets: number | null;
+    returnOnEquity: number | null;
+    ebitda: number;
+    ebitdaMargin: number | null;
+  };
+  efficiencyRatios: {
+    assetTurnover: number | null;
+    inventoryTurnover: number | null;
+    receivablesTurnover: number | null;
+    payablesTurnover: number | null;
+    cashConversionCycle: number | null;
+  };
+  leverageRatios: {
+    debtToEquity: number | null;
+    debtToAssets: number | null;
+    interestCoverage: number | null;
+    debtServiceCoverage: number | null;
+  };
+  growthMetrics: {
+    revenueGrowthRate: number | null;
+    profitGrowthRate: number | null;
+    assetGrowthRate: number | null;
+    customerGrowthRate?: number | null;
+  };
+  /** The report KPIs, each with the formula and inputs used */
+  kpis: KPIFigure[];
+}
+
+/**
+ * A KPI computed locally, with everything needed to explain or audit it
+ */
+export interface KPIFigure {
+  key: string;
+  name: string;
+  category: 'cash' | 'profitability' | 'growth' | 'efficiency' | 'risk';
+  value: number | null;
+  unit: 'currency' | 'percent' | 'ratio' | 'times' | 'days' | 'months';
+  formula: string;
+  inputs: Record<string, number>;
+  /** Why the value could not be calculated */
+  note?: string;
+}
+
+export interface AccountLine {
+  category: string;
+  amount: number;
+  accountId?: string;
+  subAccounts?: AccountLine[];
+}
+
 export interface ProfitLossStatement {
   revenue: {
     total: number;
-    breakdown: Array<{
-      category: string;
-      amount: number;
+    breakdown: Array<AccountLine & {
       percentage: number;
     }>;
   };
   costOfGoodsSold: {
     total: number;
-    breakdown: Array<{
-      category: string;
-      amount: number;
-    }>;
+    breakdown: AccountLine[];
   };
   grossProfit: number;
   operatingExpenses: {
     total: number;
-    breakdown: Array<{
-      category: string;
-      amount: number;
+    breakdown: Array<AccountLine & {
       percentage: number;
     }>;
   };
   operatingIncome: number;
   otherIncomeExpenses: {
     total: number;
-    breakdown: Array<{
-      category: string;
-      amount: number;
-    }>;
+    breakdown: AccountLine[];
   };
   incomeBeforeTax: number;
   taxExpense: number;
@@ -304,6 +593,159 @@ export interface BalanceSheetStatement {
   };
 }
 
+/**
+ * Normalized balance sheet line that an account rolls up into
+ */
+export type BalanceSheetLine =
+  | 'cash'
+  | 'accountsReceivable'
+  | 'inventory'
+  | 'otherCurrentAssets'
+  | 'propertyPlantEquipment'
+  | 'intangibleAssets'
+  | 'otherNonCurrentAssets'
+  | 'accountsPayable'
+  | 'shortTermDebt'
+  | 'otherCurrentLiabilities'
+  | 'longTermDebt'
+  | 'otherNonCurrentLiabilities'
+  | 'commonStock'
+  | 'retainedEarnings'
+  | 'otherEquity';
+
+/**
+ * Normalized income statement line that an account rolls up into
+ */
+export type ProfitLossLine =
+  | 'revenue'
+  | 'costOfGoodsSold'
+  | 'operatingExpenses'
+  | 'otherIncome'
+  | 'otherExpenses'
+  | 'taxExpense';
+
+export type StatementLine = BalanceSheetLine | ProfitLossLine;
+
+/**
+ * A CPA override of the statement line an account rolls up into, saved per
+ * company. Sub-accounts without their own mapping follow their parent.
+ */
+export interface AccountMapping {
+  accountId: string;
+  statementLine: StatementLine;
+  note?: string;
+  updatedBy?: string;
+  updatedAt?: string;
+}
+
+/**
+ * An account a group company uses for balances or activity with another
+ * company in the group. Its balance is eliminated on consolidation.
+ */
+export interface IntercompanyAccount {
+  realmId: string;
+  accountId: string;
+  accountName: string;
+  /** The line the account rolls up into, which its balance is eliminated from */
+  statementLine: StatementLine;
+  /** The group company on the other side, when known */
+  counterpartyRealmId?: string;
+}
+
+/**
+ * A manual consolidation adjustment, e.g. investment in a subsidiary against
+ * its share capital. Amounts are removed from each line in the line's normal
+ * balance and apply to the current period only.
+ */
+export interface EliminationEntry {
+  id: string;
+  description: string;
+  lines: Array<{
+    statementLine: StatementLine;
+    amount: number;
+  }>;
+}
+
+/**
+ * Companies (QBO realms) reported together, with their elimination setup
+ */
+export interface ConsolidationGroup {
+  id?: string;
+  name: string;
+  realmIds: string[];
+  intercompanyAccounts: IntercompanyAccount[];
+  eliminationEntries: EliminationEntry[];
+  updatedAt?: string;
+}
+
+/**
+ * One line of the consolidation schedule: each company's amount, the
+ * eliminations and the consolidated total
+ */
+export interface ConsolidationScheduleLine {
+  statement: 'profitLoss' | 'balanceSheet';
+  label: string;
+  /** In the order of ConsolidationSchedule.entities */
+  entities: number[];
+  eliminations: number;
+  consolidated: number;
+  isTotal?: boolean;
+}
+
+export interface ConsolidationSchedule {
+  groupName: string;
+  entities: Array<{
+    realmId: string;
+    companyName: string;
+  }>;
+  lines: ConsolidationScheduleLine[];
+  /** Each elimination applied to the current period */
+  eliminations: Array<{
+    source: 'intercompanyAccount' | 'entry';
+    description: string;
+    realmId?: string;
+    statementLine: StatementLine;
+    amount: number;
+  }>;
+  /** Net income removed by the eliminations; also taken out of retained earnings */
+  eliminatedProfit: number;
+  /**
+   * Assets eliminated less liabilities and equity eliminated. Non-zero when
+   * the intercompany balances do not match.
+   */
+  unmatchedEliminations: number;
+}
+
+/**
+ * Chart-of-accounts entry, listed in hierarchy order (parents before their
+ * sub-accounts)
+ */
+export interface ChartOfAccountsEntry {
+  id: string;
+  name: string;
+  fullyQualifiedName: string;
+  accountType: string;
+  accountSubType?: string;
+  classification?: QBOAccount['Classification'];
+  active: boolean;
+  parentId?: string;
+  /** 0 for top-level accounts */
+  depth: number;
+  currentBalance?: number;
+  /** Line the account rolls up into without a mapping */
+  defaultLine?: StatementLine;
+}
+
+export interface ChartOfAccounts {
+  realmId: string;
+  syncedAt: string;
+  accounts: ChartOfAccountsEntry[];
+}
+
+/**
+ * Amounts are signed cash effects: inflows positive, outflows negative, so each
+ * activity's net cash equals the sum of its lines.
+ */
 export interface CashFlowStatement {
   operatingActivities: {
     netIncome: number;
@@ -337,8 +779,37 @@ export interface CashFlowStatement {
   netChangeInCash: number;
   beginningCash: number;
   endingCash: number;
+  reconciliation?: CashReconciliation;
 }
 
+/**
+ * Tie-out of the statement's ending cash to the balance sheet cash line
+ */
+export interface CashReconciliation {
+  source: 'qbo_report' | 'indirect_method';
+  beginningCash: number;
+  netChangeInCash: number;
+  endingCash: number;
+  balanceSheetCash: number;
+  difference: number;
+  reconciled: boolean;
+}
+
+/**
+ * An aging column as reported by QBO, e.g. "1 - 15" or "91 and over"
+ */
+export interface AgingBucket {
+  label: string;
+  minDays: number;
+  /** Undefined for the open-ended oldest bucket */
+  maxDays?: number;
+  amount: number;
+}
+
+/**
+ * Standard buckets (current ... over90Days) are rolled up from the report's own
+ * columns by each column's first day; `buckets` keeps the columns as reported.
+ */
 export interface AgingReport {
   totalOutstanding: number;
   current: number;
@@ -346,6 +817,8 @@ export interface AgingReport {
   days31to60: number;
   days61to90: number;
   over90Days: number;
+  weightedDaysOutstanding: number;
+  buckets: AgingBucket[];
   details: Array<{
     customerOrVendor: string;
     totalAmount: number;
@@ -355,9 +828,517 @@ export interface AgingReport {
   }>;
 }
 
+export interface CustomerRevenue {
+  customerId?: string;
+  customerName: string;
+  amount: number;
+}
+
+export type ConcentrationRisk = 'high' | 'medium' | 'low';
+
+/**
+ * Customer concentration computed from customer-level revenue
+ */
+export interface CustomerConcentration {
+  /** Revenue attributed to customers with positive sales */
+  totalRevenue: number;
+  /** Sales QBO could not attribute to a customer ("Not Specified") */
+  unattributedRevenue: number;
+  customerCount: number;
+  /** Largest customers first; share is a percentage of totalRevenue */
+  topCustomers: Array<CustomerRevenue & { share: number }>;
+  /** Percentage of revenue from the largest 1, 5 and 10 customers */
+  topShares: {
+    top1: number;
+    top5: number;
+    top10: number;
+  };
+  /** Herfindahl-Hirschman index of customer shares, 0-10,000 */
+  herfindahlIndex: number;
+  risk: ConcentrationRisk;
+  /** The thresholds that set the risk tier */
+  riskReasons: string[];
+}
+
+/**
+ * One item's sales as reported by the ItemSales report
+ */
+export interface ItemSalesLine {
+  itemId?: string;
+  name: string;
+  quantity: number;
+  amount: number;
+  /** The report's COGS column, present for inventory items */
+  cogs?: number;
+}
+
+export interface ProductMixLine {
+  itemId?: string;
+  name: string;
+  itemType?: string;
+  revenue: number;
+  quantity: number;
+  averagePrice: number | null;
+  /** Percentage of total item revenue */
+  share: number;
+  cost: number | null;
+  grossMargin: number | null;
+  grossMarginPercent: number | null;
+  /** Where the cost came from: the item's purchase cost, the report's COGS, or neither */
+  marginSource: 'purchaseCost' | 'reportCogs' | 'unavailable';
+  previousRevenue?: number;
+  /** Revenue growth against the prior period; null when the item had no prior sales */
+  growth: number | null;
+  /** 1 = fastest growing among items with a growth figure */
+  growthRank?: number;
+}
+
+/**
+ * Revenue, volume and margin by product or service
+ */
+export interface ProductMix {
+  totalRevenue: number;
+  /** Largest revenue first */
+  lines: ProductMixLine[];
+  previousPeriod?: {
+    start: string;
+    end: string;
+  };
+}
+
+/**
+ * Currency and locale amounts are formatted in
+ */
+export interface CurrencyFormat {
+  /** ISO 4217 code, e.g. "CAD" */
+  currency: string;
+  /** BCP 47 locale, e.g. "en-CA" */
+  locale: string;
+}
+
+/**
+ * A balance sheet account kept in a foreign currency, translated to the
+ * home currency at the period-end rate
+ */
+export interface ForeignCurrencyBalance {
+  accountId: string;
+  accountName: string;
+  currency: string;
+  classification: 'Asset' | 'Liability';
+  /** In the account's currency; null when QBO's balance is not as of the period end */
+  foreignBalance: number | null;
+  /** Home-currency balance in the books, at the rates of the transactions */
+  bookValue: number;
+  /** Null when QBO has no rate for the currency on the date */
+  rate: number | null;
+  translatedValue: number | null;
+  /** Translated value less book value, as a gain; negative is a loss */
+  unrealizedGainLoss: number | null;
+}
+
+/**
+ * Foreign exchange position and gains for a multi-currency company. Realized
+ * gains are those QBO booked on settled transactions; unrealized gains are
+ * computed from open foreign balances at the period-end rates.
+ */
+export interface ForeignExchangeSummary {
+  homeCurrency: string;
+  asOfDate: string;
+  rates: Array<{
+    currency: string;
+    rate: number;
+    asOfDate: string;
+  }>;
+  balances: ForeignCurrencyBalance[];
+  /** Gain (negative for a loss) in the exchange gain or loss accounts */
+  realizedGainLoss: number;
+  /** Null when the foreign balances could not be translated */
+  unrealizedGainLoss: number | null;
+  /** Why the unrealized gain could not be computed */
+  unrealizedNote?: string;
+}
+
+/**
+ * Industries the app recognizes, as stored in the company profile
+ */
+export type Industry =
+  | 'agriculture'
+  | 'construction'
+  | 'manufacturing'
+  | 'wholesale'
+  | 'retail'
+  | 'transportation'
+  | 'technology'
+  | 'financial-services'
+  | 'real-estate'
+  | 'professional-services'
+  | 'education'
+  | 'healthcare'
+  | 'hospitality'
+  | 'restaurant'
+  | 'nonprofit'
+  | 'other-services';
+
+export type CompanySize = 'micro' | 'small' | 'medium' | 'large';
+
+/**
+ * Industry inferred from QBO's company settings or the chart of accounts
+ */
+export interface IndustryInference {
+  industry: Industry;
+  source: 'qboIndustryCode' | 'qboIndustryType' | 'chartOfAccounts';
+  confidence: 'high' | 'medium' | 'low';
+  /** What the inference rests on, for the CPA to check */
+  evidence: string[];
+}
+
+/**
+ * Size band from trailing revenue and payroll
+ */
+export interface CompanySizeInference {
+  size: CompanySize;
+  /** Revenue over the trailing months, annualized when fewer than 12 */
+  annualRevenue: number;
+  /** Null when no payroll accounts were found */
+  annualPayroll: number | null;
+  /** Months of P&L history the figures are based on */
+  months: number;
+  evidence: string[];
+}
+
+/**
+ * Industry and size confirmed or overridden by the CPA for one company.
+ * They take precedence over the inferred values.
+ */
+export interface CompanyProfile {
+  industry?: Industry;
+  size?: CompanySize;
+  confirmedBy?: string;
+  confirmedAt?: string;
+}
+
+/**
+ * KPIs the benchmark dataset has quartiles for. Margins are percentages,
+ * DSO and DPO days, inventory turnover times per year and debt-to-equity a
+ * ratio.
+ */
+export type BenchmarkMetric =
+  | 'grossProfitMargin'
+  | 'operatingMargin'
+  | 'netProfitMargin'
+  | 'daysSalesOutstanding'
+  | 'daysPayablesOutstanding'
+  | 'inventoryTurnover'
+  | 'debtToEquity';
+
+/** Annual revenue bands of the benchmark dataset, in the dataset's currency */
+export type BenchmarkRevenueBand = 'under-1m' | '1m-10m' | '10m-50m' | 'over-50m';
+
+/** A revenue band, or all companies in the industry regardless of size */
+export type BenchmarkBand = BenchmarkRevenueBand | 'all';
+
+export interface BenchmarkQuartiles {
+  lowerQuartile: number;
+  median: number;
+  upperQuartile: number;
+}
+
+/**
+ * Benchmarks for one industry. Metrics that do not apply to the industry,
+ * such as inventory turnover for service firms, are left out.
+ */
+export interface IndustryBenchmarkSet {
+  /** NAICS code prefixes the set covers */
+  naicsCodes: string[];
+  industry: Industry;
+  title: string;
+  bands: Partial<Record<BenchmarkBand, Partial<Record<BenchmarkMetric, BenchmarkQuartiles>>>>;
+}
+
+export interface IndustryBenchmarkDataset {
+  version: string;
+  source: string;
+  /** Year of the financial statements the benchmarks were compiled from */
+  year: number;
+  currency: string;
+  notes?: string;
+  revenueBands: Record<BenchmarkRevenueBand, { label: string; min: number; max: number | null }>;
+  industries: IndustryBenchmarkSet[];
+}
+
+export interface BenchmarkComparison {
+  metric: BenchmarkMetric;
+  name: string;
+  unit: 'percent' | 'days' | 'times' | 'ratio';
+  /** Null when the KPI could not be calculated */
+  value: number | null;
+  quartiles: BenchmarkQuartiles;
+  /** The band the quartiles came from; 'all' when the revenue band had none */
+  band: BenchmarkBand;
+  /**
+   * above: better than the favorable quartile; meets: between the quartiles;
+   * below: worse than the unfavorable quartile. Null without a value.
+   */
+  status: 'above' | 'meets' | 'below' | null;
+}
+
+/**
+ * The report's KPIs compared with one industry's benchmarks, with the
+ * dataset citation
+ */
+export interface BenchmarkSummary {
+  source: string;
+  year: number;
+  version: string;
+  naicsCode: string;
+  industryTitle: string;
+  band: BenchmarkBand;
+  bandLabel: string;
+  /** How the industry and band were chosen */
+  basis: string;
+  comparisons: BenchmarkComparison[];
+}
+
+/**
+ * One operating expense line's projection: its monthly amount in the
+ * baseline period and its annual growth from there
+ */
+export interface OperatingExpenseDriver {
+  category: string;
+  monthlyAmount: number;
+  annualGrowthRate: number;
+}
+
+/** Debt drawn (positive) or repaid (negative) in a projected month, from 1 */
+export interface DebtDraw {
+  month: number;
+  amount: number;
+}
+
+/**
+ * Driver assumptions of a scenario. Rates and percentages are in percent
+ * (5 = 5%).
+ */
+export interface ScenarioDrivers {
+  /** Annual revenue growth, compounded monthly */
+  revenueGrowthRate: number;
+  /** Cost of goods sold as a percentage of revenue */
+  cogsPercent: number;
+  /** Every operating expense line except depreciation and amortization */
+  operatingExpenses: OperatingExpenseDriver[];
+  /** Receivables = revenue per day x DSO */
+  dso: number;
+  /** Payables = cost of goods sold and operating expenses per day x DPO */
+  dpo: number;
+  monthlyCapex: number;
+  /** Months over which new capex is depreciated, straight line */
+  capexUsefulLifeMonths: number;
+  debtDraws: DebtDraw[];
+  /** Annual interest rate on the debt balance */
+  interestRate: number;
+  /** Income tax on positive pre-tax income */
+  taxRate: number;
+}
+
+/**
+ * A saved set of driver assumptions. Only the assumptions are stored; the
+ * projection is recomputed from the latest statements.
+ */
+export interface Scenario {
+  id?: string;
+  name: string;
+  horizonMonths: 12 | 24;
+  drivers: ScenarioDrivers;
+  updatedAt?: string;
+}
+
+/**
+ * Run rates and closing balances a projection starts from, derived from a
+ * period's P&L and period-end balance sheet
+ */
+export interface ScenarioBaseline {
+  /** Period end the projection starts after (YYYY-MM-DD) */
+  asOfDate: string;
+  monthlyRevenue: number;
+  /** Depreciation and amortization of the existing fixed assets */
+  monthlyDepreciation: number;
+  /** Other income and expense except interest, held constant */
+  monthlyOtherIncome: number;
+  /**
+   * Days of cost of goods sold held in inventory, held constant. Null holds
+   * inventory at its opening balance when there is no cost of goods sold.
+   */
+  inventoryDays: number | null;
+  /** Drivers that continue the current run rate */
+  drivers: ScenarioDrivers;
+  balances: {
+    cash: number;
+    accountsReceivable: number;
+    inventory: number;
+    /** Net property, plant, equipment and intangibles */
+    fixedAssets: number;
+    otherAssets: number;
+    accountsPayable: number;
+    debt: number;
+    otherLiabilities: number;
+    equity: number;
+  };
+}
+
+/** One projected month's P&L, cash flow and month-end balances */
+export interface ScenarioMonth {
+  /** YYYY-MM */
+  month: string;
+  revenue: number;
+  costOfGoodsSold: number;
+  grossProfit: number;
+  operatingExpenses: number;
+  depreciation: number;
+  operatingIncome: number;
+  otherIncome: number;
+  interestExpense: number;
+  taxExpense: number;
+  netIncome: number;
+  operatingCashFlow: number;
+  capex: number;
+  debtFlow: number;
+  netCashFlow: number;
+  cash: number;
+  accountsReceivable: number;
+  inventory: number;
+  fixedAssets: number;
+  totalAssets: number;
+  accountsPayable: number;
+  debt: number;
+  totalLiabilities: number;
+  equity: number;
+}
+
+export interface ScenarioProjection {
+  scenarioId?: string;
+  name: string;
+  drivers: ScenarioDrivers;
+  baselineAsOf: string;
+  months: ScenarioMonth[];
+  totals: {
+    revenue: number;
+    grossProfit: number;
+    operatingIncome: number;
+    netIncome: number;
+    operatingCashFlow: number;
+    capex: number;
+    debtFlow: number;
+  };
+  /** Lowest month-end cash and the month it occurs */
+  minimumCash: { amount: number; month: string };
+}
+
+/** One week of the rolling cash forecast */
+export interface CashForecastWeek {
+  /** 1 to 13 */
+  week: number;
+  /** First and last day of the week (YYYY-MM-DD) */
+  start: string;
+  end: string;
+  openingCash: number;
+  /** Open invoices expected to be collected this week */
+  collections: number;
+  /** Open bills due this week */
+  billPayments: number;
+  payroll: number;
+  rent: number;
+  netCashFlow: number;
+  closingCash: number;
+}
+
+/**
+ * 13-week rolling cash forecast from the bank balance, open invoices and
+ * bills and the recurring payroll and rent
+ */
+export interface CashForecast {
+  /** First day of the forecast (YYYY-MM-DD) */
+  asOfDate: string;
+  currency: string;
+  /** Bank account balances on asOfDate */
+  openingCash: number;
+  weeks: CashForecastWeek[];
+  /** Lowest closing cash and the week it occurs */
+  lowestCash: { amount: number; week: number; weekStart: string };
+  /** Days past the due date customers pay, from recent payments */
+  collectionLag: {
+    /** Amount-weighted average across all customers */
+    days: number;
+    /** Invoice payments the lag was measured from */
+    sampleSize: number;
+  };
+  /** Average monthly amounts the recurring outflows are based on */
+  recurring: {
+    payroll: number;
+    rent: number;
+    /** Months of P&L averaged */
+    months: number;
+  };
+  openReceivables: number;
+  openPayables: number;
+  /** Open invoices and bills expected after the 13 weeks */
+  beyondHorizon: { receivables: number; payables: number };
+  /** Invoices so far past due that they are left out of collections */
+  doubtfulReceivables: number;
+  /** Limits of the forecast, e.g. foreign balances without a rate */
+  notes: string[];
+}
+
+/**
+ * The summarize_column_by value of a segmented P&L. Locations are called
+ * Departments in the QBO API.
+ */
+export type SegmentDimension = 'Classes' | 'Departments';
+
+export interface SegmentKPIs {
+  revenue: number;
+  grossProfit: number;
+  grossMarginPercent: number | null;
+  operatingIncome: number;
+  operatingMarginPercent: number | null;
+  netIncome: number;
+  netMarginPercent: number | null;
+  /** Operating expenses as a percentage of the segment's revenue */
+  operatingExpenseRatio: number | null;
+  /** The segment's percentage of total revenue */
+  revenueShare: number | null;
+  /** The segment's percentage of total net income */
+  netIncomeShare: number | null;
+}
+
+export interface SegmentProfitLoss {
+  /** QBO Class or Department Id; absent for the unassigned column */
+  segmentId?: string;
+  name: string;
+  /** Transactions without a class or location ("Not Specified") */
+  unassigned: boolean;
+  profitLoss: ProfitLossStatement;
+  kpis: SegmentKPIs;
+}
+
+/**
+ * The period's P&L split into one statement per Class or Location
+ */
+export interface SegmentedProfitLoss {
+  dimension: SegmentDimension;
+  period: {
+    start: string;
+    end: string;
+  };
+  /** Largest revenue first, with the unassigned column last */
+  segments: SegmentProfitLoss[];
+  total: ProfitLossStatement;
+  totalKpis: SegmentKPIs;
+}
+
 export interface BudgetVsActualReport {
   period: string;
   items: Array<{
+    accountId: string;
     category: string;
     budgeted: number;
     actual: number;
@@ -374,11 +1355,160 @@ export interface BudgetVsActualReport {
 
 export interface VarianceAnalysis {
   amount: number;
-  percentage: number;
+  /** Null when the prior-period value is zero */
+  percentage: number | null;
   trend: 'increase' | 'decrease' | 'stable';
   significance: 'high' | 'medium' | 'low';
 }
 
+export type ComparisonPeriod = 'MoM' | 'QoQ' | 'YoY';
+
+/**
+ * A movement is highly significant when it exceeds both thresholds and
+ * moderately significant when it exceeds one
+ */
+export interface MaterialityThresholds {
+  /** Absolute change in report currency */
+  amount: number;
+  /** Absolute percent change */
+  percent: number;
+}
+
+export interface LineVariance extends VarianceAnalysis {
+  statement: 'profitLoss' | 'balanceSheet' | 'cashFlow';
+  /** Path of the line within its statement, e.g. "assets.current.cash" */
+  line: string;
+  label: string;
+  current: number;
+  previous: number;
+  isTotal: boolean;
+}
+
+export interface PeriodVarianceReport {
+  comparison: ComparisonPeriod;
+  thresholds: MaterialityThresholds;
+  lines: LineVariance[];
+  /** Largest non-total movements, biggest first */
+  topMovements: LineVariance[];
+}
+
+/** QBO report accounting_method values */
+export type AccountingMethod = 'Accrual' | 'Cash';
+
+export interface BasisReconciliationLine {
+  label: string;
+  accrual: number;
+  cash: number;
+  /** Accrual minus cash */
+  difference: number;
+}
+
+/**
+ * Side-by-side cash and accrual figures for the same period
+ */
+export interface BasisReconciliation {
+  /** Basis of the main statements */
+  reportBasis: AccountingMethod;
+  lines: BasisReconciliationLine[];
+}
+
+/** Where the current period statements come from */
+export type StatementSource = 'reports' | 'trialBalance';
+
+export interface TrialBalanceLine {
+  accountId?: string;
+  accountName: string;
+  debit: number;
+  credit: number;
+  /** Debit less credit */
+  balance: number;
+}
+
+export interface TrialBalance {
+  startPeriod: string;
+  endPeriod: string;
+  lines: TrialBalanceLine[];
+  totalDebits: number;
+  totalCredits: number;
+}
+
+/**
+ * How the trial balance behind the statements ties out
+ */
+export interface TrialBalanceSummary {
+  asOf: string;
+  totalDebits: number;
+  totalCredits: number;
+  /** Accounts with a balance that could not be placed on a statement line */
+  unclassified: TrialBalanceLine[];
+  /** The same figures from QBO's formatted statements */
+  reported: {
+    netIncome: number;
+    totalAssets: number;
+  };
+}
+
+/**
+ * An account and period whose transactions can be listed
+ */
+export interface TransactionDrillDownTarget {
+  accountId: string;
+  accountName: string;
+  start: string;
+  end: string;
+}
+
+export interface TransactionDetail {
+  /** QBO transaction Id, when the report links one */
+  transactionId?: string;
+  date: string;
+  /** e.g. "Invoice", "Bill", "Journal Entry" */
+  type: string;
+  docNumber?: string;
+  name?: string;
+  memo?: string;
+  /** The account the transaction posts against, for sub-account rows */
+  accountName: string;
+  amount: number;
+}
+
+export interface TransactionDrillDown {
+  target: TransactionDrillDownTarget;
+  accountingMethod?: AccountingMethod;
+  transactions: TransactionDetail[];
+  total: number;
+}
+
+export type DataQuality = 'high' | 'medium' | 'low';
+
+export interface ValidationIssue {
+  check:
+    | 'missing_statement'
+    | 'balance_sheet_balances'
+    | 'net_income_cash_flow'
+    | 'cash_ties'
+    | 'retained_earnings_rollforward'
+    | 'ar_aging_ties'
+    | 'ap_aging_ties'
+    | 'trial_balance_balances'
+    | 'trial_balance_unclassified'
+    | 'trial_balance_ties'
+    | 'consolidation_eliminations';
+  /** Errors block report generation */
+  severity: 'error' | 'warning';
+  message: string;
+  expected?: number;
+  actual?: number;
+  difference?: number;
+}
+
+export interface DataValidationReport {
+  issues: ValidationIssue[];
+  /** True when any issue is an error */
+  blocking: boolean;
+  dataQuality: DataQuality;
+}
+
 // LLM Response Structure
 export interface LLMAnalysisResponse {
   choice: {
@@ -443,7 +1573,7 @@ export interface LLMAnalysisResponse {
         growth: number;
       }>;
       customerConcentration: {
-        risk: 'high' | 'medium' | 'low';
+        risk: ConcentrationRisk;
         details: string;
       };
       seasonality: {
@@ -622,7 +1752,8 @@ export interface LLMAnalysisResponse {
     analysisTimestamp: string;
     modelUsed: string;
     confidenceScore: number;
-    dataQuality: 'high' | 'medium' | 'low';
+    /** From the statement validation, not the model */
+    dataQuality: DataQuality;
     limitations: string[];
   };
 }
@@ -731,6 +1862,8 @@ export interface DashboardData {
     expenseChart: ChartData;
     cashFlowChart: ChartData;
     profitTrendChart: ChartData;
+    /** Revenue share of the largest customers, when customer sales are available */
+    customerConcentrationChart?: ChartData;
   };
   
   kpis: Array<{
@@ -772,9 +1905,12 @@ export interface ReportSection {
     details?: Array<{
       label: string;
       value: string | number;
+      /** Set when the value is an account balance whose transactions can be listed */
+      drillDown?: TransactionDrillDownTarget;
       subItems?: Array<{
         label: string;
         value: string | number;
+        drillDown?: TransactionDrillDownTarget;
       }>;
     }>;
     chart?: ChartData;
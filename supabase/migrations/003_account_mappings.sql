@@ -0,0 +1,177 @@
+-- =====================================================
+-- ACCOUNT MAPPINGS
+-- =====================================================
+-- Per-company overrides of the normalized statement line a QuickBooks
+-- account rolls up into (e.g. an Other Current Asset that is really
+-- inventory). Only the realm's QuickBooks admin can read or change them.
+
+-- =====================================================
+-- 1. TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS account_mappings (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  realm_id TEXT NOT NULL REFERENCES qbo_tokens(realm_id) ON DELETE CASCADE,
+  account_id TEXT NOT NULL, -- QuickBooks Account.Id
+  statement_line TEXT NOT NULL CHECK (statement_line IN (
+    'cash', 'accountsReceivable', 'inventory', 'otherCurrentAssets',
+    'propertyPlantEquipment', 'intangibleAssets', 'otherNonCurrentAssets',
+    'accountsPayable', 'shortTermDebt', 'otherCurrentLiabilities',
+    'longTermDebt', 'otherNonCurrentLiabilities',
+    'commonStock', 'retainedEarnings', 'otherEquity',
+    'revenue', 'costOfGoodsSold', 'operatingExpenses',
+    'otherIncome', 'otherExpenses', 'taxExpense'
+  )),
+  note TEXT,
+  updated_by TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT unique_realm_account UNIQUE(realm_id, account_id)
+);
+
+-- =====================================================
+-- 2. RPC FUNCTIONS
+-- =====================================================
+
+-- Get all mappings for a realm
+CREATE OR REPLACE FUNCTION get_account_mappings(p_realm_id TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+STABLE
+AS $$
+DECLARE
+  v_clerk_user_id TEXT;
+BEGIN
+  v_clerk_user_id := auth.clerk_user_id();
+  
+  IF v_clerk_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+  
+  IF NOT EXISTS (
+    SELECT 1 FROM qbo_tokens
+    WHERE realm_id = p_realm_id AND clerk_user_id = v_clerk_user_id
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Access denied');
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'data', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'account_id', m.account_id,
+        'statement_line', m.statement_line,
+        'note', m.note,
+        'updated_by', m.updated_by,
+        'updated_at', m.updated_at
+      ) ORDER BY m.account_id)
+      FROM account_mappings m
+      WHERE m.realm_id = p_realm_id
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+-- Create or replace the mapping for one account
+CREATE OR REPLACE FUNCTION save_account_mapping(
+  p_realm_id TEXT,
+  p_account_id TEXT,
+  p_statement_line TEXT,
+  p_note TEXT DEFAULT NULL
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_clerk_user_id TEXT;
+BEGIN
+  v_clerk_user_id := auth.clerk_user_id();
+  
+  IF v_clerk_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+  
+  IF NOT EXISTS (
+    SELECT 1 FROM qbo_tokens
+    WHERE realm_id = p_realm_id AND clerk_user_id = v_clerk_user_id
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Access denied');
+  END IF;
+
+  INSERT INTO account_mappings (realm_id, account_id, statement_line, note, updated_by)
+  VALUES (p_realm_id, p_account_id, p_statement_line, p_note, v_clerk_user_id)
+  ON CONFLICT (realm_id, account_id)
+  DO UPDATE SET
+    statement_line = EXCLUDED.statement_line,
+    note = EXCLUDED.note,
+    updated_by = EXCLUDED.updated_by,
+    updated_at = NOW();
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- Remove the mapping for one account
+CREATE OR REPLACE FUNCTION delete_account_mapping(
+  p_realm_id TEXT,
+  p_account_id TEXT
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_clerk_user_id TEXT;
+  v_deleted_count INT;
+BEGIN
+  v_clerk_user_id := auth.clerk_user_id();
+  
+  IF v_clerk_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+  
+  DELETE FROM account_mappings m
+  USING qbo_tokens t
+  WHERE m.realm_id = p_realm_id
+    AND m.account_id = p_account_id
+    AND t.realm_id = m.realm_id
+    AND t.clerk_user_id = v_clerk_user_id;
+
+  GET DIAGNOSTICS v_deleted_count = ROW_COUNT;
+
+  RETURN jsonb_build_object('success', v_deleted_count > 0, 'count', v_deleted_count);
+END;
+$$;
+
+-- =====================================================
+-- 3. ROW LEVEL SECURITY
+-- =====================================================
+
+-- Direct table access is closed; mappings are read and written through the
+-- functions above
+ALTER TABLE account_mappings ENABLE ROW LEVEL SECURITY;
+
+-- =====================================================
+-- 4. INDEXES & TRIGGERS
+-- =====================================================
+
+CREATE INDEX IF NOT EXISTS idx_account_mappings_realm_id ON account_mappings(realm_id);
+
+CREATE TRIGGER update_account_mappings_updated_at
+  BEFORE UPDATE ON account_mappings
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================================================
+-- 5. GRANTS
+-- =====================================================
+
+-- The caller is taken from the Clerk JWT, so only signed-in users may call
+-- the functions (Postgres grants EXECUTE to PUBLIC by default)
+REVOKE EXECUTE ON FUNCTION get_account_mappings FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION save_account_mapping FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION delete_account_mapping FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_account_mappings TO authenticated;
+GRANT EXECUTE ON FUNCTION save_account_mapping TO authenticated;
+GRANT EXECUTE ON FUNCTION delete_account_mapping TO authenticated;
+
+COMMENT ON TABLE account_mappings IS 'Per-realm overrides of the statement line each QuickBooks account rolls up into';
@@ -0,0 +1,173 @@
+-- =====================================================
+-- CONSOLIDATION GROUPS
+-- =====================================================
+-- Sets of connected companies reported together, with the intercompany
+-- accounts whose balances are eliminated and any manual elimination
+-- entries. A group belongs to the user who created it, who must hold the
+-- QuickBooks connection of every company in it.
+
+-- =====================================================
+-- 1. TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS consolidation_groups (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  clerk_user_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  realm_ids TEXT[] NOT NULL CHECK (cardinality(realm_ids) >= 2),
+  -- [{ realmId, accountId, accountName, statementLine, counterpartyRealmId }]
+  intercompany_accounts JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- [{ id, description, lines: [{ statementLine, amount }] }]
+  elimination_entries JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT unique_user_group_name UNIQUE(clerk_user_id, name)
+);
+
+-- =====================================================
+-- 2. RPC FUNCTIONS
+-- =====================================================
+
+-- Get the user's groups
+CREATE OR REPLACE FUNCTION get_consolidation_groups()
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+STABLE
+AS $$
+DECLARE
+  v_clerk_user_id TEXT;
+BEGIN
+  v_clerk_user_id := auth.clerk_user_id();
+  
+  IF v_clerk_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+  
+  RETURN jsonb_build_object(
+    'success', true,
+    'data', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', g.id,
+        'name', g.name,
+        'realm_ids', to_jsonb(g.realm_ids),
+        'intercompany_accounts', g.intercompany_accounts,
+        'elimination_entries', g.elimination_entries,
+        'updated_at', g.updated_at
+      ) ORDER BY g.name)
+      FROM consolidation_groups g
+      WHERE g.clerk_user_id = v_clerk_user_id
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+-- Create a group, or update one of the user's groups when p_id is given
+CREATE OR REPLACE FUNCTION save_consolidation_group(
+  p_name TEXT,
+  p_realm_ids TEXT[],
+  p_intercompany_accounts JSONB DEFAULT '[]'::jsonb,
+  p_elimination_entries JSONB DEFAULT '[]'::jsonb,
+  p_id UUID DEFAULT NULL
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_clerk_user_id TEXT;
+  v_id UUID;
+BEGIN
+  v_clerk_user_id := auth.clerk_user_id();
+  
+  IF v_clerk_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+  
+  -- Every company in the group must be connected by this user
+  IF EXISTS (
+    SELECT 1 FROM unnest(p_realm_ids) AS r(realm_id)
+    WHERE NOT EXISTS (
+      SELECT 1 FROM qbo_tokens t
+      WHERE t.realm_id = r.realm_id AND t.clerk_user_id = v_clerk_user_id
+    )
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Access denied');
+  END IF;
+
+  IF p_id IS NULL THEN
+    INSERT INTO consolidation_groups (clerk_user_id, name, realm_ids, intercompany_accounts, elimination_entries)
+    VALUES (v_clerk_user_id, p_name, p_realm_ids, p_intercompany_accounts, p_elimination_entries)
+    RETURNING id INTO v_id;
+  ELSE
+    UPDATE consolidation_groups SET
+      name = p_name,
+      realm_ids = p_realm_ids,
+      intercompany_accounts = p_intercompany_accounts,
+      elimination_entries = p_elimination_entries
+    WHERE id = p_id AND clerk_user_id = v_clerk_user_id
+    RETURNING id INTO v_id;
+
+    IF v_id IS NULL THEN
+      RETURN jsonb_build_object('success', false, 'message', 'Group not found');
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'id', v_id);
+END;
+$$;
+
+-- Remove one of the user's groups
+CREATE OR REPLACE FUNCTION delete_consolidation_group(
+  p_id UUID
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_clerk_user_id TEXT;
+  v_deleted_count INT;
+BEGIN
+  v_clerk_user_id := auth.clerk_user_id();
+  
+  IF v_clerk_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+  
+  DELETE FROM consolidation_groups
+  WHERE id = p_id AND clerk_user_id = v_clerk_user_id;
+
+  GET DIAGNOSTICS v_deleted_count = ROW_COUNT;
+
+  RETURN jsonb_build_object('success', v_deleted_count > 0, 'count', v_deleted_count);
+END;
+$$;
+
+-- =====================================================
+-- 3. ROW LEVEL SECURITY
+-- =====================================================
+
+-- Direct table access is closed; groups are read and written through the
+-- functions above
+ALTER TABLE consolidation_groups ENABLE ROW LEVEL SECURITY;
+
+-- =====================================================
+-- 4. INDEXES & TRIGGERS
+-- =====================================================
+
+CREATE INDEX IF NOT EXISTS idx_consolidation_groups_clerk_user_id ON consolidation_groups(clerk_user_id);
+
+CREATE TRIGGER update_consolidation_groups_updated_at
+  BEFORE UPDATE ON consolidation_groups
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================================================
+-- 5. GRANTS
+-- =====================================================
+
+-- Signed-in users only: the caller is taken from the Clerk JWT
+REVOKE EXECUTE ON FUNCTION get_consolidation_groups FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION save_consolidation_group FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION delete_consolidation_group FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_consolidation_groups TO authenticated;
+GRANT EXECUTE ON FUNCTION save_consolidation_group TO authenticated;
+GRANT EXECUTE ON FUNCTION delete_consolidation_group TO authenticated;
@@ -0,0 +1,119 @@
+-- =====================================================
+-- COMPANY PROFILES
+-- =====================================================
+-- The industry and size band the CPA confirmed or chose for a connected
+-- company. Reports infer both from QuickBooks until a profile is saved; a
+-- saved profile always wins. Profiles are kept on the companies row linked
+-- to the QuickBooks realm.
+
+-- =====================================================
+-- 1. COLUMNS
+-- =====================================================
+
+ALTER TABLE companies ADD COLUMN IF NOT EXISTS quickbooks_connection_id TEXT;
+ALTER TABLE companies ADD COLUMN IF NOT EXISTS size TEXT
+  CHECK (size IS NULL OR size IN ('micro', 'small', 'medium', 'large'));
+ALTER TABLE companies ADD COLUMN IF NOT EXISTS logo_url TEXT;
+ALTER TABLE companies ADD COLUMN IF NOT EXISTS profile_confirmed_by TEXT;
+ALTER TABLE companies ADD COLUMN IF NOT EXISTS profile_confirmed_at TIMESTAMP WITH TIME ZONE;
+
+-- One company row per user and realm
+CREATE UNIQUE INDEX IF NOT EXISTS idx_companies_user_realm
+  ON companies(user_id, quickbooks_connection_id);
+
+-- =====================================================
+-- 2. RPC FUNCTIONS
+-- =====================================================
+
+-- Get the saved profile for a realm; data is null until one is saved
+CREATE OR REPLACE FUNCTION get_company_profile(p_realm_id TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+STABLE
+AS $$
+DECLARE
+  v_clerk_user_id TEXT;
+BEGIN
+  v_clerk_user_id := auth.clerk_user_id();
+  
+  IF v_clerk_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+  
+  IF NOT EXISTS (
+    SELECT 1 FROM qbo_tokens
+    WHERE realm_id = p_realm_id AND clerk_user_id = v_clerk_user_id
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Access denied');
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'data', (
+      SELECT jsonb_build_object(
+        'industry', c.industry,
+        'size', c.size,
+        'confirmed_by', c.profile_confirmed_by,
+        'confirmed_at', c.profile_confirmed_at
+      )
+      FROM companies c
+      WHERE c.user_id = v_clerk_user_id
+        AND c.quickbooks_connection_id = p_realm_id
+        AND c.profile_confirmed_at IS NOT NULL
+    )
+  );
+END;
+$$;
+
+-- Confirm or override the industry and size for a realm
+CREATE OR REPLACE FUNCTION save_company_profile(
+  p_realm_id TEXT,
+  p_company_name TEXT,
+  p_industry TEXT,
+  p_size TEXT
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_clerk_user_id TEXT;
+BEGIN
+  v_clerk_user_id := auth.clerk_user_id();
+  
+  IF v_clerk_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+  
+  IF NOT EXISTS (
+    SELECT 1 FROM qbo_tokens
+    WHERE realm_id = p_realm_id AND clerk_user_id = v_clerk_user_id
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Access denied');
+  END IF;
+
+  INSERT INTO companies (
+    user_id, name, industry, size, quickbooks_connection_id, quickbooks_connected,
+    profile_confirmed_by, profile_confirmed_at
+  )
+  VALUES (v_clerk_user_id, p_company_name, p_industry, p_size, p_realm_id, TRUE, v_clerk_user_id, NOW())
+  ON CONFLICT (user_id, quickbooks_connection_id)
+  DO UPDATE SET
+    industry = EXCLUDED.industry,
+    size = EXCLUDED.size,
+    profile_confirmed_by = EXCLUDED.profile_confirmed_by,
+    profile_confirmed_at = NOW();
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- =====================================================
+-- 3. GRANTS
+-- =====================================================
+
+-- Only signed-in users, whose Clerk JWT identifies them, may call these
+REVOKE EXECUTE ON FUNCTION get_company_profile FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION save_company_profile FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_company_profile TO authenticated;
+GRANT EXECUTE ON FUNCTION save_company_profile TO authenticated;
@@ -0,0 +1,173 @@
+-- =====================================================
+-- SCENARIOS
+-- =====================================================
+-- Named sets of driver assumptions for a connected company's projections.
+-- Only the assumptions are stored; the projected statements are recomputed
+-- from the latest QuickBooks data each time a scenario is shown or reported.
+
+-- =====================================================
+-- 1. TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS scenarios (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  clerk_user_id TEXT NOT NULL,
+  realm_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  horizon_months INT NOT NULL DEFAULT 12 CHECK (horizon_months IN (12, 24)),
+  -- { revenueGrowthRate, cogsPercent, operatingExpenses: [{ category, monthlyAmount, annualGrowthRate }],
+  --   dso, dpo, monthlyCapex, capexUsefulLifeMonths, debtDraws: [{ month, amount }], interestRate, taxRate }
+  drivers JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT unique_user_realm_scenario_name UNIQUE(clerk_user_id, realm_id, name)
+);
+
+-- =====================================================
+-- 2. RPC FUNCTIONS
+-- =====================================================
+
+-- Get the user's scenarios for a realm
+CREATE OR REPLACE FUNCTION get_scenarios(p_realm_id TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+STABLE
+AS $$
+DECLARE
+  v_clerk_user_id TEXT;
+BEGIN
+  v_clerk_user_id := auth.clerk_user_id();
+  
+  IF v_clerk_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+  
+  IF NOT EXISTS (
+    SELECT 1 FROM qbo_tokens
+    WHERE realm_id = p_realm_id AND clerk_user_id = v_clerk_user_id
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Access denied');
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'data', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', s.id,
+        'name', s.name,
+        'horizon_months', s.horizon_months,
+        'drivers', s.drivers,
+        'updated_at', s.updated_at
+      ) ORDER BY s.name)
+      FROM scenarios s
+      WHERE s.clerk_user_id = v_clerk_user_id AND s.realm_id = p_realm_id
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+-- Create a scenario, or update one of the user's scenarios when p_id is given
+CREATE OR REPLACE FUNCTION save_scenario(
+  p_realm_id TEXT,
+  p_name TEXT,
+  p_horizon_months INT,
+  p_drivers JSONB,
+  p_id UUID DEFAULT NULL
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_clerk_user_id TEXT;
+  v_id UUID;
+BEGIN
+  v_clerk_user_id := auth.clerk_user_id();
+  
+  IF v_clerk_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+  
+  IF NOT EXISTS (
+    SELECT 1 FROM qbo_tokens
+    WHERE realm_id = p_realm_id AND clerk_user_id = v_clerk_user_id
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Access denied');
+  END IF;
+
+  IF p_id IS NULL THEN
+    INSERT INTO scenarios (clerk_user_id, realm_id, name, horizon_months, drivers)
+    VALUES (v_clerk_user_id, p_realm_id, p_name, p_horizon_months, p_drivers)
+    RETURNING id INTO v_id;
+  ELSE
+    UPDATE scenarios SET
+      name = p_name,
+      horizon_months = p_horizon_months,
+      drivers = p_drivers
+    WHERE id = p_id AND clerk_user_id = v_clerk_user_id AND realm_id = p_realm_id
+    RETURNING id INTO v_id;
+
+    IF v_id IS NULL THEN
+      RETURN jsonb_build_object('success', false, 'message', 'Scenario not found');
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'id', v_id);
+END;
+$$;
+
+-- Remove one of the user's scenarios
+CREATE OR REPLACE FUNCTION delete_scenario(
+  p_id UUID
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_clerk_user_id TEXT;
+  v_deleted_count INT;
+BEGIN
+  v_clerk_user_id := auth.clerk_user_id();
+  
+  IF v_clerk_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+  
+  DELETE FROM scenarios
+  WHERE id = p_id AND clerk_user_id = v_clerk_user_id;
+
+  GET DIAGNOSTICS v_deleted_count = ROW_COUNT;
+
+  RETURN jsonb_build_object('success', v_deleted_count > 0, 'count', v_deleted_count);
+END;
+$$;
+
+-- =====================================================
+-- 3. ROW LEVEL SECURITY
+-- =====================================================
+
+-- Direct table access is closed; scenarios are read and written through the
+-- functions above
+ALTER TABLE scenarios ENABLE ROW LEVEL SECURITY;
+
+-- =====================================================
+-- 4. INDEXES & TRIGGERS
+-- =====================================================
+
+CREATE INDEX IF NOT EXISTS idx_scenarios_user_realm ON scenarios(clerk_user_id, realm_id);
+
+CREATE TRIGGER update_scenarios_updated_at
+  BEFORE UPDATE ON scenarios
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================================================
+-- 5. GRANTS
+-- =====================================================
+
+-- The functions take the caller from the Clerk JWT; anonymous callers have none
+REVOKE EXECUTE ON FUNCTION get_scenarios FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION save_scenario FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION delete_scenario FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_scenarios TO authenticated;
+GRANT EXECUTE ON FUNCTION save_scenario TO authenticated;
+GRANT EXECUTE ON FUNCTION delete_scenario TO authenticated;